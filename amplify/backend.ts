@@ -6,7 +6,8 @@ import { data } from './data/resource';
  * 
  * This backend provides:
  * - DynamoDB tables for orders and payment status
- * - API Key authentication for public access
+ * - API Key access to orders and payment status; the other tables are
+ *   IAM-only (see data/resource.ts)
  * 
  * The Next.js API routes handle business logic using:
  * - WalletConnect for QR code generation
@@ -1,32 +1,101 @@
 import { type ClientSchema, a, defineData } from '@aws-amplify/backend';
 
+/**
+ * Payment lifecycle states (must match PaymentStatus in src/lib/types.ts)
+ */
+const PAYMENT_STATUSES = [
+  'pending',
+  'scanning',
+  'authorizing',
+  'processing',
+  'confirming',
+  'reorged',
+  'completed',
+  'partially_paid',
+  'underpaid',
+  'overpaid',
+  'partially_refunded',
+  'refunded',
+  'failed',
+  'expired',
+  'cancelled',
+] as const;
+
 /**
  * SablePay Data Schema
  * 
  * Defines DynamoDB tables for:
  * - Orders: Store order information from merchant POS
  * - PaymentStatus: Track payment progress through the flow
+ * - ConsumedTransfer: Transfers already attributed to an order
+ * - DepositAddressClaim: Deposit pool addresses held by open orders
+ * - PaymentAmountClaim: Payment amounts held by open orders, per address
+ * - WebhookEvent: Received webhook deliveries (dedupe + audit)
+ * - Merchant: Stores, their wallet addresses and order defaults
+ * - ApiKey: Hashed merchant API keys
+ * - Refund: Refunds of order payments
+ *
+ * Transfer, deposit address and payment amount claims, webhook payloads,
+ * merchants, API key hashes and refunds are server-only: they allow IAM
+ * principals (the identityPool rule; there is no identity pool, so only
+ * roles granted access by IAM policy, like the SSR compute role), never
+ * the public API key.
  */
 const schema = a.schema({
+  // Fiat amount as integer minor units (see src/lib/money.ts)
+  Money: a.customType({
+    minorUnits: a.integer().required(),
+    currency: a.string().required(),
+  }),
+
+  // Exchange rate locked on an order at creation (see src/lib/fx)
+  FxQuote: a.customType({
+    fromCurrency: a.string().required(),
+    toCurrency: a.string().required(),
+    rate: a.string().required(),
+    source: a.string().required(),
+    rateTimestamp: a.string().required(),
+    quotedAt: a.datetime().required(),
+    amount: a.ref('Money').required(),
+  }),
+
   // Orders table - stores merchant orders
   Order: a
     .model({
       orderId: a.id().required(),
-      amount: a.float().required(),
-      currency: a.string().default('USD'),
+      merchantId: a.string().default('default'),
+      amount: a.ref('Money').required(),
+      fxQuote: a.ref('FxQuote'),
+      paymentAmount: a.string().required(),
+      dustUnits: a.integer(),
+      amountReceivedUnits: a.integer(),
+      amountDueUnits: a.integer(),
       stablecoin: a.string().default('USDC'),
       networkId: a.string().required(),
+      environment: a.string().default('mainnet'),
       merchantWalletAddress: a.string().required(),
-      status: a.enum(['pending', 'scanning', 'processing', 'completed', 'failed', 'expired']),
+      receivingAddresses: a.json(),
+      depositAddress: a.string(),
+      status: a.enum(PAYMENT_STATUSES),
       description: a.string(),
+      items: a.json(),
       createdAt: a.datetime().required(),
       updatedAt: a.datetime().required(),
       expiresAt: a.datetime().required(),
       transactionHash: a.string(),
       meshTransferId: a.string(),
+      scanCursors: a.json(),
+      cancelledAt: a.datetime(),
+      cancellationReason: a.string(),
       ttl: a.integer(),
     })
     .identifier(['orderId'])
+    // Order history: a merchant's orders, newest first
+    // Background jobs: open orders by status
+    .secondaryIndexes((index) => [
+      index('merchantId').sortKeys(['createdAt']).name('ordersByMerchant'),
+      index('status').sortKeys(['createdAt']).name('ordersByStatus'),
+    ])
     .authorization((allow) => [
       allow.publicApiKey().to(['create', 'read', 'update', 'delete']),
     ]),
@@ -35,13 +104,26 @@ const schema = a.schema({
   PaymentStatus: a
     .model({
       orderId: a.id().required(),
-      status: a.enum(['pending', 'scanning', 'processing', 'completed', 'failed', 'expired']),
+      status: a.enum(PAYMENT_STATUSES),
       updatedAt: a.datetime().required(),
       statusHistory: a.json(),
       transactionHash: a.string(),
+      logIndex: a.integer(),
       blockNumber: a.integer(),
+      blockHash: a.string(),
+      confirmations: a.integer(),
+      requiredConfirmations: a.integer(),
+      refundReview: a.boolean(),
       senderAddress: a.string(),
+      refundAddress: a.string(),
       amountReceived: a.string(),
+      transfers: a.json(),
+      amountRefunded: a.string(),
+      refundCount: a.integer(),
+      expectedAmount: a.string(),
+      networkId: a.string(),
+      stablecoin: a.string(),
+      amount: a.float(),
       errorMessage: a.string(),
       errorCode: a.string(),
       meshTransferId: a.string(),
@@ -49,9 +131,132 @@ const schema = a.schema({
       ttl: a.integer(),
     })
     .identifier(['orderId'])
+    // Background jobs: payments in a status, most recently updated last
+    .secondaryIndexes((index) => [
+      index('status').sortKeys(['updatedAt']).name('paymentStatusesByStatus'),
+    ])
     .authorization((allow) => [
       allow.publicApiKey().to(['create', 'read', 'update', 'delete']),
     ]),
+
+  // Consumed Transfer table - one row per transfer that settled an order
+  // Key: network:txhash:logIndex, so a transfer can settle only one order
+  ConsumedTransfer: a
+    .model({
+      transferKey: a.id().required(),
+      networkId: a.string().required(),
+      transactionHash: a.string().required(),
+      logIndex: a.integer(),
+      orderId: a.string().required(),
+      consumedAt: a.datetime().required(),
+    })
+    .identifier(['transferKey'])
+    // Order history search by transaction hash
+    .secondaryIndexes((index) => [
+      index('transactionHash').name('consumedTransfersByTransactionHash'),
+    ])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // Deposit Address Claim table - one row per deposit pool address held
+  // by an open order, so an address is given to only one order at a time
+  DepositAddressClaim: a
+    .model({
+      address: a.id().required(),
+      merchantId: a.string().required(),
+      orderId: a.string().required(),
+      claimedAt: a.datetime().required(),
+    })
+    .identifier(['address'])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // Payment Amount Claim table - one row per address an open order is
+  // paid to, so no two open orders at an address share a payment amount
+  // Key: address:paymentAmount
+  PaymentAmountClaim: a
+    .model({
+      claimKey: a.id().required(),
+      address: a.string().required(),
+      paymentAmount: a.string().required(),
+      merchantId: a.string().required(),
+      orderId: a.string().required(),
+      claimedAt: a.datetime().required(),
+    })
+    .identifier(['claimKey'])
+    // Open orders paid to an address (webhook matching)
+    .secondaryIndexes((index) => [
+      index('address').name('paymentAmountClaimsByAddress'),
+    ])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // Webhook Event table - one row per provider event ID
+  // Key: source:eventId, so retried deliveries are processed once
+  WebhookEvent: a
+    .model({
+      eventKey: a.id().required(),
+      source: a.string().required(),
+      eventId: a.string().required(),
+      status: a.enum(['received', 'processed', 'failed']),
+      payload: a.string().required(),
+      deliveries: a.integer().required(),
+      receivedAt: a.datetime().required(),
+      processedAt: a.datetime(),
+      error: a.string(),
+    })
+    .identifier(['eventKey'])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // Merchant table - one row per store
+  Merchant: a
+    .model({
+      merchantId: a.id().required(),
+      name: a.string().required(),
+      walletAddresses: a.string().array().required(),
+      networkAddresses: a.json(),
+      depositAddresses: a.string().array(),
+      defaults: a.json(),
+      createdAt: a.datetime().required(),
+      updatedAt: a.datetime().required(),
+    })
+    .identifier(['merchantId'])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // API Key table - merchant API keys (SHA-256 of the secret, never the key)
+  ApiKey: a
+    .model({
+      keyId: a.id().required(),
+      merchantId: a.string().required(),
+      name: a.string().required(),
+      secretHash: a.string().required(),
+      createdAt: a.datetime().required(),
+      revokedAt: a.datetime(),
+    })
+    .identifier(['keyId'])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
+
+  // Refund table - refunds of (part of) an order's payment
+  Refund: a
+    .model({
+      refundId: a.id().required(),
+      orderId: a.string().required(),
+      status: a.enum(['pending', 'completed', 'expired']),
+      amount: a.string().required(),
+      stablecoin: a.string().required(),
+      networkId: a.string().required(),
+      fromAddress: a.string().required(),
+      toAddress: a.string().required(),
+      paymentUrl: a.string().required(),
+      reason: a.string(),
+      scanCursor: a.json(),
+      transactionHash: a.string(),
+      logIndex: a.integer(),
+      blockNumber: a.integer(),
+      createdAt: a.datetime().required(),
+      updatedAt: a.datetime().required(),
+      completedAt: a.datetime(),
+      expiredAt: a.datetime(),
+    })
+    .identifier(['refundId'])
+    .authorization((allow) => [allow.authenticated('identityPool')]),
 });
 
 export type Schema = ClientSchema<typeof schema>;
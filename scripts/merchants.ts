@@ -0,0 +1,226 @@
+/**
+ * ===========================================
+ * Merchant Administration
+ * ===========================================
+ *
+ * Creates merchants and manages their API keys in the configured storage
+ * backend (see src/lib/merchants.ts).
+ *
+ * Usage:
+ *   npm run merchants -- list
+ *   npm run merchants -- create --name "Harbor Cafe" --wallet 0x... [--wallet 0x...]
+ *                               [--network-address ethereum=0x...] [--deposit 0x...]
+ *                               [--network base] [--stablecoin USDC] [--currency EUR]
+ *   npm run merchants -- update <merchantId> [--name ...] [--wallet ...] [--network-address ...]
+ *                               [--deposit ...] [--network ...] [--stablecoin ...] [--currency ...]
+ *   npm run merchants -- keys <merchantId>
+ *   npm run merchants -- issue-key <merchantId> [--name "Front counter"]
+ *   npm run merchants -- revoke-key <keyId>
+ *
+ * The first --wallet receives new orders, except on networks with a
+ * --network-address. Each --deposit adds an address to the merchant's
+ * deposit pool (one address per open order). On update, any of these
+ * options replaces the whole list. Issued keys are printed once; only
+ * their hash is stored.
+ *
+ * Run it against the app's storage:
+ *   STORAGE_BACKEND=file (same STORAGE_FILE_PATH) or STORAGE_BACKEND=dynamodb
+ */
+
+import { getStorage } from "../src/lib/storage";
+import { getApiKeysByMerchant } from "../src/lib/dynamo";
+import {
+  createMerchant,
+  findMerchant,
+  issueApiKey,
+  listMerchants,
+  revokeApiKey,
+  updateMerchant,
+} from "../src/lib/merchants";
+import { NETWORK_KEYS, STABLECOINS } from "../src/lib/chains";
+import type { MerchantDefaults, NetworkId, StablecoinSymbol } from "../src/lib/types";
+
+// ===========================================
+// Argument Parsing
+// ===========================================
+
+interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string[]>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string[]>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--")) {
+      const value = argv[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options.set(arg.slice(2), [...(options.get(arg.slice(2)) || []), value]);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, options };
+}
+
+function getOption(args: ParsedArgs, name: string): string | undefined {
+  return args.options.get(name)?.[0];
+}
+
+/**
+ * Read --network / --stablecoin / --currency
+ */
+function parseDefaults(args: ParsedArgs): MerchantDefaults | undefined {
+  const networkId = getOption(args, "network");
+  const stablecoin = getOption(args, "stablecoin");
+  const currency = getOption(args, "currency");
+
+  if (networkId && !(NETWORK_KEYS as readonly string[]).includes(networkId)) {
+    throw new Error(`Unknown network "${networkId}" (one of: ${NETWORK_KEYS.join(", ")})`);
+  }
+  if (stablecoin && !Object.prototype.hasOwnProperty.call(STABLECOINS, stablecoin)) {
+    throw new Error(`Unknown stablecoin "${stablecoin}" (one of: ${Object.keys(STABLECOINS).join(", ")})`);
+  }
+  if (currency && !/^[A-Z]{3}$/.test(currency)) {
+    throw new Error(`Currency must be an ISO 4217 code, got "${currency}"`);
+  }
+
+  if (!networkId && !stablecoin && !currency) {
+    return undefined;
+  }
+  return {
+    networkId: networkId as NetworkId | undefined,
+    stablecoin: stablecoin as StablecoinSymbol | undefined,
+    currency,
+  };
+}
+
+/**
+ * Read --network-address <network>=<address> options
+ */
+function parseNetworkAddresses(args: ParsedArgs): Record<string, string> | undefined {
+  const entries = args.options.get("network-address");
+  if (!entries) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    entries.map((entry) => {
+      const [networkId, address] = entry.split("=");
+      if (!networkId || !address) {
+        throw new Error(`Expected --network-address <network>=<address>, got "${entry}"`);
+      }
+      return [networkId, address];
+    })
+  );
+}
+
+function requireArg(value: string | undefined, usage: string): string {
+  if (!value) {
+    throw new Error(`Usage: npm run merchants -- ${usage}`);
+  }
+  return value;
+}
+
+// ===========================================
+// Commands
+// ===========================================
+
+async function run(args: ParsedArgs): Promise<void> {
+  const [command, target] = args.positional;
+
+  switch (command) {
+    case "list": {
+      for (const merchant of await listMerchants()) {
+        console.log(`${merchant.merchantId}  ${merchant.name}  ${merchant.walletAddresses.join(", ")}`);
+        for (const [networkId, address] of Object.entries(merchant.networkAddresses || {})) {
+          console.log(`  ${networkId}: ${address}`);
+        }
+        if (merchant.depositAddresses?.length) {
+          console.log(`  deposit pool: ${merchant.depositAddresses.join(", ")}`);
+        }
+      }
+      return;
+    }
+
+    case "create": {
+      const merchant = await createMerchant({
+        name: requireArg(getOption(args, "name"), 'create --name "..." --wallet 0x...'),
+        walletAddresses: args.options.get("wallet") || [],
+        networkAddresses: parseNetworkAddresses(args),
+        depositAddresses: args.options.get("deposit"),
+        defaults: parseDefaults(args),
+      });
+      console.log("Created merchant:", merchant);
+      return;
+    }
+
+    case "update": {
+      const merchantId = requireArg(target, "update <merchantId> [--name ...] [--wallet ...]");
+      const existing = await findMerchant(merchantId);
+      const defaults = parseDefaults(args);
+      const merchant = await updateMerchant(merchantId, {
+        name: getOption(args, "name") ?? existing?.name,
+        walletAddresses: args.options.get("wallet"),
+        networkAddresses: parseNetworkAddresses(args),
+        depositAddresses: args.options.get("deposit"),
+        defaults: defaults ? { ...existing?.defaults, ...defaults } : existing?.defaults,
+      });
+      console.log("Updated merchant:", merchant);
+      return;
+    }
+
+    case "keys": {
+      const merchantId = requireArg(target, "keys <merchantId>");
+      for (const key of await getApiKeysByMerchant(merchantId)) {
+        const state = key.revokedAt ? `revoked ${key.revokedAt}` : "active";
+        console.log(`${key.keyId}  ${key.name}  created ${key.createdAt}  ${state}`);
+      }
+      return;
+    }
+
+    case "issue-key": {
+      const merchantId = requireArg(target, 'issue-key <merchantId> [--name "..."]');
+      const { apiKey, key } = await issueApiKey(merchantId, getOption(args, "name") || "POS");
+      console.log(`Issued key ${key.keyId} for merchant ${merchantId}.`);
+      console.log("Store it now, it won't be shown again:");
+      console.log(apiKey);
+      return;
+    }
+
+    case "revoke-key": {
+      const key = await revokeApiKey(requireArg(target, "revoke-key <keyId>"));
+      console.log(`Revoked key ${key.keyId} (merchant ${key.merchantId})`);
+      return;
+    }
+
+    default:
+      throw new Error(
+        "Usage: npm run merchants -- <list | create | update | keys | issue-key | revoke-key> ..."
+      );
+  }
+}
+
+// ===========================================
+// Main
+// ===========================================
+
+async function main(): Promise<void> {
+  if (getStorage().backend === "memory") {
+    console.warn(
+      "[Merchants] Using in-memory storage: changes are lost when this process exits. Set STORAGE_BACKEND=file or dynamodb."
+    );
+  }
+
+  await run(parseArgs(process.argv.slice(2)));
+}
+
+main().catch((error) => {
+  console.error(`[Merchants] ${(error as Error).message}`);
+  process.exit(1);
+});
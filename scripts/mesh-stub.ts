@@ -0,0 +1,330 @@
+/**
+ * ===========================================
+ * Local Mesh Stand-in Server
+ * ===========================================
+ *
+ * Minimal imitation of the Mesh integration API for exercising the
+ * exchange payment flow without Mesh credentials:
+ *
+ * 1. generate-qr mints a link token    POST /api/v1/linktoken
+ * 2. The POS shows the decoded URL     GET  /link/:id
+ * 3. "Approve" or "Decline" there      POST /link/:id/complete
+ * 4. The stub signs and sends a Mesh-shaped webhook to the app
+ *
+ * The transfer endpoints used by lib/mesh.ts (preview, execute, status,
+ * managed networks) are answered from the same in-memory sessions.
+ *
+ * Usage:
+ *   npm run mesh:stub
+ *
+ * and point the app at it:
+ *   MESH_API_URL=http://localhost:4010
+ *   MESH_CLIENT_ID=stub MESH_CLIENT_SECRET=stub
+ *
+ * Environment:
+ * - MESH_STUB_PORT       Port to listen on (default: 4010)
+ * - MESH_STUB_BASE_URL   Public base URL for link pages (default: http://localhost:PORT)
+ * - MESH_STUB_WEBHOOK_URL  Where to deliver webhooks (default: http://localhost:3000/api/webhooks/mesh)
+ * - MESH_WEBHOOK_SECRET  Signs webhooks (X-Mesh-Signature-256) when set
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { MESH_NETWORK_IDS } from "../src/lib/mesh";
+import type {
+  MeshLinkTokenRequest,
+  MeshTransferAddress,
+  MeshTransferRequest,
+} from "../src/lib/types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+const PORT = parseInt(process.env.MESH_STUB_PORT || "4010", 10);
+const BASE_URL = process.env.MESH_STUB_BASE_URL || `http://localhost:${PORT}`;
+const WEBHOOK_URL =
+  process.env.MESH_STUB_WEBHOOK_URL || "http://localhost:3000/api/webhooks/mesh";
+const WEBHOOK_SECRET = process.env.MESH_WEBHOOK_SECRET;
+
+// ===========================================
+// Sessions
+// ===========================================
+
+interface LinkSession {
+  id: string;
+  userId: string;
+  amountInFiat: number;
+  toAddresses: MeshTransferAddress[];
+  status: "pending" | "succeeded" | "failed";
+  transferId?: string;
+  txHash?: string;
+}
+
+interface StubTransfer {
+  transferId: string;
+  status: "pending" | "completed" | "failed";
+  transactionHash?: string;
+  toAddress: string;
+  amount: string;
+  symbol: string;
+}
+
+const sessions = new Map<string, LinkSession>();
+const transfers = new Map<string, StubTransfer>();
+
+// ===========================================
+// Helpers
+// ===========================================
+
+function randomTxHash(): string {
+  return `0x${crypto.randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * Map a Mesh network UUID back to our chain name
+ */
+function getChainName(meshNetworkId: string): string {
+  const entry = Object.entries(MESH_NETWORK_IDS).find(([, id]) => id === meshNetworkId);
+  return entry ? entry[0] : meshNetworkId;
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function sendHtml(response: http.ServerResponse, status: number, html: string): void {
+  response.writeHead(status, { "Content-Type": "text/html; charset=utf-8" });
+  response.end(html);
+}
+
+/**
+ * Mirror Mesh's auth check: both client headers must be present
+ */
+function isAuthorized(request: http.IncomingMessage): boolean {
+  return Boolean(request.headers["x-client-id"] && request.headers["x-client-secret"]);
+}
+
+// ===========================================
+// Webhook Delivery
+// ===========================================
+
+/**
+ * Send a Mesh-shaped transfer webhook for a completed link session
+ */
+async function deliverWebhook(
+  session: LinkSession,
+  destination: MeshTransferAddress
+): Promise<number> {
+  const now = Date.now();
+  const payload = {
+    Id: crypto.randomUUID(),
+    EventId: crypto.randomUUID(),
+    SentTimestamp: now,
+    UserId: session.userId,
+    TransactionId: session.id,
+    TransferId: session.transferId,
+    TransferStatus: session.status,
+    TxHash: session.txHash,
+    Chain: getChainName(destination.networkId),
+    Token: destination.symbol,
+    DestinationAddress: destination.address,
+    SourceAccountProvider: "MeshStub",
+    SourceAmount: session.amountInFiat,
+    DestinationAmount: session.amountInFiat,
+    Timestamp: now,
+  };
+  const body = JSON.stringify(payload);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (WEBHOOK_SECRET) {
+    headers["X-Mesh-Signature-256"] = crypto
+      .createHmac("sha256", WEBHOOK_SECRET)
+      .update(body)
+      .digest("base64");
+  }
+
+  const response = await fetch(WEBHOOK_URL, { method: "POST", headers, body });
+  console.log(`[Mesh Stub] Webhook ${payload.TransferStatus} for ${session.userId} -> ${response.status}`);
+  return response.status;
+}
+
+// ===========================================
+// Link Page
+// ===========================================
+
+function renderLinkPage(session: LinkSession): string {
+  const options = session.toAddresses
+    .map(
+      (address, index) =>
+        `<option value="${index}">${address.symbol} on ${getChainName(address.networkId)}</option>`
+    )
+    .join("");
+
+  const body =
+    session.status === "pending"
+      ? `<form method="post" action="/link/${session.id}/complete">
+          <p><select name="destination">${options}</select></p>
+          <button name="outcome" value="succeeded">Approve</button>
+          <button name="outcome" value="failed">Decline</button>
+        </form>`
+      : `<p>Transfer ${session.status}${session.txHash ? `: <code>${session.txHash}</code>` : ""}</p>`;
+
+  return `<!doctype html>
+<html>
+  <head><title>Mesh Stub</title></head>
+  <body style="font-family: sans-serif; max-width: 28rem; margin: 3rem auto;">
+    <h1>Mesh Stub</h1>
+    <p>Pay <strong>$${session.amountInFiat}</strong> for <code>${session.userId}</code></p>
+    ${body}
+  </body>
+</html>`;
+}
+
+// ===========================================
+// Routes
+// ===========================================
+
+async function handleRequest(
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): Promise<void> {
+  const url = new URL(request.url || "/", BASE_URL);
+  const method = request.method || "GET";
+  console.log(`[Mesh Stub] ${method} ${url.pathname}`);
+
+  // ----- Link tokens -----
+  if (method === "POST" && url.pathname === "/api/v1/linktoken") {
+    if (!isAuthorized(request)) {
+      return sendJson(response, 401, { status: "permissionDenied", message: "Missing client credentials" });
+    }
+    const linkRequest: MeshLinkTokenRequest = JSON.parse(await readBody(request));
+    if (!linkRequest.userId || !linkRequest.transferOptions?.toAddresses?.length) {
+      return sendJson(response, 400, { status: "badRequest", message: "userId and toAddresses are required" });
+    }
+
+    const session: LinkSession = {
+      id: crypto.randomUUID(),
+      userId: linkRequest.userId,
+      amountInFiat: linkRequest.transferOptions.amountInFiat,
+      toAddresses: linkRequest.transferOptions.toAddresses,
+      status: "pending",
+    };
+    sessions.set(session.id, session);
+
+    const linkToken = Buffer.from(`${BASE_URL}/link/${session.id}`).toString("base64");
+    return sendJson(response, 200, { status: "ok", content: { linkToken } });
+  }
+
+  // ----- Link page -----
+  const linkMatch = url.pathname.match(/^\/link\/([^/]+)(\/complete)?$/);
+  if (linkMatch) {
+    const session = sessions.get(linkMatch[1]);
+    if (!session) {
+      return sendHtml(response, 404, "<p>Unknown link session</p>");
+    }
+
+    if (method === "GET" && !linkMatch[2]) {
+      return sendHtml(response, 200, renderLinkPage(session));
+    }
+
+    if (method === "POST" && linkMatch[2]) {
+      if (session.status !== "pending") {
+        return sendHtml(response, 409, renderLinkPage(session));
+      }
+      const form = new URLSearchParams(await readBody(request));
+      const destination =
+        session.toAddresses[parseInt(form.get("destination") || "0", 10)] ||
+        session.toAddresses[0];
+
+      session.status = form.get("outcome") === "failed" ? "failed" : "succeeded";
+      session.transferId = crypto.randomUUID();
+      session.txHash = session.status === "succeeded" ? randomTxHash() : undefined;
+      transfers.set(session.transferId, {
+        transferId: session.transferId,
+        status: session.status === "succeeded" ? "completed" : "failed",
+        transactionHash: session.txHash,
+        toAddress: destination.address,
+        amount: session.amountInFiat.toString(),
+        symbol: destination.symbol,
+      });
+
+      try {
+        await deliverWebhook(session, destination);
+      } catch (error) {
+        console.error("[Mesh Stub] Webhook delivery failed:", error);
+      }
+      return sendHtml(response, 200, renderLinkPage(session));
+    }
+  }
+
+  // ----- Transfers -----
+  if (url.pathname.startsWith("/api/v1/transfers") && !isAuthorized(request)) {
+    return sendJson(response, 401, { status: "permissionDenied", message: "Missing client credentials" });
+  }
+
+  if (method === "GET" && url.pathname === "/api/v1/transfers/managed/networks") {
+    return sendJson(response, 200, {
+      status: "ok",
+      content: Object.entries(MESH_NETWORK_IDS).map(([name, id]) => ({ id, name })),
+    });
+  }
+
+  if (method === "POST" && url.pathname === "/api/v1/transfers/preview") {
+    const params: MeshTransferRequest = JSON.parse(await readBody(request));
+    return sendJson(response, 200, {
+      status: "ok",
+      content: { amount: params.amount, fee: "0", total: params.amount },
+    });
+  }
+
+  if (method === "POST" && url.pathname === "/api/v1/transfers/execute") {
+    const params: MeshTransferRequest = JSON.parse(await readBody(request));
+    const transfer: StubTransfer = {
+      transferId: crypto.randomUUID(),
+      status: "completed",
+      transactionHash: randomTxHash(),
+      toAddress: params.toAddress,
+      amount: params.amount,
+      symbol: params.symbol,
+    };
+    transfers.set(transfer.transferId, transfer);
+    return sendJson(response, 200, { status: "ok", content: transfer });
+  }
+
+  const transferMatch = url.pathname.match(/^\/api\/v1\/transfers\/([^/]+)$/);
+  if (method === "GET" && transferMatch) {
+    const transfer = transfers.get(transferMatch[1]);
+    if (!transfer) {
+      return sendJson(response, 404, { status: "notFound", message: "Transfer not found" });
+    }
+    return sendJson(response, 200, { status: "ok", content: transfer });
+  }
+
+  sendJson(response, 404, { status: "notFound", message: `No stub for ${method} ${url.pathname}` });
+}
+
+// ===========================================
+// Server
+// ===========================================
+
+const server = http.createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error("[Mesh Stub] Request failed:", error);
+    sendJson(response, 500, { status: "serverFailure", message: String(error) });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[Mesh Stub] Listening on ${BASE_URL}`);
+  console.log(`[Mesh Stub] Webhooks -> ${WEBHOOK_URL}${WEBHOOK_SECRET ? " (signed)" : ""}`);
+});
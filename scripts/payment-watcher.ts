@@ -0,0 +1,66 @@
+/**
+ * ===========================================
+ * Standalone Payment Watcher
+ * ===========================================
+ *
+ * Runs the background payment watcher (src/lib/watcher.ts) as its own
+ * Node process, next to (or instead of) POS polling.
+ *
+ * Usage:
+ *   npm run watcher            # run cycles until interrupted
+ *   npm run watcher -- --once  # run one cycle, print the summary, exit
+ *
+ * The watcher reads and writes orders through the configured storage
+ * backend, so it must share storage with the app:
+ *   STORAGE_BACKEND=file (same STORAGE_FILE_PATH) or STORAGE_BACKEND=dynamodb
+ *
+ * Environment:
+ * - WATCHER_INTERVAL_MS  Delay between cycles (default: 10000)
+ * - *_RPC_URL            Per-network RPC endpoints, e.g. POLYGON_RPC_URL
+ *                        (see scripts/rpc-stub.ts for a local chain)
+ */
+
+import { getStorage } from "../src/lib/storage";
+import {
+  DEFAULT_WATCHER_INTERVAL_MS,
+  runWatcherCycle,
+  startWatcher,
+} from "../src/lib/watcher";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+const INTERVAL_MS = parseInt(
+  process.env.WATCHER_INTERVAL_MS || String(DEFAULT_WATCHER_INTERVAL_MS),
+  10
+);
+const RUN_ONCE = process.argv.includes("--once");
+
+// ===========================================
+// Main
+// ===========================================
+
+async function main(): Promise<void> {
+  if (getStorage().backend === "memory") {
+    console.warn(
+      "[Watcher] Using in-memory storage: this process won't see the app's orders. Set STORAGE_BACKEND=file or dynamodb."
+    );
+  }
+
+  if (RUN_ONCE) {
+    const summary = await runWatcherCycle();
+    console.log("[Watcher] Cycle complete:", summary);
+    return;
+  }
+
+  const watcher = startWatcher(INTERVAL_MS);
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.once(signal, () => watcher.stop());
+  }
+}
+
+main().catch((error) => {
+  console.error("[Watcher] Fatal error:", error);
+  process.exit(1);
+});
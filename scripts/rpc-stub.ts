@@ -0,0 +1,371 @@
+/**
+ * ===========================================
+ * Local JSON-RPC Chain Stand-in
+ * ===========================================
+ *
+ * Minimal EVM JSON-RPC server for exercising on-chain payment detection
+ * (check-status, the payment watcher, reorg checks) without a real chain.
+ * Every supported network gets its own chain under /:network, which mines
+ * an empty block every RPC_STUB_BLOCK_TIME_MS.
+ *
+ * JSON-RPC (POST /:network, single requests or batches):
+ *   eth_chainId, eth_blockNumber, eth_getLogs, eth_getBlockByNumber,
+ *   eth_getTransactionReceipt
+ *
+ * Test controls:
+ *   POST /:network/transfer  { to, amount, token?, from? }
+ *        Mines a block with an ERC20 Transfer of `amount` (decimal string)
+ *        of `token` (default USDC) to `to`
+ *   POST /:network/mine      { blocks? }   Mine empty blocks
+ *   POST /:network/reorg     { depth? }    Replace the last blocks with
+ *                                          empty ones (transfers dropped)
+ *
+ * Usage:
+ *   npm run rpc:stub
+ *
+ * and point the app (and watcher) at it:
+ *   POLYGON_RPC_URL=http://localhost:8545/polygon
+ *
+ * With NEXT_PUBLIC_TESTNET_MODE=true the chains use testnet chain IDs and
+ * test USDC contracts; point POLYGON_TESTNET_RPC_URL at the stub instead.
+ *
+ * Environment:
+ * - RPC_STUB_PORT         Port to listen on (default: 8545)
+ * - RPC_STUB_BLOCK_TIME_MS  Block interval (default: 2000, 0 disables)
+ * - RPC_STUB_START_BLOCK  Height of every chain at startup (default: 1000)
+ */
+
+import crypto from "crypto";
+import http from "http";
+import { CHAINS } from "../src/lib/chains";
+import { getToken } from "../src/lib/tokens";
+import { toTokenUnits } from "../src/lib/reconciliation";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+const PORT = parseInt(process.env.RPC_STUB_PORT || "8545", 10);
+const BLOCK_TIME_MS = parseInt(process.env.RPC_STUB_BLOCK_TIME_MS || "2000", 10);
+const START_BLOCK = parseInt(process.env.RPC_STUB_START_BLOCK || "1000", 10);
+
+const TRANSFER_EVENT_SIGNATURE = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+const DEFAULT_SENDER = "0x000000000000000000000000000000000000c0de";
+
+// ===========================================
+// Chains
+// ===========================================
+
+interface StubLog {
+  address: string;
+  topics: string[];
+  data: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface StubBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  logs: StubLog[];
+}
+
+interface StubChain {
+  networkId: string;
+  chainId: number;
+  blocks: StubBlock[];
+  /** Bumped on every reorg so replaced blocks get new hashes */
+  epoch: number;
+}
+
+const chains = new Map<string, StubChain>();
+
+function hashOf(...parts: Array<string | number>): string {
+  return `0x${crypto.createHash("sha256").update(parts.join(":")).digest("hex")}`;
+}
+
+function toHex(value: number | bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+function padTopic(address: string): string {
+  return `0x${address.toLowerCase().replace("0x", "").padStart(64, "0")}`;
+}
+
+function getHead(chain: StubChain): StubBlock {
+  return chain.blocks[chain.blocks.length - 1];
+}
+
+function mineBlock(chain: StubChain, logs: StubLog[] = []): StubBlock {
+  const parent = chain.blocks.length > 0 ? getHead(chain) : undefined;
+  const number = parent ? parent.number + 1 : START_BLOCK;
+  const block: StubBlock = {
+    number,
+    hash: hashOf(chain.networkId, number, chain.epoch),
+    parentHash: parent?.hash || hashOf(chain.networkId, "genesis"),
+    timestamp: Math.floor(Date.now() / 1000),
+    logs,
+  };
+  chain.blocks.push(block);
+  return block;
+}
+
+for (const network of Object.values(CHAINS)) {
+  const chain: StubChain = { networkId: network.id, chainId: network.chainId, blocks: [], epoch: 0 };
+  mineBlock(chain);
+  chains.set(network.id, chain);
+}
+
+// ===========================================
+// JSON-RPC Methods
+// ===========================================
+
+interface LogFilter {
+  fromBlock?: string;
+  toBlock?: string;
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+}
+
+function parseBlockTag(chain: StubChain, tag: string | undefined): number {
+  if (!tag || tag === "latest" || tag === "safe" || tag === "finalized") {
+    return getHead(chain).number;
+  }
+  if (tag === "earliest") {
+    return chain.blocks[0].number;
+  }
+  return parseInt(tag, 16);
+}
+
+function getBlock(chain: StubChain, number: number): StubBlock | undefined {
+  return chain.blocks[number - chain.blocks[0].number];
+}
+
+function formatLog(block: StubBlock, log: StubLog) {
+  return {
+    address: log.address,
+    topics: log.topics,
+    data: log.data,
+    blockNumber: toHex(block.number),
+    blockHash: block.hash,
+    transactionHash: log.transactionHash,
+    transactionIndex: toHex(log.logIndex),
+    logIndex: toHex(log.logIndex),
+    removed: false,
+  };
+}
+
+function getLogs(chain: StubChain, filter: LogFilter) {
+  const from = parseBlockTag(chain, filter.fromBlock);
+  const to = parseBlockTag(chain, filter.toBlock);
+  const addresses = filter.address
+    ? [filter.address].flat().map((address) => address.toLowerCase())
+    : null;
+
+  const matchesTopics = (log: StubLog) =>
+    (filter.topics || []).every((topic, i) => {
+      if (topic === null) return true;
+      const accepted = [topic].flat().map((value) => value.toLowerCase());
+      return accepted.includes(log.topics[i]?.toLowerCase());
+    });
+
+  return chain.blocks
+    .filter((block) => block.number >= from && block.number <= to)
+    .flatMap((block) =>
+      block.logs
+        .filter((log) => (!addresses || addresses.includes(log.address.toLowerCase())) && matchesTopics(log))
+        .map((log) => formatLog(block, log))
+    );
+}
+
+function getReceipt(chain: StubChain, transactionHash: string) {
+  for (const block of chain.blocks) {
+    const logs = block.logs.filter(
+      (log) => log.transactionHash.toLowerCase() === transactionHash.toLowerCase()
+    );
+    if (logs.length > 0) {
+      return {
+        transactionHash,
+        blockNumber: toHex(block.number),
+        blockHash: block.hash,
+        status: "0x1",
+        logs: logs.map((log) => formatLog(block, log)),
+      };
+    }
+  }
+  return null;
+}
+
+function callMethod(chain: StubChain, method: string, params: unknown[]): unknown {
+  switch (method) {
+    case "eth_chainId":
+      return toHex(chain.chainId);
+    case "eth_blockNumber":
+      return toHex(getHead(chain).number);
+    case "eth_getLogs":
+      return getLogs(chain, (params[0] || {}) as LogFilter);
+    case "eth_getBlockByNumber": {
+      const block = getBlock(chain, parseBlockTag(chain, params[0] as string));
+      return block
+        ? {
+            number: toHex(block.number),
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: toHex(block.timestamp),
+            transactions: [...new Set(block.logs.map((log) => log.transactionHash))],
+          }
+        : null;
+    }
+    case "eth_getTransactionReceipt":
+      return getReceipt(chain, params[0] as string);
+    default:
+      throw Object.assign(new Error(`Method ${method} not supported by stub`), { code: -32601 });
+  }
+}
+
+interface RpcRequest {
+  jsonrpc: string;
+  id: number | string | null;
+  method: string;
+  params?: unknown[];
+}
+
+function handleRpc(chain: StubChain, request: RpcRequest) {
+  try {
+    return { jsonrpc: "2.0", id: request.id, result: callMethod(chain, request.method, request.params || []) };
+  } catch (error) {
+    const { code = -32000, message } = error as Error & { code?: number };
+    return { jsonrpc: "2.0", id: request.id, error: { code, message } };
+  }
+}
+
+// ===========================================
+// Test Controls
+// ===========================================
+
+interface TransferRequest {
+  to: string;
+  amount: string;
+  token?: string;
+  from?: string;
+}
+
+function addTransfer(chain: StubChain, params: TransferRequest) {
+  const symbol = params.token || "USDC";
+  const token = getToken(chain.networkId, symbol);
+  if (!token) {
+    throw new Error(`${symbol} is not configured on ${chain.networkId}`);
+  }
+  if (!params.to || !params.amount) {
+    throw new Error("to and amount are required");
+  }
+
+  const units = toTokenUnits(params.amount, token.decimals);
+  const transactionHash = hashOf(chain.networkId, crypto.randomUUID());
+  const block = mineBlock(chain, [
+    {
+      address: token.address,
+      topics: [TRANSFER_EVENT_SIGNATURE, padTopic(params.from || DEFAULT_SENDER), padTopic(params.to)],
+      data: `0x${units.toString(16).padStart(64, "0")}`,
+      transactionHash,
+      logIndex: 0,
+    },
+  ]);
+
+  console.log(`[RPC Stub] ${chain.networkId} block ${block.number}: ${params.amount} ${symbol} -> ${params.to}`);
+  return { transactionHash, blockNumber: block.number, blockHash: block.hash, logIndex: 0 };
+}
+
+function reorg(chain: StubChain, depth: number) {
+  const keep = Math.max(1, chain.blocks.length - depth);
+  const dropped = chain.blocks.length - keep;
+  chain.blocks = chain.blocks.slice(0, keep);
+  chain.epoch++;
+  for (let i = 0; i < dropped; i++) {
+    mineBlock(chain);
+  }
+  console.log(`[RPC Stub] ${chain.networkId} reorged ${dropped} blocks`);
+  return { replaced: dropped, head: getHead(chain).number };
+}
+
+// ===========================================
+// Routes
+// ===========================================
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+async function handleRequest(
+  request: http.IncomingMessage,
+  response: http.ServerResponse
+): Promise<void> {
+  const url = new URL(request.url || "/", `http://localhost:${PORT}`);
+  const [networkId, action] = url.pathname.split("/").filter(Boolean);
+  const chain = chains.get(networkId);
+
+  if (!chain || request.method !== "POST") {
+    return sendJson(response, 404, { error: `Use POST /{${[...chains.keys()].join(",")}}` });
+  }
+
+  const raw = await readBody(request);
+  const body = raw ? JSON.parse(raw) : {};
+
+  switch (action) {
+    case undefined:
+      return sendJson(
+        response,
+        200,
+        Array.isArray(body)
+          ? body.map((entry: RpcRequest) => handleRpc(chain, entry))
+          : handleRpc(chain, body)
+      );
+    case "transfer":
+      return sendJson(response, 200, addTransfer(chain, body));
+    case "mine": {
+      for (let i = 0; i < (body.blocks || 1); i++) {
+        mineBlock(chain);
+      }
+      return sendJson(response, 200, { head: getHead(chain).number });
+    }
+    case "reorg":
+      return sendJson(response, 200, reorg(chain, body.depth || 1));
+    default:
+      return sendJson(response, 404, { error: `Unknown action: ${action}` });
+  }
+}
+
+// ===========================================
+// Server
+// ===========================================
+
+const server = http.createServer((request, response) => {
+  handleRequest(request, response).catch((error) => {
+    console.error("[RPC Stub] Request failed:", error);
+    sendJson(response, 400, { error: (error as Error).message });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[RPC Stub] Listening on http://localhost:${PORT}/{network}`);
+  console.log(`[RPC Stub] Networks: ${[...chains.keys()].join(", ")} (block ${START_BLOCK})`);
+});
+
+if (BLOCK_TIME_MS > 0) {
+  setInterval(() => {
+    for (const chain of chains.values()) {
+      mineBlock(chain);
+    }
+  }, BLOCK_TIME_MS);
+}
@@ -0,0 +1,137 @@
+/**
+ * ===========================================
+ * POST /api/cancel-order
+ * ===========================================
+ * 
+ * Cancels an order on the server so it can no longer be completed.
+ * Refused once a transfer is processing or has been seen on-chain.
+ * 
+ * Request Body:
+ * - orderId: string (required) - The order ID
+ * - reason?: string - Why the order is cancelled (default: "Cancelled by merchant")
+ * 
+ * Response:
+ * - success: boolean
+ * - order?: Order - The cancelled order
+ * - error?: string - Error message if failed
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOrder } from "@/lib/dynamo";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
+import { cancelOrder, isCancellable } from "@/lib/cancellation";
+import { InvalidStatusTransitionError } from "@/lib/payment-state";
+import type { CancelOrderRequest, CancelOrderResponse } from "@/lib/types";
+
+// ===========================================
+// Request Validation Schema
+// ===========================================
+
+const cancelOrderSchema = z.object({
+  orderId: z.string().uuid("Invalid order ID format"),
+  reason: z.string().max(500).optional().default("Cancelled by merchant"),
+});
+
+// ===========================================
+// POST Handler
+// ===========================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<CancelOrderResponse>> {
+  console.log("[API] POST /api/cancel-order");
+
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    // Parse request body
+    const body: CancelOrderRequest = await request.json();
+
+    // Validate request
+    const validationResult = cancelOrderSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Validation error: ${validationResult.error.errors.map((e) => e.message).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { orderId, reason } = validationResult.data;
+
+    // Get order from database
+    const order = await getOrder(orderId);
+    if (!order || !canAccessOrder(merchant, order)) {
+      console.error("[API] Order not found:", orderId);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Order not found",
+        },
+        { status: 404 }
+      );
+    }
+
+    // Cancelling twice is a no-op
+    if (order.status === "cancelled") {
+      return NextResponse.json({ success: true, order }, { status: 200 });
+    }
+
+    // Refuse once money is moving
+    if (!isCancellable(order)) {
+      console.error("[API] Cannot cancel order with status:", order.status);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot cancel order with status: ${order.status}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const cancelled = await cancelOrder(order, reason);
+
+    return NextResponse.json({ success: true, order: cancelled }, { status: 200 });
+  } catch (error) {
+    // The payment status moved on (e.g. a Mesh transfer is processing)
+    if (error instanceof InvalidStatusTransitionError) {
+      console.error("[API] Cannot cancel order:", error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Cannot cancel order with status: ${error.from}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error("[API] Error cancelling order:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to cancel order: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// OPTIONS Handler (CORS)
+// ===========================================
+
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
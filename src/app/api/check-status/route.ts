@@ -4,13 +4,24 @@
  * ===========================================
  * 
  * Checks the current status of a payment order.
- * Frontend polls this endpoint to update the UI.
+ * Frontend polls this endpoint to update the UI. The background payment
+ * watcher (lib/watcher.ts) applies the same checks to every open order
+ * without waiting for a poll.
  * 
  * Detection methods:
  * 1. Database status (from webhooks or previous checks)
  * 2. Blockchain monitoring (checks for incoming transfers)
  * 3. Mesh transfer status (if transfer was initiated via Mesh)
  * 
+ * Cancelled orders keep being scanned so that a late payment is flagged
+ * for refund review (it never completes the order).
+ * 
+ * A detected transfer moves the order to `confirming`, or to
+ * `partially_paid` while a balance remains (a partially paid order keeps
+ * being scanned for the rest). It becomes `completed` once the receipt
+ * succeeded and the network's required confirmation depth is reached
+ * (see lib/settlement.ts).
+ * 
  * Query Parameters:
  * - orderId: string (required) - The order ID to check
  * 
@@ -23,10 +34,36 @@
  */
 
 import { NextRequest, NextResponse } from "next/server";
-import { getOrder, getPaymentStatus, updateOrderStatus, updatePaymentStatus } from "@/lib/dynamo";
+import {
+  getOrder,
+  getPaymentStatus,
+  isTransferConsumed,
+  TransferAlreadyConsumedError,
+  updateOrder,
+  updatePaymentStatus,
+} from "@/lib/dynamo";
 import { getTransferStatus } from "@/lib/mesh";
-import { checkForTransfers, checkAllNetworksForTransfers } from "@/lib/blockchain";
-import type { CheckStatusResponse, PaymentStatus } from "@/lib/types";
+import { flagLatePayment } from "@/lib/cancellation";
+import { InvalidStatusTransitionError } from "@/lib/payment-state";
+import {
+  checkForTransfers,
+  checkAllNetworksForTransfers,
+  advanceScanCursors,
+  getScanFromBlocks,
+  getScanNetworks,
+  type ConsumedTransferCheck,
+} from "@/lib/blockchain";
+import {
+  EXPIRABLE_STATUSES,
+  expireOrder,
+  isReceivedTransfer,
+  settleMeshTransfer,
+  settleTransfer,
+  updateConfirmations,
+} from "@/lib/settlement";
+import { getAmountDue, getOrderReceivingAddress } from "@/lib/reconciliation";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
+import type { CheckStatusResponse } from "@/lib/types";
 
 // ===========================================
 // GET Handler
@@ -35,6 +72,11 @@ import type { CheckStatusResponse, PaymentStatus } from "@/lib/types";
 export async function GET(request: NextRequest): Promise<NextResponse<CheckStatusResponse>> {
   console.log("[API] GET /api/check-status");
 
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
   try {
     // Get order ID from query params
     const { searchParams } = new URL(request.url);
@@ -65,12 +107,13 @@ export async function GET(request: NextRequest): Promise<NextResponse<CheckStatu
     console.log("[API] Checking status for order:", orderId);
 
     // Get order and payment status from database
-    const [order, paymentDetails] = await Promise.all([
+    const [order, storedPaymentDetails] = await Promise.all([
       getOrder(orderId),
       getPaymentStatus(orderId),
     ]);
+    let paymentDetails = storedPaymentDetails;
 
-    if (!order) {
+    if (!order || !canAccessOrder(merchant, order)) {
       console.error("[API] Order not found:", orderId);
       return NextResponse.json(
         {
@@ -81,86 +124,155 @@ export async function GET(request: NextRequest): Promise<NextResponse<CheckStatu
       );
     }
 
-    // Check if order has expired
-    if (new Date(order.expiresAt) < new Date() && order.status === "pending") {
+    // Check if order has expired (a partially paid one becomes underpaid)
+    if (new Date(order.expiresAt) < new Date() && EXPIRABLE_STATUSES.includes(order.status)) {
       console.log("[API] Order expired, updating status:", orderId);
-      await updateOrderStatus(orderId, "expired");
-      order.status = "expired";
+      paymentDetails = await expireOrder(order);
+      order.status = paymentDetails.status;
     }
 
-    // If order is still pending or scanning, check blockchain for incoming transfers
+    // If order is still pending or scanning (or its payment was reorged
+    // out), check blockchain for incoming transfers
     // This detects payments made via WalletConnect QR code
-    if (order.status === "pending" || order.status === "scanning") {
+    const awaitingLatePayment = order.status === "cancelled" && !paymentDetails?.refundReview;
+    if (
+      order.status === "pending" ||
+      order.status === "scanning" ||
+      order.status === "processing" ||
+      order.status === "reorged" ||
+      order.status === "partially_paid" ||
+      awaitingLatePayment
+    ) {
       console.log("[API] Checking blockchain for incoming transfers...");
       
       try {
-        // Check the preferred network first, then all networks
-        const networkId = order.networkId === "auto" ? undefined : order.networkId;
+        // Scan the order's network (or all networks in auto mode)
+        // forward from where the last poll stopped
+        const networks = getScanNetworks(order.networkId);
+        const fromBlocks = getScanFromBlocks(order.scanCursors);
+
+        // Ignore transfers that already settled a different order, or
+        // that this order already received
+        const receivedBefore = paymentDetails;
+        const isConsumed: ConsumedTransferCheck = async (transfer) =>
+          isReceivedTransfer(receivedBefore, transfer) ||
+          isTransferConsumed(transfer, orderId);
+
+        // Match against the balance due; an order with its own deposit
+        // address takes any smaller amount as a partial payment
+        const amountDue = getAmountDue(order);
+        const acceptPartial = !!order.depositAddress;
         
-        const blockchainResult = networkId
+        const blockchainResult = networks.length === 1
           ? await checkForTransfers(
-              order.merchantWalletAddress,
-              networkId,
-              undefined,
-              order.amount
+              getOrderReceivingAddress(order, networks[0]),
+              networks[0],
+              fromBlocks[networks[0]],
+              amountDue,
+              isConsumed,
+              acceptPartial
             )
           : await checkAllNetworksForTransfers(
-              order.merchantWalletAddress,
-              order.amount
+              (networkId) => getOrderReceivingAddress(order, networkId),
+              amountDue,
+              undefined,
+              isConsumed,
+              fromBlocks,
+              acceptPartial
             );
 
-        if (blockchainResult.found && blockchainResult.transfer) {
+        // A poll settles one transfer; rescan its block next time so
+        // another transfer in the same window can pay the balance
+        const { transfer: found, scanned } = blockchainResult;
+        if (found && scanned?.[found.networkId]) {
+          scanned[found.networkId] = {
+            ...scanned[found.networkId],
+            toBlock: Math.min(scanned[found.networkId].toBlock, found.blockNumber - 1),
+          };
+        }
+
+        // Persist scan progress so the next poll continues from here
+        if (blockchainResult.scanned) {
+          order.scanCursors = advanceScanCursors(order.scanCursors, blockchainResult.scanned);
+          await updateOrder(orderId, { scanCursors: order.scanCursors });
+        }
+
+        if (awaitingLatePayment && blockchainResult.found && blockchainResult.transfer) {
+          // Paid after cancellation: keep it cancelled, flag for refund
+          const { transfer } = blockchainResult;
+          paymentDetails = await flagLatePayment(order, {
+            networkId: transfer.networkId,
+            transactionHash: transfer.transactionHash,
+            logIndex: transfer.logIndex,
+            blockNumber: transfer.blockNumber,
+            blockHash: transfer.blockHash,
+            senderAddress: transfer.from,
+            stablecoin: transfer.tokenSymbol,
+            amountReceived: transfer.amount,
+          });
+        } else if (blockchainResult.found && blockchainResult.transfer) {
+          const { transfer } = blockchainResult;
           console.log("[API] Payment detected on blockchain!");
-          console.log(`[API] TX: ${blockchainResult.transfer.transactionHash}`);
-          console.log(`[API] Amount: ${blockchainResult.transfer.amount} ${blockchainResult.transfer.tokenSymbol}`);
-          
-          // Update order and payment status
-          await Promise.all([
-            updateOrderStatus(orderId, "completed"),
-            updatePaymentStatus(orderId, {
-              status: "completed",
-              transactionHash: blockchainResult.transfer.transactionHash,
-              networkId: blockchainResult.transfer.networkId,
-              stablecoin: blockchainResult.transfer.tokenSymbol,
-              amount: parseFloat(blockchainResult.transfer.amount),
-            }),
-          ]);
-          
-          order.status = "completed";
-          if (paymentDetails) {
-            paymentDetails.status = "completed";
-            paymentDetails.transactionHash = blockchainResult.transfer.transactionHash;
-          }
+          console.log(`[API] TX: ${transfer.transactionHash}`);
+          console.log(`[API] Amount: ${transfer.amount} ${transfer.tokenSymbol} (due ${amountDue})`);
+
+          const settled = await settleTransfer(order, transfer);
+          Object.assign(order, settled.order);
+          paymentDetails = settled.paymentStatus;
         }
       } catch (blockchainError) {
-        console.warn("[API] Blockchain monitoring error:", blockchainError);
+        if (
+          blockchainError instanceof TransferAlreadyConsumedError ||
+          blockchainError instanceof InvalidStatusTransitionError
+        ) {
+          console.warn(`[API] ${blockchainError.message}, leaving order ${orderId} open`);
+        } else {
+          console.warn("[API] Blockchain monitoring error:", blockchainError);
+        }
         // Don't fail - continue with other checks
       }
     }
 
+    // If the payment is waiting for confirmations, check its transfers
+    if (order.status === "confirming" && paymentDetails) {
+      try {
+        const previousStatus = order.status;
+        paymentDetails = await updateConfirmations(paymentDetails);
+        order.status = paymentDetails.status;
+
+        if (order.status !== previousStatus) {
+          console.log(`[API] Updated order status: ${previousStatus} -> ${order.status}`);
+        }
+      } catch (error) {
+        console.error("[API] Error checking confirmations:", error);
+        // Don't fail the request, just return current status
+      }
+    }
+
     // If there's an active Mesh transfer, check its status
     if (paymentDetails?.meshTransferId && order.status === "processing") {
       try {
         const transferStatus = await getTransferStatus(paymentDetails.meshTransferId);
         
-        // Update status based on transfer result
-        let newStatus: PaymentStatus = order.status;
+        // A completed transfer is checked against the order like any
+        // other (see settleMeshTransfer)
         if (transferStatus.content.status === "completed") {
-          newStatus = "completed";
-        } else if (transferStatus.content.status === "failed") {
-          newStatus = "failed";
-        }
-
-        if (newStatus !== order.status) {
-          console.log(`[API] Updating order status: ${order.status} -> ${newStatus}`);
-          await updateOrderStatus(orderId, newStatus);
-          order.status = newStatus;
-          
-          // Update payment details if completed
-          if (newStatus === "completed" && transferStatus.content.transactionHash) {
-            paymentDetails.transactionHash = transferStatus.content.transactionHash;
-            paymentDetails.status = "completed";
+          const settled = await settleMeshTransfer(order, {
+            meshTransferId: paymentDetails.meshTransferId,
+            transactionHash: transferStatus.content.transactionHash,
+            stablecoin: transferStatus.content.symbol,
+            amount: transferStatus.content.amount,
+            senderAddress: transferStatus.content.fromAddress,
+          });
+          if (settled) {
+            console.log(`[API] Mesh transfer settled, order is ${settled.order.status}`);
+            Object.assign(order, settled.order);
+            paymentDetails = settled.paymentStatus;
           }
+        } else if (transferStatus.content.status === "failed") {
+          console.log(`[API] Updating order status: ${order.status} -> failed`);
+          paymentDetails = await updatePaymentStatus(orderId, { status: "failed" });
+          order.status = "failed";
         }
       } catch (error) {
         console.error("[API] Error checking transfer status:", error);
@@ -6,11 +6,29 @@
  * Creates a new order for payment processing.
  * 
  * Request Body:
- * - amount: number (required) - Payment amount in USD
+ * - amount: Money (required) - { minorUnits, currency }, e.g.
+ *   { minorUnits: 529, currency: "USD" } or { minorUnits: 490, currency: "EUR" };
+ *   a plain number is read as a USD decimal amount (legacy)
  * - description?: string - Optional order description
- * - items?: OrderItem[] - Optional array of order items
- * - stablecoin?: string - Stablecoin to use (default: USDC)
- * - networkId?: string - Blockchain network (default: Ethereum)
+ * - items?: OrderItem[] - Optional array of order items (price as Money)
+ * - stablecoin?: string - Stablecoin to use (default: merchant default, then USDC)
+ * - networkId?: string - Blockchain network (default: merchant default, then Base)
+ * 
+ * Requires a merchant session or API key (see lib/auth.ts). The order
+ * belongs to that merchant and is paid to the merchant's settlement
+ * address on each network, or to a deposit address reserved for it
+ * (see lib/merchants.ts). The reservation is released if the order
+ * can't be created.
+ * 
+ * Amounts in another currency than the stablecoin's peg (e.g. EUR for
+ * USDC) are converted at the current exchange rate. The quote is stored
+ * on the order as fxQuote and is not refreshed while the order is open.
+ * 
+ * Each order gets a unique paymentAmount (amount plus a sub-cent suffix)
+ * that the customer must send exactly, claimed at each of its receiving
+ * addresses, and records the current block of each candidate network as
+ * the starting point for blockchain scanning. The claims are released
+ * like the deposit address if the order can't be created.
  * 
  * Response:
  * - success: boolean
@@ -21,9 +39,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
 import { z } from "zod";
-import { createOrder, upsertPaymentStatus } from "@/lib/dynamo";
-import { getMerchantWalletAddress } from "@/lib/secrets";
+import {
+  claimPaymentAmount,
+  createOrder,
+  getOpenOrdersByReceivingAddress,
+  getPaymentAmountClaims,
+  releaseDepositAddress,
+  releasePaymentAmount,
+  upsertPaymentStatus,
+} from "@/lib/dynamo";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth";
+import { assignReceivingAddresses } from "@/lib/merchants";
+import {
+  assignPaymentAmount,
+  getAmountDue,
+  getPaymentDecimals,
+  UniqueAmountUnavailableError,
+} from "@/lib/reconciliation";
+import { createScanCursors, getScanNetworks } from "@/lib/blockchain";
+import { compareMoney, formatMoney, parseMoney } from "@/lib/money";
+import { quoteAmount, FxRateUnavailableError } from "@/lib/fx";
+import { CHAIN_ENVIRONMENT, getPegCurrency } from "@/lib/chains";
 import type {
+  FxQuote,
   Order,
   CreateOrderRequest,
   CreateOrderResponse,
@@ -36,18 +74,26 @@ import type {
 // Request Validation Schema
 // ===========================================
 
+const moneySchema = z.object({
+  minorUnits: z.number().int("Amount must be in whole minor units"),
+  currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code"),
+});
+
 const createOrderSchema = z.object({
   amount: z
-    .number()
-    .positive("Amount must be positive")
-    .max(10000, "Amount cannot exceed $10,000"),
+    .union([
+      moneySchema,
+      // Legacy: decimal USD amount, parsed without float arithmetic
+      z.number().finite().transform((amount) => parseMoney(amount, "USD")),
+    ])
+    .refine((amount) => amount.minorUnits > 0, "Amount must be positive"),
   description: z.string().max(500).optional(),
   items: z
     .array(
       z.object({
         name: z.string(),
         quantity: z.number().int().positive(),
-        price: z.number().positive(),
+        price: moneySchema,
       })
     )
     .optional(),
@@ -56,7 +102,7 @@ const createOrderSchema = z.object({
     "USDC", "USDT", "DAI", "BUSD", "FRAX", "TUSD", 
     "USDP", "GUSD", "LUSD", "sUSD", "EURS", "EURT", 
     "USDD", "PYUSD", "any"
-  ]).optional().default("USDC"),
+  ]).optional(),
   networkId: z.enum([
     "ethereum",
     "polygon", 
@@ -69,19 +115,25 @@ const createOrderSchema = z.object({
     // Legacy IDs for backward compatibility
     "e3c7fdd8-b1fc-4e51-85ae-bb276e075611",
     "7436e9d0-ba42-4d2b-b4c0-8e4e606b2c12",
-  ]).optional().default("base"),
+  ]).optional(),
 });
 
 // ===========================================
 // Configuration
 // ===========================================
 
+// Largest order amount, in the stablecoin's peg currency
+const MAX_ORDER_AMOUNT = "10000";
+
 // Order expiration time (15 minutes)
 const ORDER_EXPIRATION_MINUTES = 15;
 
-// Default network (Ethereum)
-const DEFAULT_NETWORK_ID =
-  process.env.DEFAULT_NETWORK_ID || "e3c7fdd8-b1fc-4e51-85ae-bb276e075611";
+// Payment amounts to try when other orders keep claiming them first
+const MAX_AMOUNT_CLAIM_ATTEMPTS = 5;
+
+// Defaults for merchants that don't configure their own
+const DEFAULT_NETWORK_ID: NetworkId = "base";
+const DEFAULT_STABLECOIN: StablecoinSymbol = "USDC";
 
 // ===========================================
 // POST Handler
@@ -90,6 +142,16 @@ const DEFAULT_NETWORK_ID =
 export async function POST(request: NextRequest): Promise<NextResponse<CreateOrderResponse>> {
   console.log("[API] POST /api/create-order");
 
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  // Deposit address and payment amount reserved for the order until the
+  // order is stored
+  let reserved: { orderId: string; address: string } | null = null;
+  let claimed: { orderId: string; addresses: string[]; paymentAmount: string } | null = null;
+
   try {
     // Parse request body
     const body: CreateOrderRequest = await request.json();
@@ -108,24 +170,129 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateOrd
       );
     }
 
-    const { amount, description, items, stablecoin, networkId } = validationResult.data;
+    const { amount, description, items } = validationResult.data;
+    const stablecoin =
+      validationResult.data.stablecoin || merchant.defaults?.stablecoin || DEFAULT_STABLECOIN;
+
+    // Lock the exchange rate into the stablecoin's currency for the
+    // order's lifetime
+    let fxQuote: FxQuote;
+    try {
+      fxQuote = await quoteAmount(amount, getPegCurrency(stablecoin));
+    } catch (error) {
+      if (error instanceof FxRateUnavailableError) {
+        console.error("[API] FX quote failed:", error.message);
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Cannot price ${amount.currency} amounts in ${stablecoin}: ${error.message}`,
+          },
+          { status: 422 }
+        );
+      }
+      throw error;
+    }
 
-    // Get merchant wallet address
-    const merchantWalletAddress = await getMerchantWalletAddress();
-    if (!merchantWalletAddress) {
-      console.error("[API] Merchant wallet address not configured");
+    const maxAmount = parseMoney(MAX_ORDER_AMOUNT, fxQuote.toCurrency);
+    if (compareMoney(fxQuote.amount, maxAmount) > 0) {
       return NextResponse.json(
         {
           success: false,
-          error: "Merchant wallet address not configured",
+          error: `Validation error: Amount cannot exceed ${formatMoney(maxAmount)}`,
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
+    const resolvedNetworkId =
+      validationResult.data.networkId || merchant.defaults?.networkId || DEFAULT_NETWORK_ID;
+    const networks = getScanNetworks(resolvedNetworkId);
+
     // Generate order ID
     const orderId = uuidv4();
 
+    // Pick the address the order is paid to on each candidate network
+    const receiving = await assignReceivingAddresses(merchant, orderId, resolvedNetworkId, networks);
+    if (receiving.depositAddress) {
+      reserved = { orderId, address: receiving.depositAddress };
+    }
+    if (!receiving.merchantWalletAddress) {
+      console.error("[API] Merchant wallet address not configured:", merchant.merchantId);
+      if (reserved) {
+        await releaseDepositAddress(reserved.orderId, reserved.address);
+      }
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Merchant wallet address not configured",
+        },
+        { status: 500 }
+      );
+    }
+
+    // Give the order a unique on-chain amount among the open orders paid
+    // to the same addresses, so transfers can be matched to it exactly
+    // (see lib/reconciliation.ts). Claiming the amount at every address
+    // keeps an order created at the same time from picking it too
+    const addresses = Array.from(
+      new Set(
+        [receiving.merchantWalletAddress, ...Object.values(receiving.receivingAddresses || {})]
+          .map((address) => address.toLowerCase())
+      )
+    );
+    const takenAmounts = new Set<string>();
+    for (const address of addresses) {
+      for (const claim of await getPaymentAmountClaims(address)) {
+        takenAmounts.add(claim.paymentAmount);
+      }
+      for (const open of await getOpenOrdersByReceivingAddress(address)) {
+        takenAmounts.add(getAmountDue(open));
+      }
+    }
+    let assigned: { dustUnits: number; paymentAmount: string } | null = null;
+    try {
+      for (let attempt = 0; attempt < MAX_AMOUNT_CLAIM_ATTEMPTS && !assigned; attempt++) {
+        const candidate = assignPaymentAmount(
+          fxQuote.amount,
+          takenAmounts,
+          getPaymentDecimals(stablecoin, networks),
+          !!receiving.depositAddress
+        );
+        const { paymentAmount } = candidate;
+        if (await claimPaymentAmount(merchant.merchantId, orderId, addresses, paymentAmount)) {
+          assigned = candidate;
+          claimed = { orderId, addresses, paymentAmount };
+        } else {
+          takenAmounts.add(paymentAmount);
+        }
+      }
+      if (!assigned) {
+        throw new UniqueAmountUnavailableError(
+          "Other orders claimed every payment amount tried, try again"
+        );
+      }
+    } catch (error) {
+      if (error instanceof UniqueAmountUnavailableError) {
+        console.error("[API] No unique payment amount:", error.message);
+        if (reserved) {
+          await releaseDepositAddress(reserved.orderId, reserved.address);
+        }
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Cannot accept ${stablecoin} for this order: ${error.message}`,
+          },
+          { status: 422 }
+        );
+      }
+      throw error;
+    }
+    const { dustUnits, paymentAmount } = assigned;
+
+    // Remember where each candidate network's chain is, so scanning
+    // starts at this order and not at an arbitrary window
+    const scanCursors = await createScanCursors(resolvedNetworkId);
+
     // Calculate timestamps
     const now = new Date();
     const expiresAt = new Date(now.getTime() + ORDER_EXPIRATION_MINUTES * 60 * 1000);
@@ -133,23 +300,32 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateOrd
     // Create order object
     const order: Order = {
       orderId,
+      merchantId: merchant.merchantId,
       amount,
-      currency: "USD",
-      stablecoin: stablecoin as StablecoinSymbol,
-      merchantWalletAddress,
+      fxQuote,
+      paymentAmount,
+      dustUnits,
+      stablecoin,
+      ...receiving,
       status: "pending",
       description,
       items,
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
       expiresAt: expiresAt.toISOString(),
-      networkId: (networkId || DEFAULT_NETWORK_ID) as NetworkId,
+      networkId: resolvedNetworkId,
+      environment: CHAIN_ENVIRONMENT,
+      scanCursors,
     };
 
     console.log("[API] Creating order:", orderId);
 
     // Store order in DynamoDB
     await createOrder(order);
+    // From here the order holds its deposit address and payment amount
+    // until it ends
+    reserved = null;
+    claimed = null;
 
     // Create initial payment status record
     const paymentStatus: PaymentStatusRecord = {
@@ -178,6 +354,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateOrd
     );
   } catch (error) {
     console.error("[API] Error creating order:", error);
+    if (reserved) {
+      await releaseDepositAddress(reserved.orderId, reserved.address);
+    }
+    if (claimed) {
+      await releasePaymentAmount(claimed.orderId, claimed.addresses, claimed.paymentAmount);
+    }
 
     return NextResponse.json(
       {
@@ -9,34 +9,47 @@
  * Query Parameters:
  * - address: Merchant wallet address
  * - network: Network to check (ethereum, polygon, base, etc.)
- * - amount: Expected amount (optional)
+ * - amount: Expected exact payment amount, e.g. 5.004217 (optional)
+ * - fromBlock: First block to scan (optional, requires network;
+ *   default: ~15 minutes back)
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { checkForTransfers, checkAllNetworksForTransfers } from "@/lib/blockchain";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth";
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!(await authenticateRequest(request))) {
+    return unauthorizedResponse();
+  }
+
   const { searchParams } = new URL(request.url);
   const address = searchParams.get("address");
   const network = searchParams.get("network");
   const amount = searchParams.get("amount");
+  const fromBlock = searchParams.get("fromBlock");
 
   if (!address) {
     return NextResponse.json({
       success: false,
       error: "Missing 'address' parameter",
-      usage: "/api/debug/check-payment?address=0x...&network=polygon&amount=5.00",
+      usage: "/api/debug/check-payment?address=0x...&network=polygon&amount=5.004217",
     });
   }
 
   console.log(`[Debug] Checking payments for ${address} on ${network || "all networks"}`);
 
   try {
-    const expectedAmount = amount ? parseFloat(amount) : undefined;
+    const expectedAmount = amount || undefined;
     
     let result;
     if (network) {
-      result = await checkForTransfers(address, network, undefined, expectedAmount);
+      result = await checkForTransfers(
+        address,
+        network,
+        fromBlock ? parseInt(fromBlock, 10) : undefined,
+        expectedAmount
+      );
     } else {
       result = await checkAllNetworksForTransfers(address, expectedAmount);
     }
@@ -47,6 +60,7 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         address,
         network: network || "all",
         expectedAmount,
+        fromBlock: fromBlock || undefined,
       },
       result,
       timestamp: new Date().toISOString(),
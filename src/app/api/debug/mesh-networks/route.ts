@@ -7,10 +7,15 @@
  * are actually available in Mesh and get their correct IDs.
  */
 
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { fetchAvailableMeshNetworks, MESH_NETWORK_IDS, VERIFIED_NETWORKS } from "@/lib/mesh";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth";
+
+export async function GET(request: NextRequest) {
+  if (!(await authenticateRequest(request))) {
+    return unauthorizedResponse();
+  }
 
-export async function GET() {
   try {
     // Fetch available networks from Mesh API
     const result = await fetchAvailableMeshNetworks();
@@ -0,0 +1,27 @@
+/**
+ * ===========================================
+ * GET /api/debug/rpc-metrics
+ * ===========================================
+ *
+ * Debug endpoint exposing the RPC provider pool (see lib/rpc.ts): per
+ * provider request, failure, timeout and rate-limit counts, average
+ * latency, health score and circuit breaker state.
+ *
+ * Metrics are kept in memory per server process and reset on restart.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getRpcMetrics } from "@/lib/rpc";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  if (!(await authenticateRequest(request))) {
+    return unauthorizedResponse();
+  }
+
+  return NextResponse.json({
+    success: true,
+    providers: getRpcMetrics(),
+    timestamp: new Date().toISOString(),
+  });
+}
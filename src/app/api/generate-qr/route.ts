@@ -5,6 +5,9 @@
  * 
  * Generates a payment QR code for an existing order.
  * 
+ * For a partially paid order, the QR asks for the remaining balance
+ * (a follow-up QR the customer can use to top up).
+ * 
  * Architecture:
  * - Frontend QR: WalletConnect Pay (beautiful, universal wallet support)
  * - Backend tracking: Blockchain monitoring + Mesh webhooks (optional)
@@ -12,13 +15,21 @@
  * The customer scans the WalletConnect QR, pays directly from their wallet,
  * and the backend detects the incoming transfer via blockchain monitoring.
  * 
+ * Optionally a Mesh Link token is minted for the order (userId
+ * "user_{orderId}"), so the customer can pay from an exchange instead.
+ * Mesh reports the result through /api/webhooks/mesh.
+ * 
  * Request Body:
  * - orderId: string (required) - The order ID to generate QR for
+ * - includeMeshLink?: boolean - Also mint a Mesh Link token (default: false)
  * 
  * Response:
  * - success: boolean
  * - qrCodeDataUrl?: string - Base64 encoded QR image (WalletConnect)
  * - paymentUrl?: string - Universal deep link URL
+ * - amountDue?: string - Amount the QR asks for
+ * - linkToken?: string - Mesh Link token (if requested and Mesh is reachable)
+ * - meshLinkUrl?: string - Decoded Mesh Link URL
  * - expiresAt?: string - QR expiration time
  * - error?: string - Error message if failed
  */
@@ -26,7 +37,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getOrder, updateOrderStatus, updatePaymentStatus } from "@/lib/dynamo";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
 import { generatePaymentQR } from "@/lib/walletconnect";
+import { decodeLinkToken, generateLinkToken, getMeshUserId } from "@/lib/mesh";
+import { canTransition } from "@/lib/payment-state";
+import { getAmountDue, getOrderReceivingAddress } from "@/lib/reconciliation";
 import type { GenerateQRRequest, GenerateQRResponse } from "@/lib/types";
 
 // ===========================================
@@ -35,6 +50,7 @@ import type { GenerateQRRequest, GenerateQRResponse } from "@/lib/types";
 
 const generateQRSchema = z.object({
   orderId: z.string().uuid("Invalid order ID format"),
+  includeMeshLink: z.boolean().optional().default(false),
 });
 
 // ===========================================
@@ -44,6 +60,11 @@ const generateQRSchema = z.object({
 export async function POST(request: NextRequest): Promise<NextResponse<GenerateQRResponse>> {
   console.log("[API] POST /api/generate-qr");
 
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
   try {
     // Parse request body
     const body: GenerateQRRequest = await request.json();
@@ -61,11 +82,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateQ
       );
     }
 
-    const { orderId } = validationResult.data;
+    const { orderId, includeMeshLink } = validationResult.data;
 
     // Get order from database
     const order = await getOrder(orderId);
-    if (!order) {
+    if (!order || !canAccessOrder(merchant, order)) {
       console.error("[API] Order not found:", orderId);
       return NextResponse.json(
         {
@@ -79,7 +100,10 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateQ
     // Check if order is expired
     if (new Date(order.expiresAt) < new Date()) {
       console.error("[API] Order expired:", orderId);
-      await updateOrderStatus(orderId, "expired");
+      // Orders that already moved on (e.g. completed) keep their status
+      if (canTransition(order.status, "expired")) {
+        await updateOrderStatus(orderId, "expired");
+      }
       return NextResponse.json(
         {
           success: false,
@@ -89,8 +113,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateQ
       );
     }
 
-    // Check order status - only pending orders can generate QR
-    if (order.status !== "pending" && order.status !== "scanning") {
+    // Check order status - only unpaid or partially paid orders can generate QR
+    if (
+      order.status !== "pending" &&
+      order.status !== "scanning" &&
+      order.status !== "partially_paid"
+    ) {
       console.error("[API] Invalid order status for QR generation:", order.status);
       return NextResponse.json(
         {
@@ -105,12 +133,36 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateQ
 
     // Generate WalletConnect Pay QR code
     // This creates a beautiful, universal QR that works with any Web3 wallet
-    const qrResult = await generatePaymentQR(order, order.merchantWalletAddress);
+    const qrResult = await generatePaymentQR(order);
+
+    // Mint a Mesh Link token for exchange payments. The wallet QR still
+    // works without it, so Mesh errors don't fail the request.
+    let linkToken: string | undefined;
+    let meshLinkUrl: string | undefined;
+    if (includeMeshLink) {
+      try {
+        const linkTokenResponse = await generateLinkToken(
+          getMeshUserId(orderId),
+          (networkId) => getOrderReceivingAddress(order, networkId),
+          // Request the unique amount due so on-chain matching still applies
+          parseFloat(getAmountDue(order)),
+          order.stablecoin,
+          order.networkId
+        );
+        linkToken = linkTokenResponse.content.linkToken;
+        meshLinkUrl = decodeLinkToken(linkToken);
+        console.log("[API] Mesh Link token generated for order:", orderId);
+      } catch (meshError) {
+        console.warn("[API] Could not generate Mesh Link token:", meshError);
+      }
+    }
 
-    // Update payment status to pending
-    await updatePaymentStatus(orderId, {
-      status: "pending",
-    });
+    // Update payment status to pending (a partially paid order keeps its status)
+    if (order.status !== "partially_paid") {
+      await updatePaymentStatus(orderId, {
+        status: "pending",
+      });
+    }
 
     console.log("[API] WalletConnect QR code generated successfully for order:", orderId);
     console.log("[API] Payment will be detected via blockchain monitoring");
@@ -123,6 +175,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<GenerateQ
         success: true,
         qrCodeDataUrl: qrResult.qrCodeDataUrl,
         paymentUrl: qrResult.paymentUrl,
+        amountDue: qrResult.amountDue,
+        linkToken,
+        meshLinkUrl,
         expiresAt: qrResult.expiresAt,
         isAutoDetect: qrResult.isAutoDetect,
         supportedOptions: qrResult.supportedOptions,
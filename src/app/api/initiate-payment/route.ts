@@ -21,7 +21,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { getOrder, updateOrderStatus, updatePaymentStatus } from "@/lib/dynamo";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
+import { canTransition } from "@/lib/payment-state";
 import { executeTransfer, previewTransfer } from "@/lib/mesh";
+import { toDecimalString } from "@/lib/money";
+import { getOrderReceivingAddress } from "@/lib/reconciliation";
+import { settleMeshTransfer } from "@/lib/settlement";
 import type { InitiatePaymentRequest, InitiatePaymentResponse } from "@/lib/types";
 
 // ===========================================
@@ -41,6 +46,11 @@ const initiatePaymentSchema = z.object({
 export async function POST(request: NextRequest): Promise<NextResponse<InitiatePaymentResponse>> {
   console.log("[API] POST /api/initiate-payment");
 
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
   try {
     // Parse request body
     const body: InitiatePaymentRequest = await request.json();
@@ -62,7 +72,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<InitiateP
 
     // Get order from database
     const order = await getOrder(orderId);
-    if (!order) {
+    if (!order || !canAccessOrder(merchant, order)) {
       console.error("[API] Order not found:", orderId);
       return NextResponse.json(
         {
@@ -76,7 +86,10 @@ export async function POST(request: NextRequest): Promise<NextResponse<InitiateP
     // Check if order is expired
     if (new Date(order.expiresAt) < new Date()) {
       console.error("[API] Order expired:", orderId);
-      await updateOrderStatus(orderId, "expired");
+      // Orders that already moved on (e.g. completed) keep their status
+      if (canTransition(order.status, "expired")) {
+        await updateOrderStatus(orderId, "expired");
+      }
       return NextResponse.json(
         {
           success: false,
@@ -103,19 +116,19 @@ export async function POST(request: NextRequest): Promise<NextResponse<InitiateP
 
     // Update status to processing
     await updateOrderStatus(orderId, "processing");
-    await updatePaymentStatus(orderId, {
-      status: "processing",
-    });
+
+    // Mesh is told the fiat value at the order's locked exchange rate
+    const paymentFiat = order.fxQuote?.amount ?? order.amount;
 
     // Get transfer preview first
     const preview = await previewTransfer({
       fromType: "exchange", // or 'wallet' based on account type
-      toAddress: order.merchantWalletAddress,
+      toAddress: getOrderReceivingAddress(order, order.networkId),
       symbol: order.stablecoin,
       networkId: order.networkId,
-      amount: order.amount.toString(),
-      fiatCurrency: "USD",
-      fiatAmount: order.amount,
+      amount: order.paymentAmount,
+      fiatCurrency: paymentFiat.currency,
+      fiatAmount: Number(toDecimalString(paymentFiat)),
     });
 
     console.log("[API] Transfer preview:", preview);
@@ -124,35 +137,37 @@ export async function POST(request: NextRequest): Promise<NextResponse<InitiateP
     const transferResult = await executeTransfer({
       fromAuthToken: authToken,
       fromType: "exchange",
-      toAddress: order.merchantWalletAddress,
+      toAddress: getOrderReceivingAddress(order, order.networkId),
       symbol: order.stablecoin,
       networkId: order.networkId,
-      amount: order.amount.toString(),
-      fiatCurrency: "USD",
-      fiatAmount: order.amount,
+      amount: order.paymentAmount,
+      fiatCurrency: paymentFiat.currency,
+      fiatAmount: Number(toDecimalString(paymentFiat)),
     });
 
-    // Update payment status based on result
+    // Update payment status based on result; a completed transfer is
+    // checked against the order like any other
     if (transferResult.content.status === "completed") {
-      await updateOrderStatus(orderId, "completed");
-      await updatePaymentStatus(orderId, {
-        status: "completed",
-        transactionHash: transferResult.content.transactionHash,
-        meshTransferId: transferResult.content.transferId,
-        senderAddress: transferResult.content.fromAddress,
-        amountReceived: transferResult.content.amount,
-      });
+      const settled = await settleMeshTransfer(
+        { ...order, status: "processing" },
+        {
+          meshTransferId: transferResult.content.transferId,
+          transactionHash: transferResult.content.transactionHash,
+          stablecoin: transferResult.content.symbol,
+          amount: transferResult.content.amount,
+          senderAddress: transferResult.content.fromAddress,
+        }
+      );
 
-      console.log("[API] Payment completed for order:", orderId);
+      console.log(`[API] Mesh transfer done for order ${orderId}, now ${settled?.order.status ?? "processing"}`);
     } else if (transferResult.content.status === "pending") {
+      // The order is already processing; only remember the transfer
       await updatePaymentStatus(orderId, {
-        status: "processing",
         meshTransferId: transferResult.content.transferId,
       });
 
       console.log("[API] Payment pending for order:", orderId);
     } else {
-      await updateOrderStatus(orderId, "failed");
       await updatePaymentStatus(orderId, {
         status: "failed",
         meshTransferId: transferResult.content.transferId,
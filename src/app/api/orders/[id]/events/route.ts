@@ -0,0 +1,216 @@
+/**
+ * ===========================================
+ * GET /api/orders/:id/events
+ * ===========================================
+ *
+ * Streams an order's status changes as Server-Sent Events, so the POS
+ * doesn't have to poll /api/check-status.
+ *
+ * Events come from two sources:
+ * 1. lib/order-events: every status write in this server process
+ *    (webhooks, check-status, reorg checks, cancellation)
+ * 2. A storage re-read every few seconds, for writes made by other
+ *    server instances
+ *
+ * Only changes are sent; the current state is sent on connect. Streams
+ * end after a few minutes and EventSource reconnects automatically.
+ *
+ * Path Parameters:
+ * - id: string (required) - The order ID
+ *
+ * Events:
+ * - status: OrderStatusEvent (JSON)
+ * - error: { error: string } when the order disappears
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getOrder, getPaymentStatus } from "@/lib/dynamo";
+import { subscribeToOrderStatus } from "@/lib/order-events";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
+import type { Merchant, OrderStatusEvent } from "@/lib/types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** How often storage is re-read for changes made by other instances */
+const STORAGE_POLL_INTERVAL_MS = 5000;
+
+/** Comment lines keep proxies from closing an idle stream */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Streams are closed after this long; the client reconnects */
+const MAX_STREAM_DURATION_MS = 5 * 60 * 1000;
+
+/** Reconnect delay suggested to EventSource */
+const RETRY_MS = 3000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ===========================================
+// Helpers
+// ===========================================
+
+/**
+ * Read the order's current state from storage
+ *
+ * @returns The state as an event, or null if the order doesn't exist or
+ *   belongs to another merchant
+ */
+async function loadStatusEvent(
+  orderId: string,
+  merchant: Merchant
+): Promise<OrderStatusEvent | null> {
+  const [order, paymentDetails] = await Promise.all([
+    getOrder(orderId),
+    getPaymentStatus(orderId),
+  ]);
+  if (!order || !canAccessOrder(merchant, order)) {
+    return null;
+  }
+  return {
+    orderId,
+    status: order.status,
+    paymentDetails: paymentDetails || undefined,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Identifies an order state, so unchanged re-reads aren't re-sent
+ */
+function getEventVersion(event: OrderStatusEvent): string {
+  return `${event.status}:${event.paymentDetails?.updatedAt ?? ""}`;
+}
+
+// ===========================================
+// GET Handler
+// ===========================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const { id: orderId } = await params;
+  console.log("[API] GET /api/orders/:id/events", orderId);
+
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  if (!UUID_REGEX.test(orderId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Invalid order ID format",
+      },
+      { status: 400 }
+    );
+  }
+
+  const initial = await loadStatusEvent(orderId, merchant);
+  if (!initial) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Order not found",
+      },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closeStream = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let lastVersion: string | null = null;
+
+      const write = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const sendStatus = (event: OrderStatusEvent) => {
+        const version = getEventVersion(event);
+        if (version === lastVersion) {
+          return;
+        }
+        lastVersion = version;
+        write(`event: status\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const unsubscribe = subscribeToOrderStatus(orderId, sendStatus);
+
+      const pollTimer = setInterval(async () => {
+        try {
+          const event = await loadStatusEvent(orderId, merchant);
+          if (!event) {
+            write(`event: error\ndata: ${JSON.stringify({ error: "Order not found" })}\n\n`);
+            closeStream();
+            return;
+          }
+          sendStatus(event);
+        } catch (error) {
+          console.error("[API] Error reading order for event stream:", error);
+        }
+      }, STORAGE_POLL_INTERVAL_MS);
+
+      const heartbeatTimer = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+      const durationTimer = setTimeout(() => closeStream(), MAX_STREAM_DURATION_MS);
+
+      closeStream = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(pollTimer);
+        clearInterval(heartbeatTimer);
+        clearTimeout(durationTimer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", () => closeStream());
+
+      write(`retry: ${RETRY_MS}\n\n`);
+      sendStatus(initial);
+    },
+
+    cancel() {
+      closeStream();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stop reverse proxies (nginx) from buffering the stream
+      "X-Accel-Buffering": "no",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
+
+// ===========================================
+// OPTIONS Handler (CORS)
+// ===========================================
+
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,241 @@
+/**
+ * ===========================================
+ * /api/orders/:id/refunds
+ * ===========================================
+ *
+ * Refunds of an order's payment (see lib/refunds.ts).
+ *
+ * POST requests a full or partial refund. The response carries an EIP-681
+ * transfer request (refund.paymentUrl and a QR code) for the merchant to
+ * sign in the wallet that received the payment; the refund completes when
+ * that transfer is seen on-chain.
+ *
+ * GET lists the order's refunds, after checking the chain for any that
+ * are still pending.
+ *
+ * Path Parameters:
+ * - id: string (required) - The order ID
+ *
+ * Request Body (POST):
+ * - amount?: string - Amount to refund (default: everything not yet refunded)
+ * - reason?: string - Why the order is refunded
+ *
+ * Response (POST): RefundResponse
+ * Response (GET): RefundListResponse
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getOrder, getPaymentStatus, getRefundsByOrder } from "@/lib/dynamo";
+import { authenticateRequest, canAccessOrder, unauthorizedResponse } from "@/lib/auth";
+import { checkPendingRefunds, createRefund, RefundRejectedError } from "@/lib/refunds";
+import type {
+  CreateRefundRequest,
+  Merchant,
+  Order,
+  RefundListResponse,
+  RefundResponse,
+} from "@/lib/types";
+
+// ===========================================
+// Request Validation Schema
+// ===========================================
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const createRefundSchema = z.object({
+  amount: z
+    .string()
+    .regex(/^\d+(\.\d{1,18})?$/, "Amount must be a positive decimal string")
+    .optional(),
+  reason: z.string().max(500).optional(),
+});
+
+// ===========================================
+// Helpers
+// ===========================================
+
+/**
+ * Load an order the merchant may access
+ *
+ * @returns The order, or an error response (400/404)
+ */
+async function loadOrder(
+  orderId: string,
+  merchant: Merchant
+): Promise<{ order: Order } | { error: NextResponse<{ success: false; error: string }> }> {
+  if (!UUID_REGEX.test(orderId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Invalid order ID format" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const order = await getOrder(orderId);
+  if (!order || !canAccessOrder(merchant, order)) {
+    console.error("[API] Order not found:", orderId);
+    return {
+      error: NextResponse.json(
+        { success: false, error: "Order not found" },
+        { status: 404 }
+      ),
+    };
+  }
+  return { order };
+}
+
+// ===========================================
+// POST Handler
+// ===========================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<RefundResponse>> {
+  const { id: orderId } = await params;
+  console.log("[API] POST /api/orders/:id/refunds", orderId);
+
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const loaded = await loadOrder(orderId, merchant);
+    if ("error" in loaded) {
+      return loaded.error;
+    }
+
+    // Parse request body (empty body = full refund)
+    const text = await request.text();
+    let body: CreateRefundRequest;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Request body is not valid JSON",
+        },
+        { status: 400 }
+      );
+    }
+
+    // Validate request
+    const validationResult = createRefundSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Validation error: ${validationResult.error.errors.map((e) => e.message).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const payment = await getPaymentStatus(orderId);
+    if (!payment) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Order has no payment to refund",
+        },
+        { status: 409 }
+      );
+    }
+
+    const { refund, qrCodeDataUrl } = await createRefund(loaded.order, payment, validationResult.data);
+
+    return NextResponse.json({ success: true, refund, qrCodeDataUrl }, { status: 201 });
+  } catch (error) {
+    // Wrong status, no payment, more than is left to refund, or a
+    // concurrent refund request
+    if (error instanceof RefundRejectedError) {
+      console.error("[API] Refund rejected:", error.message);
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error("[API] Error creating refund:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to create refund: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// GET Handler
+// ===========================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<RefundListResponse>> {
+  const { id: orderId } = await params;
+  console.log("[API] GET /api/orders/:id/refunds", orderId);
+
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const loaded = await loadOrder(orderId, merchant);
+    if ("error" in loaded) {
+      return loaded.error;
+    }
+
+    await checkPendingRefunds(orderId);
+
+    const [refunds, payment] = await Promise.all([
+      getRefundsByOrder(orderId),
+      getPaymentStatus(orderId),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        refunds,
+        paymentDetails: payment || undefined,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("[API] Error listing refunds:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list refunds: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// OPTIONS Handler (CORS)
+// ===========================================
+
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
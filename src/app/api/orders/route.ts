@@ -0,0 +1,178 @@
+/**
+ * ===========================================
+ * GET /api/orders
+ * ===========================================
+ *
+ * Order history of the authenticated merchant, newest first, one page at
+ * a time. Pass the response's `lastKey` as `cursor` to get the next page;
+ * a page may come back shorter than `limit` (even empty) while `hasMore`
+ * is still true.
+ *
+ * Query Parameters (all optional):
+ * - limit: number - Page size, 1-100 (default: 25)
+ * - cursor: string - lastKey of the previous page
+ * - status: string - Comma-separated statuses, e.g. "completed,refunded"
+ * - from / to: string - Creation date range (ISO 8601, inclusive)
+ * - network: NetworkId - Network the order was created for (networks of
+ *   the current chain environment, see lib/chains.ts)
+ * - stablecoin: StablecoinSymbol - Any stablecoin in the environment's
+ *   token registry
+ * - currency: string - Currency the order is priced in (ISO 4217)
+ * - minAmount / maxAmount: number - Amount range in minor units of
+ *   `currency` (requires currency)
+ * - txHash: string - Transaction that paid or refunded the order
+ *
+ * Response: OrderListResponse
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { InvalidCursorError, listOrders } from "@/lib/dynamo";
+import { authenticateRequest, unauthorizedResponse } from "@/lib/auth";
+import { PAYMENT_TRANSITIONS } from "@/lib/payment-state";
+import { NETWORK_KEYS, type NetworkKey, type StablecoinKey } from "@/lib/chains";
+import { getNetworkTokens } from "@/lib/tokens";
+import type { OrderListResponse, PaymentStatus } from "@/lib/types";
+
+// ===========================================
+// Request Validation Schema
+// ===========================================
+
+const PAYMENT_STATUSES = Object.keys(PAYMENT_TRANSITIONS) as PaymentStatus[];
+
+/** Stablecoins deployed on any network of the current chain environment */
+const STABLECOIN_SYMBOLS = Array.from(
+  new Set(NETWORK_KEYS.flatMap((networkId) => getNetworkTokens(networkId).map((token) => token.symbol)))
+) as StablecoinKey[];
+
+const isoDate = z
+  .string()
+  .datetime({ offset: true, message: "Dates must be ISO 8601 timestamps" })
+  // Stored timestamps are UTC, compare in the same format
+  .transform((date) => new Date(date).toISOString());
+
+const minorUnits = z.coerce.number().int("Amounts must be whole minor units").nonnegative();
+
+const listOrdersSchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    cursor: z.string().max(2048).optional(),
+    status: z
+      .string()
+      .transform((value) => value.split(",").map((status) => status.trim()).filter(Boolean))
+      .pipe(
+        z.array(
+          z.enum(PAYMENT_STATUSES as [PaymentStatus, ...PaymentStatus[]], {
+            errorMap: () => ({ message: "Unknown status" }),
+          })
+        )
+      )
+      .optional(),
+    from: isoDate.optional(),
+    to: isoDate.optional(),
+    network: z
+      .enum(NETWORK_KEYS as [NetworkKey, ...NetworkKey[]], {
+        errorMap: () => ({ message: "Unknown network" }),
+      })
+      .optional(),
+    stablecoin: z
+      .enum(STABLECOIN_SYMBOLS as [StablecoinKey, ...StablecoinKey[]], {
+        errorMap: () => ({ message: "Unknown stablecoin" }),
+      })
+      .optional(),
+    currency: z.string().regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code").optional(),
+    minAmount: minorUnits.optional(),
+    maxAmount: minorUnits.optional(),
+    txHash: z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash").optional(),
+  })
+  .refine(
+    (query) => query.currency || (query.minAmount === undefined && query.maxAmount === undefined),
+    "An amount range requires a currency"
+  )
+  .refine(
+    (query) => !query.from || !query.to || query.from <= query.to,
+    "from must not be after to"
+  );
+
+// ===========================================
+// GET Handler
+// ===========================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<OrderListResponse>> {
+  console.log("[API] GET /api/orders");
+
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Validate request (empty parameters count as absent)
+    const validationResult = listOrdersSchema.safeParse(
+      Object.fromEntries(Array.from(searchParams.entries()).filter(([, value]) => value !== ""))
+    );
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Validation error: ${validationResult.error.errors.map((e) => e.message).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const query = validationResult.data;
+    const page = await listOrders(merchant.merchantId, {
+      limit: query.limit,
+      lastKey: query.cursor,
+      statuses: query.status,
+      createdFrom: query.from,
+      createdTo: query.to,
+      networkId: query.network,
+      stablecoin: query.stablecoin,
+      currency: query.currency,
+      minAmount: query.minAmount,
+      maxAmount: query.maxAmount,
+      transactionHash: query.txHash,
+    });
+
+    return NextResponse.json({ success: true, ...page }, { status: 200 });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("[API] Error listing orders:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to list orders: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// OPTIONS Handler (CORS)
+// ===========================================
+
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * ===========================================
+ * POST /api/reorg-check
+ * ===========================================
+ * 
+ * Re-verifies payments settled in the last hour against the canonical
+ * chain and reverts any whose transaction was dropped by a reorg.
+ * The payment watcher runs the same check every cycle; without a watcher,
+ * call this route periodically (e.g. every minute from a scheduler). The
+ * check covers every merchant's orders, so it takes the operator secret
+ * (Authorization: Bearer <OPERATOR_SECRET>) rather than a merchant key.
+ * 
+ * Response:
+ * - success: boolean
+ * - summary?: ReorgCheckSummary - Orders checked, moved, reorged, unknown
+ * - error?: string - Error message if failed
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { checkRecentSettlements } from "@/lib/reorg";
+import { isOperatorRequest, unauthorizedResponse } from "@/lib/auth";
+
+// ===========================================
+// POST Handler
+// ===========================================
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  console.log("[API] POST /api/reorg-check");
+
+  if (!isOperatorRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const summary = await checkRecentSettlements();
+
+    if (summary.reorged.length > 0) {
+      console.warn(`[API] Reverted ${summary.reorged.length} reorged payments:`, summary.reorged);
+    }
+
+    return NextResponse.json({ success: true, summary }, { status: 200 });
+  } catch (error) {
+    console.error("[API] Error checking for reorgs:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to check for reorgs: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// OPTIONS Handler (CORS)
+// ===========================================
+
+export async function OPTIONS(): Promise<NextResponse> {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    },
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * ===========================================
+ * /api/session
+ * ===========================================
+ *
+ * POS sign-in. The POS exchanges a merchant API key for an HttpOnly
+ * session cookie once, instead of keeping the key in the browser.
+ *
+ * POST - Sign in
+ *   Request Body:
+ *   - apiKey: string (required) - Merchant API key
+ *
+ * GET - Current merchant (session cookie or API key)
+ *
+ * DELETE - Sign out (clears the session cookie)
+ *
+ * Response:
+ * - success: boolean
+ * - merchant?: Merchant - The signed-in merchant
+ * - error?: string - Error message if failed
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  authenticateRequest,
+  clearSessionCookie,
+  createSessionToken,
+  setSessionCookie,
+  unauthorizedResponse,
+} from "@/lib/auth";
+import { authenticateApiKey } from "@/lib/merchants";
+import type { CreateSessionRequest, SessionResponse } from "@/lib/types";
+
+// ===========================================
+// Request Validation Schema
+// ===========================================
+
+const createSessionSchema = z.object({
+  apiKey: z.string().min(1, "API key is required"),
+});
+
+// ===========================================
+// POST Handler
+// ===========================================
+
+export async function POST(request: NextRequest): Promise<NextResponse<SessionResponse>> {
+  console.log("[API] POST /api/session");
+
+  try {
+    const body: CreateSessionRequest = await request.json();
+
+    const validationResult = createSessionSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Validation error: ${validationResult.error.errors.map((e) => e.message).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const authenticated = await authenticateApiKey(validationResult.data.apiKey);
+    if (!authenticated) {
+      console.warn("[API] Sign-in with an invalid API key");
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid API key",
+        },
+        { status: 401 }
+      );
+    }
+
+    const { merchant, keyId } = authenticated;
+    console.log(`[API] Merchant ${merchant.merchantId} signed in with key ${keyId}`);
+
+    const response = NextResponse.json<SessionResponse>(
+      { success: true, merchant },
+      { status: 200 }
+    );
+    setSessionCookie(response, createSessionToken(merchant.merchantId, keyId));
+    return response;
+  } catch (error) {
+    console.error("[API] Error signing in:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Failed to sign in: ${(error as Error).message}`,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// ===========================================
+// GET Handler
+// ===========================================
+
+export async function GET(request: NextRequest): Promise<NextResponse<SessionResponse>> {
+  const merchant = await authenticateRequest(request);
+  if (!merchant) {
+    return unauthorizedResponse();
+  }
+  return NextResponse.json({ success: true, merchant }, { status: 200 });
+}
+
+// ===========================================
+// DELETE Handler
+// ===========================================
+
+export async function DELETE(): Promise<NextResponse<SessionResponse>> {
+  console.log("[API] DELETE /api/session");
+
+  const response = NextResponse.json<SessionResponse>({ success: true }, { status: 200 });
+  clearSessionCookie(response);
+  return response;
+}
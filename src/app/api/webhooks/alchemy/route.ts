@@ -10,16 +10,61 @@
  * Setup:
  * 1. Go to https://dashboard.alchemy.com/webhooks
  * 2. Create "Address Activity" webhook
- * 3. Add merchant wallet address
+ * 3. Add every merchant's wallet, network and deposit addresses
  * 4. Set webhook URL to: https://your-app.com/api/webhooks/alchemy
  * 5. Copy signing key to ALCHEMY_WEBHOOK_SIGNING_KEY env var
  * 
+ * Only events for networks of the current chain environment are processed
+ * (mainnet, or testnets with NEXT_PUBLIC_TESTNET_MODE=true; see
+ * lib/chains.ts). Others are acknowledged and ignored.
+ * 
+ * Transfers are identified by their token contract (lib/tokens.ts), whose
+ * registry entry gives the symbol and decimals; transfers of other
+ * contracts are ignored whatever asset name they report.
+ * 
+ * Transfers are matched against the orders paid to the receiving address
+ * on the transfer's network (each order records its address per network,
+ * see lib/reconciliation.ts), and added to what the matched order
+ * received so far (see lib/settlement.ts).
+ * 
+ * The merchant's outgoing transfers are reported too; one that pays a
+ * pending refund completes it (see lib/refunds.ts).
+ * 
+ * Activities with `log.removed: true` are transfers dropped by a chain
+ * reorganization; the order they settled is reverted (see lib/reorg.ts and
+ * revertSettlement in lib/settlement.ts).
+ * 
+ * Payloads are checked against alchemyPayloadSchema first; a malformed
+ * one is answered with a 400 (it won't parse on retry either).
+ * 
+ * Each delivery is recorded by its event `id` (see lib/dynamo.ts), so a
+ * retried delivery is applied once. A delivery that fails to process is
+ * answered with a 500, so Alchemy delivers it again; its activities are
+ * then processed again, and the consumed-transfer index keeps the ones
+ * that already settled an order from applying twice.
+ * 
  * @see https://docs.alchemy.com/reference/address-activity-webhook
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import { updatePaymentStatus, updateOrderStatus, scanOrdersByMerchantAddress } from "@/lib/dynamo";
+import { z } from "zod";
+import {
+  completeWebhookEvent,
+  getConsumedTransfer,
+  getOpenOrdersByReceivingAddress,
+  getOrdersByStatus,
+  getPaymentStatus,
+  recordWebhookEvent,
+  TransferAlreadyConsumedError,
+} from "@/lib/dynamo";
+import { fromTokenUnits, isPaidTo, matchTransferToOrders } from "@/lib/reconciliation";
+import { revertSettlement, settleTransfer } from "@/lib/settlement";
+import { flagLatePayment, LATE_PAYMENT_WINDOW_MS } from "@/lib/cancellation";
+import { matchRefundTransfer } from "@/lib/refunds";
+import { CHAIN_ENVIRONMENT, CHAINS, STABLECOINS } from "@/lib/chains";
+import { getTokenByAddress } from "@/lib/tokens";
+import { InvalidStatusTransitionError } from "@/lib/payment-state";
 
 // ===========================================
 // Alchemy Webhook Types
@@ -62,24 +107,60 @@ interface AlchemyWebhookPayload {
   };
 }
 
-// Network mapping from Alchemy format to our format
-const ALCHEMY_NETWORK_MAP: Record<string, string> = {
-  "ETH_MAINNET": "ethereum",
-  "ETH_SEPOLIA": "ethereum",
-  "MATIC_MAINNET": "polygon",
-  "MATIC_AMOY": "polygon",
-  "ARB_MAINNET": "arbitrum",
-  "ARB_SEPOLIA": "arbitrum",
-  "OPT_MAINNET": "optimism",
-  "OPT_SEPOLIA": "optimism",
-  "BASE_MAINNET": "base",
-  "BASE_SEPOLIA": "base",
-  "AVAX_MAINNET": "avalanche",
-  "BNB_MAINNET": "bsc",
-};
+// ===========================================
+// Payload Validation Schema
+// ===========================================
+
+const hexString = z.string().regex(/^0x[0-9a-f]+$/i, "Expected a hex string");
+
+/** Fields processActivity reads from a token transfer */
+const tokenActivitySchema = z.object({
+  blockNum: hexString,
+  hash: hexString,
+  fromAddress: z.string(),
+  toAddress: z.string(),
+  rawContract: z.object({
+    rawValue: hexString,
+    address: z.string(),
+  }),
+  log: z
+    .object({
+      logIndex: hexString,
+      removed: z.boolean(),
+    })
+    .optional(),
+});
+
+/** Other activity (e.g. native ETH) is skipped, so only its category matters */
+const activitySchema = z
+  .object({ category: z.string() })
+  .passthrough()
+  .superRefine((activity, ctx) => {
+    if (activity.category !== "token" && activity.category !== "erc20") return;
+    const result = tokenActivitySchema.safeParse(activity);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue(issue));
+    }
+  });
+
+const alchemyPayloadSchema = z.object({
+  id: z.string().min(1),
+  type: z.string(),
+  event: z.object({
+    network: z.string(),
+    activity: z.array(activitySchema),
+  }),
+});
+
+// Network mapping from Alchemy format to our format (see lib/chains.ts)
+const ALCHEMY_NETWORK_MAP: Record<string, string> = Object.fromEntries(
+  Object.values(CHAINS).flatMap((chain) =>
+    chain.alchemyNetworks.map((alchemyNetwork) => [alchemyNetwork, chain.id])
+  )
+);
 
 // Stablecoins we care about
-const STABLECOINS = ["USDC", "USDT", "DAI", "BUSD", "FRAX", "TUSD", "PYUSD"];
+const STABLECOIN_SYMBOLS: string[] = Object.keys(STABLECOINS);
 
 // ===========================================
 // Signature Verification
@@ -143,8 +224,25 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       console.warn("[Alchemy Webhook] No signing key configured - skipping verification");
     }
 
-    // Parse payload
-    const payload: AlchemyWebhookPayload = JSON.parse(rawBody);
+    // Parse payload (a malformed body won't parse on retry either)
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      console.error("[Alchemy Webhook] Payload is not valid JSON");
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+
+    const validationResult = alchemyPayloadSchema.safeParse(body);
+    if (!validationResult.success) {
+      const issues = validationResult.error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ");
+      console.error(`[Alchemy Webhook] Invalid payload: ${issues}`);
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
+    // The schema checked every field the handler reads
+    const payload = body as AlchemyWebhookPayload;
     
     console.log("[Alchemy Webhook] Event:", {
       id: payload.id,
@@ -153,17 +251,37 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       activityCount: payload.event.activity.length,
     });
 
+    // Events from another environment's chains (e.g. ETH_SEPOLIA while
+    // running against mainnets) must never touch this environment's orders
+    if (!ALCHEMY_NETWORK_MAP[payload.event.network]) {
+      console.log(`[Alchemy Webhook] Ignoring event for ${payload.event.network}: not a ${CHAIN_ENVIRONMENT} network`);
+      return NextResponse.json({ received: true, ignored: true }, { status: 200 });
+    }
+
+    // Alchemy retries with the same id; process each event once
+    const { event, duplicate } = await recordWebhookEvent("alchemy", payload.id, rawBody);
+    if (duplicate) {
+      console.log(`[Alchemy Webhook] Event ${payload.id} already ${event.status}, ignoring`);
+      return NextResponse.json({ received: true, duplicate: true }, { status: 200 });
+    }
+
     // Process each activity
-    for (const activity of payload.event.activity) {
-      await processActivity(activity, payload.event.network);
+    try {
+      for (const activity of payload.event.activity) {
+        await processActivity(activity, payload.event.network);
+      }
+    } catch (error) {
+      await completeWebhookEvent(event.eventKey, String(error));
+      throw error;
     }
+    await completeWebhookEvent(event.eventKey);
 
     // Return 200 quickly
     return NextResponse.json({ received: true }, { status: 200 });
   } catch (error) {
     console.error("[Alchemy Webhook] Error:", error);
-    // Return 200 to prevent retries for parse errors
-    return NextResponse.json({ received: true, error: "Processing error" }, { status: 200 });
+    // Fail the delivery so Alchemy retries it (the event is marked failed)
+    return NextResponse.json({ received: false, error: "Processing error" }, { status: 500 });
   }
 }
 
@@ -186,67 +304,165 @@ async function processActivity(activity: AlchemyActivity, alchemyNetwork: string
     return;
   }
 
-  // Only process stablecoin transfers
-  if (!STABLECOINS.includes(activity.asset)) {
-    console.log(`[Alchemy Webhook] Skipping non-stablecoin: ${activity.asset}`);
+  const networkId = ALCHEMY_NETWORK_MAP[alchemyNetwork];
+
+  // Only process transfers of registry stablecoin contracts; the payload's
+  // asset name and decimals are not trusted (any contract can call itself
+  // "USDC")
+  const token = getTokenByAddress(networkId, activity.rawContract.address);
+  if (!token) {
+    console.log(`[Alchemy Webhook] Skipping unknown token contract: ${activity.rawContract.address} (${activity.asset})`);
     return;
   }
 
-  const merchantAddress = activity.toAddress.toLowerCase();
-  const amount = activity.value;
+  const receivingAddress = activity.toAddress.toLowerCase();
+  const decimals = token.decimals;
+  const receivedUnits = BigInt(activity.rawContract.rawValue);
+  const amount = fromTokenUnits(receivedUnits, decimals);
   const txHash = activity.hash;
-  const networkId = ALCHEMY_NETWORK_MAP[alchemyNetwork] || alchemyNetwork.toLowerCase();
+  const logIndex = activity.log ? parseInt(activity.log.logIndex, 16) : undefined;
+
+  // The log was dropped by a reorg: undo whatever it settled
+  if (activity.log?.removed) {
+    await processRemovedActivity(networkId, txHash, logIndex);
+    return;
+  }
+
+  // An outgoing transfer from the merchant may pay a pending refund
+  const refund = await matchRefundTransfer({
+    networkId,
+    from: activity.fromAddress,
+    to: activity.toAddress,
+    rawAmount: receivedUnits.toString(),
+    decimals,
+    tokenSymbol: token.symbol,
+    transactionHash: txHash,
+    logIndex,
+    blockNumber: parseInt(activity.blockNum, 16),
+  });
+  if (refund) {
+    console.log(`[Alchemy Webhook] ✓ Transfer completes refund ${refund.refundId} of order ${refund.orderId}`);
+    return;
+  }
 
   console.log(`[Alchemy Webhook] 💰 Stablecoin received!`);
-  console.log(`[Alchemy Webhook]   Amount: ${amount} ${activity.asset}`);
-  console.log(`[Alchemy Webhook]   To: ${merchantAddress}`);
+  console.log(`[Alchemy Webhook]   Amount: ${amount} ${token.symbol}`);
+  console.log(`[Alchemy Webhook]   To: ${receivingAddress}`);
   console.log(`[Alchemy Webhook]   Network: ${networkId}`);
   console.log(`[Alchemy Webhook]   TX: ${txHash}`);
 
-  // Find pending orders for this merchant address
+  // Find pending orders paid to this address
   try {
-    const pendingOrders = await scanOrdersByMerchantAddress(merchantAddress, ["pending", "scanning"]);
-    
-    if (!pendingOrders || pendingOrders.length === 0) {
-      console.log("[Alchemy Webhook] No pending orders found for this address");
+    // Redelivered or replayed webhooks must not settle a second order
+    const consumed = await getConsumedTransfer({ networkId, transactionHash: txHash, logIndex });
+    if (consumed) {
+      console.log(`[Alchemy Webhook] Transfer already settled order ${consumed.orderId}, skipping`);
       return;
     }
 
+    const pendingOrders = await getOpenOrdersByReceivingAddress(
+      receivingAddress,
+      ["pending", "scanning", "processing", "reorged", "partially_paid"],
+      networkId
+    );
+
     console.log(`[Alchemy Webhook] Found ${pendingOrders.length} pending orders`);
 
-    // Find matching order by amount (with 5% tolerance)
-    const tolerance = 0.05;
-    const matchingOrder = pendingOrders.find(order => {
-      const diff = Math.abs(order.amount - amount);
-      const percentDiff = diff / order.amount;
-      return percentDiff <= tolerance;
-    });
+    // Find the order whose unique amount due matches exactly; near
+    // matches are partial payments or flagged as overpaid, never completed
+    const result = matchTransferToOrders(pendingOrders, receivedUnits, decimals);
+
+    if (!result) {
+      // A cancelled order's QR may still get paid: flag it for refund
+      const lateSince = new Date(Date.now() - LATE_PAYMENT_WINDOW_MS).toISOString();
+      const cancelledOrders = (await getOrdersByStatus(["cancelled"], lateSince)).filter(
+        (order) => order.cancelledAt && isPaidTo(order, receivingAddress, networkId)
+      );
+      const late = matchTransferToOrders(cancelledOrders, receivedUnits, decimals);
+
+      if (late) {
+        await flagLatePayment(late.order, {
+          networkId,
+          transactionHash: txHash,
+          logIndex,
+          blockNumber: parseInt(activity.blockNum, 16),
+          blockHash: activity.log?.blockHash,
+          senderAddress: activity.fromAddress,
+          stablecoin: token.symbol,
+          amountReceived: amount,
+        });
+        return;
+      }
 
-    if (!matchingOrder) {
       console.log(`[Alchemy Webhook] No order matches amount ${amount}`);
-      // Still might want to mark the first pending order as completed
-      // if amounts are close enough or for demo purposes
       return;
     }
 
-    console.log(`[Alchemy Webhook] ✓ Matched order: ${matchingOrder.orderId}`);
-
-    // Update order status to completed
-    await Promise.all([
-      updateOrderStatus(matchingOrder.orderId, "completed"),
-      updatePaymentStatus(matchingOrder.orderId, {
-        status: "completed",
-        transactionHash: txHash,
-        networkId: networkId,
-        stablecoin: activity.asset,
-        amount: amount,
-        senderAddress: activity.fromAddress,
-      }),
-    ]);
+    const { order: matchingOrder, match } = result;
+    console.log(`[Alchemy Webhook] ✓ Matched order: ${matchingOrder.orderId} (${match})`);
+
+    // Claims the transfer and moves order and payment status together,
+    // so a concurrent delivery for the same transfer can't settle another
+    // order. Full payments still have to reach the network's confirmation
+    // depth; /api/check-status completes them
+    const { paymentStatus } = await settleTransfer(matchingOrder, {
+      networkId,
+      transactionHash: txHash,
+      logIndex,
+      blockNumber: parseInt(activity.blockNum, 16),
+      blockHash: activity.log?.blockHash,
+      from: activity.fromAddress,
+      amount,
+      tokenSymbol: token.symbol,
+    });
 
-    console.log(`[Alchemy Webhook] ✓ Order ${matchingOrder.orderId} marked as COMPLETED`);
+    console.log(`[Alchemy Webhook] ✓ Order ${matchingOrder.orderId} marked as ${paymentStatus.status.toUpperCase()}`);
   } catch (dbError) {
+    if (
+      dbError instanceof TransferAlreadyConsumedError ||
+      dbError instanceof InvalidStatusTransitionError
+    ) {
+      console.warn(`[Alchemy Webhook] ${dbError.message}, skipping`);
+      return;
+    }
     console.error("[Alchemy Webhook] Database error:", dbError);
+    throw dbError;
+  }
+}
+
+/**
+ * Revert the order settled by a transfer that was removed in a reorg
+ */
+async function processRemovedActivity(
+  networkId: string,
+  txHash: string,
+  logIndex?: number
+): Promise<void> {
+  console.warn(`[Alchemy Webhook] Transfer removed by reorg: ${txHash} on ${networkId}`);
+
+  try {
+    const claim = await getConsumedTransfer({ networkId, transactionHash: txHash, logIndex });
+    if (!claim) {
+      console.log("[Alchemy Webhook] Removed transfer had not settled any order");
+      return;
+    }
+
+    const record = await getPaymentStatus(claim.orderId);
+    if (!record) {
+      return;
+    }
+
+    await revertSettlement(record, `Transfer ${txHash} removed by chain reorganization`, [
+      { networkId, transactionHash: txHash, logIndex },
+    ]);
+  } catch (dbError) {
+    // e.g. the order was refunded meanwhile; the refusal is in its history
+    if (dbError instanceof InvalidStatusTransitionError) {
+      console.warn(`[Alchemy Webhook] ${dbError.message}, not reverting`);
+      return;
+    }
+    console.error("[Alchemy Webhook] Error reverting reorged transfer:", dbError);
+    throw dbError;
   }
 }
 
@@ -260,12 +476,12 @@ export async function GET(): Promise<NextResponse> {
     message: "Alchemy webhook endpoint is active",
     expectedHeaders: ["X-Alchemy-Signature"],
     supportedNetworks: Object.keys(ALCHEMY_NETWORK_MAP),
-    supportedStablecoins: STABLECOINS,
+    supportedStablecoins: STABLECOIN_SYMBOLS,
     documentation: "https://docs.alchemy.com/reference/address-activity-webhook",
     setup: {
       step1: "Go to https://dashboard.alchemy.com/webhooks",
       step2: "Create 'Address Activity' webhook",
-      step3: "Add your merchant wallet address",
+      step3: "Add every merchant's wallet, network and deposit addresses",
       step4: "Set webhook URL to this endpoint",
       step5: "Copy signing key to ALCHEMY_WEBHOOK_SIGNING_KEY env var",
     },
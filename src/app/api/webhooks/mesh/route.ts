@@ -9,14 +9,41 @@
  * - succeeded: Transfer completed successfully
  * - failed: Transfer failed
  * 
- * Security: Validates HMAC signature from Mesh
+ * A succeeded transfer is checked like one seen on-chain: its amount is
+ * compared with the order, and the order completes through `confirming`
+ * (see settleMeshTransfer in lib/settlement.ts).
+ * 
+ * Security: Validates HMAC signature from Mesh with MESH_WEBHOOK_SECRET.
+ * Without a secret, deliveries are refused unless
+ * MESH_WEBHOOK_ALLOW_UNSIGNED=true (local development only: anyone could
+ * then mark an order paid).
+ * 
+ * The transfer's RefundAddress is stored on the payment status, so
+ * refunds of Mesh payments go back to the customer's account rather than
+ * the exchange wallet the transfer came from (see lib/refunds.ts).
+ * 
+ * Each delivery is recorded by EventId (see lib/dynamo.ts), so retries
+ * are applied once, and events the payment state machine refuses (e.g. a
+ * late "pending" for a completed order) are ignored. A delivery that
+ * fails to process is answered with a 500, so Mesh delivers it again.
  * 
  * @see https://docs.meshconnect.com/testing/webhooks
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import crypto from "crypto";
-import { updatePaymentStatus } from "@/lib/dynamo";
+import {
+  completeWebhookEvent,
+  getOrder,
+  recordWebhookEvent,
+  TransferAlreadyConsumedError,
+  updatePaymentStatus,
+} from "@/lib/dynamo";
+import { flagLatePayment } from "@/lib/cancellation";
+import { settleMeshTransfer } from "@/lib/settlement";
+import { getOrderIdFromMeshUserId } from "@/lib/mesh";
+import { canTransition, InvalidStatusTransitionError } from "@/lib/payment-state";
+import type { PaymentStatus } from "@/lib/types";
 
 // ===========================================
 // Webhook Types
@@ -84,8 +111,19 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // Get webhook secret from environment
     const webhookSecret = process.env.MESH_WEBHOOK_SECRET;
     
-    // Verify signature if secret is configured
-    if (webhookSecret && signature) {
+    // Unsigned deliveries are only accepted when explicitly allowed
+    if (!webhookSecret) {
+      if (process.env.MESH_WEBHOOK_ALLOW_UNSIGNED !== "true") {
+        console.error("[Webhook] MESH_WEBHOOK_SECRET not set, refusing unsigned delivery");
+        return NextResponse.json({ error: "Webhook secret not configured" }, { status: 401 });
+      }
+      console.warn("[Webhook] MESH_WEBHOOK_ALLOW_UNSIGNED is set - skipping signature verification");
+    } else {
+      if (!signature) {
+        console.error("[Webhook] Missing signature header");
+        return NextResponse.json({ error: "Missing signature" }, { status: 401 });
+      }
+
       const isValid = verifySignature(rawBody, signature, webhookSecret);
       if (!isValid) {
         console.error("[Webhook] Invalid signature");
@@ -95,12 +133,16 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         );
       }
       console.log("[Webhook] Signature verified");
-    } else if (webhookSecret && !signature) {
-      console.warn("[Webhook] No signature provided but secret is configured");
     }
 
-    // Parse payload
-    const payload: MeshWebhookPayload = JSON.parse(rawBody);
+    // Parse payload (a malformed body won't parse on retry either)
+    let payload: MeshWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      console.error("[Webhook] Payload is not valid JSON");
+      return NextResponse.json({ error: "Invalid payload" }, { status: 400 });
+    }
     
     console.log("[Webhook] Payload:", {
       eventId: payload.EventId,
@@ -112,42 +154,124 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       userId: payload.UserId,
     });
 
-    // Extract order ID from UserId (we use "user_{orderId}" format)
-    const orderId = payload.UserId?.replace("user_", "");
-    
-    if (!orderId) {
-      console.error("[Webhook] Could not extract order ID from UserId:", payload.UserId);
-      // Still return 200 to prevent retries
-      return NextResponse.json({ received: true });
+    // Mesh retries with the same EventId; process each event once
+    let eventKey: string | null = null;
+    if (payload.EventId) {
+      const { event, duplicate } = await recordWebhookEvent("mesh", payload.EventId, rawBody);
+      if (duplicate) {
+        console.log(`[Webhook] Event ${payload.EventId} already ${event.status}, ignoring`);
+        return NextResponse.json({ received: true, duplicate: true }, { status: 200 });
+      }
+      eventKey = event.eventKey;
+    } else {
+      console.warn("[Webhook] Payload has no EventId, processing without dedupe");
     }
 
-    // Map Mesh status to our payment status
-    const statusMap: Record<string, string> = {
-      pending: "processing",
-      succeeded: "completed",
-      failed: "failed",
-    };
-
-    const newStatus = statusMap[payload.TransferStatus.toLowerCase()] || "processing";
-
-    // Update payment status in database
-    await updatePaymentStatus(orderId, {
-      status: newStatus as "pending" | "processing" | "completed" | "failed",
-      transactionHash: payload.TxHash,
-      networkId: payload.Chain?.toLowerCase(),
-      stablecoin: payload.Token,
-      amount: payload.DestinationAmount,
-    });
-
-    console.log(`[Webhook] Updated order ${orderId} status to ${newStatus}`);
+    try {
+      await processTransferEvent(payload);
+    } catch (error) {
+      if (eventKey) {
+        await completeWebhookEvent(eventKey, String(error));
+      }
+      throw error;
+    }
+    if (eventKey) {
+      await completeWebhookEvent(eventKey);
+    }
 
     // Return 200 quickly (Mesh expects response in <200ms)
     return NextResponse.json({ received: true }, { status: 200 });
   } catch (error) {
     console.error("[Webhook] Error processing webhook:", error);
-    // Return 200 anyway to prevent infinite retries
-    return NextResponse.json({ received: true, error: "Processing error" }, { status: 200 });
+    // Fail the delivery so Mesh retries it (the event is marked failed)
+    return NextResponse.json({ received: false, error: "Processing error" }, { status: 500 });
+  }
+}
+
+/**
+ * Apply a Mesh transfer event to its order
+ */
+async function processTransferEvent(payload: MeshWebhookPayload): Promise<void> {
+  // Extract order ID from UserId (we use "user_{orderId}" format)
+  const orderId = getOrderIdFromMeshUserId(payload.UserId);
+  
+  if (!orderId) {
+    console.error("[Webhook] Could not extract order ID from UserId:", payload.UserId);
+    // Still acknowledge to prevent retries
+    return;
   }
+
+  const succeeded = payload.TransferStatus.toLowerCase() === "succeeded";
+
+  // Map the other Mesh statuses to our payment status
+  const newStatus: PaymentStatus =
+    payload.TransferStatus.toLowerCase() === "failed" ? "failed" : "processing";
+
+  // A cancelled order never moves again; a payment that still
+  // succeeds is flagged for refund review
+  const order = await getOrder(orderId);
+  if (order?.status === "cancelled") {
+    if (succeeded && payload.TxHash) {
+      await flagLatePayment(order, {
+        networkId: payload.Chain?.toLowerCase() || "unknown",
+        transactionHash: payload.TxHash,
+        stablecoin: payload.Token,
+        amountReceived: payload.DestinationAmount?.toString() ?? "unknown",
+        refundAddress: payload.RefundAddress,
+      });
+    } else {
+      console.log(`[Webhook] Ignoring ${payload.TransferStatus} for cancelled order ${orderId}`);
+    }
+    return;
+  }
+
+  if (!order) {
+    console.error("[Webhook] Order not found:", orderId);
+    return;
+  }
+
+  try {
+    if (succeeded) {
+      // Claims the transfer; the order completes once it is deep enough
+      const settled = await settleMeshTransfer(order, {
+        meshTransferId: payload.TransferId,
+        transactionHash: payload.TxHash,
+        networkId: payload.Chain?.toLowerCase(),
+        stablecoin: payload.Token,
+        amount: payload.DestinationAmount?.toString(),
+        refundAddress: payload.RefundAddress,
+      });
+      console.log(`[Webhook] Order ${orderId} is ${settled?.order.status ?? "processing"}`);
+      return;
+    }
+
+    // Out-of-order events (e.g. "pending" after "succeeded") are refused
+    // by the state machine, for the order here and for the payment status
+    // in updatePaymentStatus. A repeated "pending" only refreshes the
+    // transfer details.
+    const statusChanged = order.status !== newStatus;
+    if (statusChanged && !canTransition(order.status, newStatus)) {
+      console.log(`[Webhook] Ignoring ${newStatus} for order ${orderId}, already ${order.status}`);
+      return;
+    }
+
+    await updatePaymentStatus(orderId, {
+      ...(statusChanged ? { status: newStatus } : {}),
+      meshTransferId: payload.TransferId,
+      refundAddress: payload.RefundAddress,
+    });
+  } catch (error) {
+    if (
+      error instanceof TransferAlreadyConsumedError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      console.warn(`[Webhook] ${error.message}, ignoring`);
+      return;
+    }
+    throw error;
+  }
+
+  console.log(`[Webhook] Updated order ${orderId} status to ${newStatus}`);
 }
 
 // ===========================================
@@ -7,6 +7,7 @@
  * 
  * Main POS interface for merchants to accept payments.
  * Handles the full payment flow:
+ * 0. Sign in with a merchant API key (once per session)
  * 1. Enter amount
  * 2. Select network and stablecoin
  * 3. Generate QR code
@@ -14,7 +15,7 @@
  * 5. Show success/failure
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,7 +44,6 @@ import {
 } from "@/components/ui/alert-dialog";
 import {
   QrCode,
-  DollarSign,
   CheckCircle2,
   XCircle,
   Loader2,
@@ -55,14 +55,30 @@ import {
   Globe,
   Coins,
   Zap,
+  KeyRound,
+  LogOut,
 } from "lucide-react";
 import type {
+  Merchant,
+  Money,
   Order,
   PaymentStatus,
   CreateOrderResponse,
   GenerateQRResponse,
   CheckStatusResponse,
+  CancelOrderResponse,
+  OrderStatusEvent,
+  PaymentStatusRecord,
+  SessionResponse,
 } from "@/lib/types";
+import {
+  CHAINS,
+  NETWORK_KEYS,
+  STABLECOINS as REGISTRY_STABLECOINS,
+  TESTNET_MODE,
+  type StablecoinKey,
+} from "@/lib/chains";
+import { formatMoney, parseMoney } from "@/lib/money";
 
 // ===========================================
 // Status Badge Component
@@ -74,7 +90,14 @@ function StatusBadge({ status }: { status: PaymentStatus }) {
     scanning: { variant: "pending", label: "QR Scanned" },
     authorizing: { variant: "warning", label: "Authorizing" },
     processing: { variant: "warning", label: "Processing" },
+    confirming: { variant: "warning", label: "Confirming" },
+    reorged: { variant: "destructive", label: "Reorged - Awaiting Re-inclusion" },
     completed: { variant: "success", label: "Completed" },
+    partially_paid: { variant: "warning", label: "Partially Paid" },
+    underpaid: { variant: "destructive", label: "Underpaid" },
+    overpaid: { variant: "warning", label: "Overpaid" },
+    partially_refunded: { variant: "secondary", label: "Partially Refunded" },
+    refunded: { variant: "secondary", label: "Refunded" },
     failed: { variant: "destructive", label: "Failed" },
     expired: { variant: "secondary", label: "Expired" },
     cancelled: { variant: "secondary", label: "Cancelled" },
@@ -84,7 +107,7 @@ function StatusBadge({ status }: { status: PaymentStatus }) {
 
   return (
     <Badge variant={variant} className="text-sm">
-      {status === "processing" && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+      {(status === "processing" || status === "confirming") && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
       {status === "completed" && <CheckCircle2 className="w-3 h-3 mr-1" />}
       {status === "failed" && <XCircle className="w-3 h-3 mr-1" />}
       {label}
@@ -287,6 +310,80 @@ function QRCodeDisplay({
   );
 }
 
+// ===========================================
+// Sign-in Component
+// ===========================================
+
+function SignInForm({ onSignedIn }: { onSignedIn: (merchant: Merchant) => void }) {
+  const { toast } = useToast();
+  const [apiKey, setApiKey] = useState("");
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const signIn = async () => {
+    setIsSigningIn(true);
+    try {
+      const response = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ apiKey: apiKey.trim() }),
+      });
+      const data: SessionResponse = await response.json();
+
+      if (!data.success || !data.merchant) {
+        throw new Error(data.error || "Sign-in failed");
+      }
+
+      setApiKey("");
+      onSignedIn(data.merchant);
+    } catch (error) {
+      toast({
+        title: "Sign-in Failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-xl mx-auto shadow-xl border-0 overflow-hidden">
+      <div className="h-2 bg-gradient-to-r from-orange-500 via-amber-500 to-orange-600" />
+      <CardHeader className="space-y-1 pb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-orange-100 flex items-center justify-center">
+            <KeyRound className="w-5 h-5 text-orange-600" />
+          </div>
+          <CardTitle className="text-xl">Sign In</CardTitle>
+        </div>
+        <CardDescription>Enter your store&apos;s API key to open the till</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="api-key">API Key</Label>
+        <Input
+          id="api-key"
+          type="password"
+          autoComplete="off"
+          placeholder="spk_..."
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && apiKey && signIn()}
+        />
+      </CardContent>
+      <CardFooter>
+        <Button
+          className="w-full h-12 bg-orange-600 hover:bg-orange-700"
+          onClick={signIn}
+          disabled={isSigningIn || !apiKey}
+        >
+          {isSigningIn ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+          Sign In
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
 // ===========================================
 // Success Display Component
 // ===========================================
@@ -297,7 +394,7 @@ function SuccessDisplay({
   onNewPayment,
 }: {
   transactionHash?: string;
-  amount: number;
+  amount: Money;
   onNewPayment: () => void;
 }) {
   const truncateHash = (hash: string) => {
@@ -314,7 +411,7 @@ function SuccessDisplay({
       <div className="text-center">
         <h3 className="text-2xl font-bold text-gray-900">Payment Successful!</h3>
         <p className="text-gray-600 mt-1">
-          ${amount.toFixed(2)} USDC received
+          {formatMoney(amount)} USDC received
         </p>
       </div>
 
@@ -365,77 +462,36 @@ function SuccessDisplay({
 // Network and Stablecoin Configuration
 // ===========================================
 
-const NETWORKS = [
-  { id: "base", name: "Base", icon: "🔷", chainId: 8453, fees: "very low" },
-  { id: "polygon", name: "Polygon", icon: "⬡", chainId: 137, fees: "very low" },
-  { id: "arbitrum", name: "Arbitrum", icon: "🔵", chainId: 42161, fees: "low" },
-  { id: "optimism", name: "Optimism", icon: "🔴", chainId: 10, fees: "low" },
-  { id: "avalanche", name: "Avalanche", icon: "🔺", chainId: 43114, fees: "low" },
-  { id: "bsc", name: "BNB Chain", icon: "💛", chainId: 56, fees: "very low" },
-  { id: "ethereum", name: "Ethereum", icon: "⟠", chainId: 1, fees: "high" },
-] as const;
-
-// Comprehensive stablecoin support per network (matching Mesh capabilities)
-const STABLECOINS: Record<string, { id: string; name: string; icon: string }[]> = {
-  base: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "DAI", name: "DAI", icon: "◈" },
-  ],
-  polygon: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "DAI", name: "DAI", icon: "◈" },
-    { id: "FRAX", name: "FRAX", icon: "🔷" },
-    { id: "TUSD", name: "TrueUSD", icon: "🔵" },
-    { id: "EURS", name: "EURS", icon: "€" },
-  ],
-  arbitrum: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "DAI", name: "DAI", icon: "◈" },
-    { id: "FRAX", name: "FRAX", icon: "🔷" },
-    { id: "LUSD", name: "LUSD", icon: "🟢" },
-  ],
-  optimism: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "DAI", name: "DAI", icon: "◈" },
-    { id: "FRAX", name: "FRAX", icon: "🔷" },
-    { id: "LUSD", name: "LUSD", icon: "🟢" },
-    { id: "sUSD", name: "sUSD", icon: "🟣" },
-  ],
-  ethereum: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "DAI", name: "DAI", icon: "◈" },
-    { id: "FRAX", name: "FRAX", icon: "🔷" },
-    { id: "TUSD", name: "TrueUSD", icon: "🔵" },
-    { id: "USDP", name: "USDP", icon: "🅿️" },
-    { id: "GUSD", name: "GUSD", icon: "🟩" },
-    { id: "LUSD", name: "LUSD", icon: "🟢" },
-    { id: "sUSD", name: "sUSD", icon: "🟣" },
-    { id: "PYUSD", name: "PayPal USD", icon: "🅿️" },
-    { id: "EURS", name: "EURS", icon: "€" },
-    { id: "EURT", name: "EURT", icon: "€" },
-  ],
-  avalanche: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "TUSD", name: "TrueUSD", icon: "🔵" },
-  ],
-  bsc: [
-    { id: "USDC", name: "USDC", icon: "💵" },
-    { id: "USDT", name: "Tether", icon: "💲" },
-    { id: "BUSD", name: "BUSD", icon: "🟡" },
-    { id: "TUSD", name: "TrueUSD", icon: "🔵" },
-    { id: "USDD", name: "USDD", icon: "🔶" },
-  ],
-};
+// Payable networks in priority order (lowest fees first); see lib/chains.ts
+const NETWORKS = NETWORK_KEYS.map((id) => CHAINS[id]).filter(
+  (network) => Object.keys(network.tokens).length > 0
+);
+
+// Stablecoins accepted on each network, from the chain registry
+const STABLECOINS: Record<string, { id: string; name: string; icon: string }[]> = Object.fromEntries(
+  NETWORKS.map((network) => [
+    network.id,
+    (Object.keys(network.tokens) as StablecoinKey[]).map((symbol) => ({
+      id: symbol,
+      name: REGISTRY_STABLECOINS[symbol].label,
+      icon: REGISTRY_STABLECOINS[symbol].icon,
+    })),
+  ])
+);
 
 // Smart defaults based on lowest fees and best UX
 const DEFAULT_NETWORK = "base"; // Base has very low fees and great UX
 const DEFAULT_STABLECOIN = "USDC"; // USDC is the most widely used
 
+// Currencies orders can be priced in (converted to the stablecoin's
+// currency at checkout, see lib/fx)
+const FIAT_CURRENCIES = ["USD", "EUR", "GBP"];
+const DEFAULT_CURRENCY = "USD";
+
+// Status polling while the SSE stream is unavailable (the payment watcher
+// drives blockchain scanning while it is open)
+const POLL_INTERVAL_MS = 3000;
+
 // ===========================================
 // Main POS Terminal Component
 // ===========================================
@@ -444,7 +500,10 @@ export function POSTerminal() {
   const { toast } = useToast();
   
   // State
+  const [merchant, setMerchant] = useState<Merchant | null>(null);
+  const [sessionChecked, setSessionChecked] = useState(false);
   const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [description, setDescription] = useState("");
   const [selectedNetwork, setSelectedNetwork] = useState(DEFAULT_NETWORK);
   const [selectedStablecoin, setSelectedStablecoin] = useState(DEFAULT_STABLECOIN);
@@ -454,14 +513,57 @@ export function POSTerminal() {
   const [paymentUrl, setPaymentUrl] = useState<string | null>(null);
   const [meshLinkUrl, setMeshLinkUrl] = useState<string | null>(null); // Mesh Link URL for exchange transfers
   const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  // Amount the current QR asks for (the balance once partially paid)
+  const [amountDue, setAmountDue] = useState<string | null>(null);
+  const [amountReceived, setAmountReceived] = useState<string | null>(null);
+  // Total received when the last follow-up QR was requested
+  const followUpForRef = useRef<string | null>(null);
   const [status, setStatus] = useState<PaymentStatus>("pending");
   const [transactionHash, setTransactionHash] = useState<string | null>(null);
+  const [confirmations, setConfirmations] = useState<{ current: number; required: number } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showCancelDialog, setShowCancelDialog] = useState(false);
-  const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
+  // Stops the status stream / polling for the current order
+  const stopStatusUpdatesRef = useRef<(() => void) | null>(null);
   const [supportedOptions, setSupportedOptions] = useState<{ network: string; stablecoin: string; chainId: number }[] | null>(null);
   const [isAutoDetectQR, setIsAutoDetectQR] = useState(false);
 
+  /**
+   * Use a signed-in merchant and preselect its defaults
+   */
+  const applyMerchant = useCallback((signedIn: Merchant | null) => {
+    setMerchant(signedIn);
+    const defaults = signedIn?.defaults;
+    if (defaults?.networkId && NETWORKS.some((n) => n.id === defaults.networkId)) {
+      setSelectedNetwork(defaults.networkId);
+    }
+    if (defaults?.stablecoin) {
+      setSelectedStablecoin(defaults.stablecoin);
+    }
+    if (defaults?.currency && FIAT_CURRENCIES.includes(defaults.currency)) {
+      setCurrency(defaults.currency);
+    }
+  }, []);
+
+  // Resume the session cookie, if any
+  useEffect(() => {
+    fetch("/api/session")
+      .then((response) => response.json() as Promise<SessionResponse>)
+      .then((data) => applyMerchant(data.success ? data.merchant || null : null))
+      .catch((error) => console.error("Error loading session:", error))
+      .finally(() => setSessionChecked(true));
+  }, [applyMerchant]);
+
+  /**
+   * Go back to the sign-in screen if the session has ended
+   */
+  const checkSession = useCallback((response: Response) => {
+    if (response.status === 401) {
+      setMerchant(null);
+      throw new Error("Your session has ended, please sign in again");
+    }
+  }, []);
+
   // Update stablecoin when network changes (ensure valid selection)
   useEffect(() => {
     const availableCoins = STABLECOINS[selectedNetwork] || [];
@@ -494,12 +596,13 @@ export function POSTerminal() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          amount: parseFloat(amount),
+          amount: parseMoney(amount, currency),
           description: description || undefined,
           networkId: autoDetectMode ? "auto" : selectedNetwork,
           stablecoin: autoDetectMode ? "any" : selectedStablecoin,
         }),
       });
+      checkSession(response);
 
       const data: CreateOrderResponse = await response.json();
 
@@ -539,8 +642,9 @@ export function POSTerminal() {
       const response = await fetch("/api/generate-qr", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ orderId }),
+        body: JSON.stringify({ orderId, includeMeshLink: true }),
       });
+      checkSession(response);
 
       const data: GenerateQRResponse = await response.json();
 
@@ -552,11 +656,12 @@ export function POSTerminal() {
       setPaymentUrl(data.paymentUrl || null);
       setMeshLinkUrl(data.meshLinkUrl || null); // Store Mesh Link URL for exchange transfers
       setExpiresAt(data.expiresAt || null);
+      setAmountDue(data.amountDue || null);
       setSupportedOptions(data.supportedOptions || null);
       setIsAutoDetectQR(data.isAutoDetect || false);
 
-      // Start polling for status updates
-      startPolling(orderId);
+      // Subscribe to status updates
+      startStatusUpdates(orderId);
 
       toast({
         title: "QR Code Ready",
@@ -577,88 +682,243 @@ export function POSTerminal() {
   };
 
   /**
-   * Start polling for payment status
+   * Replace the QR with one for the remaining balance of a partially
+   * paid order
+   * 
+   * Status updates keep running; only the QR changes.
    */
-  const startPolling = useCallback((orderId: string) => {
-    // Clear any existing interval
-    if (pollingInterval) {
-      clearInterval(pollingInterval);
-      setPollingInterval(null);
+  const showFollowUpQR = useCallback(async (orderId: string, received: string) => {
+    try {
+      const response = await fetch("/api/generate-qr", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId, includeMeshLink: true }),
+      });
+      checkSession(response);
+
+      const data: GenerateQRResponse = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to generate follow-up QR code");
+      }
+
+      setQrCode(data.qrCodeDataUrl || null);
+      setPaymentUrl(data.paymentUrl || null);
+      setMeshLinkUrl(data.meshLinkUrl || null);
+      setExpiresAt(data.expiresAt || null);
+      setAmountDue(data.amountDue || null);
+
+      toast({
+        title: "Partial Payment Received",
+        description: `${received} received, ${data.amountDue} still due. Customer can scan again to pay the rest`,
+      });
+    } catch (error) {
+      console.error("Error generating follow-up QR:", error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
     }
+  }, [checkSession, toast]);
+
+  /**
+   * Stop status updates for the current order
+   */
+  const stopStatusUpdates = useCallback(() => {
+    stopStatusUpdatesRef.current?.();
+    stopStatusUpdatesRef.current = null;
+  }, []);
 
-    // Use a ref-like pattern to track the interval inside the closure
+  /**
+   * Follow payment status for an order
+   * 
+   * Status changes are pushed over SSE (/api/orders/:id/events).
+   * /api/check-status is called once for the current status, and then
+   * every POLL_INTERVAL_MS only while the stream is unavailable.
+   */
+  const startStatusUpdates = useCallback((orderId: string) => {
+    stopStatusUpdates();
+
+    let stopped = false;
     let intervalId: NodeJS.Timeout | null = null;
-    let shouldStop = false;
+    let eventSource: EventSource | null = null;
+
+    const stop = () => {
+      stopped = true;
+      eventSource?.close();
+      if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+    };
+
+    const applyStatus = (
+      newStatus: PaymentStatus,
+      paymentDetails?: PaymentStatusRecord
+    ) => {
+      if (stopped) return;
+      setStatus(newStatus);
+
+      // Update transaction hash if available
+      if (paymentDetails?.transactionHash) {
+        setTransactionHash(paymentDetails.transactionHash);
+      }
+
+      if (paymentDetails?.amountReceived) {
+        setAmountReceived(paymentDetails.amountReceived);
+      }
+
+      // Each new partial payment gets a QR for what is still due
+      if (
+        newStatus === "partially_paid" &&
+        paymentDetails?.amountReceived &&
+        paymentDetails.amountReceived !== followUpForRef.current
+      ) {
+        followUpForRef.current = paymentDetails.amountReceived;
+        void showFollowUpQR(orderId, paymentDetails.amountReceived);
+      }
+
+      // Track confirmation progress while the transfer settles
+      if (paymentDetails?.requiredConfirmations) {
+        setConfirmations({
+          current: paymentDetails.confirmations || 0,
+          required: paymentDetails.requiredConfirmations,
+        });
+      }
+
+      // Stop updates on terminal states
+      if (["completed", "underpaid", "overpaid", "failed", "expired", "cancelled"].includes(newStatus)) {
+        stop();
+
+        if (newStatus === "completed") {
+          toast({
+            title: "✅ Payment Received!",
+            description: `${currentOrder ? formatMoney(currentOrder.amount) : ""} ${paymentDetails?.stablecoin || 'USDC'} received`,
+            variant: "default",
+          });
+        } else if (newStatus === "underpaid" || newStatus === "overpaid") {
+          toast({
+            title: newStatus === "underpaid" ? "Payment Too Low" : "Payment Too High",
+            description: paymentDetails?.errorMessage || "The amount received does not match the order",
+            variant: "destructive",
+          });
+        } else if (newStatus === "failed") {
+          toast({
+            title: "Payment Failed",
+            description: paymentDetails?.errorMessage || "Payment could not be processed",
+            variant: "destructive",
+          });
+        }
+      }
+    };
 
     const checkStatus = async () => {
       // Don't make request if we should stop
-      if (shouldStop) return;
+      if (stopped) return;
       
       try {
         const response = await fetch(`/api/check-status?orderId=${orderId}`);
+        if (response.status === 401) {
+          // Signed out: nothing more to follow
+          stop();
+        }
+        checkSession(response);
+
         const data: CheckStatusResponse = await response.json();
 
         if (data.success && data.status) {
-          setStatus(data.status);
-
-          // Update transaction hash if available
-          if (data.paymentDetails?.transactionHash) {
-            setTransactionHash(data.paymentDetails.transactionHash);
-          }
-
-          // Stop polling on terminal states
-          if (["completed", "failed", "expired", "cancelled"].includes(data.status)) {
-            shouldStop = true;
-            if (intervalId) {
-              clearInterval(intervalId);
-              intervalId = null;
-            }
-            setPollingInterval(null);
-
-            if (data.status === "completed") {
-              toast({
-                title: "✅ Payment Received!",
-                description: `$${currentOrder?.amount.toFixed(2)} ${data.paymentDetails?.stablecoin || 'USDC'} received`,
-                variant: "default",
-              });
-            } else if (data.status === "failed") {
-              toast({
-                title: "Payment Failed",
-                description: data.paymentDetails?.errorMessage || "Payment could not be processed",
-                variant: "destructive",
-              });
-            }
-          }
+          applyStatus(data.status, data.paymentDetails);
         }
       } catch (error) {
         console.error("Error checking status:", error);
       }
     };
 
-    // Initial check
+    const startPolling = () => {
+      if (stopped || intervalId) return;
+      intervalId = setInterval(checkStatus, POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (intervalId) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+    };
+
+    // Current status; the stream pushes every change after that
     checkStatus();
 
-    // Poll every 3 seconds
-    intervalId = setInterval(checkStatus, 3000);
-    setPollingInterval(intervalId);
-  }, [pollingInterval, currentOrder, toast]);
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      eventSource = new EventSource(`/api/orders/${orderId}/events`);
+
+      eventSource.addEventListener("status", (event) => {
+        const data: OrderStatusEvent = JSON.parse((event as MessageEvent<string>).data);
+        applyStatus(data.status, data.paymentDetails);
+      });
+
+      // Stream is (back) up: no polling needed
+      eventSource.onopen = stopPolling;
+
+      // Stream failed or dropped (EventSource retries on its own): poll meanwhile
+      eventSource.onerror = startPolling;
+    }
+
+    stopStatusUpdatesRef.current = stop;
+  }, [stopStatusUpdates, showFollowUpQR, checkSession, currentOrder, toast]);
 
   /**
    * Cancel current payment
+   * 
+   * The order is cancelled on the server first, so a late payment can't
+   * complete it. The server refuses once a transfer is processing.
    */
-  const cancelPayment = () => {
-    if (pollingInterval) {
-      clearInterval(pollingInterval);
-      setPollingInterval(null);
+  const cancelPayment = async () => {
+    if (currentOrder) {
+      try {
+        const response = await fetch("/api/cancel-order", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            orderId: currentOrder.orderId,
+            reason: "Cancelled at POS terminal",
+          }),
+        });
+        checkSession(response);
+
+        const data: CancelOrderResponse = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error || "Failed to cancel order");
+        }
+      } catch (error) {
+        console.error("Error cancelling order:", error);
+        setShowCancelDialog(false);
+        toast({
+          title: "Cannot Cancel",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+        return;
+      }
     }
 
+    stopStatusUpdates();
+
     setCurrentOrder(null);
     setQrCode(null);
     setPaymentUrl(null);
     setMeshLinkUrl(null);
     setExpiresAt(null);
+    setAmountDue(null);
+    setAmountReceived(null);
+    followUpForRef.current = null;
     setStatus("pending");
     setTransactionHash(null);
+    setConfirmations(null);
     setSupportedOptions(null);
     setIsAutoDetectQR(false);
     setShowCancelDialog(false);
@@ -673,10 +933,7 @@ export function POSTerminal() {
    * Reset for new payment
    */
   const resetPayment = () => {
-    if (pollingInterval) {
-      clearInterval(pollingInterval);
-      setPollingInterval(null);
-    }
+    stopStatusUpdates();
 
     setAmount("");
     setDescription("");
@@ -685,8 +942,12 @@ export function POSTerminal() {
     setPaymentUrl(null);
     setMeshLinkUrl(null);
     setExpiresAt(null);
+    setAmountDue(null);
+    setAmountReceived(null);
+    followUpForRef.current = null;
     setStatus("pending");
     setTransactionHash(null);
+    setConfirmations(null);
     setSupportedOptions(null);
     setIsAutoDetectQR(false);
   };
@@ -704,21 +965,50 @@ export function POSTerminal() {
     }
   };
 
+  /**
+   * End the session and return to the sign-in screen
+   */
+  const signOut = async () => {
+    try {
+      await fetch("/api/session", { method: "DELETE" });
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+    resetPayment();
+    setMerchant(null);
+  };
+
   // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (pollingInterval) {
-        clearInterval(pollingInterval);
-      }
-    };
-  }, [pollingInterval]);
+  useEffect(() => stopStatusUpdates, [stopStatusUpdates]);
 
   // ===========================================
   // Render
   // ===========================================
 
+  if (!sessionChecked) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-orange-600" />
+      </div>
+    );
+  }
+
+  if (!merchant) {
+    return <SignInForm onSignedIn={applyMerchant} />;
+  }
+
   return (
     <>
+      {/* Testnet builds must never be mistaken for a live till */}
+      {TESTNET_MODE && (
+        <div
+          role="status"
+          className="w-full max-w-xl mx-auto mb-4 rounded-lg bg-yellow-400 px-4 py-2 text-center text-sm font-bold tracking-wide text-yellow-950"
+        >
+          TEST MODE · Testnet payments only, no real funds
+        </div>
+      )}
+
       <Card className="w-full max-w-xl mx-auto shadow-xl border-0 overflow-hidden">
         {/* Header with gradient */}
         <div className="h-2 bg-gradient-to-r from-orange-500 via-amber-500 to-orange-600" />
@@ -738,6 +1028,19 @@ export function POSTerminal() {
               ? "Enter the payment amount to generate a QR code"
               : `Order: ${currentOrder.orderId.slice(0, 8)}...`}
           </CardDescription>
+          {!currentOrder && (
+            <div className="flex items-center justify-between pt-1 text-xs text-gray-500">
+              <span>{merchant.name}</span>
+              <button
+                type="button"
+                onClick={signOut}
+                className="inline-flex items-center gap-1 hover:text-gray-900"
+              >
+                <LogOut className="w-3 h-3" />
+                Sign out
+              </button>
+            </div>
+          )}
         </CardHeader>
 
         <CardContent className="space-y-6">
@@ -754,20 +1057,31 @@ export function POSTerminal() {
           {!currentOrder && status !== "completed" && (
             <div className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="amount">Payment Amount (USD)</Label>
-                <div className="relative">
-                  <DollarSign className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <Label htmlFor="amount">Payment Amount ({currency})</Label>
+                <div className="flex gap-2">
                   <Input
                     id="amount"
                     type="number"
                     placeholder="0.00"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
-                    className="pl-10 text-2xl font-bold h-14"
+                    className="text-2xl font-bold h-14"
                     min="0.01"
                     step="0.01"
                     max="10000"
                   />
+                  <Select value={currency} onValueChange={setCurrency}>
+                    <SelectTrigger id="currency" aria-label="Currency" className="w-24 h-14">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FIAT_CURRENCIES.map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {code}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
 
@@ -881,7 +1195,7 @@ export function POSTerminal() {
                     onClick={() => setAmount(value.toString())}
                     className="flex-1"
                   >
-                    ${value}
+                    {formatMoney(parseMoney(value, currency))}
                   </Button>
                 ))}
               </div>
@@ -893,8 +1207,21 @@ export function POSTerminal() {
             <>
               <div className="text-center py-2">
                 <p className="text-3xl font-bold text-gray-900">
-                  ${currentOrder.amount.toFixed(2)}
+                  {formatMoney(currentOrder.amount)}
                 </p>
+                <p className="text-xs text-gray-500">
+                  Send exactly <span className="font-mono font-medium">{amountDue || currentOrder.paymentAmount}</span>
+                </p>
+                {status === "partially_paid" && amountReceived && (
+                  <p className="text-xs text-orange-600">
+                    {amountReceived} of {currentOrder.paymentAmount} received
+                  </p>
+                )}
+                {currentOrder.fxQuote && currentOrder.fxQuote.source !== "par" && (
+                  <p className="text-xs text-gray-400">
+                    {formatMoney(currentOrder.fxQuote.amount)} at 1 {currentOrder.fxQuote.fromCurrency} = {currentOrder.fxQuote.rate} {currentOrder.fxQuote.toCurrency} ({currentOrder.fxQuote.source})
+                  </p>
+                )}
                 {currentOrder.networkId === "auto" ? (
                   <div className="mt-2">
                     <Badge variant="secondary" className="bg-blue-100 text-blue-700">
@@ -942,6 +1269,24 @@ export function POSTerminal() {
                   <Progress value={66} className="h-2" />
                 </div>
               )}
+
+              {/* Progress indicator for confirmations */}
+              {status === "confirming" && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      Confirming payment
+                      {confirmations && ` (${Math.min(confirmations.current, confirmations.required)}/${confirmations.required})`}
+                      ...
+                    </span>
+                    <Loader2 className="w-4 h-4 animate-spin text-orange-500" />
+                  </div>
+                  <Progress
+                    value={confirmations ? (Math.min(confirmations.current, confirmations.required) / confirmations.required) * 100 : 0}
+                    className="h-2"
+                  />
+                </div>
+              )}
             </>
           )}
         </CardContent>
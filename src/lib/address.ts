@@ -0,0 +1,154 @@
+/**
+ * ===========================================
+ * EVM Address Checksums
+ * ===========================================
+ *
+ * EIP-55 mixed-case checksums for EVM addresses, used to validate the
+ * contract addresses in the chain registry (lib/chains.ts) when it loads.
+ *
+ * Includes a minimal Keccak-256 (the original Keccak padding, not
+ * NIST SHA3-256, which Node's crypto module provides) so this module has
+ * no dependencies and can be bundled for the browser.
+ *
+ * @see https://eips.ethereum.org/EIPS/eip-55
+ */
+
+// ===========================================
+// Keccak-256
+// ===========================================
+
+const LANE_MASK = (1n << 64n) - 1n;
+
+/** Keccak-256 absorbs 136 bytes per permutation (1600 - 2 * 256 bits) */
+const RATE_BYTES = 136;
+
+/** Round constants, rho rotations and pi lane order for Keccak-f[1600] */
+const ROUND_CONSTANTS: bigint[] = [];
+const RHO_ROTATIONS: bigint[] = [];
+const PI_LANES: number[] = [];
+
+for (let round = 0, r = 1n, x = 1, y = 0; round < 24; round++) {
+  [x, y] = [y, (2 * x + 3 * y) % 5];
+  PI_LANES.push(x + 5 * y);
+  RHO_ROTATIONS.push(BigInt((((round + 1) * (round + 2)) / 2) % 64));
+
+  let constant = 0n;
+  for (let j = 0; j < 7; j++) {
+    r = ((r << 1n) ^ ((r >> 7n) * 0x71n)) % 256n;
+    if (r & 2n) {
+      constant ^= 1n << ((1n << BigInt(j)) - 1n);
+    }
+  }
+  ROUND_CONSTANTS.push(constant);
+}
+
+function rotl(lane: bigint, bits: bigint): bigint {
+  return bits === 0n ? lane : ((lane << bits) | (lane >> (64n - bits))) & LANE_MASK;
+}
+
+function keccakF(state: bigint[]): void {
+  const columns: bigint[] = new Array(5);
+
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) {
+      columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    }
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotl(columns[(x + 1) % 5], 1n);
+      for (let y = 0; y < 25; y += 5) {
+        state[x + y] ^= d;
+      }
+    }
+
+    // Rho and pi
+    let current = state[1];
+    for (let t = 0; t < 24; t++) {
+      const lane = PI_LANES[t];
+      const next = state[lane];
+      state[lane] = rotl(current, RHO_ROTATIONS[t]);
+      current = next;
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        columns[x] = state[x + y];
+      }
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = columns[x] ^ (~columns[(x + 1) % 5] & LANE_MASK & columns[(x + 2) % 5]);
+      }
+    }
+
+    // Iota
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+/**
+ * Keccak-256 digest of a byte string, as lowercase hex (no 0x prefix)
+ */
+function keccak256Hex(input: Uint8Array): string {
+  // Keccak padding: 0x01 after the message, 0x80 on the last byte of the block
+  const padded = new Uint8Array(Math.floor(input.length / RATE_BYTES + 1) * RATE_BYTES);
+  padded.set(input);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state: bigint[] = new Array(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+    for (let i = 0; i < RATE_BYTES / 8; i++) {
+      let lane = 0n;
+      for (let b = 7; b >= 0; b--) {
+        lane = (lane << 8n) | BigInt(padded[offset + i * 8 + b]);
+      }
+      state[i] ^= lane;
+    }
+    keccakF(state);
+  }
+
+  // Squeeze the first 32 bytes, little-endian per lane
+  let hex = "";
+  for (let i = 0; i < 4; i++) {
+    for (let b = 0; b < 8; b++) {
+      hex += Number((state[i] >> BigInt(8 * b)) & 0xffn).toString(16).padStart(2, "0");
+    }
+  }
+  return hex;
+}
+
+// ===========================================
+// EIP-55
+// ===========================================
+
+/**
+ * Format an address with its EIP-55 checksum
+ *
+ * @param address - 0x-prefixed, 40 hex digit address (any case)
+ * @throws Error if the address isn't 20 bytes of hex
+ */
+export function toChecksumAddress(address: string): string {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    throw new Error(`Invalid address: ${address}`);
+  }
+
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccak256Hex(new TextEncoder().encode(lower));
+
+  let checksummed = "0x";
+  for (let i = 0; i < lower.length; i++) {
+    checksummed += parseInt(hash[i], 16) >= 8 ? lower[i].toUpperCase() : lower[i];
+  }
+  return checksummed;
+}
+
+/**
+ * Whether an address is written with a correct EIP-55 checksum
+ */
+export function isChecksumAddress(address: string): boolean {
+  try {
+    return toChecksumAddress(address) === address;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * ===========================================
+ * Request Authentication
+ * ===========================================
+ *
+ * Every API route except the provider webhooks acts on behalf of a
+ * merchant. A request authenticates either with an API key:
+ *
+ *   Authorization: Bearer spk_...   (or X-API-Key: spk_...)
+ *
+ * or with the POS session cookie set by POST /api/session. Sessions are
+ * stateless tokens signed with SESSION_SECRET (HMAC-SHA256); they expire
+ * after SESSION_TTL_HOURS and end early when the API key they were
+ * created with is revoked.
+ *
+ * Routes then check that the order they touch belongs to the merchant.
+ *
+ * Operator routes that act on every merchant's orders (POST
+ * /api/reorg-check) instead take OPERATOR_SECRET as a bearer token.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { authenticateApiKey, findMerchant, isApiKeyActive } from "./merchants";
+import { getOrderMerchantId } from "./dynamo";
+import type { Merchant, Order } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+export const SESSION_COOKIE_NAME = "sablepay_session";
+
+/** Session lifetime (a shift plus margin) */
+export const SESSION_TTL_HOURS = 12;
+
+interface SessionPayload {
+  /** Merchant ID */
+  m: string;
+  /** API key ID the session was created with */
+  k: string;
+  /** Expiry (Unix seconds) */
+  exp: number;
+}
+
+let devSessionSecret: string | null = null;
+
+/**
+ * Secret used to sign session tokens
+ *
+ * Without SESSION_SECRET, development servers use a random secret
+ * (sessions end on restart); production refuses to sign sessions.
+ */
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is required to sign POS sessions");
+  }
+  if (!devSessionSecret) {
+    console.warn("[Auth] SESSION_SECRET not set, using a random secret (sessions end on restart)");
+    devSessionSecret = randomBytes(32).toString("hex");
+  }
+  return devSessionSecret;
+}
+
+// ===========================================
+// Session Tokens
+// ===========================================
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * Create a signed session token
+ *
+ * @param merchantId - Merchant the session acts as
+ * @param keyId - API key the merchant signed in with
+ */
+export function createSessionToken(merchantId: string, keyId: string): string {
+  const payload: SessionPayload = {
+    m: merchantId,
+    k: keyId,
+    exp: Math.floor(Date.now() / 1000) + SESSION_TTL_HOURS * 3600,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ *
+ * @returns The session's merchant and key IDs, or null if the token is invalid
+ */
+function verifySessionToken(token: string): { merchantId: string; keyId: string } | null {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as SessionPayload;
+    if (payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return { merchantId: payload.m, keyId: payload.k };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set the session cookie on a response
+ */
+export function setSessionCookie(response: NextResponse, token: string): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: SESSION_TTL_HOURS * 3600,
+  });
+}
+
+/**
+ * Remove the session cookie
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.delete(SESSION_COOKIE_NAME);
+}
+
+// ===========================================
+// Request Authentication
+// ===========================================
+
+/**
+ * API key sent with the request, if any
+ */
+function getRequestApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+  return request.headers.get("x-api-key");
+}
+
+/**
+ * Resolve the merchant a request acts as
+ *
+ * @returns The merchant, or null if the request isn't authenticated
+ */
+export async function authenticateRequest(request: NextRequest): Promise<Merchant | null> {
+  const apiKey = getRequestApiKey(request);
+  if (apiKey) {
+    return (await authenticateApiKey(apiKey))?.merchant || null;
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = token ? verifySessionToken(token) : null;
+  if (!session || !(await isApiKeyActive(session.merchantId, session.keyId))) {
+    return null;
+  }
+  return findMerchant(session.merchantId);
+}
+
+/**
+ * Whether a request carries the operator secret
+ *
+ * Always false while OPERATOR_SECRET is unset, so operator routes are
+ * closed by default.
+ */
+export function isOperatorRequest(request: NextRequest): boolean {
+  const secret = process.env.OPERATOR_SECRET;
+  const authorization = request.headers.get("authorization");
+  if (!secret || !authorization?.startsWith("Bearer ")) {
+    return false;
+  }
+  // Hashed so both sides have the same length
+  const hash = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(hash(secret), hash(authorization.slice("Bearer ".length).trim()));
+}
+
+/**
+ * 401 response for unauthenticated requests
+ */
+export function unauthorizedResponse(): NextResponse<{ success: false; error: string }> {
+  return NextResponse.json(
+    { success: false, error: "Authentication required" },
+    { status: 401 }
+  );
+}
+
+/**
+ * Whether a merchant may see and act on an order
+ */
+export function canAccessOrder(merchant: Merchant, order: Order): boolean {
+  return getOrderMerchantId(order) === merchant.merchantId;
+}
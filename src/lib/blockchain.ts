@@ -8,26 +8,57 @@
  * 
  * This provides a fallback mechanism when Mesh webhooks aren't available
  * (e.g., for direct wallet-to-wallet transfers via WalletConnect).
+ * 
+ * Each order records the chain head of every candidate network when it is
+ * created (its scan cursor). Polls scan forward from the cursor in
+ * eth_getLogs-sized ranges, so no blocks are skipped on fast chains and no
+ * transfers from before the order are picked up.
+ * 
+ * Each range is a single eth_getLogs over all of the network's stablecoin
+ * contracts, and a scan's ranges go out as one JSON-RPC batch. The chain
+ * head is cached briefly per network. Requests go through the provider
+ * pool in lib/rpc.ts (failover, timeouts, backoff).
  */
 
-import { TOKEN_CONTRACTS, SUPPORTED_NETWORKS } from "./walletconnect";
+import { NETWORK_KEYS, getChain } from "./chains";
+import { getNetworkTokens, getTokenByAddress } from "./tokens";
+import { fromTokenUnits, matchTransferToOrder, type TransferMatch } from "./reconciliation";
+import { hasRpcProviders, rpcBatch, rpcCall } from "./rpc";
+import type { ScanCursor } from "./types";
+
+// ERC20 Transfer event signature
+const TRANSFER_EVENT_SIGNATURE = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+// Priority order when scanning all networks: lower fee networks first
+const NETWORK_PRIORITY: string[] = NETWORK_KEYS;
 
 // ===========================================
-// RPC Endpoints (Public, rate-limited)
+// Scan Configuration
 // ===========================================
 
-const RPC_ENDPOINTS: Record<string, string> = {
-  ethereum: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
-  polygon: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
-  arbitrum: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
-  optimism: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
-  base: process.env.BASE_RPC_URL || "https://mainnet.base.org",
-  avalanche: process.env.AVALANCHE_RPC_URL || "https://api.avax.network/ext/bc/C/rpc",
-  bsc: process.env.BSC_RPC_URL || "https://bsc-dataseed.binance.org",
-};
+// Block times, eth_getLogs range limits and confirmation requirements are
+// per network in the chain registry (lib/chains.ts)
 
-// ERC20 Transfer event signature
-const TRANSFER_EVENT_SIGNATURE = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+// Used for networks missing from the registry
+const DEFAULT_REQUIRED_CONFIRMATIONS = 12;
+
+// Fallback for networks without a cursor: look back this far in time
+const FALLBACK_LOOKBACK_SECONDS = 15 * 60;
+
+// Most eth_getLogs ranges scanned per network in one poll; a cursor that
+// is further behind catches up over the following polls
+const MAX_RANGES_PER_SCAN = 5;
+
+// How long a chain head lookup is reused; polls from several terminals
+// (and the watcher) within this window share one eth_blockNumber call
+const BLOCK_NUMBER_CACHE_TTL_MS = 2000;
+
+// ===========================================
+// RPC State
+// ===========================================
+
+/** Latest eth_blockNumber per network (see getBlockNumber) */
+const blockNumberCache = new Map<string, { value: Promise<number>; expiresAt: number }>();
 
 // ===========================================
 // Types
@@ -36,18 +67,76 @@ const TRANSFER_EVENT_SIGNATURE = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4
 export interface TransferEvent {
   transactionHash: string;
   blockNumber: number;
+  /** Hash of the block the log was seen in (to detect reorgs later) */
+  blockHash: string;
+  /** Position of the Transfer log within its block */
+  logIndex: number;
   from: string;
   to: string;
   amount: string;
+  /** Amount in the token's smallest unit (decimal string) */
+  rawAmount: string;
+  /** Token decimals used to parse the amount */
+  decimals: number;
   tokenAddress: string;
   tokenSymbol: string;
   networkId: string;
   timestamp?: number;
 }
 
+/**
+ * Callback telling the scanner to skip transfers that already settled
+ * another order
+ */
+export type ConsumedTransferCheck = (transfer: TransferEvent) => Promise<boolean>;
+
+/**
+ * Receipt and confirmation depth of a transaction
+ */
+export interface TransactionStatus {
+  /** Whether a receipt exists (the transaction is mined) */
+  found: boolean;
+  /** Receipt succeeded and the required depth has been reached */
+  confirmed: boolean;
+  blockNumber?: number;
+  /** Hash of the block the transaction is currently included in */
+  blockHash?: string;
+  /** Receipt status (true for 0x1) */
+  status?: boolean;
+  confirmations: number;
+  requiredConfirmations: number;
+  /** Set when the RPC could not be queried (the result is inconclusive) */
+  error?: string;
+}
+
+/**
+ * Block range covered by a scan (inclusive)
+ */
+export interface ScannedRange {
+  fromBlock: number;
+  toBlock: number;
+}
+
+/**
+ * All transfers found by scanTransfers
+ */
+export interface TransferScanResult {
+  /** Transfers in block order (oldest first) */
+  transfers: TransferEvent[];
+  /** Blocks fully scanned, for advancing scan cursors */
+  scanned?: ScannedRange;
+  /** True if every block up to the chain head has been scanned */
+  caughtUp?: boolean;
+  error?: string;
+}
+
 export interface MonitoringResult {
   found: boolean;
   transfer?: TransferEvent;
+  /** How the transfer compares to the expected amount (if one was given) */
+  match?: TransferMatch;
+  /** Blocks fully scanned per network, for advancing scan cursors */
+  scanned?: Record<string, ScannedRange>;
   error?: string;
 }
 
@@ -56,40 +145,42 @@ export interface MonitoringResult {
 // ===========================================
 
 /**
- * Make a JSON-RPC call to an Ethereum node
+ * Get the current block number
+ * 
+ * Cached per network for BLOCK_NUMBER_CACHE_TTL_MS; concurrent callers
+ * share one in-flight request.
  */
-async function rpcCall(
-  rpcUrl: string,
-  method: string,
-  params: unknown[]
-): Promise<unknown> {
-  const response = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      id: 1,
-      method,
-      params,
-    }),
-  });
-
-  const data = await response.json();
-  if (data.error) {
-    throw new Error(`RPC Error: ${data.error.message}`);
+async function getBlockNumber(networkId: string): Promise<number> {
+  const cached = blockNumberCache.get(networkId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.value;
   }
-  return data.result;
+
+  const value = rpcCall(networkId, "eth_blockNumber", []).then((result) =>
+    parseInt(result as string, 16)
+  );
+  blockNumberCache.set(networkId, { value, expiresAt: Date.now() + BLOCK_NUMBER_CACHE_TTL_MS });
+
+  // Don't keep a failed lookup around
+  value.catch(() => {
+    if (blockNumberCache.get(networkId)?.value === value) {
+      blockNumberCache.delete(networkId);
+    }
+  });
+  return value;
 }
 
 /**
- * Get the current block number
+ * Get the hash of the canonical block at a height
+ * 
+ * @returns The block hash, or null if the chain is not that long
  */
-async function getBlockNumber(networkId: string): Promise<number> {
-  const rpcUrl = RPC_ENDPOINTS[networkId];
-  if (!rpcUrl) throw new Error(`No RPC endpoint for ${networkId}`);
-  
-  const result = await rpcCall(rpcUrl, "eth_blockNumber", []);
-  return parseInt(result as string, 16);
+export async function getBlockHash(networkId: string, blockNumber: number): Promise<string | null> {
+  const block = await rpcCall(networkId, "eth_getBlockByNumber", [
+    "0x" + blockNumber.toString(16),
+    false,
+  ]) as { hash: string } | null;
+  return block?.hash || null;
 }
 
 /**
@@ -99,34 +190,107 @@ function padAddress(address: string): string {
   return "0x" + address.toLowerCase().replace("0x", "").padStart(64, "0");
 }
 
+// ===========================================
+// Scan Cursors
+// ===========================================
+
 /**
- * Parse amount from hex to decimal string
+ * Networks an order can be paid on
+ * 
+ * A specific network yields just that network; "auto" (or an unknown ID)
+ * yields every network we can scan.
  */
-function parseAmount(hexAmount: string, decimals: number): string {
-  const raw = BigInt(hexAmount);
-  const divisor = BigInt(10 ** decimals);
-  const whole = raw / divisor;
-  const fraction = raw % divisor;
-  
-  if (fraction === BigInt(0)) {
-    return whole.toString();
+export function getScanNetworks(networkId: string): string[] {
+  if (hasRpcProviders(networkId)) {
+    return [networkId];
   }
-  
-  const fractionStr = fraction.toString().padStart(decimals, "0").replace(/0+$/, "");
-  return `${whole}.${fractionStr}`;
+  return [...NETWORK_PRIORITY];
+}
+
+/**
+ * Record the current block on each candidate network
+ * 
+ * Called when an order is created, so scanning starts at the order's
+ * creation and never picks up older transfers. Networks whose RPC is
+ * unreachable are left out and fall back to a time-based window.
+ * 
+ * @param networkId - The order's network (or "auto")
+ * @returns Cursors keyed by network ID
+ */
+export async function createScanCursors(
+  networkId: string
+): Promise<Record<string, ScanCursor>> {
+  const networks = getScanNetworks(networkId);
+  const results = await Promise.allSettled(networks.map(getBlockNumber));
+
+  const cursors: Record<string, ScanCursor> = {};
+  results.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      cursors[networks[i]] = {
+        startBlock: result.value,
+        lastScannedBlock: result.value - 1,
+      };
+    } else {
+      console.warn(`[Blockchain] Could not get start block for ${networks[i]}:`, result.reason);
+    }
+  });
+
+  return cursors;
 }
 
 /**
- * Get token symbol from address
+ * Get the next block to scan for each network with a cursor
  */
-function getTokenSymbol(tokenAddress: string, networkId: string): string {
-  const contracts = TOKEN_CONTRACTS[networkId as keyof typeof TOKEN_CONTRACTS];
-  if (!contracts) return "UNKNOWN";
-  
-  const entry = Object.entries(contracts).find(
-    ([, addr]) => addr?.toLowerCase() === tokenAddress.toLowerCase()
-  );
-  return entry ? entry[0] : "UNKNOWN";
+export function getScanFromBlocks(
+  cursors?: Record<string, ScanCursor>
+): Record<string, number> {
+  const fromBlocks: Record<string, number> = {};
+  for (const [networkId, cursor] of Object.entries(cursors || {})) {
+    fromBlocks[networkId] = cursor.lastScannedBlock + 1;
+  }
+  return fromBlocks;
+}
+
+/**
+ * Move cursors forward to the blocks reported by a scan
+ * 
+ * Cursors never move backwards. A network without a cursor gets one
+ * starting at the first block that was scanned.
+ * 
+ * @param cursors - Current cursors
+ * @param scannedRanges - Ranges covered by the scan (see MonitoringResult)
+ * @returns Updated cursors
+ */
+export function advanceScanCursors(
+  cursors: Record<string, ScanCursor> | undefined,
+  scannedRanges: Record<string, ScannedRange>
+): Record<string, ScanCursor> {
+  const updated: Record<string, ScanCursor> = { ...cursors };
+  for (const [networkId, range] of Object.entries(scannedRanges)) {
+    const existing = updated[networkId];
+    updated[networkId] = existing
+      ? {
+          ...existing,
+          lastScannedBlock: Math.max(existing.lastScannedBlock, range.toBlock),
+        }
+      : { startBlock: range.fromBlock, lastScannedBlock: range.toBlock };
+  }
+  return updated;
+}
+
+/**
+ * Split [fromBlock, toBlock] into eth_getLogs-sized ranges
+ */
+function getBlockRanges(
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange: number
+): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (let start = fromBlock; start <= toBlock && ranges.length < MAX_RANGES_PER_SCAN; start += maxBlockRange) {
+    ranges.push([start, Math.min(start + maxBlockRange - 1, toBlock)]);
+  }
+  return ranges;
 }
 
 // ===========================================
@@ -134,113 +298,206 @@ function getTokenSymbol(tokenAddress: string, networkId: string): string {
 // ===========================================
 
 /**
- * Check for recent stablecoin transfers to a specific address
+ * Collect all stablecoin transfers to an address in a block window
+ * 
+ * Scans forward from `fromBlock` in ranges the network's RPC accepts
+ * (at most MAX_RANGES_PER_SCAN per call). The blocks actually covered
+ * are reported in `scanned` so the caller can advance its cursor; a
+ * range that fails is not reported and is retried on the next scan.
  * 
  * @param merchantAddress - The address to check for incoming transfers
  * @param networkId - The network to check (ethereum, polygon, etc.)
- * @param fromBlock - Start block (default: last 100 blocks)
- * @param expectedAmount - Optional: filter by expected amount
+ * @param fromBlock - First block to scan (default: ~15 minutes back)
+ * @returns Transfers in block order, and the blocks covered
+ */
+export async function scanTransfers(
+  merchantAddress: string,
+  networkId: string,
+  fromBlock?: number
+): Promise<TransferScanResult> {
+  const chain = getChain(networkId);
+  if (!hasRpcProviders(networkId) || !chain) {
+    console.log(`[Blockchain] Unsupported network: ${networkId}`);
+    return { transfers: [], error: `Unsupported network: ${networkId}` };
+  }
+
+  // Get stablecoin contracts for this network
+  const tokens = getNetworkTokens(networkId);
+  if (tokens.length === 0) {
+    console.log(`[Blockchain] No token contracts for ${networkId}`);
+    return { transfers: [], error: `No token contracts for ${networkId}` };
+  }
+
+  console.log(`[Blockchain] Checking ${networkId} for transfers to ${merchantAddress}`);
+
+  // Get current block
+  const currentBlock = await getBlockNumber(networkId);
+  const startBlock = fromBlock ?? Math.max(
+    0,
+    currentBlock - Math.ceil(FALLBACK_LOOKBACK_SECONDS / chain.blockTimeSeconds)
+  );
+
+  if (startBlock > currentBlock) {
+    console.log(`[Blockchain] ${networkId} is up to date (block ${currentBlock})`);
+    return { transfers: [], caughtUp: true };
+  }
+
+  const ranges = getBlockRanges(startBlock, currentBlock, chain.maxBlockRange);
+  const lastBlock = ranges[ranges.length - 1][1];
+  console.log(`[Blockchain] Scanning blocks ${startBlock} to ${lastBlock} on ${networkId} (${ranges.length} ranges)`);
+
+  // One eth_getLogs per range covering every stablecoin contract, all
+  // ranges sent in one batch request
+  const results = await rpcBatch(
+    networkId,
+    ranges.map(([rangeFrom, rangeTo]) => ({
+      method: "eth_getLogs",
+      params: [
+        {
+          fromBlock: "0x" + rangeFrom.toString(16),
+          toBlock: "0x" + rangeTo.toString(16),
+          address: tokens.map((token) => token.address),
+          topics: [
+            TRANSFER_EVENT_SIGNATURE,
+            null, // from (any)
+            padAddress(merchantAddress), // to (merchant)
+          ],
+        },
+      ],
+    }))
+  );
+
+  // Stop at the first range that failed so the cursor never skips
+  // unscanned blocks
+  const transfers: TransferEvent[] = [];
+  let scannedTo = startBlock - 1;
+
+  for (const [i, [rangeFrom, rangeTo]] of ranges.entries()) {
+    const result = results[i];
+    if (result.status === "rejected") {
+      console.warn(`[Blockchain] Error scanning blocks ${rangeFrom}-${rangeTo} on ${networkId}:`, result.reason);
+      break;
+    }
+
+    const logs = result.value as Array<{
+      address: string;
+      transactionHash: string;
+      blockNumber: string;
+      blockHash: string;
+      logIndex: string;
+      topics: string[];
+      data: string;
+    }> | null;
+
+    for (const log of logs || []) {
+      // Parse with the decimals of the contract that emitted the log
+      const token = getTokenByAddress(networkId, log.address);
+      if (!token) continue;
+
+      const rawAmount = BigInt(log.data);
+      transfers.push({
+        transactionHash: log.transactionHash,
+        blockNumber: parseInt(log.blockNumber, 16),
+        blockHash: log.blockHash,
+        logIndex: parseInt(log.logIndex, 16),
+        from: "0x" + log.topics[1].slice(26), // Extract address from padded topic
+        to: merchantAddress,
+        amount: fromTokenUnits(rawAmount, token.decimals),
+        rawAmount: rawAmount.toString(),
+        decimals: token.decimals,
+        tokenAddress: token.address,
+        tokenSymbol: token.symbol,
+        networkId,
+      });
+    }
+    scannedTo = rangeTo;
+  }
+
+  console.log(`[Blockchain] Found ${transfers.length} stablecoin transfers on ${networkId}`);
+
+  transfers.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  return {
+    transfers,
+    scanned: scannedTo >= startBlock ? { fromBlock: startBlock, toBlock: scannedTo } : undefined,
+    caughtUp: scannedTo >= currentBlock,
+  };
+}
+
+/**
+ * Check for stablecoin transfers to a specific address
+ * 
+ * Scans forward from `fromBlock` (see scanTransfers).
+ * 
+ * Without an expected amount, the most recent transfer is returned.
+ * With one, only a transfer of exactly that many token units counts as a
+ * payment; a transfer close to it is returned with an underpaid/overpaid
+ * match so the caller can flag it instead of completing the order.
+ * 
+ * @param merchantAddress - The address to check for incoming transfers
+ * @param networkId - The network to check (ethereum, polygon, etc.)
+ * @param fromBlock - First block to scan (default: ~15 minutes back)
+ * @param expectedAmount - Optional: exact payment amount, e.g. "5.004217"
+ * @param isConsumed - Optional: skip transfers for which this returns true
+ * @param acceptPartial - Optional: report any smaller transfer as underpaid
+ *   (a partial payment), not only one near the expected amount
  * @returns MonitoringResult with transfer details if found
  */
 export async function checkForTransfers(
   merchantAddress: string,
   networkId: string,
   fromBlock?: number,
-  expectedAmount?: number
+  expectedAmount?: string,
+  isConsumed?: ConsumedTransferCheck,
+  acceptPartial?: boolean
 ): Promise<MonitoringResult> {
   try {
-    const rpcUrl = RPC_ENDPOINTS[networkId];
-    if (!rpcUrl) {
-      console.log(`[Blockchain] Unsupported network: ${networkId}`);
-      return { found: false, error: `Unsupported network: ${networkId}` };
+    const result = await scanTransfers(merchantAddress, networkId, fromBlock);
+    if (result.error) {
+      return { found: false, error: result.error };
     }
 
-    console.log(`[Blockchain] Checking ${networkId} for transfers to ${merchantAddress}`);
+    const scanned = result.scanned ? { [networkId]: result.scanned } : undefined;
 
-    // Get current block
-    const currentBlock = await getBlockNumber(networkId);
-    // Check last 500 blocks (~10-15 minutes on most chains)
-    const startBlock = fromBlock || currentBlock - 500;
+    // Best non-exact candidate, reported only if no exact match exists
+    let flagged: MonitoringResult | null = null;
 
-    console.log(`[Blockchain] Scanning blocks ${startBlock} to ${currentBlock} on ${networkId}`);
+    // Walk transfers newest first
+    for (const transfer of [...result.transfers].reverse()) {
+      // A transfer that already settled another order can't pay this one
+      if (isConsumed && await isConsumed(transfer)) {
+        console.log(`[Blockchain] Skipping consumed transfer: ${transfer.transactionHash}`);
+        continue;
+      }
 
-    // Get stablecoin contracts for this network
-    const contracts = TOKEN_CONTRACTS[networkId as keyof typeof TOKEN_CONTRACTS];
-    if (!contracts) {
-      console.log(`[Blockchain] No token contracts for ${networkId}`);
-      return { found: false, error: `No token contracts for ${networkId}` };
-    }
+      // No expected amount: report the most recent transfer
+      if (expectedAmount === undefined) {
+        console.log(`[Blockchain] Latest transfer: ${transfer.amount} ${transfer.tokenSymbol}`);
+        return { found: true, transfer, scanned };
+      }
 
-    // Check each stablecoin contract
-    for (const [symbol, tokenAddress] of Object.entries(contracts)) {
-      if (!tokenAddress) continue;
-
-      try {
-        console.log(`[Blockchain] Checking ${symbol} (${tokenAddress}) on ${networkId}`);
-        
-        // Query Transfer events where `to` is the merchant address
-        const logs = await rpcCall(rpcUrl, "eth_getLogs", [
-          {
-            fromBlock: "0x" + startBlock.toString(16),
-            toBlock: "latest",
-            address: tokenAddress,
-            topics: [
-              TRANSFER_EVENT_SIGNATURE,
-              null, // from (any)
-              padAddress(merchantAddress), // to (merchant)
-            ],
-          },
-        ]) as Array<{
-          transactionHash: string;
-          blockNumber: string;
-          topics: string[];
-          data: string;
-        }>;
-
-        console.log(`[Blockchain] Found ${logs?.length || 0} ${symbol} transfers on ${networkId}`);
-
-        if (logs && logs.length > 0) {
-          // Get the most recent transfer
-          const latestLog = logs[logs.length - 1];
-          
-          // Determine decimals (most stablecoins use 6, DAI uses 18)
-          const decimals = symbol === "DAI" ? 18 : 6;
-          const amount = parseAmount(latestLog.data, decimals);
-          
-          console.log(`[Blockchain] Latest transfer: ${amount} ${symbol}`);
-          
-          // If expected amount specified, check if it matches (with 5% tolerance for fees)
-          if (expectedAmount !== undefined) {
-            const parsedAmount = parseFloat(amount);
-            const tolerance = expectedAmount * 0.05; // 5% tolerance
-            if (Math.abs(parsedAmount - expectedAmount) > tolerance) {
-              console.log(`[Blockchain] Amount ${parsedAmount} doesn't match expected ${expectedAmount} (tolerance: ${tolerance})`);
-              continue; // Amount doesn't match, check next token
-            }
-          }
-
-          const transfer: TransferEvent = {
-            transactionHash: latestLog.transactionHash,
-            blockNumber: parseInt(latestLog.blockNumber, 16),
-            from: "0x" + latestLog.topics[1].slice(26), // Extract address from padded topic
-            to: merchantAddress,
-            amount,
-            tokenAddress,
-            tokenSymbol: symbol,
-            networkId,
-          };
-
-          console.log(`[Blockchain] ✓ Payment detected: ${amount} ${symbol} on ${networkId} (tx: ${transfer.transactionHash})`);
-          return { found: true, transfer };
-        }
-      } catch (tokenError) {
-        console.warn(`[Blockchain] Error checking ${symbol} on ${networkId}:`, tokenError);
-        continue;
+      const match = matchTransferToOrder(
+        expectedAmount,
+        BigInt(transfer.rawAmount),
+        transfer.decimals,
+        acceptPartial
+      );
+      if (match === "exact") {
+        console.log(`[Blockchain] ✓ Payment detected: ${transfer.amount} ${transfer.tokenSymbol} on ${networkId} (tx: ${transfer.transactionHash})`);
+        return { found: true, transfer, match, scanned };
+      }
+
+      if (match && !flagged) {
+        console.log(`[Blockchain] ${match} transfer: ${transfer.amount} ${transfer.tokenSymbol} (expected ${expectedAmount})`);
+        flagged = { found: true, transfer, match, scanned };
       }
     }
 
+    if (flagged) {
+      return flagged;
+    }
+
     console.log(`[Blockchain] No matching transfers found on ${networkId}`);
-    return { found: false };
+    return { found: false, scanned };
   } catch (error) {
     console.error(`[Blockchain] Error monitoring ${networkId}:`, error);
     return { found: false, error: (error as Error).message };
@@ -249,71 +506,147 @@ export async function checkForTransfers(
 
 /**
  * Check multiple networks for incoming transfers (parallel for speed)
+ * 
+ * @param merchantAddress - The address to check for incoming transfers, or
+ *   a function giving the address to check on each network
+ * @param expectedAmount - Optional: exact payment amount
+ * @param preferredNetworkId - Optional: network to prefer on ties
+ * @param isConsumed - Optional: skip transfers for which this returns true
+ * @param fromBlocks - Optional: first block to scan per network (from the order's cursors)
+ * @param acceptPartial - Optional: report any smaller transfer as a partial payment
+ * @returns The best result, with the blocks scanned on every network
  */
 export async function checkAllNetworksForTransfers(
-  merchantAddress: string,
-  expectedAmount?: number,
-  preferredNetworkId?: string
+  merchantAddress: string | ((networkId: string) => string),
+  expectedAmount?: string,
+  preferredNetworkId?: string,
+  isConsumed?: ConsumedTransferCheck,
+  fromBlocks?: Record<string, number>,
+  acceptPartial?: boolean
 ): Promise<MonitoringResult> {
-  console.log(`[Blockchain] Checking all networks for transfers to ${merchantAddress}`);
-  
-  // Priority order: lower fee networks first
-  const networkPriority = ["base", "polygon", "arbitrum", "optimism", "avalanche", "bsc", "ethereum"];
+  const getAddress = typeof merchantAddress === "string" ? () => merchantAddress : merchantAddress;
+  console.log(
+    `[Blockchain] Checking all networks for transfers to ${typeof merchantAddress === "string" ? merchantAddress : "the order's addresses"}`
+  );
   
   // If preferred network specified, put it first
   const networks = preferredNetworkId
-    ? [preferredNetworkId, ...networkPriority.filter(n => n !== preferredNetworkId)]
-    : networkPriority;
+    ? [preferredNetworkId, ...NETWORK_PRIORITY.filter(n => n !== preferredNetworkId)]
+    : NETWORK_PRIORITY;
 
   // Check networks in parallel for faster detection
   const results = await Promise.allSettled(
     networks.map(networkId =>
-      checkForTransfers(merchantAddress, networkId, undefined, expectedAmount)
+      checkForTransfers(
+        getAddress(networkId),
+        networkId,
+        fromBlocks?.[networkId],
+        expectedAmount,
+        isConsumed,
+        acceptPartial
+      )
     )
   );
 
-  // Find the first successful result
+  // Every network's progress is reported, whichever result wins
+  const scanned: Record<string, ScannedRange> = {};
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      Object.assign(scanned, result.value.scanned);
+    }
+  }
+
+  // Find the first successful result, preferring exact matches
+  // over underpaid/overpaid transfers
+  let flagged: MonitoringResult | null = null;
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
-    if (result.status === "fulfilled" && result.value.found) {
+    if (result.status !== "fulfilled" || !result.value.found) continue;
+
+    if (!result.value.match || result.value.match === "exact") {
       console.log(`[Blockchain] ✓ Payment found on ${networks[i]}`);
-      return result.value;
+      return { ...result.value, scanned };
     }
+    flagged = flagged || result.value;
+  }
+
+  if (flagged) {
+    console.log(`[Blockchain] Only ${flagged.match} transfers found`);
+    return { ...flagged, scanned };
   }
 
   console.log(`[Blockchain] No payments found on any network`);
-  return { found: false };
+  return { found: false, scanned };
 }
 
 /**
- * Get transaction receipt to verify confirmation
+ * Get the number of confirmations a network requires
+ */
+export function getRequiredConfirmations(networkId: string): number {
+  return getChain(networkId)?.requiredConfirmations ?? DEFAULT_REQUIRED_CONFIRMATIONS;
+}
+
+/**
+ * Get transaction receipt and confirmation depth
+ * 
+ * A transaction is `confirmed` only when its receipt status is 0x1 and
+ * it has reached the network's required confirmations.
+ * 
+ * @param transactionHash - The transaction to check
+ * @param networkId - Network the transaction was sent on
+ * @returns Receipt status, confirmation count and whether it is final
  */
 export async function getTransactionStatus(
   transactionHash: string,
   networkId: string
-): Promise<{ confirmed: boolean; blockNumber?: number; status?: boolean }> {
+): Promise<TransactionStatus> {
+  const requiredConfirmations = getRequiredConfirmations(networkId);
+
   try {
-    const rpcUrl = RPC_ENDPOINTS[networkId];
-    if (!rpcUrl) {
-      return { confirmed: false };
+    if (!hasRpcProviders(networkId)) {
+      return {
+        found: false,
+        confirmed: false,
+        confirmations: 0,
+        requiredConfirmations,
+        error: `Unsupported network: ${networkId}`,
+      };
     }
 
-    const receipt = await rpcCall(rpcUrl, "eth_getTransactionReceipt", [transactionHash]) as {
-      blockNumber: string;
-      status: string;
-    } | null;
-
-    if (!receipt) {
-      return { confirmed: false };
+    const [receipt, currentBlock] = await Promise.all([
+      rpcCall(networkId, "eth_getTransactionReceipt", [transactionHash]) as Promise<{
+        blockNumber: string;
+        blockHash: string;
+        status: string;
+      } | null>,
+      getBlockNumber(networkId),
+    ]);
+
+    if (!receipt || !receipt.blockNumber) {
+      return { found: false, confirmed: false, confirmations: 0, requiredConfirmations };
     }
 
+    const blockNumber = parseInt(receipt.blockNumber, 16);
+    const status = receipt.status === "0x1";
+    const confirmations = Math.max(0, currentBlock - blockNumber + 1);
+
     return {
-      confirmed: true,
-      blockNumber: parseInt(receipt.blockNumber, 16),
-      status: receipt.status === "0x1",
+      found: true,
+      confirmed: status && confirmations >= requiredConfirmations,
+      blockNumber,
+      blockHash: receipt.blockHash,
+      status,
+      confirmations,
+      requiredConfirmations,
     };
   } catch (error) {
     console.error(`[Blockchain] Error getting tx status:`, error);
-    return { confirmed: false };
+    return {
+      found: false,
+      confirmed: false,
+      confirmations: 0,
+      requiredConfirmations,
+      error: (error as Error).message,
+    };
   }
 }
@@ -0,0 +1,125 @@
+/**
+ * ===========================================
+ * Order Cancellation
+ * ===========================================
+ * 
+ * Cancelling an order moves it to `cancelled` on the server, so it stops
+ * matching incoming transfers as a payable order.
+ * 
+ * Customers may still pay a cancelled order's QR code. Such transfers
+ * never complete the order: they are claimed for it (so they can't
+ * settle anything else) and flagged for refund review. A cancelled order
+ * is watched for a late payment for LATE_PAYMENT_WINDOW_MS.
+ */
+
+import {
+  claimTransfer,
+  transitionStatus,
+  updatePaymentStatus,
+} from "./dynamo";
+import type { Order, PaymentStatus, PaymentStatusRecord, TransferRef } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Statuses an order can be cancelled from
+ * 
+ * Once a transfer is processing (or has been seen on-chain) the order
+ * can no longer be cancelled, unless a reorg dropped it again (see
+ * isCancellable).
+ */
+const CANCELLABLE_STATUSES: PaymentStatus[] = [
+  "pending",
+  "scanning",
+  "authorizing",
+  "reorged",
+];
+
+/** How long after creation a cancelled order is watched for a late payment */
+export const LATE_PAYMENT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Details of a transfer received after cancellation
+ */
+export interface LatePayment extends TransferRef {
+  amountReceived: string;
+  stablecoin?: string;
+  senderAddress?: string;
+  refundAddress?: string;
+  blockNumber?: number;
+  blockHash?: string;
+}
+
+// ===========================================
+// Cancellation
+// ===========================================
+
+/**
+ * Check whether an order can be cancelled
+ * 
+ * A reorged order only can if none of its payment is left on-chain.
+ * 
+ * @param order - The order to check
+ */
+export function isCancellable(order: Order): boolean {
+  return CANCELLABLE_STATUSES.includes(order.status) && !order.amountReceivedUnits;
+}
+
+/**
+ * Cancel an order
+ * 
+ * The caller is responsible for checking isCancellable first.
+ * 
+ * @param order - The order to cancel
+ * @param reason - Why the order is cancelled (recorded in statusHistory)
+ * @returns The cancelled order
+ */
+export async function cancelOrder(order: Order, reason: string): Promise<Order> {
+  const cancelledAt = new Date().toISOString();
+
+  const { order: cancelled } = await transitionStatus(order.orderId, "cancelled", {
+    order: { cancelledAt, cancellationReason: reason },
+    payment: { errorMessage: `Cancelled: ${reason}` },
+  });
+
+  console.log(`[Cancellation] Order ${order.orderId} cancelled: ${reason}`);
+  return cancelled;
+}
+
+/**
+ * Record a transfer that arrived for a cancelled order
+ * 
+ * The order stays cancelled; the payment is flagged for refund review.
+ * 
+ * @param order - The cancelled order
+ * @param payment - The transfer that was received
+ * @returns The updated payment status
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
+ */
+export async function flagLatePayment(
+  order: Order,
+  payment: LatePayment
+): Promise<PaymentStatusRecord> {
+  await claimTransfer(order.orderId, {
+    networkId: payment.networkId,
+    transactionHash: payment.transactionHash,
+    logIndex: payment.logIndex,
+  });
+
+  console.warn(
+    `[Cancellation] ${payment.amountReceived} ${payment.stablecoin || ""} received for cancelled order ${order.orderId}, flagging for refund review`
+  );
+
+  return updatePaymentStatus(order.orderId, {
+    ...payment,
+    expectedAmount: order.paymentAmount,
+    refundReview: true,
+    errorMessage: `Payment of ${payment.amountReceived} received after cancellation; review for refund`,
+  });
+}
@@ -0,0 +1,496 @@
+/**
+ * ===========================================
+ * Chain and Token Registry
+ * ===========================================
+ *
+ * Single source of truth for every supported network: chain ID, explorer,
+ * default RPC endpoints, Mesh and Alchemy identifiers, scan and
+ * confirmation settings, and the stablecoin contracts accepted on it.
+ *
+ * Everything network-specific elsewhere is derived from this table:
+ * - SUPPORTED_NETWORKS, USDC_CONTRACTS, CHAIN_IDS (lib/walletconnect.ts)
+ * - Token lookups by symbol or contract address (lib/tokens.ts)
+ * - MESH_NETWORK_IDS, VERIFIED_NETWORKS, STABLECOIN_NETWORKS (lib/mesh.ts)
+ * - Default RPC URLs (lib/rpc.ts) and scan settings (lib/blockchain.ts)
+ * - Alchemy network names (api/webhooks/alchemy)
+ * - Network and stablecoin pickers in the POS terminal
+ *
+ * With NEXT_PUBLIC_TESTNET_MODE=true every network is swapped for its
+ * testnet (Sepolia, Amoy, ...): chain IDs, test USDC contracts, RPCs,
+ * explorers and Alchemy network names all come from the testnet table.
+ * 
+ * Every contract address is checked against its EIP-55 checksum when this
+ * module loads, so a typo fails at startup rather than as missed payments.
+ *
+ * This module has no server-only imports; it is bundled into the POS.
+ */
+
+import { isChecksumAddress, toChecksumAddress } from "./address";
+
+// ===========================================
+// Types
+// ===========================================
+
+export type NetworkKey =
+  | "base"
+  | "polygon"
+  | "arbitrum"
+  | "optimism"
+  | "avalanche"
+  | "bsc"
+  | "ethereum";
+
+/**
+ * A stablecoin contract on one network
+ */
+export interface TokenContract {
+  /** EIP-55 checksummed contract address */
+  address: string;
+  /** Decimals of this contract (ERC20 `decimals()`) */
+  decimals: number;
+}
+
+/**
+ * Display details for a stablecoin, shared across networks
+ */
+export interface StablecoinConfig {
+  symbol: string;
+  name: string;
+  /** Short name for compact pickers */
+  label: string;
+  icon: string;
+  /** Fiat currency the stablecoin tracks 1:1 (ISO 4217) */
+  pegCurrency: string;
+}
+
+/**
+ * Everything the app knows about one network
+ */
+export interface ChainConfig {
+  id: NetworkKey;
+  name: string;
+  chainId: number;
+  explorer: string;
+  icon: string;
+  /** Typical transaction fees, shown in the POS network picker */
+  fees: "very low" | "low" | "high";
+  /** Public, rate-limited RPC endpoints used when none are configured */
+  rpcUrls: string[];
+  /**
+   * Mesh managed-transfer network UUID. Only set for networks verified
+   * against GET /api/v1/transfers/managed/networks; Mesh rejects others.
+   */
+  meshNetworkId?: string;
+  /** Alchemy Notify network names for this chain */
+  alchemyNetworks: string[];
+  /** Average block time, used to size the fallback scan window */
+  blockTimeSeconds: number;
+  /** Largest block range the public RPC accepts in one eth_getLogs call */
+  maxBlockRange: number;
+  /**
+   * Blocks (including the transfer's own) before a payment is completed.
+   * L2s settle quickly enough that inclusion suffices for POS amounts.
+   */
+  requiredConfirmations: number;
+  /** Accepted stablecoin contracts by symbol */
+  tokens: Partial<Record<StablecoinKey, TokenContract>>;
+}
+
+// ===========================================
+// Stablecoins
+// ===========================================
+
+export const STABLECOINS = {
+  USDC: { symbol: "USDC", name: "USD Coin", label: "USDC", icon: "💵", pegCurrency: "USD" },
+  USDT: { symbol: "USDT", name: "Tether USD", label: "Tether", icon: "💲", pegCurrency: "USD" },
+  DAI: { symbol: "DAI", name: "Dai", label: "DAI", icon: "◈", pegCurrency: "USD" },
+  BUSD: { symbol: "BUSD", name: "Binance USD", label: "BUSD", icon: "🟡", pegCurrency: "USD" },
+  FRAX: { symbol: "FRAX", name: "Frax", label: "FRAX", icon: "🔷", pegCurrency: "USD" },
+  TUSD: { symbol: "TUSD", name: "TrueUSD", label: "TrueUSD", icon: "🔵", pegCurrency: "USD" },
+  USDP: { symbol: "USDP", name: "Pax Dollar", label: "USDP", icon: "🅿️", pegCurrency: "USD" },
+  GUSD: { symbol: "GUSD", name: "Gemini Dollar", label: "GUSD", icon: "🟩", pegCurrency: "USD" },
+  LUSD: { symbol: "LUSD", name: "Liquity USD", label: "LUSD", icon: "🟢", pegCurrency: "USD" },
+  sUSD: { symbol: "sUSD", name: "Synthetix USD", label: "sUSD", icon: "🟣", pegCurrency: "USD" },
+  PYUSD: { symbol: "PYUSD", name: "PayPal USD", label: "PayPal USD", icon: "🅿️", pegCurrency: "USD" },
+  EURS: { symbol: "EURS", name: "STASIS Euro", label: "EURS", icon: "€", pegCurrency: "EUR" },
+  EURT: { symbol: "EURT", name: "Tether Euro", label: "EURT", icon: "€", pegCurrency: "EUR" },
+  USDD: { symbol: "USDD", name: "USDD", label: "USDD", icon: "🔶", pegCurrency: "USD" },
+} as const satisfies Record<string, StablecoinConfig>;
+
+export type StablecoinKey = keyof typeof STABLECOINS;
+
+// ===========================================
+// Networks
+// ===========================================
+
+/**
+ * Mainnet networks, in priority order (lowest fees first)
+ */
+const MAINNET_CHAINS: Record<NetworkKey, ChainConfig> = {
+  base: {
+    id: "base",
+    name: "Base",
+    chainId: 8453,
+    explorer: "https://basescan.org",
+    icon: "🔷",
+    fees: "very low",
+    rpcUrls: ["https://mainnet.base.org", "https://base-rpc.publicnode.com"],
+    alchemyNetworks: ["BASE_MAINNET"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6 }, // Native USDC
+      DAI: { address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb", decimals: 18 },
+    },
+  },
+  polygon: {
+    id: "polygon",
+    name: "Polygon",
+    chainId: 137,
+    explorer: "https://polygonscan.com",
+    icon: "⬡",
+    fees: "very low",
+    rpcUrls: ["https://polygon-rpc.com", "https://polygon-bor-rpc.publicnode.com"],
+    meshNetworkId: "7436e9d0-ba42-4d2b-b4c0-8e4e606b2c12",
+    alchemyNetworks: ["MATIC_MAINNET"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 2000,
+    requiredConfirmations: 32,
+    tokens: {
+      USDC: { address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", decimals: 6 }, // Native USDC
+      USDT: { address: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F", decimals: 6 },
+      DAI: { address: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063", decimals: 18 },
+      FRAX: { address: "0x45c32fA6DF82ead1e2EF74d17b76547EDdFaFF89", decimals: 18 },
+      TUSD: { address: "0x2e1AD108fF1D8C782fcBbB89AAd783aC49586756", decimals: 18 },
+      EURS: { address: "0xE111178A87A3BFf0c8d18DECBa5798827539Ae99", decimals: 2 },
+    },
+  },
+  arbitrum: {
+    id: "arbitrum",
+    name: "Arbitrum",
+    chainId: 42161,
+    explorer: "https://arbiscan.io",
+    icon: "🔵",
+    fees: "low",
+    rpcUrls: ["https://arb1.arbitrum.io/rpc", "https://arbitrum-one-rpc.publicnode.com"],
+    alchemyNetworks: ["ARB_MAINNET"],
+    blockTimeSeconds: 0.25,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6 }, // Native USDC
+      USDT: { address: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9", decimals: 6 },
+      DAI: { address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+      FRAX: { address: "0x17FC002b466eEc40DaE837Fc4bE5c67993ddBd6F", decimals: 18 },
+      LUSD: { address: "0x93b346b6BC2548dA6A1E7d98E9a421B42541425b", decimals: 18 },
+    },
+  },
+  optimism: {
+    id: "optimism",
+    name: "Optimism",
+    chainId: 10,
+    explorer: "https://optimistic.etherscan.io",
+    icon: "🔴",
+    fees: "low",
+    rpcUrls: ["https://mainnet.optimism.io", "https://optimism-rpc.publicnode.com"],
+    alchemyNetworks: ["OPT_MAINNET"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", decimals: 6 }, // Native USDC
+      USDT: { address: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58", decimals: 6 },
+      DAI: { address: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1", decimals: 18 },
+      FRAX: { address: "0x2E3D870790dC77A83DD1d18184Acc7439A53f475", decimals: 18 },
+      LUSD: { address: "0xc40F949F8a4e094D1b49a23ea9241D289B7b2819", decimals: 18 },
+      sUSD: { address: "0x8c6f28f2F1A3C87F0f938b96d27520d9751ec8d9", decimals: 18 },
+    },
+  },
+  avalanche: {
+    id: "avalanche",
+    name: "Avalanche",
+    chainId: 43114,
+    explorer: "https://snowtrace.io",
+    icon: "🔺",
+    fees: "low",
+    rpcUrls: ["https://api.avax.network/ext/bc/C/rpc", "https://avalanche-c-chain-rpc.publicnode.com"],
+    alchemyNetworks: ["AVAX_MAINNET"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 2048,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", decimals: 6 }, // Native USDC
+      USDT: { address: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7", decimals: 6 },
+      DAI: { address: "0xd586E7F844cEa2F87f50152665BCbc2C279D8d70", decimals: 18 },
+      TUSD: { address: "0x1C20E891Bab6b1727d14Da358FAe2984Ed9B59EB", decimals: 18 },
+    },
+  },
+  bsc: {
+    id: "bsc",
+    name: "BNB Chain",
+    chainId: 56,
+    explorer: "https://bscscan.com",
+    icon: "💛",
+    fees: "very low",
+    rpcUrls: ["https://bsc-dataseed.binance.org", "https://bsc-rpc.publicnode.com"],
+    alchemyNetworks: ["BNB_MAINNET"],
+    blockTimeSeconds: 3,
+    maxBlockRange: 5000,
+    requiredConfirmations: 15,
+    tokens: {
+      // Binance-Peg tokens use 18 decimals, unlike their Ethereum originals
+      USDC: { address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", decimals: 18 },
+      USDT: { address: "0x55d398326f99059fF775485246999027B3197955", decimals: 18 },
+      DAI: { address: "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3", decimals: 18 },
+      BUSD: { address: "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56", decimals: 18 },
+      TUSD: { address: "0x14016E85a25aeb13065688cAFB43044C2ef86784", decimals: 18 },
+      USDD: { address: "0xd17479997F34dd9156Deef8F95A52D81D265be9c", decimals: 18 },
+    },
+  },
+  ethereum: {
+    id: "ethereum",
+    name: "Ethereum",
+    chainId: 1,
+    explorer: "https://etherscan.io",
+    icon: "⟠",
+    fees: "high",
+    rpcUrls: ["https://eth.llamarpc.com", "https://ethereum-rpc.publicnode.com"],
+    meshNetworkId: "e3c7fdd8-b1fc-4e51-85ae-bb276e075611",
+    alchemyNetworks: ["ETH_MAINNET"],
+    blockTimeSeconds: 12,
+    maxBlockRange: 1000,
+    requiredConfirmations: 12,
+    tokens: {
+      USDC: { address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6 },
+      USDT: { address: "0xdAC17F958D2ee523a2206206994597C13D831ec7", decimals: 6 },
+      DAI: { address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", decimals: 18 },
+      FRAX: { address: "0x853d955aCEf822Db058eb8505911ED77F175b99e", decimals: 18 },
+      TUSD: { address: "0x0000000000085d4780B73119b644AE5ecd22b376", decimals: 18 },
+      USDP: { address: "0x8E870D67F660D95d5be530380D0eC0bd388289E1", decimals: 18 },
+      GUSD: { address: "0x056Fd409E1d7A124BD7017459dFEa2F387b6d5Cd", decimals: 2 },
+      LUSD: { address: "0x5f98805A4E8be255a32880FDeC7F6728C6568bA0", decimals: 18 },
+      sUSD: { address: "0x57Ab1ec28D129707052df4dF418D58a2D46d5f51", decimals: 18 },
+      PYUSD: { address: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8", decimals: 6 },
+      EURS: { address: "0xDB25F211Ab05B1C97D595516f45D7628D50Cf763", decimals: 2 },
+      EURT: { address: "0xC581b735A1688071A1746c968e0798D642EDE491", decimals: 6 },
+    },
+  },
+};
+
+/**
+ * Testnet counterparts of the mainnet networks, under the same IDs
+ * 
+ * Only Circle's test USDC is listed: the other stablecoins have no
+ * official testnet deployments. Mesh only supports mainnets, so no
+ * testnet has a Mesh network ID.
+ */
+const TESTNET_CHAINS: Record<NetworkKey, ChainConfig> = {
+  base: {
+    id: "base",
+    name: "Base Sepolia",
+    chainId: 84532,
+    explorer: "https://sepolia.basescan.org",
+    icon: "🔷",
+    fees: "very low",
+    rpcUrls: ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"],
+    alchemyNetworks: ["BASE_SEPOLIA"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", decimals: 6 },
+    },
+  },
+  polygon: {
+    id: "polygon",
+    name: "Polygon Amoy",
+    chainId: 80002,
+    explorer: "https://amoy.polygonscan.com",
+    icon: "⬡",
+    fees: "very low",
+    rpcUrls: ["https://rpc-amoy.polygon.technology", "https://polygon-amoy-bor-rpc.publicnode.com"],
+    alchemyNetworks: ["MATIC_AMOY"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 2000,
+    requiredConfirmations: 32,
+    tokens: {
+      USDC: { address: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582", decimals: 6 },
+    },
+  },
+  arbitrum: {
+    id: "arbitrum",
+    name: "Arbitrum Sepolia",
+    chainId: 421614,
+    explorer: "https://sepolia.arbiscan.io",
+    icon: "🔵",
+    fees: "low",
+    rpcUrls: ["https://sepolia-rollup.arbitrum.io/rpc", "https://arbitrum-sepolia-rpc.publicnode.com"],
+    alchemyNetworks: ["ARB_SEPOLIA"],
+    blockTimeSeconds: 0.25,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d", decimals: 6 },
+    },
+  },
+  optimism: {
+    id: "optimism",
+    name: "OP Sepolia",
+    chainId: 11155420,
+    explorer: "https://sepolia-optimism.etherscan.io",
+    icon: "🔴",
+    fees: "low",
+    rpcUrls: ["https://sepolia.optimism.io", "https://optimism-sepolia-rpc.publicnode.com"],
+    alchemyNetworks: ["OPT_SEPOLIA"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 10000,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x5fd84259d66Cd46123540766Be93DFE6D43130D7", decimals: 6 },
+    },
+  },
+  avalanche: {
+    id: "avalanche",
+    name: "Avalanche Fuji",
+    chainId: 43113,
+    explorer: "https://testnet.snowtrace.io",
+    icon: "🔺",
+    fees: "low",
+    rpcUrls: ["https://api.avax-test.network/ext/bc/C/rpc", "https://avalanche-fuji-c-chain-rpc.publicnode.com"],
+    alchemyNetworks: ["AVAX_FUJI"],
+    blockTimeSeconds: 2,
+    maxBlockRange: 2048,
+    requiredConfirmations: 1,
+    tokens: {
+      USDC: { address: "0x5425890298aed601595a70AB815c96711a31Bc65", decimals: 6 },
+    },
+  },
+  bsc: {
+    id: "bsc",
+    name: "BNB Chain Testnet",
+    chainId: 97,
+    explorer: "https://testnet.bscscan.com",
+    icon: "💛",
+    fees: "very low",
+    rpcUrls: ["https://data-seed-prebsc-1-s1.bnbchain.org:8545", "https://bsc-testnet-rpc.publicnode.com"],
+    alchemyNetworks: ["BNB_TESTNET"],
+    blockTimeSeconds: 3,
+    maxBlockRange: 5000,
+    requiredConfirmations: 15,
+    // No official test stablecoin; the network is listed but not payable
+    tokens: {},
+  },
+  ethereum: {
+    id: "ethereum",
+    name: "Sepolia",
+    chainId: 11155111,
+    explorer: "https://sepolia.etherscan.io",
+    icon: "⟠",
+    fees: "high",
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://rpc.sepolia.org"],
+    alchemyNetworks: ["ETH_SEPOLIA"],
+    blockTimeSeconds: 12,
+    maxBlockRange: 1000,
+    requiredConfirmations: 12,
+    tokens: {
+      USDC: { address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", decimals: 6 },
+    },
+  },
+};
+
+// ===========================================
+// Active Registry
+// ===========================================
+
+/**
+ * Whether the app runs against testnets (NEXT_PUBLIC_TESTNET_MODE=true)
+ * 
+ * Read at build time in the browser bundle, so the POS and the API always
+ * agree. Restart (and rebuild) to switch.
+ */
+export const TESTNET_MODE = process.env.NEXT_PUBLIC_TESTNET_MODE === "true";
+
+export type ChainEnvironment = "mainnet" | "testnet";
+
+/** Environment orders are created in and matched against */
+export const CHAIN_ENVIRONMENT: ChainEnvironment = TESTNET_MODE ? "testnet" : "mainnet";
+
+/**
+ * Supported networks for the current environment, in priority order
+ * (lowest fees first)
+ */
+export const CHAINS: Record<NetworkKey, ChainConfig> = TESTNET_MODE ? TESTNET_CHAINS : MAINNET_CHAINS;
+
+/** Network IDs in priority order (lowest fees first) */
+export const NETWORK_KEYS = Object.keys(CHAINS) as NetworkKey[];
+
+// ===========================================
+// Validation
+// ===========================================
+
+/**
+ * Check the registry for mistakes that would otherwise surface as
+ * payments that are never detected
+ *
+ * @throws Error listing every invalid entry
+ */
+function validateRegistry(chains: Record<NetworkKey, ChainConfig>): void {
+  const problems: string[] = [];
+  const chainIds = new Map<number, NetworkKey>();
+
+  for (const chain of Object.values(chains)) {
+    const duplicate = chainIds.get(chain.chainId);
+    if (duplicate) {
+      problems.push(`${chain.id}: chain ID ${chain.chainId} is also used by ${duplicate}`);
+    }
+    chainIds.set(chain.chainId, chain.id);
+
+    for (const [symbol, token] of Object.entries(chain.tokens)) {
+      if (!isChecksumAddress(token.address)) {
+        let expected: string;
+        try {
+          expected = `expected ${toChecksumAddress(token.address)}`;
+        } catch {
+          expected = "not a 20-byte hex address";
+        }
+        problems.push(`${chain.id} ${symbol}: ${token.address} fails its EIP-55 checksum (${expected})`);
+      }
+      if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+        problems.push(`${chain.id} ${symbol}: invalid decimals ${token.decimals}`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid chain registry:\n  ${problems.join("\n  ")}`);
+  }
+}
+
+validateRegistry(MAINNET_CHAINS);
+validateRegistry(TESTNET_CHAINS);
+
+// ===========================================
+// Lookups
+// ===========================================
+
+/**
+ * Fiat currency a stablecoin is pegged to ("any" and unknown symbols
+ * are treated as USD stablecoins)
+ */
+export function getPegCurrency(symbol: string): string {
+  return Object.prototype.hasOwnProperty.call(STABLECOINS, symbol)
+    ? STABLECOINS[symbol as StablecoinKey].pegCurrency
+    : "USD";
+}
+
+/**
+ * Get a network by its ID
+ *
+ * @returns The network, or null if it isn't supported
+ */
+export function getChain(networkId: string): ChainConfig | null {
+  return Object.prototype.hasOwnProperty.call(CHAINS, networkId)
+    ? CHAINS[networkId as NetworkKey]
+    : null;
+}
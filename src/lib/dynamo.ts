@@ -1,45 +1,270 @@
 /**
  * ===========================================
- * In-Memory Storage for Demo
+ * Order & Payment Status Storage
  * ===========================================
  * 
- * Simple in-memory storage for orders and payment status.
- * This is suitable for demo purposes where persistence is not critical.
+ * Storage API used by all API routes. The actual persistence is
+ * delegated to a pluggable backend (see lib/storage):
  * 
- * For production, use Amplify Gen 2 Data API or configure proper
- * IAM permissions for the SSR compute function.
+ * - memory: in-memory Maps, lost on Lambda cold start (default)
+ * - file: JSON file on disk for local development
+ * - dynamodb: the Order / PaymentStatus tables from amplify/data
  * 
- * Note: Data is lost when Lambda cold starts. For a real production
- * app, implement proper DynamoDB access with IAM roles.
+ * The backend is selected via STORAGE_BACKEND (or auto-detected from
+ * the DYNAMODB_* table names), so routes never need to change.
+ * 
+ * Settling a payment also claims its transfer in the consumed-transfer
+ * index, so the same on-chain transfer can never settle two orders.
+ * Deposit pool addresses are claimed the same way, by the order they are
+ * given to, and released when the order is no longer open. So is each
+ * open order's payment amount, at every address the order is paid to.
+ * 
+ * Webhook deliveries are recorded in an event log keyed by the provider's
+ * event ID, so a retried delivery is processed at most once.
+ * 
+ * Refunds are stored next to orders, one record per refund (see
+ * lib/refunds.ts).
+ * 
+ * Every status change goes through transitionStatus: it is checked against
+ * the payment state machine (lib/payment-state.ts) and written to the
+ * order and its payment status together, so the two never disagree.
+ * Illegal transitions are recorded in the payment status history and
+ * rejected with InvalidStatusTransitionError. Every status or payment
+ * update is published to lib/order-events for the POS event stream.
+ * 
+ * Orders created in the other chain environment (testnet vs mainnet, see
+ * lib/chains.ts) are invisible: lookups return null and scans skip them,
+ * so a testnet deployment sharing storage never settles mainnet orders.
+ * 
+ * Orders belong to a merchant (orders from before multi-merchant support
+ * belong to DEFAULT_MERCHANT_ID); routes check ownership themselves (see
+ * lib/auth.ts). Open orders are found by the address they are paid to,
+ * through their payment amount claims; an address belongs to exactly one
+ * merchant (see lib/merchants.ts).
+ * 
+ * A merchant's order history is listed with listOrders: one page at a
+ * time, newest first, filtered by the backend.
  */
 
 import type {
+  ConsumedTransfer,
+  DepositAddressClaim,
+  Merchant,
+  MerchantApiKey,
   Order,
+  OrderQuery,
+  PaginatedResponse,
+  PaymentAmountClaim,
   PaymentStatus,
   PaymentStatusRecord,
-  StatusHistoryEntry,
+  Refund,
+  RefundStatus,
+  TransferRef,
+  WebhookEvent,
+  WebhookSource,
 } from "./types";
+import { getStorage, type StoreStats } from "./storage";
+import { canTransition, InvalidStatusTransitionError } from "./payment-state";
+import { publishOrderStatus } from "./order-events";
+import { CHAIN_ENVIRONMENT } from "./chains";
+import { getOrderReceivingAddresses, isPaidTo, OPEN_ORDER_STATUSES } from "./reconciliation";
+
+export { ConcurrentUpdateError, InvalidCursorError } from "./storage";
+
+/**
+ * Merchant that owns orders created before multi-merchant support, and
+ * the merchant configured through MERCHANT_* environment variables
+ */
+export const DEFAULT_MERCHANT_ID = "default";
+
+/**
+ * Statuses that attribute a transfer to an order
+ */
+const SETTLING_STATUSES: PaymentStatus[] = [
+  "confirming",
+  "completed",
+  "partially_paid",
+  "underpaid",
+  "overpaid",
+];
+
+/**
+ * Thrown when a transfer has already been claimed by another order
+ */
+export class TransferAlreadyConsumedError extends Error {
+  constructor(
+    public readonly transferKey: string,
+    public readonly consumedBy: string
+  ) {
+    super(`Transfer ${transferKey} already settled order ${consumedBy}`);
+    this.name = "TransferAlreadyConsumedError";
+  }
+}
 
 // ===========================================
-// In-Memory Storage
+// Status Transitions
 // ===========================================
 
 /**
- * In-memory store for orders
- * Key: orderId, Value: Order
+ * Record a refused status change in the payment status history and throw
+ * 
+ * @param orderId - The order being updated
+ * @param from - Current status
+ * @param to - Requested status
+ * @throws InvalidStatusTransitionError always
  */
-const ordersStore = new Map<string, Order>();
+async function rejectTransition(
+  orderId: string,
+  from: PaymentStatus,
+  to: PaymentStatus
+): Promise<never> {
+  const error = new InvalidStatusTransitionError(orderId, from, to);
+  console.warn(`[Storage] ${error.message}`);
+
+  const record = await getStorage().getPaymentStatus(orderId);
+  if (record) {
+    await getStorage().updatePaymentStatus(orderId, {
+      statusHistory: [
+        ...(record.statusHistory || []),
+        {
+          status: to,
+          timestamp: new Date().toISOString(),
+          message: `Rejected transition from ${from}`,
+          rejected: true,
+        },
+      ],
+    });
+  }
+
+  throw error;
+}
 
 /**
- * In-memory store for payment status
- * Key: orderId, Value: PaymentStatusRecord
+ * Change the status of an order and its payment status together
+ * 
+ * This is the only way statuses change: both records are checked against
+ * the state machine and written in one atomic update, so Order.status and
+ * PaymentStatusRecord.status always agree. The write only happens if
+ * neither record changed since they were checked. If the payment update
+ * attributes a transaction to the order (confirming, completed,
+ * partially_paid, underpaid or overpaid), the transfer is claimed first,
+ * and released again if the write fails. An order that stops being open
+ * releases its deposit address; one that reopens (after a reorg) claims
+ * it back if no other order has taken it.
+ * 
+ * @param orderId - The order ID
+ * @param status - The new status
+ * @param updates - Other fields to change on the order and payment status
+ * @returns Both updated records
+ * @throws InvalidStatusTransitionError if either record can't move to `status`
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
+ * @throws ConcurrentUpdateError if either record changed in the meantime
  */
-const paymentStatusStore = new Map<string, PaymentStatusRecord>();
+export async function transitionStatus(
+  orderId: string,
+  status: PaymentStatus,
+  updates: {
+    order?: Partial<Omit<Order, "orderId" | "status">>;
+    payment?: Partial<Omit<PaymentStatusRecord, "orderId" | "status">>;
+  } = {}
+): Promise<{ order: Order; paymentStatus: PaymentStatusRecord }> {
+  const [order, existing] = await Promise.all([
+    getStorage().getOrder(orderId),
+    getStorage().getPaymentStatus(orderId),
+  ]);
+  if (!order) {
+    throw new Error(`Order not found: ${orderId}`);
+  }
+
+  for (const current of [order.status, existing?.status]) {
+    if (current && !canTransition(current, status)) {
+      await rejectTransition(orderId, current, status);
+    }
+  }
+
+  const payment = updates.payment || {};
+  const transfer: TransferRef | null =
+    payment.transactionHash && SETTLING_STATUSES.includes(status)
+      ? {
+          networkId: payment.networkId || existing?.networkId || "unknown",
+          transactionHash: payment.transactionHash,
+          logIndex: payment.logIndex ?? existing?.logIndex,
+        }
+      : null;
+  // Only a claim made here is undone if the write fails
+  const newClaim = !!transfer && !(await getConsumedTransfer(transfer));
+  if (transfer) {
+    await claimTransfer(orderId, transfer);
+  }
+
+  let result: { order: Order; paymentStatus: PaymentStatusRecord };
+  try {
+    result = await getStorage().updateOrderAndPaymentStatus(
+      orderId,
+      { ...updates.order, status },
+      { ...payment, status },
+      { order: order.updatedAt, paymentStatus: existing?.updatedAt ?? null }
+    );
+  } catch (error) {
+    if (transfer && newClaim) {
+      await releaseTransfer(orderId, transfer);
+    }
+    throw error;
+  }
+  console.log(`[Storage] Updated order ${orderId} and payment status to: ${status}`);
+
+  // The status change stands even if the claims can't be updated
+  const { depositAddress, paymentAmount } = result.order;
+  const addresses = getOrderReceivingAddresses(result.order);
+  const wasOpen = OPEN_ORDER_STATUSES.includes(order.status);
+  const isOpen = OPEN_ORDER_STATUSES.includes(status);
+  try {
+    if (depositAddress && wasOpen && !isOpen) {
+      await releaseDepositAddress(orderId, depositAddress);
+    } else if (depositAddress && !wasOpen && isOpen) {
+      await claimDepositAddress(getOrderMerchantId(result.order), orderId, depositAddress);
+    }
+  } catch (error) {
+    console.error(`[Storage] Failed to update deposit address claim of order ${orderId}:`, error);
+  }
+  try {
+    if (wasOpen && !isOpen) {
+      await releasePaymentAmount(orderId, addresses, paymentAmount);
+    } else if (!wasOpen && isOpen) {
+      const merchantId = getOrderMerchantId(result.order);
+      await claimPaymentAmount(merchantId, orderId, addresses, paymentAmount);
+    }
+  } catch (error) {
+    console.error(`[Storage] Failed to update payment amount claims of order ${orderId}:`, error);
+  }
+
+  publishOrderStatus({
+    orderId,
+    status,
+    paymentDetails: result.paymentStatus,
+    timestamp: new Date().toISOString(),
+  });
+  return result;
+}
 
 // ===========================================
 // Order Operations
 // ===========================================
 
+/**
+ * Whether an order belongs to the current chain environment
+ */
+function isCurrentEnvironment(order: Order): boolean {
+  return (order.environment ?? "mainnet") === CHAIN_ENVIRONMENT;
+}
+
+/**
+ * Merchant that owns an order
+ */
+export function getOrderMerchantId(order: Order): string {
+  return order.merchantId ?? DEFAULT_MERCHANT_ID;
+}
+
 /**
  * Create a new order
  * 
@@ -48,8 +273,7 @@ const paymentStatusStore = new Map<string, PaymentStatusRecord>();
  */
 export async function createOrder(order: Order): Promise<Order> {
   console.log(`[Storage] Creating order: ${order.orderId}`);
-  ordersStore.set(order.orderId, order);
-  return order;
+  return getStorage().createOrder(order);
 }
 
 /**
@@ -59,41 +283,49 @@ export async function createOrder(order: Order): Promise<Order> {
  * @returns The order or null if not found
  */
 export async function getOrder(orderId: string): Promise<Order | null> {
-  const order = ordersStore.get(orderId);
+  const order = await getStorage().getOrder(orderId);
   if (!order) {
     console.log(`[Storage] Order not found: ${orderId}`);
     return null;
   }
+  if (!isCurrentEnvironment(order)) {
+    console.log(`[Storage] Order ${orderId} is a ${order.environment ?? "mainnet"} order, hidden in ${CHAIN_ENVIRONMENT} mode`);
+    return null;
+  }
   return order;
 }
 
 /**
- * Update an order's status
+ * Update an order's status (and its payment status with it)
  * 
  * @param orderId - The order ID to update
  * @param status - The new status
  * @param additionalFields - Optional additional fields to update
  * @returns The updated order
+ * @throws InvalidStatusTransitionError if the order can't move to `status`
  */
 export async function updateOrderStatus(
   orderId: string,
   status: PaymentStatus,
-  additionalFields?: Partial<Order>
+  additionalFields?: Partial<Omit<Order, "orderId" | "status">>
 ): Promise<Order> {
-  const existing = ordersStore.get(orderId);
-  if (!existing) {
-    throw new Error(`Order not found: ${orderId}`);
-  }
-
-  const updated: Order = {
-    ...existing,
-    ...additionalFields,
-    status,
-    updatedAt: new Date().toISOString(),
-  };
+  const { order } = await transitionStatus(orderId, status, { order: additionalFields });
+  return order;
+}
 
-  ordersStore.set(orderId, updated);
-  console.log(`[Storage] Updated order ${orderId} status to: ${status}`);
+/**
+ * Update fields on an order without changing its status
+ * 
+ * @param orderId - The order ID to update
+ * @param updates - Fields to update
+ * @returns The updated order
+ */
+export async function updateOrder(
+  orderId: string,
+  updates: Partial<Omit<Order, "orderId" | "status">>
+): Promise<Order> {
+  const updated = await getStorage().updateOrder(orderId, updates);
+  console.log(`[Storage] Updated order: ${orderId}`);
   return updated;
 }
 
@@ -103,10 +335,44 @@ export async function updateOrderStatus(
  * @param orderId - The order ID to delete
  */
 export async function deleteOrder(orderId: string): Promise<void> {
-  ordersStore.delete(orderId);
+  await getStorage().deleteOrder(orderId);
   console.log(`[Storage] Deleted order: ${orderId}`);
 }
 
+/**
+ * List a merchant's orders in the current chain environment, newest first
+ * 
+ * Orders from before multi-merchant support have no merchantId and are
+ * not listed.
+ * 
+ * @param merchantId - The merchant whose orders are listed
+ * @param query - Filters, page size and the previous page's lastKey
+ * @returns One page of orders
+ * @throws InvalidCursorError if query.lastKey is malformed
+ */
+export async function listOrders(
+  merchantId: string,
+  query: Omit<OrderQuery, "merchantId" | "environment"> = {}
+): Promise<PaginatedResponse<Order>> {
+  return getStorage().queryOrders({ ...query, merchantId, environment: CHAIN_ENVIRONMENT });
+}
+
+/**
+ * Get the orders in any of the given statuses
+ * 
+ * @param statuses - Statuses to return
+ * @param createdSince - Optional: only orders created at or after this ISO timestamp
+ * @returns Matching orders in the current chain environment
+ */
+export async function getOrdersByStatus(
+  statuses: PaymentStatus[],
+  createdSince?: string
+): Promise<Order[]> {
+  return (await getStorage().queryOrdersByStatus(statuses, createdSince)).filter(
+    isCurrentEnvironment
+  );
+}
+
 // ===========================================
 // Payment Status Operations
 // ===========================================
@@ -120,9 +386,9 @@ export async function deleteOrder(orderId: string): Promise<void> {
 export async function upsertPaymentStatus(
   record: PaymentStatusRecord
 ): Promise<PaymentStatusRecord> {
-  paymentStatusStore.set(record.orderId, record);
+  const stored = await getStorage().upsertPaymentStatus(record);
   console.log(`[Storage] Upserted payment status for order: ${record.orderId}`);
-  return record;
+  return stored;
 }
 
 /**
@@ -134,7 +400,7 @@ export async function upsertPaymentStatus(
 export async function getPaymentStatus(
   orderId: string
 ): Promise<PaymentStatusRecord | null> {
-  const status = paymentStatusStore.get(orderId);
+  const status = await getStorage().getPaymentStatus(orderId);
   if (!status) {
     console.log(`[Storage] Payment status not found: ${orderId}`);
     return null;
@@ -145,117 +411,581 @@ export async function getPaymentStatus(
 /**
  * Update payment status with new information
  * 
+ * Updates that change the status go through transitionStatus, so the
+ * order's status changes with it and settling statuses claim the transfer.
+ * 
  * @param orderId - The order ID
  * @param updates - Fields to update
  * @returns The updated record
+ * @throws InvalidStatusTransitionError if the order can't move to `updates.status`
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
  */
 export async function updatePaymentStatus(
   orderId: string,
   updates: Partial<PaymentStatusRecord>
 ): Promise<PaymentStatusRecord> {
-  const existing = paymentStatusStore.get(orderId);
-  
-  // Build status history entry if status is being updated
-  let statusHistory: StatusHistoryEntry[] = existing?.statusHistory || [];
-  if (updates.status && updates.status !== existing?.status) {
-    statusHistory = [
-      ...statusHistory,
-      {
-        status: updates.status,
-        timestamp: new Date().toISOString(),
-        message: updates.errorMessage,
-      },
-    ];
+  const { status, ...payment } = updates;
+  if (status) {
+    const { paymentStatus } = await transitionStatus(orderId, status, { payment });
+    return paymentStatus;
   }
 
-  const updated: PaymentStatusRecord = {
-    orderId,
-    status: existing?.status || "pending",
-    updatedAt: new Date().toISOString(),
-    ...existing,
-    ...updates,
-    statusHistory,
-  };
-
-  paymentStatusStore.set(orderId, updated);
+  const updated = await getStorage().updatePaymentStatus(orderId, payment);
   console.log(`[Storage] Updated payment status for order: ${orderId}`);
+
+  publishOrderStatus({
+    orderId,
+    status: updated.status,
+    paymentDetails: updated,
+    timestamp: new Date().toISOString(),
+  });
   return updated;
 }
 
+/**
+ * Get the payment statuses in any of the given statuses
+ * 
+ * @param statuses - Statuses to return
+ * @param updatedSince - Optional: only records updated at or after this ISO timestamp
+ */
+export async function getPaymentStatusesByStatus(
+  statuses: PaymentStatus[],
+  updatedSince?: string
+): Promise<PaymentStatusRecord[]> {
+  return getStorage().queryPaymentStatuses(statuses, updatedSince);
+}
+
 /**
  * Delete payment status
  * 
  * @param orderId - The order ID
  */
 export async function deletePaymentStatus(orderId: string): Promise<void> {
-  paymentStatusStore.delete(orderId);
+  await getStorage().deletePaymentStatus(orderId);
   console.log(`[Storage] Deleted payment status: ${orderId}`);
 }
 
 // ===========================================
-// Utility Functions
+// Consumed Transfer Operations
 // ===========================================
 
 /**
- * Get all orders (for debugging)
+ * Build the consumed-transfer key for a transfer
+ * 
+ * @param ref - Network, transaction hash and optional log index
+ * @returns Key in the form `network:txhash:logIndex` (lowercase)
  */
-export function getAllOrders(): Order[] {
-  return Array.from(ordersStore.values());
+export function getTransferKey(ref: TransferRef): string {
+  const logIndex = ref.logIndex ?? "*";
+  return `${ref.networkId}:${ref.transactionHash}:${logIndex}`.toLowerCase();
 }
 
 /**
- * Get all payment statuses (for debugging)
+ * Claim a transfer for an order
+ * 
+ * Claiming the same transfer again for the same order is a no-op.
+ * 
+ * @param orderId - The order the transfer pays for
+ * @param ref - The transfer
+ * @returns The stored claim
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
  */
-export function getAllPaymentStatuses(): PaymentStatusRecord[] {
-  return Array.from(paymentStatusStore.values());
+export async function claimTransfer(
+  orderId: string,
+  ref: TransferRef
+): Promise<ConsumedTransfer> {
+  const transferKey = getTransferKey(ref);
+  const claim = await getStorage().claimTransfer({
+    ...ref,
+    transactionHash: ref.transactionHash.toLowerCase(),
+    transferKey,
+    orderId,
+    consumedAt: new Date().toISOString(),
+  });
+
+  if (claim.orderId !== orderId) {
+    console.warn(
+      `[Storage] Transfer ${transferKey} already consumed by order ${claim.orderId}, rejecting claim for ${orderId}`
+    );
+    throw new TransferAlreadyConsumedError(transferKey, claim.orderId);
+  }
+
+  console.log(`[Storage] Transfer ${transferKey} consumed by order: ${orderId}`);
+  return claim;
 }
 
 /**
- * Clear all data (for testing)
+ * Get the claim for a transfer, if any
+ * 
+ * @param ref - The transfer
+ * @returns The claim or null if the transfer is unclaimed
  */
-export function clearAllData(): void {
-  ordersStore.clear();
-  paymentStatusStore.clear();
-  console.log("[Storage] Cleared all data");
+export async function getConsumedTransfer(
+  ref: TransferRef
+): Promise<ConsumedTransfer | null> {
+  return getStorage().getConsumedTransfer(getTransferKey(ref));
 }
 
 /**
- * Get store statistics
+ * Release an order's claim on a transfer (e.g. after a chain reorg)
+ * 
+ * Claims held by other orders are left untouched.
+ * 
+ * @param orderId - The order that claimed the transfer
+ * @param ref - The transfer
+ * @returns True if the claim was released
  */
-export function getStoreStats(): { orders: number; paymentStatuses: number } {
-  return {
-    orders: ordersStore.size,
-    paymentStatuses: paymentStatusStore.size,
-  };
+export async function releaseTransfer(
+  orderId: string,
+  ref: TransferRef
+): Promise<boolean> {
+  const transferKey = getTransferKey(ref);
+  const released = await getStorage().releaseTransfer(transferKey, orderId);
+  if (released) {
+    console.log(`[Storage] Released transfer ${transferKey} from order: ${orderId}`);
+  }
+  return released;
+}
+
+/**
+ * Check whether a transfer has already settled a different order
+ * 
+ * @param ref - The transfer
+ * @param orderId - The order asking (its own claim doesn't count)
+ * @returns True if the transfer belongs to another order
+ */
+export async function isTransferConsumed(
+  ref: TransferRef,
+  orderId?: string
+): Promise<boolean> {
+  const claim = await getConsumedTransfer(ref);
+  return !!claim && claim.orderId !== orderId;
+}
+
+// ===========================================
+// Deposit Address Claims
+// ===========================================
+
+/**
+ * Claim a deposit pool address for an order
+ * 
+ * Claiming an address again for the same order is a no-op.
+ * 
+ * @param merchantId - The merchant whose pool the address belongs to
+ * @param orderId - The order the address is given to
+ * @param address - The pool address (any case)
+ * @returns True if the order holds the address, false if another order does
+ */
+export async function claimDepositAddress(
+  merchantId: string,
+  orderId: string,
+  address: string
+): Promise<boolean> {
+  const claim = await getStorage().claimDepositAddress({
+    address: address.toLowerCase(),
+    merchantId,
+    orderId,
+    claimedAt: new Date().toISOString(),
+  });
+
+  if (claim.orderId !== orderId) {
+    console.log(`[Storage] Deposit address ${address} is held by order ${claim.orderId}`);
+    return false;
+  }
+
+  console.log(`[Storage] Deposit address ${address} claimed by order: ${orderId}`);
+  return true;
 }
 
 /**
- * Scan orders by merchant address and optional status filter
- * Used by webhooks to find pending orders for a merchant
+ * Get the claim on a deposit pool address, if any
  * 
- * @param merchantAddress - The merchant wallet address (case-insensitive)
+ * @param address - The pool address (any case)
+ * @returns The claim or null if the address is free
+ */
+export async function getDepositAddressClaim(
+  address: string
+): Promise<DepositAddressClaim | null> {
+  return getStorage().getDepositAddressClaim(address.toLowerCase());
+}
+
+/**
+ * Release an order's claim on a deposit pool address
+ * 
+ * Claims held by other orders are left untouched.
+ * 
+ * @param orderId - The order that claimed the address
+ * @param address - The pool address (any case)
+ * @returns True if the claim was released
+ */
+export async function releaseDepositAddress(
+  orderId: string,
+  address: string
+): Promise<boolean> {
+  const released = await getStorage().releaseDepositAddress(address.toLowerCase(), orderId);
+  if (released) {
+    console.log(`[Storage] Released deposit address ${address} from order: ${orderId}`);
+  }
+  return released;
+}
+
+// ===========================================
+// Payment Amount Claims
+// ===========================================
+
+/**
+ * Build the key of the claim on a payment amount at an address
+ */
+function getPaymentAmountClaimKey(address: string, paymentAmount: string): string {
+  return `${address.toLowerCase()}:${paymentAmount}`;
+}
+
+/**
+ * Claim a payment amount for an order at every address it is paid to
+ * 
+ * Either the amount is claimed at all of the addresses or at none.
+ * Claiming an amount again for the same order is a no-op.
+ * 
+ * @param merchantId - The merchant the order belongs to
+ * @param orderId - The order the amount is given to
+ * @param addresses - The order's receiving addresses (any case)
+ * @param paymentAmount - The order's payment amount
+ * @returns True if the order holds the amount at every address, false if
+ *          another order holds it at one of them
+ */
+export async function claimPaymentAmount(
+  merchantId: string,
+  orderId: string,
+  addresses: string[],
+  paymentAmount: string
+): Promise<boolean> {
+  const claimedAt = new Date().toISOString();
+  const unique = Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+  const claimed = await getStorage().claimPaymentAmounts(
+    unique.map((address) => ({
+      claimKey: getPaymentAmountClaimKey(address, paymentAmount),
+      address,
+      paymentAmount,
+      merchantId,
+      orderId,
+      claimedAt,
+    }))
+  );
+
+  if (!claimed) {
+    console.log(`[Storage] Payment amount ${paymentAmount} is held by another order`);
+    return false;
+  }
+
+  console.log(`[Storage] Payment amount ${paymentAmount} claimed by order: ${orderId}`);
+  return true;
+}
+
+/**
+ * Get the payment amounts claimed at an address
+ * 
+ * @param address - The receiving address (any case)
+ * @returns The claims of the open orders paid to the address
+ */
+export async function getPaymentAmountClaims(address: string): Promise<PaymentAmountClaim[]> {
+  return getStorage().getPaymentAmountClaimsByAddress(address.toLowerCase());
+}
+
+/**
+ * Release an order's claims on its payment amount
+ * 
+ * Claims held by other orders are left untouched.
+ * 
+ * @param orderId - The order that claimed the amount
+ * @param addresses - The order's receiving addresses (any case)
+ * @param paymentAmount - The order's payment amount
+ */
+export async function releasePaymentAmount(
+  orderId: string,
+  addresses: string[],
+  paymentAmount: string
+): Promise<void> {
+  for (const address of new Set(addresses.map((address) => address.toLowerCase()))) {
+    const claimKey = getPaymentAmountClaimKey(address, paymentAmount);
+    if (await getStorage().releasePaymentAmount(claimKey, orderId)) {
+      console.log(`[Storage] Released payment amount ${claimKey} from order: ${orderId}`);
+    }
+  }
+}
+
+/**
+ * Get the open orders paid to an address, with optional status and
+ * network filters
+ * Used by webhooks and order creation to find the open orders at an address
+ * 
+ * Orders are found through their payment amount claims, so orders that
+ * are no longer open (see OPEN_ORDER_STATUSES) are never returned.
+ * 
+ * @param address - The receiving address (case-insensitive)
  * @param statuses - Optional array of statuses to filter by
- * @returns Array of matching orders
+ * @param networkId - Optional: only orders paid to the address on this network
+ * @returns Array of matching orders in the current chain environment
  */
-export async function scanOrdersByMerchantAddress(
-  merchantAddress: string,
-  statuses?: PaymentStatus[]
+export async function getOpenOrdersByReceivingAddress(
+  address: string,
+  statuses?: PaymentStatus[],
+  networkId?: string
 ): Promise<Order[]> {
-  const normalizedAddress = merchantAddress.toLowerCase();
-  
-  const allOrders = Array.from(ordersStore.values());
-  
-  return allOrders.filter(order => {
-    // Match merchant address (case-insensitive)
-    if (order.merchantWalletAddress.toLowerCase() !== normalizedAddress) {
-      return false;
-    }
-    
-    // If statuses filter provided, check status
-    if (statuses && statuses.length > 0) {
-      return statuses.includes(order.status);
-    }
-    
-    return true;
+  const claims = await getPaymentAmountClaims(address);
+  const orderIds = Array.from(new Set(claims.map((claim) => claim.orderId)));
+  const orders = await Promise.all(orderIds.map(getOrder));
+  return orders.filter(
+    (order): order is Order =>
+      !!order &&
+      (!statuses || statuses.includes(order.status)) &&
+      (!networkId || isPaidTo(order, address, networkId))
+  );
+}
+
+// ===========================================
+// Webhook Event Operations
+// ===========================================
+
+/**
+ * Build the webhook event key
+ * 
+ * @param source - Webhook provider
+ * @param eventId - Provider event ID
+ * @returns Key in the form `source:eventId`
+ */
+export function getWebhookEventKey(source: WebhookSource, eventId: string): string {
+  return `${source}:${eventId}`;
+}
+
+/**
+ * Record a webhook delivery in the event log
+ * 
+ * The first delivery of an event stores it with its raw payload. Later
+ * deliveries only bump the delivery count and are reported as duplicates,
+ * unless processing of the stored event failed, in which case the
+ * delivery is handed back for another attempt.
+ * 
+ * @param source - Webhook provider
+ * @param eventId - Provider event ID
+ * @param payload - Raw request body
+ * @returns The stored event and whether the caller should skip it
+ */
+export async function recordWebhookEvent(
+  source: WebhookSource,
+  eventId: string,
+  payload: string
+): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  const eventKey = getWebhookEventKey(source, eventId);
+  const event: WebhookEvent = {
+    eventKey,
+    source,
+    eventId,
+    status: "received",
+    payload,
+    deliveries: 1,
+    receivedAt: new Date().toISOString(),
+  };
+
+  const stored = await getStorage().recordWebhookEvent(event);
+  if (stored === event) {
+    console.log(`[Storage] Recorded webhook event: ${eventKey}`);
+    return { event: stored, duplicate: false };
+  }
+
+  const retry = stored.status === "failed";
+  const updated = await getStorage().updateWebhookEvent(eventKey, {
+    deliveries: stored.deliveries + 1,
+    ...(retry ? { status: "received" as const, error: undefined } : {}),
+  });
+  console.log(
+    `[Storage] Webhook event ${eventKey} delivered ${updated.deliveries} times (${retry ? "retrying" : stored.status})`
+  );
+  return { event: updated, duplicate: !retry };
+}
+
+/**
+ * Mark a webhook event as processed, or as failed if an error is given
+ * 
+ * @param eventKey - The event key
+ * @param error - Processing error, if any
+ * @returns The updated event
+ */
+export async function completeWebhookEvent(
+  eventKey: string,
+  error?: string
+): Promise<WebhookEvent> {
+  return getStorage().updateWebhookEvent(eventKey, {
+    status: error ? "failed" : "processed",
+    processedAt: new Date().toISOString(),
+    error,
   });
 }
+
+/**
+ * Get a webhook event by key
+ * 
+ * @param eventKey - The event key
+ * @returns The event or null if it was never received
+ */
+export async function getWebhookEvent(eventKey: string): Promise<WebhookEvent | null> {
+  return getStorage().getWebhookEvent(eventKey);
+}
+
+// ===========================================
+// Merchant Operations
+// ===========================================
+
+/**
+ * Create or replace a merchant
+ * 
+ * @param merchant - The merchant to store
+ * @returns The stored merchant
+ */
+export async function putMerchant(merchant: Merchant): Promise<Merchant> {
+  const stored = await getStorage().putMerchant(merchant);
+  console.log(`[Storage] Stored merchant: ${merchant.merchantId}`);
+  return stored;
+}
+
+/**
+ * Get a stored merchant by ID
+ * 
+ * @param merchantId - The merchant ID
+ * @returns The merchant or null if not found
+ */
+export async function getMerchant(merchantId: string): Promise<Merchant | null> {
+  return getStorage().getMerchant(merchantId);
+}
+
+/**
+ * Get all stored merchants
+ */
+export async function getAllMerchants(): Promise<Merchant[]> {
+  return getStorage().getAllMerchants();
+}
+
+/**
+ * Create or replace an API key
+ * 
+ * @param key - The key record (secret already hashed)
+ * @returns The stored key
+ */
+export async function putApiKey(key: MerchantApiKey): Promise<MerchantApiKey> {
+  const stored = await getStorage().putApiKey(key);
+  console.log(`[Storage] Stored API key ${key.keyId} for merchant: ${key.merchantId}`);
+  return stored;
+}
+
+/**
+ * Get an API key by its public ID
+ * 
+ * @param keyId - The key ID
+ * @returns The key or null if not found
+ */
+export async function getApiKey(keyId: string): Promise<MerchantApiKey | null> {
+  return getStorage().getApiKey(keyId);
+}
+
+/**
+ * Get all API keys of a merchant, including revoked ones
+ * 
+ * @param merchantId - The merchant ID
+ */
+export async function getApiKeysByMerchant(merchantId: string): Promise<MerchantApiKey[]> {
+  return getStorage().getApiKeysByMerchant(merchantId);
+}
+
+// ===========================================
+// Refund Operations
+// ===========================================
+
+/**
+ * Create or replace a refund
+ * 
+ * @param refund - The refund to store
+ * @returns The stored refund
+ */
+export async function putRefund(refund: Refund): Promise<Refund> {
+  const stored = await getStorage().putRefund(refund);
+  console.log(`[Storage] Stored refund ${refund.refundId} (${refund.status}) for order: ${refund.orderId}`);
+  return stored;
+}
+
+/**
+ * Create a refund, unless another refund of the order was requested
+ * since its payment status was read
+ * 
+ * @param refund - The new refund
+ * @param expectedRefundCount - refundCount of the payment status the
+ *        refund amount was checked against
+ * @returns The stored refund
+ * @throws ConcurrentUpdateError if another refund was added meanwhile
+ */
+export async function addRefund(refund: Refund, expectedRefundCount: number): Promise<Refund> {
+  const stored = await getStorage().addRefund(refund, expectedRefundCount);
+  console.log(`[Storage] Added refund ${refund.refundId} for order: ${refund.orderId}`);
+  return stored;
+}
+
+/**
+ * Get a refund by ID
+ * 
+ * @param refundId - The refund ID
+ * @returns The refund or null if not found
+ */
+export async function getRefund(refundId: string): Promise<Refund | null> {
+  return getStorage().getRefund(refundId);
+}
+
+/**
+ * Get all refunds of an order, oldest first
+ * 
+ * @param orderId - The order ID
+ */
+export async function getRefundsByOrder(orderId: string): Promise<Refund[]> {
+  const refunds = await getStorage().getRefundsByOrder(orderId);
+  return refunds.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Get all refunds, optionally only those in one status
+ * 
+ * @param status - Optional status filter
+ */
+export async function scanRefunds(status?: RefundStatus): Promise<Refund[]> {
+  return getStorage().scanRefunds(status);
+}
+
+// ===========================================
+// Utility Functions
+// ===========================================
+
+/**
+ * Get all orders in the current chain environment (for debugging)
+ */
+export async function getAllOrders(): Promise<Order[]> {
+  return (await getStorage().getAllOrders()).filter(isCurrentEnvironment);
+}
+
+/**
+ * Get all payment statuses (for debugging)
+ */
+export async function getAllPaymentStatuses(): Promise<PaymentStatusRecord[]> {
+  return getStorage().getAllPaymentStatuses();
+}
+
+/**
+ * Clear all data (for testing)
+ */
+export async function clearAllData(): Promise<void> {
+  await getStorage().clearAllData();
+  console.log("[Storage] Cleared all data");
+}
+
+/**
+ * Get store statistics
+ */
+export async function getStoreStats(): Promise<StoreStats & { backend: string }> {
+  const stats = await getStorage().getStoreStats();
+  return { backend: getStorage().backend, ...stats };
+}
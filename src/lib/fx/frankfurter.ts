@@ -0,0 +1,68 @@
+/**
+ * ===========================================
+ * Frankfurter FX Provider
+ * ===========================================
+ *
+ * Daily reference rates published by the European Central Bank, served
+ * by the Frankfurter API (no API key required).
+ *
+ * @see https://frankfurter.dev
+ */
+
+import { FxRateUnavailableError, type FxRateProvider } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+const DEFAULT_FRANKFURTER_API_URL = "https://api.frankfurter.app";
+
+/** Per-request timeout */
+const FRANKFURTER_TIMEOUT_MS = 5000;
+
+interface FrankfurterResponse {
+  base: string;
+  date: string;
+  rates: Record<string, number>;
+}
+
+// ===========================================
+// Provider
+// ===========================================
+
+/**
+ * Create a provider backed by the Frankfurter API
+ *
+ * @param apiUrl - API base URL (default: FX_API_URL or the public API)
+ */
+export function createFrankfurterFxProvider(
+  apiUrl: string = process.env.FX_API_URL || DEFAULT_FRANKFURTER_API_URL
+): FxRateProvider {
+  return {
+    name: "frankfurter",
+
+    async getRate(from, to) {
+      const url = `${apiUrl}/latest?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+
+      let response: Response;
+      try {
+        response = await fetch(url, { signal: AbortSignal.timeout(FRANKFURTER_TIMEOUT_MS) });
+      } catch (error) {
+        throw new FxRateUnavailableError(from, to, `request failed: ${String(error)}`);
+      }
+
+      if (!response.ok) {
+        throw new FxRateUnavailableError(from, to, `HTTP ${response.status}`);
+      }
+
+      const data = (await response.json()) as FrankfurterResponse;
+      const rate = data.rates?.[to];
+      if (typeof rate !== "number" || !(rate > 0)) {
+        throw new FxRateUnavailableError(from, to, "currency not published by the ECB");
+      }
+
+      // JSON numbers print back as the decimal the API sent
+      return { rate: String(rate), timestamp: data.date };
+    },
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * ===========================================
+ * FX Quotes
+ * ===========================================
+ *
+ * Converts an order's fiat amount into the currency its stablecoin is
+ * pegged to (EUR for EURS, USD for USDC, ...). The rate provider is
+ * picked from configuration:
+ *
+ * - FX_PROVIDER=frankfurter  ECB reference rates via the Frankfurter API
+ *                            (default; FX_API_URL overrides the base URL)
+ * - FX_PROVIDER=stub         Fixed rates for tests (FX_STUB_RATES overrides)
+ *
+ * Rates are cached briefly per currency pair. Amounts already in the
+ * peg currency are quoted at par without asking the provider.
+ */
+
+import type { FxProviderName, FxRateProvider } from "./types";
+import { createFrankfurterFxProvider } from "./frankfurter";
+import { createStubFxProvider } from "./stub";
+import { convertMoney } from "../money";
+import type { FxQuote, Money } from "../types";
+
+export type { FxProviderName, FxRate, FxRateProvider } from "./types";
+export { FxRateUnavailableError } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** How long a fetched rate is reused for new quotes */
+const FX_RATE_CACHE_TTL_MS = 60_000;
+
+/**
+ * Resolve which provider to use from environment variables
+ */
+export function resolveFxProvider(): FxProviderName {
+  const configured = process.env.FX_PROVIDER?.toLowerCase();
+
+  if (configured === "frankfurter" || configured === "stub") {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`[FX] Unknown FX_PROVIDER "${configured}", using frankfurter`);
+  }
+
+  return "frankfurter";
+}
+
+/**
+ * Instantiate a provider
+ */
+function createFxProvider(name: FxProviderName): FxRateProvider {
+  switch (name) {
+    case "stub":
+      console.log("[FX] Using stub rates");
+      return createStubFxProvider();
+
+    default:
+      console.log("[FX] Using Frankfurter rates");
+      return createFrankfurterFxProvider();
+  }
+}
+
+// ===========================================
+// Provider Access
+// ===========================================
+
+let provider: FxRateProvider | null = null;
+
+/**
+ * Get the configured rate provider (created on first use)
+ */
+export function getFxProvider(): FxRateProvider {
+  if (!provider) {
+    provider = createFxProvider(resolveFxProvider());
+  }
+  return provider;
+}
+
+/**
+ * Replace the rate provider (for tests and scripts)
+ */
+export function setFxProvider(replacement: FxRateProvider | null): void {
+  provider = replacement;
+  rateCache.clear();
+}
+
+// ===========================================
+// Quotes
+// ===========================================
+
+interface CachedRate {
+  fetchedAt: number;
+  rate: ReturnType<FxRateProvider["getRate"]>;
+}
+
+/** In-flight and recent lookups, keyed by `FROM/TO` */
+const rateCache = new Map<string, CachedRate>();
+
+function getCachedRate(from: string, to: string): ReturnType<FxRateProvider["getRate"]> {
+  const key = `${from}/${to}`;
+  const cached = rateCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < FX_RATE_CACHE_TTL_MS) {
+    return cached.rate;
+  }
+
+  const rate = getFxProvider().getRate(from, to);
+  rateCache.set(key, { fetchedAt: Date.now(), rate });
+  // Don't keep failures around; the next order retries
+  rate.catch(() => {
+    if (rateCache.get(key)?.rate === rate) {
+      rateCache.delete(key);
+    }
+  });
+  return rate;
+}
+
+/**
+ * Quote an amount in another currency
+ *
+ * The result is meant to be stored on the order and never requoted.
+ *
+ * @param amount - Order amount
+ * @param toCurrency - Currency to pay in (the stablecoin's peg currency)
+ * @throws FxRateUnavailableError if no rate is available for the pair
+ */
+export async function quoteAmount(amount: Money, toCurrency: string): Promise<FxQuote> {
+  const quotedAt = new Date().toISOString();
+
+  if (amount.currency === toCurrency) {
+    return {
+      fromCurrency: amount.currency,
+      toCurrency,
+      rate: "1",
+      source: "par",
+      rateTimestamp: quotedAt,
+      quotedAt,
+      amount,
+    };
+  }
+
+  const { rate, timestamp } = await getCachedRate(amount.currency, toCurrency);
+  const converted = convertMoney(amount, rate, toCurrency);
+
+  console.log(
+    `[FX] Quoted ${amount.minorUnits} ${amount.currency} -> ${converted.minorUnits} ${toCurrency} at ${rate} (${getFxProvider().name})`
+  );
+
+  return {
+    fromCurrency: amount.currency,
+    toCurrency,
+    rate,
+    source: getFxProvider().name,
+    rateTimestamp: timestamp,
+    quotedAt,
+    amount: converted,
+  };
+}
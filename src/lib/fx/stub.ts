@@ -0,0 +1,75 @@
+/**
+ * ===========================================
+ * Stub FX Provider
+ * ===========================================
+ *
+ * Fixed exchange rates for tests and local development. Rates never
+ * change, so payment amounts are reproducible.
+ *
+ * Override or extend the table with FX_STUB_RATES, e.g.
+ *   FX_STUB_RATES="EUR/USD=1.10,GBP/USD=1.25"
+ */
+
+import { FxRateUnavailableError, type FxRateProvider } from "./types";
+
+// ===========================================
+// Rates
+// ===========================================
+
+/** Default rates, keyed by `FROM/TO` */
+const DEFAULT_STUB_RATES: Record<string, string> = {
+  "EUR/USD": "1.08",
+  "GBP/USD": "1.27",
+  "CHF/USD": "1.12",
+  "CAD/USD": "0.73",
+  "JPY/USD": "0.0067",
+  "USD/EUR": "0.926",
+  "GBP/EUR": "1.176",
+  "CHF/EUR": "1.037",
+};
+
+/** Timestamp reported for every stub rate */
+const STUB_RATE_TIMESTAMP = "2025-01-01T00:00:00.000Z";
+
+/**
+ * Parse FX_STUB_RATES ("EUR/USD=1.10,GBP/USD=1.25")
+ */
+function parseRateOverrides(value: string | undefined): Record<string, string> {
+  const rates: Record<string, string> = {};
+  for (const entry of (value || "").split(",")) {
+    const [pair, rate] = entry.split("=").map((part) => part.trim());
+    if (pair && rate) {
+      rates[pair.toUpperCase()] = rate;
+    }
+  }
+  return rates;
+}
+
+// ===========================================
+// Provider
+// ===========================================
+
+/**
+ * Create a provider that answers from a fixed rate table
+ *
+ * @param rates - Rates keyed by `FROM/TO` (default: built-in table plus
+ *   FX_STUB_RATES)
+ */
+export function createStubFxProvider(
+  rates: Record<string, string> = {
+    ...DEFAULT_STUB_RATES,
+    ...parseRateOverrides(process.env.FX_STUB_RATES),
+  }
+): FxRateProvider {
+  return {
+    name: "stub",
+
+    async getRate(from, to) {
+      const rate = rates[`${from}/${to}`];
+      if (!rate) {
+        throw new FxRateUnavailableError(from, to, "not in the stub rate table");
+      }
+      return { rate, timestamp: STUB_RATE_TIMESTAMP };
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * ===========================================
+ * FX Rate Provider Interface
+ * ===========================================
+ *
+ * Contract implemented by every exchange rate source. Providers return
+ * rates as decimal strings so conversions (lib/money.ts) stay exact.
+ */
+
+// ===========================================
+// Types
+// ===========================================
+
+export type FxProviderName = "frankfurter" | "stub";
+
+/**
+ * One exchange rate from a provider
+ */
+export interface FxRate {
+  /** Units of the quote currency per unit of the base currency */
+  rate: string;
+
+  /** ISO timestamp (or date) the provider published the rate for */
+  timestamp: string;
+}
+
+export interface FxRateProvider {
+  readonly name: FxProviderName;
+
+  /**
+   * Get the rate from `from` to `to` (ISO 4217 codes)
+   *
+   * @throws FxRateUnavailableError if the provider has no rate for the pair
+   */
+  getRate(from: string, to: string): Promise<FxRate>;
+}
+
+// ===========================================
+// Errors
+// ===========================================
+
+/**
+ * Thrown when no exchange rate can be obtained for a currency pair
+ */
+export class FxRateUnavailableError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    reason: string
+  ) {
+    super(`No exchange rate for ${from} -> ${to}: ${reason}`);
+    this.name = "FxRateUnavailableError";
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * ===========================================
+ * Merchants and API Keys
+ * ===========================================
+ *
+ * Each store is a merchant with its own name, wallet addresses, order
+ * defaults and API keys. Merchants are created with scripts/merchants.ts
+ * and stored next to orders (see lib/dynamo.ts).
+ *
+ * Payments settle to the merchant's first wallet address, or to a
+ * per-network address where one is configured (e.g. a Safe on Ethereum).
+ * A merchant with a deposit address pool gets a pool address per order
+ * instead: each open order has an address of its own, so transfers are
+ * attributed by address, not just by amount. The address is claimed for
+ * the order in the deposit address claims (see lib/dynamo.ts) and freed
+ * when the order ends. Every order records the addresses it was given
+ * (see lib/reconciliation.ts).
+ *
+ * API keys look like `spk_<keyId>_<secret>`. Only a SHA-256 hash of the
+ * secret is stored, so a key is shown once when it is issued and can't
+ * be recovered afterwards, only revoked.
+ *
+ * Single-store deployments don't need to create anything: the
+ * MERCHANT_* environment variables describe the default merchant, which
+ * also owns every order created before multi-merchant support.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import {
+  claimDepositAddress,
+  DEFAULT_MERCHANT_ID,
+  getAllMerchants,
+  getApiKey,
+  getDepositAddressClaim,
+  getMerchant,
+  putApiKey,
+  putMerchant,
+} from "./dynamo";
+import { getMerchantWalletAddress } from "./secrets";
+import { toChecksumAddress } from "./address";
+import { NETWORK_KEYS } from "./chains";
+import type {
+  Merchant,
+  MerchantApiKey,
+  MerchantDefaults,
+  NetworkId,
+  Order,
+  StablecoinSymbol,
+} from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Key ID reported for MERCHANT_API_KEY (it has no stored record) */
+export const ENV_API_KEY_ID = "env";
+
+const API_KEY_PATTERN = /^spk_([0-9a-f]{16})_([A-Za-z0-9_-]{32,})$/;
+
+/** Wallet addresses, per-network addresses and deposit pool of a merchant */
+type MerchantAddresses = Pick<Merchant, "walletAddresses" | "networkAddresses" | "depositAddresses">;
+
+// ===========================================
+// Default Merchant
+// ===========================================
+
+/**
+ * The merchant described by MERCHANT_* environment variables
+ *
+ * @returns The default merchant, or null if MERCHANT_WALLET_ADDRESS is unset
+ */
+async function getEnvMerchant(): Promise<Merchant | null> {
+  const walletAddress = await getMerchantWalletAddress();
+  if (!walletAddress) {
+    return null;
+  }
+
+  // MERCHANT_NETWORK_ADDRESSES=ethereum=0x...,base=0x...
+  const networkAddresses: Record<string, string> = {};
+  for (const entry of (process.env.MERCHANT_NETWORK_ADDRESSES || "").split(",")) {
+    const [networkId, address] = entry.split("=").map((part) => part.trim());
+    if (networkId && address) {
+      networkAddresses[networkId] = address;
+    }
+  }
+  const depositAddresses = (process.env.MERCHANT_DEPOSIT_ADDRESSES || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  const defaults: MerchantDefaults = {};
+  if (process.env.DEFAULT_NETWORK_ID) {
+    defaults.networkId = process.env.DEFAULT_NETWORK_ID as NetworkId;
+  }
+  if (process.env.DEFAULT_STABLECOIN) {
+    defaults.stablecoin = process.env.DEFAULT_STABLECOIN as StablecoinSymbol;
+  }
+
+  const epoch = new Date(0).toISOString();
+  return {
+    merchantId: DEFAULT_MERCHANT_ID,
+    name: process.env.MERCHANT_NAME || "SablePay Coffee Shop",
+    walletAddresses: [walletAddress],
+    networkAddresses: Object.keys(networkAddresses).length > 0 ? networkAddresses : undefined,
+    depositAddresses: depositAddresses.length > 0 ? depositAddresses : undefined,
+    defaults,
+    createdAt: epoch,
+    updatedAt: epoch,
+  };
+}
+
+// ===========================================
+// Merchant Lookups
+// ===========================================
+
+/**
+ * Get a merchant by ID (stored merchants, then the default merchant)
+ *
+ * @param merchantId - The merchant ID
+ * @returns The merchant or null if not found
+ */
+export async function findMerchant(merchantId: string): Promise<Merchant | null> {
+  const stored = await getMerchant(merchantId);
+  if (stored) {
+    return stored;
+  }
+  return merchantId === DEFAULT_MERCHANT_ID ? getEnvMerchant() : null;
+}
+
+/**
+ * All merchants, including the default merchant if it is configured
+ */
+export async function listMerchants(): Promise<Merchant[]> {
+  const [stored, envMerchant] = await Promise.all([getAllMerchants(), getEnvMerchant()]);
+  const hasStoredDefault = stored.some((merchant) => merchant.merchantId === DEFAULT_MERCHANT_ID);
+  return envMerchant && !hasStoredDefault ? [envMerchant, ...stored] : stored;
+}
+
+/**
+ * Every address a merchant receives payments at (lowercase)
+ */
+export function getMerchantAddresses(merchant: MerchantAddresses): string[] {
+  const addresses = [
+    ...merchant.walletAddresses,
+    ...Object.values(merchant.networkAddresses || {}),
+    ...(merchant.depositAddresses || []),
+  ];
+  return Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+}
+
+/**
+ * Address a merchant settles to on a network (without a deposit pool)
+ *
+ * @param merchant - The merchant
+ * @param networkId - The network, or "auto" for the default address
+ */
+export function getSettlementAddress(merchant: Merchant, networkId: string): string {
+  return merchant.networkAddresses?.[networkId] ?? merchant.walletAddresses[0];
+}
+
+// ===========================================
+// Receiving Addresses
+// ===========================================
+
+/**
+ * Claim a free deposit pool address for a new order
+ *
+ * Addresses claimed by other orders are skipped. The search starts at a
+ * random free address, so the pool rotates; if another order claims an
+ * address first, the next one is tried.
+ *
+ * @returns The claimed pool address, or null if all are in use
+ */
+async function allocateDepositAddress(merchant: Merchant, orderId: string): Promise<string | null> {
+  const pool = merchant.depositAddresses || [];
+  if (pool.length === 0) {
+    return null;
+  }
+
+  const claims = await Promise.all(pool.map((address) => getDepositAddressClaim(address)));
+  const free = pool.filter((_, i) => !claims[i]);
+  const start = Math.floor(Math.random() * free.length);
+  for (const address of [...free.slice(start), ...free.slice(0, start)]) {
+    if (await claimDepositAddress(merchant.merchantId, orderId, address)) {
+      return address;
+    }
+  }
+  return null;
+}
+
+/**
+ * Choose the addresses a new order is paid to
+ *
+ * Merchants with a deposit pool get a free pool address for every
+ * network, claimed for the order: the caller must release it (see
+ * releaseDepositAddress in lib/dynamo.ts) if the order isn't stored.
+ * When the pool is exhausted (or there is none), each network uses the
+ * merchant's settlement address and the order is told apart by its
+ * payment amount alone.
+ *
+ * @param merchant - The merchant the order belongs to
+ * @param orderId - The new order's ID
+ * @param networkId - The order's network (or "auto")
+ * @param networks - Networks the order can be paid on
+ * @returns The receiving address fields of the order
+ */
+export async function assignReceivingAddresses(
+  merchant: Merchant,
+  orderId: string,
+  networkId: string,
+  networks: string[]
+): Promise<Pick<Order, "merchantWalletAddress" | "receivingAddresses" | "depositAddress">> {
+  const depositAddress = await allocateDepositAddress(merchant, orderId);
+  if (depositAddress) {
+    return {
+      merchantWalletAddress: depositAddress,
+      receivingAddresses: Object.fromEntries(networks.map((network) => [network, depositAddress])),
+      depositAddress,
+    };
+  }
+
+  if (merchant.depositAddresses?.length) {
+    console.warn(
+      `[Merchants] Deposit pool of ${merchant.merchantId} exhausted, using settlement addresses`
+    );
+  }
+  return {
+    merchantWalletAddress: getSettlementAddress(merchant, networkId),
+    receivingAddresses: Object.fromEntries(
+      networks.map((network) => [network, getSettlementAddress(merchant, network)])
+    ),
+  };
+}
+
+// ===========================================
+// Merchant Management
+// ===========================================
+
+/**
+ * Checksum a merchant's addresses and make sure no other merchant uses
+ * them (payments are attributed by receiving address)
+ *
+ * @throws Error if an address or network is invalid, or an address is taken
+ */
+async function validateAddresses(
+  merchantId: string,
+  input: MerchantAddresses
+): Promise<MerchantAddresses> {
+  if (input.walletAddresses.length === 0) {
+    throw new Error("A merchant needs at least one wallet address");
+  }
+
+  const networkAddresses = input.networkAddresses
+    ? Object.fromEntries(
+        Object.entries(input.networkAddresses).map(([networkId, address]) => {
+          if (!(NETWORK_KEYS as readonly string[]).includes(networkId)) {
+            throw new Error(`Unknown network "${networkId}" (one of: ${NETWORK_KEYS.join(", ")})`);
+          }
+          return [networkId, toChecksumAddress(address)];
+        })
+      )
+    : undefined;
+  const validated: MerchantAddresses = {
+    walletAddresses: input.walletAddresses.map((address) => toChecksumAddress(address)),
+    networkAddresses,
+    depositAddresses: input.depositAddresses?.map((address) => toChecksumAddress(address)),
+  };
+
+  // A pool address must identify one order, so it can't also be a settlement address
+  const settlement = getMerchantAddresses({ ...validated, depositAddresses: undefined });
+  const shared = validated.depositAddresses?.find((address) =>
+    settlement.includes(address.toLowerCase())
+  );
+  if (shared) {
+    throw new Error(`Deposit address ${shared} is also a settlement address`);
+  }
+
+  const addresses = getMerchantAddresses(validated);
+  for (const other of await listMerchants()) {
+    if (other.merchantId === merchantId) continue;
+    const otherAddresses = getMerchantAddresses(other);
+    const taken = addresses.find((address) => otherAddresses.includes(address));
+    if (taken) {
+      throw new Error(`Wallet address ${toChecksumAddress(taken)} already belongs to merchant ${other.merchantId}`);
+    }
+  }
+  return validated;
+}
+
+/**
+ * Create a merchant
+ *
+ * @param input - Name, addresses (the first wallet address receives new
+ *   orders unless a network address or deposit pool applies) and defaults
+ * @returns The stored merchant
+ * @throws Error if an address is invalid or used by another merchant
+ */
+export async function createMerchant(
+  input: MerchantAddresses & { name: string; defaults?: MerchantDefaults }
+): Promise<Merchant> {
+  const merchantId = uuidv4();
+  const now = new Date().toISOString();
+
+  return putMerchant({
+    merchantId,
+    name: input.name,
+    ...(await validateAddresses(merchantId, input)),
+    defaults: input.defaults,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Update a stored merchant
+ *
+ * @param merchantId - The merchant ID
+ * @param updates - Fields to change
+ * @returns The updated merchant
+ * @throws Error if the merchant doesn't exist or an address is invalid or taken
+ */
+export async function updateMerchant(
+  merchantId: string,
+  updates: Partial<Pick<Merchant, "name" | "defaults"> & MerchantAddresses>
+): Promise<Merchant> {
+  const existing = await getMerchant(merchantId);
+  if (!existing) {
+    throw new Error(`Merchant not found: ${merchantId}`);
+  }
+
+  const addresses = await validateAddresses(merchantId, {
+    walletAddresses: updates.walletAddresses ?? existing.walletAddresses,
+    networkAddresses: updates.networkAddresses ?? existing.networkAddresses,
+    depositAddresses: updates.depositAddresses ?? existing.depositAddresses,
+  });
+
+  return putMerchant({
+    ...existing,
+    name: updates.name ?? existing.name,
+    defaults: updates.defaults ?? existing.defaults,
+    ...addresses,
+    merchantId,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// ===========================================
+// API Keys
+// ===========================================
+
+function hashSecret(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+/**
+ * Issue a new API key for a merchant
+ *
+ * @param merchantId - The merchant the key authenticates as
+ * @param name - Label for the key
+ * @returns The key (shown once) and its stored record
+ * @throws Error if the merchant doesn't exist
+ */
+export async function issueApiKey(
+  merchantId: string,
+  name: string
+): Promise<{ apiKey: string; key: MerchantApiKey }> {
+  if (!(await findMerchant(merchantId))) {
+    throw new Error(`Merchant not found: ${merchantId}`);
+  }
+
+  const keyId = randomBytes(8).toString("hex");
+  const secret = randomBytes(32).toString("base64url");
+  const key = await putApiKey({
+    keyId,
+    merchantId,
+    name,
+    secretHash: hashSecret(secret).toString("hex"),
+    createdAt: new Date().toISOString(),
+  });
+
+  return { apiKey: `spk_${keyId}_${secret}`, key };
+}
+
+/**
+ * Revoke an API key (sessions signed in with it end too)
+ *
+ * @param keyId - The key ID
+ * @returns The revoked key
+ * @throws Error if the key doesn't exist
+ */
+export async function revokeApiKey(keyId: string): Promise<MerchantApiKey> {
+  const key = await getApiKey(keyId);
+  if (!key) {
+    throw new Error(`API key not found: ${keyId}`);
+  }
+  if (key.revokedAt) {
+    return key;
+  }
+  return putApiKey({ ...key, revokedAt: new Date().toISOString() });
+}
+
+/**
+ * Resolve an API key to its merchant
+ *
+ * @param apiKey - Key as presented by the client
+ * @returns The merchant and key ID, or null if the key is unknown or revoked
+ */
+export async function authenticateApiKey(
+  apiKey: string
+): Promise<{ merchant: Merchant; keyId: string } | null> {
+  const envKey = process.env.MERCHANT_API_KEY;
+  if (envKey && timingSafeEqual(hashSecret(apiKey), hashSecret(envKey))) {
+    const merchant = await findMerchant(DEFAULT_MERCHANT_ID);
+    return merchant ? { merchant, keyId: ENV_API_KEY_ID } : null;
+  }
+
+  const match = apiKey.match(API_KEY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const [, keyId, secret] = match;
+  const key = await getApiKey(keyId);
+  if (!key || key.revokedAt) {
+    return null;
+  }
+  if (!timingSafeEqual(hashSecret(secret), Buffer.from(key.secretHash, "hex"))) {
+    return null;
+  }
+
+  const merchant = await findMerchant(key.merchantId);
+  return merchant ? { merchant, keyId } : null;
+}
+
+/**
+ * Whether a key a session was signed in with still authenticates as the merchant
+ *
+ * @param merchantId - Merchant the session belongs to
+ * @param keyId - Key the session was signed in with
+ */
+export async function isApiKeyActive(merchantId: string, keyId: string): Promise<boolean> {
+  if (keyId === ENV_API_KEY_ID) {
+    return merchantId === DEFAULT_MERCHANT_ID && !!process.env.MERCHANT_API_KEY;
+  }
+  const key = await getApiKey(keyId);
+  return !!key && !key.revokedAt && key.merchantId === merchantId;
+}
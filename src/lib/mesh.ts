@@ -21,6 +21,7 @@ import type {
   StablecoinSymbol,
 } from "./types";
 import { getSecrets } from "./secrets";
+import { CHAINS, STABLECOINS, TESTNET_MODE, getChain, type StablecoinKey } from "./chains";
 
 // ===========================================
 // Configuration
@@ -29,6 +30,9 @@ import { getSecrets } from "./secrets";
 const MESH_API_URL =
   process.env.MESH_API_URL || "https://integration-api.meshconnect.com";
 
+// Link tokens are minted per order; webhooks carry this userId back
+const MESH_USER_ID_PREFIX = "user_";
+
 // Cache for credentials
 let cachedCredentials: { clientId: string; clientSecret: string } | null = null;
 
@@ -69,16 +73,14 @@ async function getMeshCredentials(): Promise<{
  * Mesh Network ID mapping for supported chains
  * These are the official Mesh network identifiers from GET /api/v1/transfers/managed/networks
  * 
- * Only including networks that are verified to work with Mesh API.
- * Use GET /api/v1/transfers/managed/networks to get the full list.
+ * Only networks with a verified `meshNetworkId` in the chain registry
+ * (lib/chains.ts) are included; add new IDs there after verifying them.
  */
-export const MESH_NETWORK_IDS: Record<string, string> = {
-  // Verified network IDs from Mesh API
-  ethereum: "e3c7fdd8-b1fc-4e51-85ae-bb276e075611",
-  polygon: "7436e9d0-ba42-4d2b-b4c0-8e4e606b2c12",
-  // Note: Add more networks after verifying their IDs from Mesh API
-  // Call GET /api/v1/transfers/managed/networks to get current network list
-};
+export const MESH_NETWORK_IDS: Record<string, string> = Object.fromEntries(
+  Object.values(CHAINS).flatMap((chain) =>
+    chain.meshNetworkId ? [[chain.id, chain.meshNetworkId]] : []
+  )
+);
 
 // Legacy mapping for backward compatibility
 export const NETWORK_IDS = MESH_NETWORK_IDS;
@@ -127,53 +129,26 @@ export async function fetchAvailableMeshNetworks(): Promise<{
 /**
  * All supported stablecoins that Mesh can handle
  */
-export const SUPPORTED_STABLECOINS = [
-  "USDC",   // USD Coin - most widely supported
-  "USDT",   // Tether - high liquidity
-  "DAI",    // MakerDAO DAI - decentralized
-  "BUSD",   // Binance USD
-  "FRAX",   // Frax - algorithmic
-  "TUSD",   // TrueUSD
-  "USDP",   // Pax Dollar
-  "GUSD",   // Gemini Dollar
-  "LUSD",   // Liquity USD
-  "sUSD",   // Synthetix USD
-  "EURS",   // STASIS Euro
-  "EURT",   // Tether Euro
-  "USDD",   // USDD
-  "PYUSD",  // PayPal USD
-] as const;
+export const SUPPORTED_STABLECOINS = Object.keys(STABLECOINS) as StablecoinKey[];
 
 /**
  * Verified networks with confirmed Mesh network IDs
  * Only include networks that have verified UUIDs in MESH_NETWORK_IDS
  */
-export const VERIFIED_NETWORKS = ["ethereum", "polygon"];
+export const VERIFIED_NETWORKS = Object.keys(MESH_NETWORK_IDS);
 
 /**
  * Stablecoin availability per network
- * Only including verified networks to avoid "Network not found" errors
- * 
- * Note: More networks can be added after verifying their IDs from:
- * GET /api/v1/transfers/managed/networks
+ * Only including verified networks to avoid "Network not found" errors,
+ * and only where the chain registry has the token's contract (so the
+ * payment can also be detected on-chain)
  */
-export const STABLECOIN_NETWORKS: Record<string, string[]> = {
-  // Only including verified networks: ethereum, polygon
-  USDC: ["ethereum", "polygon"],
-  USDT: ["ethereum", "polygon"],
-  DAI: ["ethereum", "polygon"],
-  BUSD: ["ethereum"],
-  FRAX: ["ethereum", "polygon"],
-  TUSD: ["ethereum", "polygon"],
-  USDP: ["ethereum"],
-  GUSD: ["ethereum"],
-  LUSD: ["ethereum"],
-  sUSD: ["ethereum"],
-  EURS: ["ethereum", "polygon"],
-  EURT: ["ethereum"],
-  USDD: ["ethereum"],
-  PYUSD: ["ethereum"],
-};
+export const STABLECOIN_NETWORKS: Record<string, string[]> = Object.fromEntries(
+  SUPPORTED_STABLECOINS.map((symbol) => [
+    symbol,
+    VERIFIED_NETWORKS.filter((network) => getChain(network)?.tokens[symbol]),
+  ])
+);
 
 /**
  * Get network name from ID
@@ -216,7 +191,8 @@ export function getNetworksForStablecoin(symbol: string): string[] {
  * stablecoins across ALL networks, giving maximum flexibility to the customer.
  * 
  * @param userId - Unique identifier for the customer
- * @param merchantAddress - Merchant's wallet address to receive funds
+ * @param merchantAddress - Merchant's wallet address to receive funds, or a
+ *   function giving the address on each network
  * @param amountInFiat - Amount in USD to transfer
  * @param symbol - Stablecoin symbol or "any" for all stablecoins
  * @param networkId - Network ID or "auto" for all networks
@@ -224,11 +200,16 @@ export function getNetworksForStablecoin(symbol: string): string[] {
  */
 export async function generateLinkToken(
   userId: string,
-  merchantAddress: string,
+  merchantAddress: string | ((networkId: string) => string),
   amountInFiat: number,
   symbol: StablecoinSymbol | string = "USDC",
   networkId: NetworkId | string = "auto"
 ): Promise<MeshLinkTokenResponse> {
+  // Mesh only moves funds on mainnets
+  if (TESTNET_MODE) {
+    throw new Error("Mesh payments are not available in testnet mode");
+  }
+
   const credentials = await getMeshCredentials();
 
   // Build transfer destination addresses
@@ -296,11 +277,12 @@ export async function generateLinkToken(
  * verified Mesh network IDs to avoid "Network not found" errors.
  */
 function buildTransferAddresses(
-  merchantAddress: string,
+  merchantAddress: string | ((networkId: string) => string),
   symbol: string,
   networkId: string
 ): MeshTransferAddress[] {
   const addresses: MeshTransferAddress[] = [];
+  const getAddress = typeof merchantAddress === "string" ? () => merchantAddress : merchantAddress;
   
   // Determine which stablecoins to include
   const stablecoinsToUse = symbol === "any" || symbol === "auto"
@@ -311,7 +293,7 @@ function buildTransferAddresses(
   const isAutoNetwork = networkId === "auto" || !networkId;
   
   for (const coin of stablecoinsToUse) {
-    const availableNetworks = STABLECOIN_NETWORKS[coin] || ["ethereum", "polygon"];
+    const availableNetworks = STABLECOIN_NETWORKS[coin] || [];
     
     for (const network of availableNetworks) {
       // Only use networks that have verified Mesh IDs
@@ -333,7 +315,7 @@ function buildTransferAddresses(
         addresses.push({
           networkId: meshNetworkId,
           symbol: coin,
-          address: merchantAddress,
+          address: getAddress(network),
         });
         console.log(`[Mesh] Added: ${coin} on ${network} (${meshNetworkId})`);
       }
@@ -346,7 +328,7 @@ function buildTransferAddresses(
     addresses.push({
       networkId: MESH_NETWORK_IDS.ethereum,
       symbol: "USDC",
-      address: merchantAddress,
+      address: getAddress("ethereum"),
     });
   }
   
@@ -497,6 +479,29 @@ export async function previewTransfer(
 // Utility Functions
 // ===========================================
 
+/**
+ * Get the Mesh userId for an order
+ * 
+ * @param orderId - The order ID
+ * @returns userId in the form "user_{orderId}"
+ */
+export function getMeshUserId(orderId: string): string {
+  return `${MESH_USER_ID_PREFIX}${orderId}`;
+}
+
+/**
+ * Extract the order ID from a Mesh userId
+ * 
+ * @param userId - userId from a Mesh webhook
+ * @returns The order ID, or null if the userId was not minted by us
+ */
+export function getOrderIdFromMeshUserId(userId?: string): string | null {
+  if (!userId?.startsWith(MESH_USER_ID_PREFIX)) {
+    return null;
+  }
+  return userId.slice(MESH_USER_ID_PREFIX.length) || null;
+}
+
 /**
  * Decode a Mesh Link token to get the embedded URL
  * 
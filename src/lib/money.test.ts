@@ -0,0 +1,162 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import {
+  compareMoney,
+  convertMoney,
+  fromLegacyAmount,
+  getCurrencyDecimals,
+  parseMoney,
+  toDecimalString,
+  toUnits,
+} from "./money";
+
+/** One currency per minor-unit precision */
+const currency = fc.constantFrom("JPY", "USD", "KWD");
+
+/** Minor units whose decimal strings stay well inside a safe integer */
+const minorUnits = fc.integer({ min: -1e12, max: 1e12 });
+
+/** Digits past the currency's precision */
+const extraDigits = fc.stringMatching(/^\d{1,8}$/);
+
+/**
+ * Decimal string of an amount followed by more fractional digits
+ */
+function withExtraDigits(minor: number, code: string, extra: string): string {
+  const text = toDecimalString({ minorUnits: minor, currency: code });
+  return getCurrencyDecimals(code) === 0 ? `${text}.${extra}` : `${text}${extra}`;
+}
+
+describe("parseMoney", () => {
+  it("round-trips every decimal string at the currency's precision", () => {
+    fc.assert(
+      fc.property(minorUnits, currency, (minor, code) => {
+        const money = { minorUnits: minor, currency: code };
+        expect(parseMoney(toDecimalString(money), code)).toEqual(money);
+      })
+    );
+  });
+
+  it("rounds extra digits half away from zero", () => {
+    fc.assert(
+      fc.property(minorUnits, currency, extraDigits, fc.boolean(), (minor, code, extra, negative) => {
+        const text = withExtraDigits(minor, code, extra);
+        // Also covers amounts that round to zero from below, e.g. "-0.004"
+        const input = minor === 0 && negative ? `-${text}` : text;
+        const magnitude = Math.abs(minor) + (extra[0] >= "5" ? 1 : 0);
+        const expected = input.startsWith("-") ? -magnitude : magnitude;
+        expect(parseMoney(input, code).minorUnits).toBe(expected || 0);
+      })
+    );
+  });
+
+  it("is symmetric around zero", () => {
+    fc.assert(
+      fc.property(minorUnits.map(Math.abs), currency, extraDigits, (minor, code, extra) => {
+        const text = withExtraDigits(minor, code, extra);
+        expect(parseMoney(`-${text}`, code).minorUnits).toBe(-parseMoney(text, code).minorUnits || 0);
+      })
+    );
+  });
+
+  it("never reorders amounts", () => {
+    fc.assert(
+      fc.property(
+        fc.tuple(minorUnits, extraDigits),
+        fc.tuple(minorUnits, extraDigits),
+        currency,
+        ([minorA, extraA], [minorB, extraB], code) => {
+          const a = withExtraDigits(minorA, code, extraA.padEnd(8, "0"));
+          const b = withExtraDigits(minorB, code, extraB.padEnd(8, "0"));
+          // Same precision and length: compare the digits exactly
+          const [exactA, exactB] = [a, b].map((text) => BigInt(text.replace(".", "")));
+          const exactOrder = exactA === exactB ? 0 : exactA < exactB ? -1 : 1;
+          const rounded = compareMoney(parseMoney(a, code), parseMoney(b, code));
+          // Rounding may tie two amounts but never flips them
+          expect(rounded === 0 || rounded === exactOrder).toBe(true);
+        }
+      )
+    );
+  });
+
+  it("reads numbers by their shortest decimal representation", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: -1e13, max: 1e13 }), (cents) => {
+        expect(parseMoney(cents / 100, "USD").minorUnits).toBe(cents);
+      })
+    );
+  });
+
+  it("rejects amounts outside the safe integer range", () => {
+    expect(() => parseMoney("90071992547409.92", "USD")).toThrow("Amount out of range");
+    expect(() => parseMoney("NaN", "USD")).toThrow("Invalid amount");
+  });
+});
+
+describe("fromLegacyAmount", () => {
+  it("reads float dollar amounts as their exact cents", () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 1e13 }), (cents) => {
+        expect(fromLegacyAmount(cents / 100, "USD")).toEqual({ minorUnits: cents, currency: "USD" });
+      })
+    );
+    // A float sum like 0.1 + 0.2 is still 30 cents
+    expect(fromLegacyAmount(0.1 + 0.2, "USD").minorUnits).toBe(30);
+  });
+
+  it("keeps Money amounts as they are", () => {
+    const money = { minorUnits: 529, currency: "EUR" };
+    expect(fromLegacyAmount(money, "USD")).toBe(money);
+  });
+});
+
+describe("toUnits", () => {
+  it("is exact at or above the currency's precision", () => {
+    fc.assert(
+      fc.property(minorUnits, currency, fc.integer({ min: 3, max: 18 }), (minor, code, decimals) => {
+        const scale = BigInt(10) ** BigInt(decimals - getCurrencyDecimals(code));
+        expect(toUnits({ minorUnits: minor, currency: code }, decimals)).toBe(BigInt(minor) * scale);
+      })
+    );
+  });
+});
+
+describe("convertMoney", () => {
+  it("is the identity at a rate of 1", () => {
+    fc.assert(
+      fc.property(minorUnits, (minor) => {
+        const money = { minorUnits: minor, currency: "USD" };
+        expect(convertMoney(money, "1", "EUR")).toEqual({ minorUnits: minor, currency: "EUR" });
+      })
+    );
+  });
+
+  it("rounds the exact product half away from zero", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: -1e9, max: 1e9 }),
+        fc.integer({ min: 1, max: 99_999_999 }),
+        (minor, rateDigits) => {
+          // rate = rateDigits / 10^4, result cents = minor * rateDigits / 10^4
+          const rate = (rateDigits / 1e4).toString();
+          const product = BigInt(minor) * BigInt(rateDigits);
+          const magnitude = product < BigInt(0) ? -product : product;
+          let expected = magnitude / BigInt(1e4);
+          if ((magnitude % BigInt(1e4)) * BigInt(2) >= BigInt(1e4)) {
+            expected += BigInt(1);
+          }
+          const signed = product < BigInt(0) ? -expected : expected;
+          expect(convertMoney({ minorUnits: minor, currency: "USD" }, rate, "EUR").minorUnits).toBe(
+            Number(signed) || 0
+          );
+        }
+      )
+    );
+  });
+
+  it("rejects non-positive rates", () => {
+    expect(() => convertMoney({ minorUnits: 100, currency: "USD" }, "0", "EUR")).toThrow(
+      "Invalid exchange rate"
+    );
+  });
+});
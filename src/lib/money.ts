@@ -0,0 +1,233 @@
+/**
+ * ===========================================
+ * Money
+ * ===========================================
+ *
+ * Fiat amounts as integer minor units (cents for USD) plus an ISO 4217
+ * currency code. Amounts never pass through binary floating point once
+ * parsed: 0.29 is 29 cents, not 0.28999999999999998.
+ *
+ * Parsing works on the decimal digits of the input and rounds half away
+ * from zero to the currency's precision. Conversion to token base units
+ * (lib/reconciliation.ts, lib/walletconnect.ts) is exact bigint math, so
+ * 18-decimal tokens don't lose precision either.
+ *
+ * This module has no server-only imports; it is bundled into the POS.
+ */
+
+import type { Money } from "./types";
+
+// ===========================================
+// Currencies
+// ===========================================
+
+/**
+ * Minor unit digits for currencies that don't use 2
+ */
+const CURRENCY_DECIMALS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  CLP: 0,
+  ISK: 0,
+  BHD: 3,
+  KWD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/** Minor unit digits for every other currency */
+const DEFAULT_CURRENCY_DECIMALS = 2;
+
+/**
+ * Number of decimal places in a currency's minor unit
+ */
+export function getCurrencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency.toUpperCase()] ?? DEFAULT_CURRENCY_DECIMALS;
+}
+
+// ===========================================
+// Parsing and Formatting
+// ===========================================
+
+/**
+ * Decimal digits as an integer and a power of ten: value = digits * 10^exponent
+ */
+interface ParsedDecimal {
+  digits: bigint;
+  exponent: number;
+}
+
+function parseDecimal(value: string | number): ParsedDecimal {
+  const text = typeof value === "number" ? String(value) : value.trim();
+  const match = text.match(/^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = "", exponent = "0"] = match;
+  const digits = BigInt(`${whole}${fraction}` || "0");
+  return {
+    digits: sign === "-" ? -digits : digits,
+    exponent: parseInt(exponent, 10) - fraction.length,
+  };
+}
+
+/**
+ * digits * 10^shift as an integer, rounding half away from zero
+ */
+function scaleRounded(digits: bigint, shift: number): bigint {
+  if (shift >= 0) {
+    return digits * BigInt(10) ** BigInt(shift);
+  }
+  const divisor = BigInt(10) ** BigInt(-shift);
+  const magnitude = digits < BigInt(0) ? -digits : digits;
+  let rounded = magnitude / divisor;
+  if ((magnitude % divisor) * BigInt(2) >= divisor) {
+    rounded += BigInt(1);
+  }
+  return digits < BigInt(0) ? -rounded : rounded;
+}
+
+function toMoney(minor: bigint, currency: string, source: string | number): Money {
+  const limit = BigInt(Number.MAX_SAFE_INTEGER);
+  if (minor > limit || minor < -limit) {
+    throw new Error(`Amount out of range: ${source}`);
+  }
+  // Normalize -0 to 0
+  return { minorUnits: Number(minor) || 0, currency: currency.toUpperCase() };
+}
+
+/**
+ * Parse a decimal amount into Money
+ *
+ * Numbers are read through their shortest decimal representation (what
+ * JSON or the user wrote), never multiplied as floats. Extra digits are
+ * rounded half away from zero to the currency's precision.
+ *
+ * @param amount - Decimal string ("5.29", "1e3") or number
+ * @param currency - ISO 4217 code, e.g. "USD"
+ * @throws Error if the amount isn't a finite decimal or doesn't fit in a
+ *   safe integer of minor units
+ */
+export function parseMoney(amount: string | number, currency: string): Money {
+  const { digits, exponent } = parseDecimal(amount);
+  const minor = scaleRounded(digits, exponent + getCurrencyDecimals(currency));
+  return toMoney(minor, currency, amount);
+}
+
+/**
+ * Money from an amount that may have been stored before amounts were
+ * minor units (a float of major units in `currency`, e.g. 5.29)
+ *
+ * Floats are read like parseMoney reads numbers, so a stored 5.29 is 529
+ * cents however it was computed.
+ */
+export function fromLegacyAmount(amount: Money | number, currency: string): Money {
+  return typeof amount === "number" ? parseMoney(amount, currency) : amount;
+}
+
+/**
+ * Exact decimal representation, e.g. "5.29"
+ */
+export function toDecimalString(money: Money): string {
+  const decimals = getCurrencyDecimals(money.currency);
+  const sign = money.minorUnits < 0 ? "-" : "";
+  const digits = Math.abs(money.minorUnits).toString().padStart(decimals + 1, "0");
+  return decimals === 0
+    ? `${sign}${digits}`
+    : `${sign}${digits.slice(0, -decimals)}.${digits.slice(-decimals)}`;
+}
+
+/**
+ * Localized display string, e.g. "$5.29"
+ */
+export function formatMoney(money: Money, locale = "en-US"): string {
+  const decimals = getCurrencyDecimals(money.currency);
+  // Display only: every minor-unit amount in the safe integer range
+  // formats back to its own digits at the currency's precision
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: money.currency,
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  }).format(money.minorUnits / 10 ** decimals);
+}
+
+// ===========================================
+// Conversion
+// ===========================================
+
+/**
+ * Convert Money to integer units with `decimals` places (e.g. a token's
+ * base units for a 1:1 stablecoin)
+ *
+ * Exact when `decimals` is at least the currency's precision; otherwise
+ * the extra minor-unit digits are truncated, like toTokenUnits.
+ */
+export function toUnits(money: Money, decimals: number): bigint {
+  const shift = decimals - getCurrencyDecimals(money.currency);
+  const minor = BigInt(money.minorUnits);
+  return shift >= 0
+    ? minor * BigInt(10) ** BigInt(shift)
+    : minor / BigInt(10) ** BigInt(-shift);
+}
+
+/**
+ * Convert an amount to another currency at an exchange rate
+ *
+ * Exact up to the final rounding (half away from zero) to the target
+ * currency's precision.
+ *
+ * @param money - Amount to convert
+ * @param rate - Units of `currency` per unit of `money.currency`, as a
+ *   decimal string (e.g. "1.0876"), never a float product
+ * @param currency - Target currency
+ */
+export function convertMoney(money: Money, rate: string, currency: string): Money {
+  const { digits, exponent } = parseDecimal(rate);
+  if (digits <= BigInt(0)) {
+    throw new Error(`Invalid exchange rate: ${rate}`);
+  }
+  const shift = exponent + getCurrencyDecimals(currency) - getCurrencyDecimals(money.currency);
+  const minor = scaleRounded(BigInt(money.minorUnits) * digits, shift);
+  return toMoney(minor, currency, `${toDecimalString(money)} * ${rate}`);
+}
+
+// ===========================================
+// Arithmetic
+// ===========================================
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
+
+/**
+ * Sum of two amounts in the same currency
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { minorUnits: a.minorUnits + b.minorUnits, currency: a.currency };
+}
+
+/**
+ * Amount times an integer quantity (e.g. an order item's line total)
+ */
+export function multiplyMoney(money: Money, quantity: number): Money {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Quantity must be an integer: ${quantity}`);
+  }
+  return { minorUnits: money.minorUnits * quantity, currency: money.currency };
+}
+
+/**
+ * Compare two amounts in the same currency
+ *
+ * @returns -1, 0 or 1 as `a` is less than, equal to or greater than `b`
+ */
+export function compareMoney(a: Money, b: Money): -1 | 0 | 1 {
+  assertSameCurrency(a, b);
+  return a.minorUnits === b.minorUnits ? 0 : a.minorUnits < b.minorUnits ? -1 : 1;
+}
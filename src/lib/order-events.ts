@@ -0,0 +1,69 @@
+/**
+ * ===========================================
+ * Order Status Events
+ * ===========================================
+ *
+ * In-process pub/sub for order status changes. lib/dynamo.ts publishes
+ * after every status write (webhooks, check-status, background jobs) and
+ * GET /api/orders/:id/events streams the events to the POS over SSE.
+ *
+ * Subscribers only see changes made by the same server process. The SSE
+ * route also re-reads storage periodically, which covers writes made by
+ * other instances (e.g. separate Lambda invocations).
+ */
+
+import { EventEmitter } from "events";
+import type { OrderStatusEvent } from "./types";
+
+// ===========================================
+// Emitter
+// ===========================================
+
+/**
+ * Shared emitter, kept on globalThis so every route bundle (and dev-mode
+ * module reloads) in one process publishes to the same subscribers
+ */
+const globalForEvents = globalThis as typeof globalThis & {
+  orderStatusEmitter?: EventEmitter;
+};
+
+function getEmitter(): EventEmitter {
+  if (!globalForEvents.orderStatusEmitter) {
+    const emitter = new EventEmitter();
+    // One listener per open POS stream; there is no meaningful limit
+    emitter.setMaxListeners(0);
+    globalForEvents.orderStatusEmitter = emitter;
+  }
+  return globalForEvents.orderStatusEmitter;
+}
+
+// ===========================================
+// Publish / Subscribe
+// ===========================================
+
+/**
+ * Notify subscribers that an order's status or payment details changed
+ *
+ * @param event - The new state of the order
+ */
+export function publishOrderStatus(event: OrderStatusEvent): void {
+  getEmitter().emit(event.orderId, event);
+}
+
+/**
+ * Listen for status changes of one order
+ *
+ * @param orderId - The order to watch
+ * @param listener - Called with every published event for the order
+ * @returns Function that removes the listener
+ */
+export function subscribeToOrderStatus(
+  orderId: string,
+  listener: (event: OrderStatusEvent) => void
+): () => void {
+  const emitter = getEmitter();
+  emitter.on(orderId, listener);
+  return () => {
+    emitter.off(orderId, listener);
+  };
+}
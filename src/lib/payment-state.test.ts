@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, isFinalStatus, PAYMENT_TRANSITIONS } from "./payment-state";
+import type { PaymentStatus } from "./types";
+
+/** Every status, listed independently of the table under test */
+const ALL_STATUSES: PaymentStatus[] = [
+  "pending",
+  "scanning",
+  "authorizing",
+  "processing",
+  "confirming",
+  "reorged",
+  "completed",
+  "partially_paid",
+  "underpaid",
+  "overpaid",
+  "partially_refunded",
+  "refunded",
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+/** The legal transitions, spelled out */
+const ALLOWED: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: [
+    "scanning", "authorizing", "processing", "confirming", "partially_paid",
+    "failed", "expired", "cancelled",
+  ],
+  scanning: [
+    "authorizing", "processing", "confirming", "partially_paid",
+    "failed", "expired", "cancelled",
+  ],
+  authorizing: [
+    "processing", "confirming", "partially_paid", "failed", "expired", "cancelled",
+  ],
+  processing: ["confirming", "partially_paid", "failed"],
+  confirming: ["confirming", "completed", "overpaid", "failed", "reorged"],
+  reorged: [
+    "confirming", "partially_paid", "reorged", "underpaid",
+    "failed", "expired", "cancelled",
+  ],
+  partially_paid: ["confirming", "partially_paid", "underpaid", "reorged"],
+  completed: ["reorged", "partially_refunded", "refunded"],
+  underpaid: ["reorged", "partially_refunded", "refunded"],
+  overpaid: ["reorged", "partially_refunded", "refunded"],
+  partially_refunded: ["partially_refunded", "refunded"],
+  refunded: [],
+  failed: [],
+  expired: [],
+  cancelled: [],
+};
+
+const PAIRS = ALL_STATUSES.flatMap((from) =>
+  ALL_STATUSES.map((to) => ({ from, to, allowed: ALLOWED[from].includes(to) }))
+);
+
+describe("PAYMENT_TRANSITIONS", () => {
+  it("has an entry for every status", () => {
+    expect(Object.keys(PAYMENT_TRANSITIONS).sort()).toEqual([...ALL_STATUSES].sort());
+  });
+
+  it.each(PAIRS)("$from -> $to is allowed: $allowed", ({ from, to, allowed }) => {
+    expect(canTransition(from, to)).toBe(allowed);
+  });
+});
+
+describe("guards", () => {
+  it.each(["pending", "scanning", "authorizing", "processing", "partially_paid"] as const)(
+    "%s cannot complete without confirming",
+    (from) => {
+      expect(canTransition(from, "completed")).toBe(false);
+    }
+  );
+
+  it("only confirming completes an order", () => {
+    expect(ALL_STATUSES.filter((from) => canTransition(from, "completed"))).toEqual([
+      "confirming",
+    ]);
+  });
+
+  it("lets a reorged order expire or be cancelled", () => {
+    expect(canTransition("reorged", "expired")).toBe(true);
+    expect(canTransition("reorged", "cancelled")).toBe(true);
+  });
+
+  it("only re-enters statuses that new events land in again", () => {
+    expect(ALL_STATUSES.filter((status) => canTransition(status, status))).toEqual([
+      "confirming",
+      "reorged",
+      "partially_paid",
+      "partially_refunded",
+    ]);
+  });
+
+  it.each(["refunded", "failed", "expired", "cancelled"] as const)("%s is final", (status) => {
+    expect(isFinalStatus(status)).toBe(true);
+  });
+
+  it.each(ALL_STATUSES.filter((status) => ALLOWED[status].length > 0))(
+    "%s is not final",
+    (status) => {
+      expect(isFinalStatus(status)).toBe(false);
+    }
+  );
+});
@@ -0,0 +1,131 @@
+/**
+ * ===========================================
+ * Payment State Machine
+ * ===========================================
+ *
+ * Single source of truth for which PaymentStatus transitions are legal.
+ * Both `updateOrderStatus` and `updatePaymentStatus` (lib/dynamo.ts)
+ * check every status change against PAYMENT_TRANSITIONS, so routes,
+ * webhooks and background jobs can't move an order somewhere it can't go.
+ *
+ *   Mesh:     pending -> authorizing -> processing -> confirming -> completed
+ *   On-chain: pending -> confirming -> completed (or overpaid)
+ *                             \-> reorged -> confirming (re-mined)
+ *                                         \-> expired / cancelled
+ *   Partial:  pending -> partially_paid -> confirming (balance paid)
+ *                                      \-> underpaid (expired with a balance)
+ *   Refunds:  completed / underpaid / overpaid -> partially_refunded -> refunded
+ *
+ * Guards:
+ * - only `confirming` completes an order: every payment waits for its
+ *   transfers' confirmations (lib/settlement.ts)
+ * - completed never moves again, except to `reorged` when the chain drops
+ *   the settling transfer (lib/reorg.ts), or to a refund status once a
+ *   refund transfer is found on-chain (lib/refunds.ts)
+ * - failed, expired, cancelled and refunded are final
+ * - nothing can be cancelled or expired once a transfer is processing
+ * - a partially paid order doesn't expire; it becomes `underpaid`
+ *   (lib/settlement.ts)
+ *
+ * A status can only be re-entered where a new event lands in it again:
+ * another partial transfer or refund, another transfer while confirming,
+ * or another transfer dropped from a reorged order. Other updates that
+ * keep the status (e.g. confirmation counts) leave the status out.
+ */
+
+import type { PaymentStatus } from "./types";
+
+// ===========================================
+// Transition Table
+// ===========================================
+
+/** Statuses reached when a transfer is attributed to an order */
+const SETTLED: PaymentStatus[] = ["confirming", "partially_paid"];
+
+/** Statuses reached when a refund is sent */
+const REFUNDED: PaymentStatus[] = ["partially_refunded", "refunded"];
+
+/**
+ * Allowed next statuses for each status
+ */
+export const PAYMENT_TRANSITIONS: Record<PaymentStatus, readonly PaymentStatus[]> = {
+  pending: [
+    "scanning", "authorizing", "processing", ...SETTLED,
+    "failed", "expired", "cancelled",
+  ],
+  scanning: [
+    "authorizing", "processing", ...SETTLED,
+    "failed", "expired", "cancelled",
+  ],
+  authorizing: [
+    "processing", ...SETTLED,
+    "failed", "expired", "cancelled",
+  ],
+  processing: [...SETTLED, "failed"],
+  confirming: ["confirming", "completed", "overpaid", "failed", "reorged"],
+  reorged: [...SETTLED, "reorged", "underpaid", "failed", "expired", "cancelled"],
+  partially_paid: [...SETTLED, "underpaid", "reorged"],
+  completed: ["reorged", ...REFUNDED],
+  underpaid: ["reorged", ...REFUNDED],
+  overpaid: ["reorged", ...REFUNDED],
+  partially_refunded: ["partially_refunded", "refunded"],
+  refunded: [],
+  failed: [],
+  expired: [],
+  cancelled: [],
+};
+
+/**
+ * Thrown when a status change is not in PAYMENT_TRANSITIONS
+ */
+export class InvalidStatusTransitionError extends Error {
+  constructor(
+    public readonly orderId: string,
+    public readonly from: PaymentStatus,
+    public readonly to: PaymentStatus
+  ) {
+    super(`Illegal status transition for order ${orderId}: ${from} -> ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+// ===========================================
+// Checks
+// ===========================================
+
+/**
+ * Check whether an order may move from one status to another
+ *
+ * @param from - Current status
+ * @param to - Requested status
+ */
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a status is final (no transitions out of it)
+ *
+ * @param status - The status to check
+ */
+export function isFinalStatus(status: PaymentStatus): boolean {
+  return PAYMENT_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Assert that a status change is legal
+ *
+ * @param orderId - Order being updated (for the error message)
+ * @param from - Current status
+ * @param to - Requested status
+ * @throws InvalidStatusTransitionError if the transition is not allowed
+ */
+export function assertTransition(
+  orderId: string,
+  from: PaymentStatus,
+  to: PaymentStatus
+): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStatusTransitionError(orderId, from, to);
+  }
+}
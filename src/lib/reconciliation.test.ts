@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  claimPaymentAmount,
+  createOrder,
+  getOpenOrdersByReceivingAddress,
+  getPaymentAmountClaims,
+  transitionStatus,
+} from "./dynamo";
+import { assignPaymentAmount, UniqueAmountUnavailableError } from "./reconciliation";
+import { setStorage } from "./storage";
+import { createMemoryStorage } from "./storage/memory";
+import type { Order } from "./types";
+
+const amount = { minorUnits: 500, currency: "USD" };
+
+/** Math.random value that picks the given step (1-based) out of maxSteps */
+function pickStep(step: number, maxSteps: number): number {
+  return (step - 0.5) / maxSteps;
+}
+
+describe("assignPaymentAmount", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("skips amounts that open orders use", () => {
+    vi.spyOn(Math, "random")
+      .mockReturnValueOnce(pickStep(4217, 9999))
+      .mockReturnValueOnce(pickStep(18, 9999));
+
+    expect(assignPaymentAmount(amount, new Set(["5.004217"]))).toEqual({
+      dustUnits: 18,
+      paymentAmount: "5.000018",
+    });
+  });
+
+  it("picks the dust at the token's precision", () => {
+    vi.spyOn(Math, "random").mockReturnValue(pickStep(50, 99));
+
+    expect(assignPaymentAmount(amount, new Set(), 4).dustUnits).toBe(5000);
+  });
+
+  it("needs a deposit address for a token without sub-cent digits", () => {
+    expect(() => assignPaymentAmount(amount, new Set(), 2)).toThrow(UniqueAmountUnavailableError);
+    expect(assignPaymentAmount(amount, new Set(), 2, true)).toEqual({
+      dustUnits: 0,
+      paymentAmount: "5",
+    });
+  });
+
+  it("gives up when every amount tried is taken", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+
+    expect(() => assignPaymentAmount(amount, new Set(["5.000001"]))).toThrow(
+      UniqueAmountUnavailableError
+    );
+  });
+});
+
+describe("claimPaymentAmount", () => {
+  const walletAddress = "0x1111111111111111111111111111111111111111";
+  const baseAddress = "0x2222222222222222222222222222222222222222";
+
+  function createTestOrder(): Order {
+    const now = new Date().toISOString();
+    return {
+      orderId: "order-1",
+      amount,
+      paymentAmount: "5.004217",
+      dustUnits: 4217,
+      stablecoin: "USDC",
+      networkId: "auto",
+      merchantWalletAddress: walletAddress,
+      receivingAddresses: { polygon: walletAddress, base: baseAddress },
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: now,
+    };
+  }
+
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("gives an amount at an address to one open order", async () => {
+    const order = await createOrder(createTestOrder());
+    const addresses = [walletAddress, baseAddress];
+
+    // Two orders created at the same time picked the same amount
+    const claims = await Promise.all([
+      claimPaymentAmount("default", order.orderId, addresses, order.paymentAmount),
+      claimPaymentAmount("default", "order-2", [baseAddress.toUpperCase()], order.paymentAmount),
+    ]);
+
+    expect(claims).toEqual([true, false]);
+    expect(await getOpenOrdersByReceivingAddress(baseAddress, undefined, "base")).toEqual([order]);
+    expect(await getOpenOrdersByReceivingAddress(baseAddress, undefined, "polygon")).toEqual([]);
+  });
+
+  it("frees the amount once the order is no longer open", async () => {
+    const order = await createOrder(createTestOrder());
+    const addresses = [walletAddress, baseAddress];
+    await claimPaymentAmount("default", order.orderId, addresses, order.paymentAmount);
+
+    await transitionStatus(order.orderId, "cancelled");
+
+    expect(await getPaymentAmountClaims(walletAddress)).toEqual([]);
+    expect(await getOpenOrdersByReceivingAddress(walletAddress)).toEqual([]);
+    expect(await claimPaymentAmount("default", "order-2", addresses, order.paymentAmount)).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * ===========================================
+ * Payment Reconciliation
+ * ===========================================
+ *
+ * Gives every order a unique on-chain amount and matches incoming
+ * transfers to orders by exact token units.
+ *
+ * Each order's fiat amount gets a sub-cent "dust" suffix, e.g. $5.00
+ * becomes 5.004217. The suffix is chosen so that no two open orders paid
+ * to the same address share a payment amount, which makes the amount
+ * itself the payment reference. Each open order claims its amount at its
+ * addresses (see claimPaymentAmount in lib/dynamo.ts), so two orders
+ * created at the same time can't pick the same one:
+ *
+ * - exact match   -> the transfer pays that order
+ * - near match    -> a partial payment, or flagged as overpaid
+ * - anything else -> not attributed to any order
+ *
+ * An order can be paid in several transfers. Once part of it is paid,
+ * transfers are matched against the remaining balance (amountDueUnits)
+ * instead of the full payment amount. An order with its own deposit
+ * address takes any amount below its balance as a partial payment, since
+ * nothing else is paid to that address.
+ *
+ * Orders are looked up by the address they are paid to. An order records
+ * its receiving address per network, since a merchant may settle to a
+ * different address on each network, or reserve a deposit address for
+ * the order alone (see lib/merchants.ts).
+ *
+ * The dust is picked at the precision of the token the order is paid in,
+ * so tokens with fewer than 6 decimals get a coarser suffix. Tokens with
+ * no digits below a cent (GUSD, EURS) can't carry one at all: orders in
+ * them need their own deposit address. A transfer in a token that can't
+ * hold an order's exact amount never matches that order by amount.
+ */
+
+import type { Money, Order, PaymentStatus } from "./types";
+import { toDecimalString, toUnits } from "./money";
+import { getNetworkTokens, getToken } from "./tokens";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Decimal places used for payment amounts (fiat + dust) */
+export const PAYMENT_AMOUNT_DECIMALS = 6;
+
+/** Largest dust suffix in 10^-6 units (must stay below one cent) */
+const MAX_DUST_UNITS = 9999;
+
+/** Statuses in which an order can still receive its payment */
+export const OPEN_ORDER_STATUSES: PaymentStatus[] = [
+  "pending",
+  "scanning",
+  "authorizing",
+  "processing",
+  "confirming",
+  "reorged",
+  "partially_paid",
+];
+
+/** How many random suffixes to try before giving up */
+const MAX_DUST_ATTEMPTS = 50;
+
+/**
+ * Relative distance within which a non-exact transfer is still attributed
+ * to an order (and flagged), rather than ignored
+ */
+const DISCREPANCY_WINDOW = 0.05;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Thrown when an order can't be given an amount that identifies it
+ */
+export class UniqueAmountUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UniqueAmountUnavailableError";
+  }
+}
+
+/**
+ * How a received amount compares to the expected amount
+ */
+export type TransferMatch = "exact" | "underpaid" | "overpaid";
+
+/**
+ * Result of matching a transfer against a set of orders
+ */
+export interface OrderMatch {
+  order: Order;
+  match: TransferMatch;
+  expectedUnits: bigint;
+}
+
+// ===========================================
+// Amount Conversion
+// ===========================================
+
+/**
+ * Convert a decimal amount string to integer token units without
+ * going through floating point
+ *
+ * Digits beyond the token's precision are truncated.
+ *
+ * @param amount - Decimal string, e.g. "5.004217"
+ * @param decimals - Token decimals
+ * @returns Amount in the token's smallest unit
+ */
+export function toTokenUnits(amount: string, decimals: number): bigint {
+  const match = amount.trim().match(/^(\d+)(?:\.(\d*))?$/);
+  if (!match) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  const paddedFraction = fraction.padEnd(decimals, "0").slice(0, decimals);
+  return BigInt(whole + paddedFraction);
+}
+
+/**
+ * Check whether a token with the given decimals can transfer an amount
+ * exactly (without truncating digits)
+ *
+ * @param amount - Decimal string, e.g. "5.004217"
+ * @param decimals - Token decimals
+ */
+export function isRepresentable(amount: string, decimals: number): boolean {
+  const fraction = amount.trim().split(".")[1] || "";
+  return fraction.replace(/0+$/, "").length <= decimals;
+}
+
+/**
+ * Convert integer token units to a decimal string
+ *
+ * @param units - Amount in the token's smallest unit
+ * @param decimals - Token decimals
+ * @returns Decimal string without trailing zeros, e.g. "5.004217"
+ */
+export function fromTokenUnits(units: bigint, decimals: number): string {
+  if (decimals === 0) {
+    return units.toString();
+  }
+
+  const digits = units.toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, -decimals);
+  const fraction = digits.slice(-decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+// ===========================================
+// Balances
+// ===========================================
+
+/**
+ * Amount an order still expects, in stablecoin units
+ *
+ * @param order - The order
+ * @returns The remaining balance once the order is partially paid,
+ *          otherwise its payment amount
+ */
+export function getAmountDue(order: Order): string {
+  return order.amountDueUnits !== undefined
+    ? fromTokenUnits(BigInt(order.amountDueUnits), PAYMENT_AMOUNT_DECIMALS)
+    : order.paymentAmount;
+}
+
+/**
+ * Add a transfer to what an order received so far
+ *
+ * Amounts are tracked in minor units of paymentAmount (10^-6); token
+ * digits beyond that are dropped.
+ *
+ * @param order - The order
+ * @param amount - Transferred amount, e.g. "2.5"
+ * @returns New received total, remaining balance (0 once paid in full)
+ *          and how the total compares to the payment amount
+ */
+export function addPayment(
+  order: Order,
+  amount: string
+): { amountReceivedUnits: number; amountDueUnits: number; match: TransferMatch } {
+  const received =
+    BigInt(order.amountReceivedUnits ?? 0) + toTokenUnits(amount, PAYMENT_AMOUNT_DECIMALS);
+  const expected = toTokenUnits(order.paymentAmount, PAYMENT_AMOUNT_DECIMALS);
+  return {
+    amountReceivedUnits: Number(received),
+    amountDueUnits: Number(received < expected ? expected - received : BigInt(0)),
+    match: classifyTransfer(received, expected),
+  };
+}
+
+// ===========================================
+// Receiving Addresses
+// ===========================================
+
+/**
+ * Address an order is paid to on a network
+ *
+ * Orders without per-network addresses (created before they existed)
+ * are paid to merchantWalletAddress everywhere.
+ *
+ * @param order - The order
+ * @param networkId - Network the payment is made on
+ */
+export function getOrderReceivingAddress(order: Order, networkId: string): string {
+  return order.receivingAddresses?.[networkId] ?? order.merchantWalletAddress;
+}
+
+/**
+ * Every address an order can be paid to (lowercase, no duplicates)
+ */
+export function getOrderReceivingAddresses(order: Order): string[] {
+  const addresses = [order.merchantWalletAddress, ...Object.values(order.receivingAddresses || {})];
+  return Array.from(new Set(addresses.map((address) => address.toLowerCase())));
+}
+
+/**
+ * Check whether an order is paid to an address
+ *
+ * @param order - The order
+ * @param address - Receiving address (case-insensitive)
+ * @param networkId - Optional: only the order's address on this network counts
+ */
+export function isPaidTo(order: Order, address: string, networkId?: string): boolean {
+  const target = address.toLowerCase();
+  if (networkId) {
+    return getOrderReceivingAddress(order, networkId).toLowerCase() === target;
+  }
+  return getOrderReceivingAddresses(order).includes(target);
+}
+
+// ===========================================
+// Unique Payment Amounts
+// ===========================================
+
+/**
+ * Build a payment amount from a fiat amount and a dust suffix
+ *
+ * @param amount - Fiat amount of the order
+ * @param dustUnits - Sub-cent suffix in 10^-6 units (0-9999)
+ * @returns Payment amount with 6 decimals, e.g. "5.004217"
+ */
+export function buildPaymentAmount(amount: Money, dustUnits: number): string {
+  const units = toUnits(amount, PAYMENT_AMOUNT_DECIMALS) + BigInt(dustUnits);
+  return fromTokenUnits(units, PAYMENT_AMOUNT_DECIMALS);
+}
+
+/**
+ * Decimals a payment amount can use for an order
+ *
+ * The fewest decimals among the stablecoin's contracts on the order's
+ * candidate networks, capped at PAYMENT_AMOUNT_DECIMALS. Auto-detect
+ * orders ("any") use full precision; low-precision tokens simply can't
+ * match them by amount.
+ *
+ * @param stablecoin - The order's stablecoin (or "any")
+ * @param networks - Networks the order can be paid on
+ */
+export function getPaymentDecimals(stablecoin: string, networks: string[]): number {
+  const decimals = stablecoin === "any"
+    ? []
+    : networks.flatMap((networkId) => getToken(networkId, stablecoin)?.decimals ?? []);
+  return Math.min(PAYMENT_AMOUNT_DECIMALS, ...decimals);
+}
+
+/**
+ * Pick a payment amount that no other open order is using
+ *
+ * The dust is a multiple of the smallest unit the token can carry. An
+ * order with its own deposit address is identified by the address, so it
+ * gets no dust when the token has no room for any.
+ *
+ * @param amount - Fiat amount of the new order
+ * @param takenAmounts - Payment amounts and amounts due of the open
+ *   orders paid to the same addresses
+ * @param decimals - Decimals the amount must fit (see getPaymentDecimals)
+ * @param hasDepositAddress - Whether the order has its own deposit address
+ * @returns The dust suffix and resulting payment amount
+ * @throws UniqueAmountUnavailableError if the token has no sub-cent digits
+ *   and the order has no deposit address, or no free suffix was found
+ */
+export function assignPaymentAmount(
+  amount: Money,
+  takenAmounts: ReadonlySet<string>,
+  decimals = PAYMENT_AMOUNT_DECIMALS,
+  hasDepositAddress = false
+): { dustUnits: number; paymentAmount: string } {
+  // Dust step in 10^-6 units, and how many steps fit below one cent
+  const step = 10 ** (PAYMENT_AMOUNT_DECIMALS - Math.min(decimals, PAYMENT_AMOUNT_DECIMALS));
+  const maxSteps = Math.floor(MAX_DUST_UNITS / step);
+
+  if (maxSteps === 0) {
+    if (hasDepositAddress) {
+      return { dustUnits: 0, paymentAmount: buildPaymentAmount(amount, 0) };
+    }
+    throw new UniqueAmountUnavailableError(
+      `A token with ${decimals} decimals can't carry a unique amount; the order needs a deposit address`
+    );
+  }
+
+  for (let attempt = 0; attempt < MAX_DUST_ATTEMPTS; attempt++) {
+    const dustUnits = step * (1 + Math.floor(Math.random() * maxSteps));
+    const paymentAmount = buildPaymentAmount(amount, dustUnits);
+    if (!takenAmounts.has(paymentAmount)) {
+      return { dustUnits, paymentAmount };
+    }
+  }
+
+  throw new UniqueAmountUnavailableError(
+    `Could not assign a unique payment amount for ${toDecimalString(amount)}`
+  );
+}
+
+/**
+ * Stablecoin contracts that can pay an order's exact amount due on a
+ * network (all of them for deposit-address orders)
+ */
+export function getPayableTokens(order: Order, networkId: string) {
+  const due = getAmountDue(order);
+  return getNetworkTokens(networkId).filter(
+    (token) => !!order.depositAddress || isRepresentable(due, token.decimals)
+  );
+}
+
+// ===========================================
+// Matching
+// ===========================================
+
+/**
+ * Compare a received amount against the expected amount
+ */
+export function classifyTransfer(receivedUnits: bigint, expectedUnits: bigint): TransferMatch {
+  if (receivedUnits === expectedUnits) return "exact";
+  return receivedUnits < expectedUnits ? "underpaid" : "overpaid";
+}
+
+/**
+ * Check whether a non-exact amount is close enough to be attributed
+ * to an order (so it can be flagged rather than ignored)
+ */
+function isWithinDiscrepancyWindow(receivedUnits: bigint, expectedUnits: bigint): boolean {
+  if (expectedUnits === BigInt(0)) return false;
+  const diff = receivedUnits > expectedUnits
+    ? receivedUnits - expectedUnits
+    : expectedUnits - receivedUnits;
+  // diff / expected <= window, using integer math (window in basis points)
+  const windowBps = BigInt(Math.round(DISCREPANCY_WINDOW * 10000));
+  return diff * BigInt(10000) <= expectedUnits * windowBps;
+}
+
+/**
+ * Find the order a transfer pays for
+ *
+ * Transfers are compared with each order's amount due (see getAmountDue).
+ * Exact matches win. Otherwise the closest order within the discrepancy
+ * window is returned with an underpaid/overpaid match, or failing that a
+ * deposit-address order the transfer partially pays.
+ *
+ * @param orders - Candidate orders
+ * @param receivedUnits - Transferred amount in token units
+ * @param decimals - Decimals of the transferred token
+ * @returns The matched order, or null if the transfer belongs to none
+ */
+export function matchTransferToOrders(
+  orders: Order[],
+  receivedUnits: bigint,
+  decimals: number
+): OrderMatch | null {
+  let closest: OrderMatch | null = null;
+  let closestDiff: bigint | null = null;
+  let partial: OrderMatch | null = null;
+
+  for (const order of orders) {
+    // Truncating the dust would make the amount ambiguous
+    const due = getAmountDue(order);
+    if (!order.depositAddress && !isRepresentable(due, decimals)) {
+      continue;
+    }
+
+    const expectedUnits = toTokenUnits(due, decimals);
+    const match = classifyTransfer(receivedUnits, expectedUnits);
+
+    if (match === "exact") {
+      return { order, match, expectedUnits };
+    }
+
+    if (!isWithinDiscrepancyWindow(receivedUnits, expectedUnits)) {
+      if (order.depositAddress && match === "underpaid" && !partial) {
+        partial = { order, match, expectedUnits };
+      }
+      continue;
+    }
+
+    const diff = receivedUnits > expectedUnits
+      ? receivedUnits - expectedUnits
+      : expectedUnits - receivedUnits;
+    if (closestDiff === null || diff < closestDiff) {
+      closest = { order, match, expectedUnits };
+      closestDiff = diff;
+    }
+  }
+
+  return closest ?? partial;
+}
+
+/**
+ * Check a single order's expected amount against a transfer
+ *
+ * @param paymentAmount - Amount due, e.g. "5.004217"
+ * @param receivedUnits - Transferred amount in token units
+ * @param decimals - Decimals of the transferred token
+ * @param acceptPartial - Count any smaller amount as a partial payment
+ *   (for orders with their own deposit address, which also match tokens
+ *   too coarse for the exact amount)
+ * @returns The match type, or null if the amount is unrelated
+ */
+export function matchTransferToOrder(
+  paymentAmount: string,
+  receivedUnits: bigint,
+  decimals: number,
+  acceptPartial = false
+): TransferMatch | null {
+  if (!acceptPartial && !isRepresentable(paymentAmount, decimals)) {
+    return null;
+  }
+
+  const expectedUnits = toTokenUnits(paymentAmount, decimals);
+  const match = classifyTransfer(receivedUnits, expectedUnits);
+  if (
+    match === "exact" ||
+    isWithinDiscrepancyWindow(receivedUnits, expectedUnits) ||
+    (acceptPartial && match === "underpaid" && receivedUnits > BigInt(0))
+  ) {
+    return match;
+  }
+  return null;
+}
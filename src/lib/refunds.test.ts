@@ -0,0 +1,276 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createScanCursors, scanTransfers } from "./blockchain";
+import {
+  createOrder,
+  getConsumedTransfer,
+  getOrder,
+  getPaymentStatus,
+  getRefund,
+  getRefundsByOrder,
+  putRefund,
+  transitionStatus,
+} from "./dynamo";
+import {
+  checkRefund,
+  createRefund,
+  getRefundableAmount,
+  matchRefundTransfer,
+  REFUND_EXPIRY_MS,
+  RefundRejectedError,
+} from "./refunds";
+import { settleTransfer } from "./settlement";
+import { setStorage, type StorageAdapter } from "./storage";
+import { createMemoryStorage } from "./storage/memory";
+import { ConcurrentUpdateError } from "./storage/records";
+import type { Order, PaymentStatusRecord, Refund, RefundStatus } from "./types";
+
+vi.mock("./blockchain", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./blockchain")>()),
+  createScanCursors: vi.fn(),
+  scanTransfers: vi.fn(),
+}));
+
+const merchantAddress = "0x1111111111111111111111111111111111111111";
+const customerAddress = "0x3333333333333333333333333333333333333333";
+
+function createTestOrder(): Order {
+  const now = new Date().toISOString();
+  return {
+    orderId: "order-1",
+    amount: { minorUnits: 500, currency: "USD" },
+    paymentAmount: "5.004217",
+    dustUnits: 4217,
+    stablecoin: "USDC",
+    networkId: "polygon",
+    merchantWalletAddress: merchantAddress,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now,
+  };
+}
+
+function createTestRefund(
+  refundId: string,
+  amount: string,
+  status: RefundStatus = "pending"
+): Refund {
+  const now = new Date().toISOString();
+  return {
+    refundId,
+    orderId: "order-1",
+    status,
+    amount,
+    stablecoin: "USDC",
+    networkId: "polygon",
+    fromAddress: merchantAddress,
+    toAddress: customerAddress,
+    paymentUrl: "ethereum:0x0@137/transfer",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** The merchant's transfer back to the customer */
+function createRefundTransfer(transactionHash: string, rawAmount: string) {
+  return {
+    networkId: "polygon",
+    from: merchantAddress,
+    to: customerAddress,
+    rawAmount,
+    decimals: 6,
+    tokenSymbol: "USDC",
+    transactionHash,
+    logIndex: 0,
+    blockNumber: 300,
+  };
+}
+
+/**
+ * Settle and complete the test order, paid by the customer
+ */
+async function createPaidOrder(): Promise<Order> {
+  const order = await createOrder(createTestOrder());
+  await settleTransfer(order, {
+    networkId: "polygon",
+    transactionHash: "0xpayment",
+    logIndex: 0,
+    amount: "5.004217",
+    tokenSymbol: "USDC",
+    from: customerAddress,
+    blockNumber: 200,
+  });
+  return (await transitionStatus(order.orderId, "completed")).order;
+}
+
+describe("getRefundableAmount", () => {
+  const payment: PaymentStatusRecord = {
+    orderId: "order-1",
+    status: "completed",
+    networkId: "polygon",
+    stablecoin: "USDC",
+    amountReceived: "5.004217",
+    updatedAt: new Date().toISOString(),
+  };
+
+  it("counts pending and completed refunds as spent", () => {
+    const refunds = [
+      createTestRefund("refund-1", "1", "completed"),
+      createTestRefund("refund-2", "2.5"),
+    ];
+    expect(getRefundableAmount(payment, refunds)).toBe("1.504217");
+  });
+
+  it("leaves out expired refunds", () => {
+    const refunds = [
+      createTestRefund("refund-1", "1", "completed"),
+      createTestRefund("refund-2", "2.5", "expired"),
+    ];
+    expect(getRefundableAmount(payment, refunds)).toBe("4.004217");
+  });
+
+  it("never goes below zero", () => {
+    const refunds = [createTestRefund("refund-1", "6", "completed")];
+    expect(getRefundableAmount(payment, refunds)).toBe("0");
+  });
+});
+
+describe("createRefund", () => {
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+    vi.mocked(createScanCursors).mockResolvedValue({
+      polygon: { startBlock: 300, lastScannedBlock: 299 },
+    });
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("refunds at most what was received when requests race", async () => {
+    const order = await createPaidOrder();
+    const payment = (await getPaymentStatus(order.orderId))!;
+
+    // Both requests checked the amount against the same payment status
+    const results = await Promise.allSettled([
+      createRefund(order, payment, { amount: "5" }),
+      createRefund(order, payment, { amount: "5" }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find((result) => result.status === "rejected")).toMatchObject({
+      reason: expect.any(RefundRejectedError),
+    });
+    expect(await getRefundsByOrder(order.orderId)).toHaveLength(1);
+  });
+
+  it("takes the next refund against the updated payment status", async () => {
+    const order = await createPaidOrder();
+    await createRefund(order, (await getPaymentStatus(order.orderId))!, { amount: "2" });
+
+    const payment = (await getPaymentStatus(order.orderId))!;
+    expect(payment.refundCount).toBe(1);
+    const { refund } = await createRefund(order, payment);
+    expect(refund.amount).toBe("3.004217");
+  });
+});
+
+describe("matchRefundTransfer", () => {
+  let memory: StorageAdapter;
+
+  beforeEach(() => {
+    memory = createMemoryStorage();
+    setStorage(memory);
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  it("moves the order through partially_refunded to refunded", async () => {
+    const order = await createPaidOrder();
+    await putRefund(createTestRefund("refund-1", "2"));
+    await putRefund(createTestRefund("refund-2", "3.004217"));
+
+    expect((await matchRefundTransfer(createRefundTransfer("0xr1", "2000000")))?.status).toBe(
+      "completed"
+    );
+    expect(await getPaymentStatus(order.orderId)).toMatchObject({
+      status: "partially_refunded",
+      amountRefunded: "2",
+    });
+
+    await matchRefundTransfer(createRefundTransfer("0xr2", "3004217"));
+    expect(await getPaymentStatus(order.orderId)).toMatchObject({
+      status: "refunded",
+      amountRefunded: "5.004217",
+    });
+  });
+
+  it("keeps the refund pending when the order can't be updated", async () => {
+    const order = await createPaidOrder();
+    await putRefund(createTestRefund("refund-1", "2"));
+    const transfer = createRefundTransfer("0xr1", "2000000");
+
+    // Another writer changes the order while the refund completes
+    setStorage({
+      ...memory,
+      updateOrderAndPaymentStatus: () => Promise.reject(new ConcurrentUpdateError(order.orderId)),
+    });
+    await expect(matchRefundTransfer(transfer)).rejects.toThrow(ConcurrentUpdateError);
+    expect((await getRefund("refund-1"))?.status).toBe("pending");
+    expect(await getConsumedTransfer(transfer)).toBeNull();
+
+    // The next scan finds the transfer again
+    setStorage(memory);
+    await matchRefundTransfer(transfer);
+    expect((await getRefund("refund-1"))?.status).toBe("completed");
+    expect((await getOrder(order.orderId))?.status).toBe("partially_refunded");
+  });
+});
+
+describe("checkRefund", () => {
+  beforeEach(() => {
+    setStorage(createMemoryStorage());
+  });
+
+  afterEach(() => {
+    setStorage(null);
+  });
+
+  function createOverdueRefund(): Refund {
+    const createdAt = new Date(Date.now() - REFUND_EXPIRY_MS - 1000).toISOString();
+    return {
+      ...createTestRefund("refund-1", "2"),
+      scanCursor: { startBlock: 300, lastScannedBlock: 300 },
+      createdAt,
+    };
+  }
+
+  it("expires an overdue refund once the scan reached the chain head", async () => {
+    await createPaidOrder();
+    vi.mocked(scanTransfers).mockResolvedValue({
+      transfers: [],
+      scanned: { fromBlock: 301, toBlock: 400 },
+      caughtUp: true,
+    });
+
+    const refund = await checkRefund(await putRefund(createOverdueRefund()));
+
+    expect(refund).toMatchObject({ status: "expired", scanCursor: { lastScannedBlock: 400 } });
+    expect(refund.expiredAt).toBeDefined();
+  });
+
+  it("keeps an overdue refund pending while blocks are left to scan", async () => {
+    await createPaidOrder();
+    vi.mocked(scanTransfers).mockResolvedValue({
+      transfers: [],
+      scanned: { fromBlock: 301, toBlock: 400 },
+      caughtUp: false,
+    });
+
+    const refund = await checkRefund(await putRefund(createOverdueRefund()));
+
+    expect(refund).toMatchObject({ status: "pending", scanCursor: { lastScannedBlock: 400 } });
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * ===========================================
+ * Refunds
+ * ===========================================
+ *
+ * Sends (part of) a settled payment back to the customer. The server never
+ * holds keys, so a refund is a request: it records the amount and an
+ * EIP-681 transfer (lib/walletconnect.ts) from the address that received
+ * the payment back to the customer's address, which the merchant signs
+ * in their own wallet.
+ *
+ * The refund completes when that transfer is seen on-chain, either by the
+ * payment watcher (lib/watcher.ts) scanning the customer's address or by
+ * the Alchemy webhook reporting the merchant's outgoing transfer. The
+ * order then moves to `partially_refunded`, or `refunded` once everything
+ * it received has been sent back.
+ *
+ * Refunds go to the address the payment came from, unless the payment
+ * recorded a refund address (Mesh reports one per transfer).
+ *
+ * A refund whose transfer isn't seen within REFUND_EXPIRY_MS expires, and
+ * its amount can be refunded again.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  addRefund,
+  claimTransfer,
+  ConcurrentUpdateError,
+  getOrder,
+  getPaymentStatus,
+  getRefundsByOrder,
+  putRefund,
+  releaseTransfer,
+  scanRefunds,
+  transitionStatus,
+  TransferAlreadyConsumedError,
+} from "./dynamo";
+import {
+  advanceScanCursors,
+  createScanCursors,
+  getScanFromBlocks,
+  scanTransfers,
+} from "./blockchain";
+import { InvalidStatusTransitionError } from "./payment-state";
+import {
+  fromTokenUnits,
+  getOrderReceivingAddress,
+  getOrderReceivingAddresses,
+  toTokenUnits,
+} from "./reconciliation";
+import { getToken } from "./tokens";
+import { generateTransferRequest } from "./walletconnect";
+import { toChecksumAddress } from "./address";
+import type {
+  CreateRefundRequest,
+  Order,
+  PaymentStatus,
+  PaymentStatusRecord,
+  Refund,
+} from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * Statuses an order can be refunded from
+ *
+ * The payment must have settled on-chain; orders still confirming are
+ * refunded once they complete.
+ */
+export const REFUNDABLE_STATUSES: PaymentStatus[] = [
+  "completed",
+  "underpaid",
+  "overpaid",
+  "partially_refunded",
+];
+
+/**
+ * How long a pending refund waits for its transfer before it expires
+ */
+export const REFUND_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Thrown when a refund can't be requested for an order
+ */
+export class RefundRejectedError extends Error {
+  constructor(
+    public readonly orderId: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "RefundRejectedError";
+  }
+}
+
+/**
+ * An on-chain stablecoin transfer that may be a refund
+ */
+export interface RefundTransfer {
+  networkId: string;
+  from: string;
+  to: string;
+  /** Amount in the token's smallest unit (decimal string) */
+  rawAmount: string;
+  decimals: number;
+  tokenSymbol: string;
+  transactionHash: string;
+  logIndex?: number;
+  blockNumber?: number;
+}
+
+// ===========================================
+// Amounts
+// ===========================================
+
+/**
+ * Decimals of the token a payment (and its refunds) was made in
+ */
+function getPaymentDecimals(networkId: string, stablecoin: string): number {
+  const token = getToken(networkId, stablecoin);
+  if (!token) {
+    throw new Error(`${stablecoin} is not supported on ${networkId}`);
+  }
+  return token.decimals;
+}
+
+/**
+ * Whether a refund still takes (or took) funds from the payment
+ */
+function isActiveRefund(refund: Refund): boolean {
+  return refund.status !== "expired";
+}
+
+/**
+ * Sum refund amounts in token units
+ */
+function sumRefunds(refunds: Refund[], decimals: number): bigint {
+  return refunds.reduce((total, refund) => total + toTokenUnits(refund.amount, decimals), BigInt(0));
+}
+
+/**
+ * Amount of a payment that can still be refunded
+ *
+ * Pending refunds count as spent, so two requests can't refund the same
+ * funds twice. Expired refunds don't count.
+ *
+ * @param payment - The order's payment status (with networkId, stablecoin, amountReceived)
+ * @param refunds - The order's refunds
+ * @returns Decimal string, e.g. "2.5" ("0" if nothing is left)
+ */
+export function getRefundableAmount(payment: PaymentStatusRecord, refunds: Refund[]): string {
+  if (!payment.networkId || !payment.stablecoin || !payment.amountReceived) {
+    return "0";
+  }
+
+  const decimals = getPaymentDecimals(payment.networkId, payment.stablecoin);
+  const remaining =
+    toTokenUnits(payment.amountReceived, decimals) -
+    sumRefunds(refunds.filter(isActiveRefund), decimals);
+  return fromTokenUnits(remaining > BigInt(0) ? remaining : BigInt(0), decimals);
+}
+
+// ===========================================
+// Requesting Refunds
+// ===========================================
+
+/**
+ * Request a refund of an order's payment
+ *
+ * The refund is only stored while no other refund was requested since
+ * `payment` was read (see PaymentStatusRecord.refundCount), so two
+ * concurrent requests can't both spend what is left.
+ *
+ * @param order - The order to refund
+ * @param payment - The order's payment status
+ * @param request - Amount (default: everything still refundable) and reason
+ * @returns The pending refund and a QR code of its transfer request
+ * @throws RefundRejectedError if the order can't be refunded this amount
+ */
+export async function createRefund(
+  order: Order,
+  payment: PaymentStatusRecord,
+  request: CreateRefundRequest = {}
+): Promise<{ refund: Refund; qrCodeDataUrl: string }> {
+  if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+    throw new RefundRejectedError(order.orderId, `Order cannot be refunded in status: ${payment.status}`);
+  }
+
+  const { networkId, stablecoin } = payment;
+  const customerAddress = payment.refundAddress || payment.senderAddress;
+  if (!networkId || !stablecoin || !payment.amountReceived || !customerAddress) {
+    throw new RefundRejectedError(order.orderId, "Order has no on-chain payment to refund");
+  }
+  if (!getToken(networkId, stablecoin)) {
+    throw new RefundRejectedError(order.orderId, `${stablecoin} refunds are not supported on ${networkId}`);
+  }
+
+  const refunds = await getRefundsByOrder(order.orderId);
+  const refundable = getRefundableAmount(payment, refunds);
+  const amount = request.amount ?? refundable;
+
+  const decimals = getPaymentDecimals(networkId, stablecoin);
+  const units = toTokenUnits(amount, decimals);
+  if (units <= BigInt(0)) {
+    throw new RefundRejectedError(order.orderId, "Nothing left to refund");
+  }
+  if (units > toTokenUnits(refundable, decimals)) {
+    throw new RefundRejectedError(
+      order.orderId,
+      `Refund of ${amount} ${stablecoin} exceeds the refundable amount of ${refundable} ${stablecoin}`
+    );
+  }
+
+  const toAddress = toChecksumAddress(customerAddress);
+  const { paymentUrl, qrCodeDataUrl } = await generateTransferRequest({
+    networkId,
+    stablecoin,
+    toAddress,
+    amount: fromTokenUnits(units, decimals),
+  });
+
+  // Scanning for the refund transfer starts at the current chain head
+  const cursors = await createScanCursors(networkId);
+
+  const now = new Date().toISOString();
+  const refund: Refund = {
+    refundId: uuidv4(),
+    orderId: order.orderId,
+    status: "pending",
+    amount: fromTokenUnits(units, decimals),
+    stablecoin,
+    networkId,
+    fromAddress: getOrderReceivingAddress(order, networkId),
+    toAddress,
+    paymentUrl,
+    reason: request.reason,
+    scanCursor: cursors[networkId],
+    createdAt: now,
+    updatedAt: now,
+  };
+  try {
+    await addRefund(refund, payment.refundCount ?? 0);
+  } catch (error) {
+    if (error instanceof ConcurrentUpdateError) {
+      throw new RefundRejectedError(
+        order.orderId,
+        "Another refund was requested at the same time, try again"
+      );
+    }
+    throw error;
+  }
+
+  console.log(`[Refunds] Requested refund ${refund.refundId} of ${refund.amount} ${stablecoin} for order ${order.orderId} to ${toAddress}`);
+  return { refund, qrCodeDataUrl };
+}
+
+// ===========================================
+// Detecting Refunds
+// ===========================================
+
+/**
+ * Check whether a transfer is the one a pending refund asks for
+ *
+ * The merchant may send it from any address the order was paid to.
+ */
+function isRefundTransfer(refund: Refund, order: Order, transfer: RefundTransfer): boolean {
+  return (
+    transfer.networkId === refund.networkId &&
+    transfer.tokenSymbol === refund.stablecoin &&
+    transfer.to.toLowerCase() === refund.toAddress.toLowerCase() &&
+    getOrderReceivingAddresses(order).includes(transfer.from.toLowerCase()) &&
+    BigInt(transfer.rawAmount) === toTokenUnits(refund.amount, transfer.decimals)
+  );
+}
+
+/**
+ * Complete a refund with the transfer that paid it
+ *
+ * The transfer is claimed for the order, so it can't complete a refund
+ * (or settle a payment) of another order. The order moves to `refunded`
+ * once the completed refunds add up to what it received, otherwise to
+ * `partially_refunded`.
+ *
+ * The order moves before the refund is marked completed: if the order
+ * can't be updated, the refund stays pending and the next scan finds its
+ * transfer again.
+ *
+ * @returns The completed refund, or null if the transfer is already used
+ */
+async function completeRefund(
+  refund: Refund,
+  order: Order,
+  transfer: RefundTransfer
+): Promise<Refund | null> {
+  const refunds = await getRefundsByOrder(order.orderId);
+  const alreadyUsed = refunds.some(
+    (other) =>
+      other.transactionHash === transfer.transactionHash &&
+      other.logIndex === transfer.logIndex
+  );
+  if (alreadyUsed) {
+    return null;
+  }
+
+  const ref = {
+    networkId: transfer.networkId,
+    transactionHash: transfer.transactionHash,
+    logIndex: transfer.logIndex,
+  };
+  try {
+    await claimTransfer(order.orderId, ref);
+  } catch (error) {
+    if (error instanceof TransferAlreadyConsumedError) {
+      console.warn(`[Refunds] ${error.message}, not using it for refund ${refund.refundId}`);
+      return null;
+    }
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const completed: Refund = {
+    ...refund,
+    status: "completed",
+    transactionHash: transfer.transactionHash,
+    logIndex: transfer.logIndex,
+    blockNumber: transfer.blockNumber,
+    updatedAt: now,
+    completedAt: now,
+  };
+
+  const payment = await getPaymentStatus(order.orderId);
+  const decimals = transfer.decimals;
+  const refunded = sumRefunds(
+    refunds
+      .map((other) => (other.refundId === completed.refundId ? completed : other))
+      .filter((other) => other.status === "completed"),
+    decimals
+  );
+  const received = payment?.amountReceived
+    ? toTokenUnits(payment.amountReceived, decimals)
+    : BigInt(0);
+  const status: PaymentStatus = refunded >= received ? "refunded" : "partially_refunded";
+
+  try {
+    await transitionStatus(order.orderId, status, {
+      payment: { amountRefunded: fromTokenUnits(refunded, decimals) },
+    });
+  } catch (error) {
+    // The refund itself is complete; the refused transition is recorded
+    // in the order's status history
+    if (!(error instanceof InvalidStatusTransitionError)) {
+      // e.g. ConcurrentUpdateError: retried with the refund on the next scan
+      await releaseTransfer(order.orderId, ref);
+      throw error;
+    }
+  }
+
+  await putRefund(completed);
+
+  console.log(`[Refunds] Refund ${refund.refundId} completed by ${transfer.transactionHash}, order ${order.orderId} is ${status}`);
+  return completed;
+}
+
+/**
+ * Scan the chain for a pending refund's transfer
+ *
+ * Scans transfers to the customer's address from the refund's cursor and
+ * advances the cursor over the blocks covered. A refund past its expiry
+ * expires once the scan has reached the chain head without finding it.
+ *
+ * @param refund - A pending refund
+ * @returns The refund (completed if its transfer was found, or expired)
+ */
+export async function checkRefund(refund: Refund): Promise<Refund> {
+  if (refund.status !== "pending") {
+    return refund;
+  }
+
+  const order = await getOrder(refund.orderId);
+  if (!order) {
+    throw new Error(`Order not found: ${refund.orderId}`);
+  }
+
+  const cursors = refund.scanCursor ? { [refund.networkId]: refund.scanCursor } : undefined;
+  const { transfers, scanned, caughtUp, error } = await scanTransfers(
+    refund.toAddress,
+    refund.networkId,
+    getScanFromBlocks(cursors)[refund.networkId]
+  );
+  if (error) {
+    console.warn(`[Refunds] Could not scan for refund ${refund.refundId}: ${error}`);
+    return refund;
+  }
+
+  for (const transfer of transfers) {
+    if (!isRefundTransfer(refund, order, transfer)) continue;
+
+    const completed = await completeRefund(refund, order, transfer);
+    if (completed) {
+      return completed;
+    }
+  }
+
+  const expired =
+    caughtUp && Date.now() - new Date(refund.createdAt).getTime() > REFUND_EXPIRY_MS;
+  if (!scanned && !expired) {
+    return refund;
+  }
+
+  const now = new Date().toISOString();
+  if (expired) {
+    console.log(`[Refunds] Refund ${refund.refundId} of order ${refund.orderId} expired unpaid`);
+  }
+  return putRefund({
+    ...refund,
+    ...(expired ? { status: "expired", expiredAt: now } : {}),
+    scanCursor: scanned
+      ? advanceScanCursors(cursors, { [refund.networkId]: scanned })[refund.networkId]
+      : refund.scanCursor,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Scan the chain for every pending refund
+ *
+ * @param orderId - Optional: only this order's refunds
+ * @returns Refunds that completed
+ */
+export async function checkPendingRefunds(orderId?: string): Promise<Refund[]> {
+  const pending = orderId
+    ? (await getRefundsByOrder(orderId)).filter((refund) => refund.status === "pending")
+    : await scanRefunds("pending");
+
+  const completed: Refund[] = [];
+  for (const refund of pending) {
+    const checked = await checkRefund(refund);
+    if (checked.status === "completed") {
+      completed.push(checked);
+    }
+  }
+  return completed;
+}
+
+/**
+ * Complete the pending refund a reported transfer pays, if any
+ *
+ * Used for transfers reported by webhooks (the merchant's outgoing
+ * transfers show up as activity on their address).
+ *
+ * @param transfer - The reported transfer
+ * @returns The completed refund, or null if the transfer is not a refund
+ */
+export async function matchRefundTransfer(transfer: RefundTransfer): Promise<Refund | null> {
+  const pending = (await scanRefunds("pending")).filter(
+    (refund) => refund.toAddress.toLowerCase() === transfer.to.toLowerCase()
+  );
+
+  for (const refund of pending) {
+    const order = await getOrder(refund.orderId);
+    if (!order || !isRefundTransfer(refund, order, transfer)) continue;
+
+    const completed = await completeRefund(refund, order, transfer);
+    if (completed) {
+      return completed;
+    }
+  }
+  return null;
+}
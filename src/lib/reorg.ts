@@ -0,0 +1,226 @@
+/**
+ * ===========================================
+ * Chain Reorganization Handling
+ * ===========================================
+ * 
+ * Re-verifies recently settled payments against the canonical chain.
+ * 
+ * Every settling transfer is stored with the hash of the block it was
+ * seen in. If the canonical block at that height has a different hash,
+ * the transaction receipt decides what happened:
+ * 
+ * - receipt in another block -> the transfer was re-included; the stored
+ *                               block is updated and the payment stands
+ * - no receipt               -> the transfer is gone; the payment is
+ *                               reverted (see revertSettlement in
+ *                               lib/settlement.ts)
+ * 
+ * Reverting marks the order and payment status `reorged`, releases the
+ * transfer claims and takes the transfers' amounts off what the order
+ * received. The order is scanned again, so a re-mined transfer settles it.
+ * 
+ * For orders paid in several transfers, every transfer is re-verified.
+ */
+
+import { getPaymentStatusesByStatus, updatePaymentStatus } from "./dynamo";
+import { getBlockHash, getTransactionStatus } from "./blockchain";
+import { getReceivedTransfers, revertSettlement } from "./settlement";
+import type { PaymentStatus, PaymentStatusRecord, ReceivedTransfer } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Statuses whose transfers are re-verified */
+const SETTLED_STATUSES: PaymentStatus[] = [
+  "confirming",
+  "completed",
+  "partially_paid",
+  "underpaid",
+  "overpaid",
+];
+
+/** How long after settling a payment keeps being re-verified */
+const REORG_WATCH_WINDOW_MS = 60 * 60 * 1000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Outcome of re-verifying one settlement
+ * 
+ * - canonical: the block is still on the canonical chain
+ * - moved: the transaction was re-included in a different block
+ * - reorged: the transaction is no longer on chain
+ * - unknown: the RPC could not be queried; try again later
+ */
+export type SettlementCheck = "canonical" | "moved" | "reorged" | "unknown";
+
+/**
+ * Outcome of re-verifying every transfer of a payment
+ */
+export interface SettlementVerification {
+  /**
+   * reorged if any transfer left the chain, otherwise unknown if any
+   * could not be checked, otherwise moved if any was re-included
+   */
+  result: SettlementCheck;
+  /** Transfers that are no longer on chain */
+  removed: ReceivedTransfer[];
+}
+
+/**
+ * Summary returned by checkRecentSettlements
+ */
+export interface ReorgCheckSummary {
+  checked: number;
+  moved: string[];
+  reorged: string[];
+  unknown: string[];
+  /** Orders that could not be checked or reverted */
+  errors: string[];
+}
+
+// ===========================================
+// Verification
+// ===========================================
+
+/**
+ * Re-verify one transfer against the canonical chain
+ * 
+ * @returns What happened to the transfer, and its new block if it moved
+ */
+async function verifyTransfer(
+  orderId: string,
+  transfer: ReceivedTransfer
+): Promise<{ result: SettlementCheck; blockNumber?: number; blockHash?: string }> {
+  const { transactionHash, networkId, blockNumber, blockHash } = transfer;
+
+  try {
+    // Cheap path: the block we saw is still canonical
+    if (blockNumber !== undefined && blockHash) {
+      const canonicalHash = await getBlockHash(networkId, blockNumber);
+      if (canonicalHash?.toLowerCase() === blockHash.toLowerCase()) {
+        return { result: "canonical" };
+      }
+      console.log(`[Reorg] Block ${blockNumber} on ${networkId} changed for order ${orderId}`);
+    }
+  } catch (error) {
+    console.warn(`[Reorg] Could not get block ${blockNumber} on ${networkId}:`, error);
+    return { result: "unknown" };
+  }
+
+  const txStatus = await getTransactionStatus(transactionHash, networkId);
+  if (txStatus.error) {
+    return { result: "unknown" };
+  }
+
+  if (!txStatus.found) {
+    return { result: "reorged" };
+  }
+
+  if (txStatus.blockHash?.toLowerCase() === blockHash?.toLowerCase()) {
+    return { result: "canonical" };
+  }
+
+  // Re-included elsewhere (or first check of a transfer without a block hash)
+  return {
+    result: blockHash ? "moved" : "canonical",
+    blockNumber: txStatus.blockNumber,
+    blockHash: txStatus.blockHash,
+  };
+}
+
+/**
+ * Re-verify every transfer of a settled payment against the canonical chain
+ * 
+ * Updates the stored block of transfers that were re-included elsewhere,
+ * unless one of them left the chain (the caller reverts the payment).
+ * 
+ * @param record - Payment status with at least one transfer
+ * @returns What happened to the payment's transfers
+ */
+export async function verifySettlement(
+  record: PaymentStatusRecord
+): Promise<SettlementVerification> {
+  const received = getReceivedTransfers(record);
+  if (received.length === 0) {
+    return { result: "unknown", removed: [] };
+  }
+
+  const checks = [];
+  for (const transfer of received) {
+    checks.push({ transfer, ...(await verifyTransfer(record.orderId, transfer)) });
+  }
+
+  const removed = checks
+    .filter((check) => check.result === "reorged")
+    .map((check) => check.transfer);
+  if (removed.length > 0) {
+    return { result: "reorged", removed };
+  }
+
+  if (checks.some((check) => check.blockHash)) {
+    const transfers = checks.map(({ transfer, blockNumber, blockHash }) =>
+      blockHash ? { ...transfer, blockNumber, blockHash } : transfer
+    );
+    const latest = transfers[transfers.length - 1];
+    await updatePaymentStatus(record.orderId, {
+      blockNumber: latest.blockNumber,
+      blockHash: latest.blockHash,
+      ...(record.transfers?.length ? { transfers } : {}),
+    });
+  }
+
+  const result: SettlementCheck = checks.some((check) => check.result === "unknown")
+    ? "unknown"
+    : checks.some((check) => check.result === "moved")
+      ? "moved"
+      : "canonical";
+  return { result, removed: [] };
+}
+
+/**
+ * Re-verify every payment settled within the watch window
+ * 
+ * Runs every watcher cycle (lib/watcher.ts) and from /api/reorg-check
+ * when no watcher runs. Errors for one
+ * payment are logged and reported in the summary; the rest are still
+ * checked.
+ */
+export async function checkRecentSettlements(): Promise<ReorgCheckSummary> {
+  const since = new Date(Date.now() - REORG_WATCH_WINDOW_MS).toISOString();
+  const records = await getPaymentStatusesByStatus(SETTLED_STATUSES, since);
+
+  console.log(`[Reorg] Re-verifying ${records.length} recent settlements`);
+
+  const summary: ReorgCheckSummary = {
+    checked: records.length,
+    moved: [],
+    reorged: [],
+    unknown: [],
+    errors: [],
+  };
+
+  for (const record of records) {
+    try {
+      const { result, removed } = await verifySettlement(record);
+
+      if (result === "reorged") {
+        const hashes = removed.map((transfer) => transfer.transactionHash).join(", ");
+        await revertSettlement(record, `Transaction ${hashes} is no longer on chain`, removed);
+        summary.reorged.push(record.orderId);
+      } else if (result === "moved") {
+        summary.moved.push(record.orderId);
+      } else if (result === "unknown") {
+        summary.unknown.push(record.orderId);
+      }
+    } catch (error) {
+      console.warn(`[Reorg] Could not re-verify order ${record.orderId}:`, error);
+      summary.errors.push(record.orderId);
+    }
+  }
+
+  return summary;
+}
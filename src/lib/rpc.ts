@@ -0,0 +1,521 @@
+/**
+ * ===========================================
+ * RPC Provider Pool
+ * ===========================================
+ *
+ * JSON-RPC transport for lib/blockchain.ts. Each network has a pool of
+ * provider URLs; every request goes to the healthiest available one.
+ *
+ * - Requests time out after RPC_TIMEOUT_MS
+ * - Timeouts, network errors, HTTP 429/5xx and JSON-RPC rate-limit errors
+ *   fail over to the next provider, with exponential backoff once every
+ *   provider has been tried
+ * - A provider answering 429 is rested for its Retry-After period
+ * - After RPC_CIRCUIT_FAILURE_THRESHOLD consecutive failures a provider's
+ *   circuit opens; after RPC_CIRCUIT_COOLDOWN_MS a single trial request
+ *   decides whether it closes again
+ *
+ * Providers come from `<NETWORK>_RPC_URLS` (comma-separated),
+ * `<NETWORK>_RPC_URL`, or the network's public defaults in the chain
+ * registry (lib/chains.ts), in that order. In testnet mode the variables
+ * are `<NETWORK>_TESTNET_RPC_URLS` and `<NETWORK>_TESTNET_RPC_URL`.
+ * Per-provider metrics are exposed through getRpcMetrics
+ * (GET /api/debug/rpc-metrics).
+ */
+
+import { NETWORK_KEYS, TESTNET_MODE, getChain } from "./chains";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Per-request timeout */
+const RPC_TIMEOUT_MS = parseInt(process.env.RPC_TIMEOUT_MS || "5000", 10);
+
+/** Attempts per request, across all providers */
+const RPC_MAX_ATTEMPTS = 4;
+
+/** First backoff delay; doubles after every full round of providers */
+const RPC_BACKOFF_BASE_MS = 250;
+
+/** Longest backoff delay (also caps Retry-After) */
+const RPC_BACKOFF_MAX_MS = 4000;
+
+/** Consecutive failures that open a provider's circuit */
+const RPC_CIRCUIT_FAILURE_THRESHOLD = 3;
+
+/** How long an open circuit rejects requests before a trial request */
+const RPC_CIRCUIT_COOLDOWN_MS = 30000;
+
+/** Weight of the newest sample in latency and success averages */
+const EWMA_WEIGHT = 0.2;
+
+/** JSON-RPC error codes providers use for rate limiting */
+const RATE_LIMIT_ERROR_CODES = [-32005, 429];
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Circuit breaker state of a provider
+ *
+ * - closed: serving requests
+ * - open: failing or rate-limited; skipped until the cooldown ends
+ * - half-open: cooldown over; the next request is a trial
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Metrics for one provider
+ */
+export interface RpcProviderMetrics {
+  /** Provider URL with credentials-looking path segments masked */
+  url: string;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  /** Moving average of response time */
+  averageLatencyMs: number | null;
+  /** 0 (unusable) to 1 (fast and reliable) */
+  healthScore: number;
+  circuit: CircuitState;
+  /** ISO timestamp when an open circuit allows a trial request */
+  openUntil?: string;
+  supportsBatch: boolean;
+  lastError?: string;
+}
+
+interface RpcProvider {
+  url: string;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  latencyEwma: number | null;
+  successEwma: number;
+  openUntil: number;
+  /** A half-open trial request is in flight */
+  trialInFlight: boolean;
+  supportsBatch: boolean;
+  lastError?: string;
+}
+
+interface JsonRpcResponse {
+  id?: number;
+  result?: unknown;
+  error?: { code?: number; message: string };
+}
+
+/**
+ * Provider-side failure of an RPC request (slow, down or rate-limiting)
+ *
+ * These say nothing about the request itself, so it is tried on another
+ * provider. Errors returned by the node are not provider failures.
+ */
+class RpcRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "RpcRequestError";
+  }
+}
+
+/**
+ * Thrown when no available provider accepts batch requests
+ */
+class BatchUnsupportedError extends Error {
+  constructor(networkId: string) {
+    super(`No available RPC provider for ${networkId} accepts batch requests`);
+    this.name = "BatchUnsupportedError";
+  }
+}
+
+// ===========================================
+// Provider Pools
+// ===========================================
+
+const pools = new Map<string, RpcProvider[]>();
+
+/**
+ * Configured provider URLs for a network
+ */
+function getConfiguredUrls(networkId: string): string[] {
+  // Testnet endpoints are configured separately so a mainnet URL is never
+  // used in testnet mode (or the other way round)
+  const prefix = TESTNET_MODE ? `${networkId.toUpperCase()}_TESTNET` : networkId.toUpperCase();
+  const list = process.env[`${prefix}_RPC_URLS`];
+  if (list) {
+    return list.split(",").map((url) => url.trim()).filter(Boolean);
+  }
+  const single = process.env[`${prefix}_RPC_URL`];
+  if (single) {
+    return [single];
+  }
+  return getChain(networkId)?.rpcUrls || [];
+}
+
+function getPool(networkId: string): RpcProvider[] {
+  let pool = pools.get(networkId);
+  if (!pool) {
+    pool = getConfiguredUrls(networkId).map((url) => ({
+      url,
+      requests: 0,
+      failures: 0,
+      timeouts: 0,
+      rateLimited: 0,
+      consecutiveFailures: 0,
+      latencyEwma: null,
+      successEwma: 1,
+      openUntil: 0,
+      trialInFlight: false,
+      supportsBatch: true,
+    }));
+    pools.set(networkId, pool);
+  }
+  return pool;
+}
+
+/**
+ * Check whether any RPC provider is configured for a network
+ */
+export function hasRpcProviders(networkId: string): boolean {
+  return getPool(networkId).length > 0;
+}
+
+// ===========================================
+// Health
+// ===========================================
+
+function getCircuitState(provider: RpcProvider, now = Date.now()): CircuitState {
+  if (provider.openUntil === 0) return "closed";
+  return now < provider.openUntil ? "open" : "half-open";
+}
+
+/**
+ * Score a provider from its success rate and latency
+ */
+function getHealthScore(provider: RpcProvider): number {
+  const latencyPenalty = provider.latencyEwma === null
+    ? 0
+    : Math.min(provider.latencyEwma / RPC_TIMEOUT_MS, 1) * 0.5;
+  return provider.successEwma * (1 - latencyPenalty);
+}
+
+/**
+ * Providers that may take a request, healthiest first
+ *
+ * A half-open provider is included only if no trial is in flight.
+ */
+function getAvailableProviders(networkId: string, batch: boolean): RpcProvider[] {
+  const now = Date.now();
+  return getPool(networkId)
+    .filter((provider) => {
+      if (batch && !provider.supportsBatch) return false;
+      const circuit = getCircuitState(provider, now);
+      return circuit === "closed" || (circuit === "half-open" && !provider.trialInFlight);
+    })
+    .sort((a, b) => getHealthScore(b) - getHealthScore(a));
+}
+
+function recordSuccess(provider: RpcProvider, latencyMs: number): void {
+  provider.consecutiveFailures = 0;
+  provider.openUntil = 0;
+  provider.successEwma = provider.successEwma * (1 - EWMA_WEIGHT) + EWMA_WEIGHT;
+  provider.latencyEwma = provider.latencyEwma === null
+    ? latencyMs
+    : provider.latencyEwma * (1 - EWMA_WEIGHT) + latencyMs * EWMA_WEIGHT;
+}
+
+/**
+ * @param trial - Whether this was a half-open trial request
+ */
+function recordFailure(provider: RpcProvider, error: RpcRequestError, trial: boolean): void {
+  provider.failures++;
+  provider.consecutiveFailures++;
+  provider.successEwma *= 1 - EWMA_WEIGHT;
+  provider.lastError = error.message;
+
+  const now = Date.now();
+  if (error.retryAfterMs !== undefined) {
+    // Rate limited: rest the provider for as long as it asked
+    provider.openUntil = Math.max(provider.openUntil, now + error.retryAfterMs);
+  }
+  if (trial || provider.consecutiveFailures >= RPC_CIRCUIT_FAILURE_THRESHOLD) {
+    provider.openUntil = Math.max(provider.openUntil, now + RPC_CIRCUIT_COOLDOWN_MS);
+    console.warn(`[RPC] Circuit open for ${maskUrl(provider.url)}: ${error.message}`);
+  }
+}
+
+// ===========================================
+// Transport
+// ===========================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number {
+  if (!header) return RPC_BACKOFF_BASE_MS;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  return Math.min(Math.max(ms, 0), RPC_BACKOFF_MAX_MS);
+}
+
+function isRateLimitError(error: JsonRpcResponse["error"]): boolean {
+  return !!error && (
+    RATE_LIMIT_ERROR_CODES.includes(error.code ?? 0) ||
+    /rate limit|too many requests/i.test(error.message)
+  );
+}
+
+/**
+ * Mask path segments that look like API keys, for logs and metrics
+ */
+function maskUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split("/")
+      .map((segment) => (segment.length >= 20 ? "***" : segment))
+      .join("/");
+    return `${parsed.origin}${path === "/" ? "" : path}`;
+  } catch {
+    return "***";
+  }
+}
+
+/**
+ * POST a JSON-RPC payload to one provider
+ *
+ * @throws RpcRequestError on provider-side failures
+ */
+async function send(provider: RpcProvider, payload: unknown): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(provider.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+    });
+  } catch (error) {
+    if ((error as Error).name === "TimeoutError") {
+      provider.timeouts++;
+      throw new RpcRequestError(`Timed out after ${RPC_TIMEOUT_MS}ms`);
+    }
+    throw new RpcRequestError(`Request failed: ${(error as Error).message}`);
+  }
+
+  if (response.status === 429) {
+    provider.rateLimited++;
+    throw new RpcRequestError("Rate limited (HTTP 429)", parseRetryAfter(response.headers.get("retry-after")));
+  }
+  if (response.status >= 500) {
+    throw new RpcRequestError(`HTTP ${response.status}`);
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new RpcRequestError(`Invalid JSON response (HTTP ${response.status})`);
+  }
+}
+
+/**
+ * Send a payload through the network's pool, failing over and backing
+ * off on provider-side failures
+ *
+ * @param networkId - Network whose pool to use
+ * @param payload - A JSON-RPC request, or an array of them (batch)
+ * @returns The parsed JSON response
+ */
+async function execute(networkId: string, payload: unknown): Promise<unknown> {
+  const batch = Array.isArray(payload);
+  if (!hasRpcProviders(networkId)) {
+    throw new Error(`No RPC endpoint for ${networkId}`);
+  }
+
+  const tried = new Set<RpcProvider>();
+  let lastError: Error | undefined;
+  let backoffMs = RPC_BACKOFF_BASE_MS;
+
+  for (let attempt = 0; attempt < RPC_MAX_ATTEMPTS; attempt++) {
+    const available = getAvailableProviders(networkId, batch);
+    if (available.length === 0) {
+      // Providers without batch support can still take the calls singly
+      if (batch && getAvailableProviders(networkId, false).length > 0) {
+        throw new BatchUnsupportedError(networkId);
+      }
+      break;
+    }
+
+    // Prefer a provider not yet tried for this request; once all have
+    // been tried, back off before going round again
+    let provider = available.find((candidate) => !tried.has(candidate));
+    if (!provider) {
+      await sleep(backoffMs);
+      backoffMs = Math.min(backoffMs * 2, RPC_BACKOFF_MAX_MS);
+      tried.clear();
+      provider = available[0];
+    }
+    tried.add(provider);
+
+    const trial = getCircuitState(provider) === "half-open";
+    if (trial) provider.trialInFlight = true;
+    provider.requests++;
+    const started = Date.now();
+
+    try {
+      const data = await send(provider, payload);
+
+      if (batch && !Array.isArray(data)) {
+        // Answered, but not as a batch: route batches elsewhere from now on
+        console.warn(`[RPC] ${maskUrl(provider.url)} does not support batch requests`);
+        provider.supportsBatch = false;
+        recordSuccess(provider, Date.now() - started);
+        attempt--; // Not the provider's fault; doesn't use up an attempt
+        continue;
+      }
+
+      const responses = (batch ? data : [data]) as JsonRpcResponse[];
+      const limited = responses.find((entry) => isRateLimitError(entry.error));
+      if (limited) {
+        provider.rateLimited++;
+        throw new RpcRequestError(`Rate limited: ${limited.error!.message}`, RPC_BACKOFF_BASE_MS);
+      }
+
+      recordSuccess(provider, Date.now() - started);
+      return data;
+    } catch (error) {
+      if (!(error instanceof RpcRequestError)) throw error;
+      recordFailure(provider, error, trial);
+      lastError = error;
+      console.warn(`[RPC] ${networkId} via ${maskUrl(provider.url)} failed (attempt ${attempt + 1}): ${error.message}`);
+    } finally {
+      if (trial) provider.trialInFlight = false;
+    }
+  }
+
+  throw new Error(
+    `RPC Error: all providers for ${networkId} failed${lastError ? ` (${lastError.message})` : ""}`
+  );
+}
+
+// ===========================================
+// JSON-RPC Calls
+// ===========================================
+
+/**
+ * Make a JSON-RPC call on a network
+ *
+ * @throws Error "RPC Error: ..." if the node returned an error or every
+ *         provider failed
+ */
+export async function rpcCall(
+  networkId: string,
+  method: string,
+  params: unknown[]
+): Promise<unknown> {
+  const data = await execute(networkId, { jsonrpc: "2.0", id: 1, method, params }) as JsonRpcResponse;
+  if (data.error) {
+    throw new Error(`RPC Error: ${data.error.message}`);
+  }
+  return data.result;
+}
+
+/**
+ * Make several JSON-RPC calls in one batch request
+ *
+ * Falls back to individual calls when no available provider accepts
+ * batches. Each call settles on its own, so one failed call doesn't
+ * discard the others' results.
+ *
+ * @returns One settled result per call, in call order
+ */
+export async function rpcBatch(
+  networkId: string,
+  calls: Array<{ method: string; params: unknown[] }>
+): Promise<PromiseSettledResult<unknown>[]> {
+  let data: JsonRpcResponse[] | null = null;
+  if (calls.length > 1) {
+    try {
+      data = await execute(
+        networkId,
+        calls.map(({ method, params }, id) => ({ jsonrpc: "2.0", id, method, params }))
+      ) as JsonRpcResponse[];
+    } catch (error) {
+      if (!(error instanceof BatchUnsupportedError)) throw error;
+    }
+  }
+
+  if (!data) {
+    const results: PromiseSettledResult<unknown>[] = [];
+    for (const { method, params } of calls) {
+      try {
+        results.push({ status: "fulfilled", value: await rpcCall(networkId, method, params) });
+      } catch (reason) {
+        results.push({ status: "rejected", reason });
+      }
+    }
+    return results;
+  }
+
+  // Responses may come back in any order; match them up by id
+  const byId = new Map(data.map((entry) => [entry.id, entry]));
+  return calls.map((call, id): PromiseSettledResult<unknown> => {
+    const entry = byId.get(id);
+    if (!entry) {
+      return { status: "rejected", reason: new Error(`RPC Error: no response for ${call.method}`) };
+    }
+    if (entry.error) {
+      return { status: "rejected", reason: new Error(`RPC Error: ${entry.error.message}`) };
+    }
+    return { status: "fulfilled", value: entry.result };
+  });
+}
+
+// ===========================================
+// Metrics
+// ===========================================
+
+/**
+ * Current metrics for every provider, keyed by network
+ */
+export function getRpcMetrics(): Record<string, RpcProviderMetrics[]> {
+  const networks = new Set<string>([...NETWORK_KEYS, ...pools.keys()]);
+  const now = Date.now();
+  const metrics: Record<string, RpcProviderMetrics[]> = {};
+
+  for (const networkId of networks) {
+    const pool = getPool(networkId);
+    if (pool.length === 0) continue;
+    metrics[networkId] = pool.map((provider) => {
+      const circuit = getCircuitState(provider, now);
+      return {
+        url: maskUrl(provider.url),
+        requests: provider.requests,
+        failures: provider.failures,
+        timeouts: provider.timeouts,
+        rateLimited: provider.rateLimited,
+        consecutiveFailures: provider.consecutiveFailures,
+        averageLatencyMs: provider.latencyEwma === null ? null : Math.round(provider.latencyEwma),
+        healthScore: Math.round(getHealthScore(provider) * 100) / 100,
+        circuit,
+        openUntil: circuit === "closed" ? undefined : new Date(provider.openUntil).toISOString(),
+        supportsBatch: provider.supportsBatch,
+        lastError: provider.lastError,
+      };
+    });
+  }
+
+  return metrics;
+}
@@ -119,7 +119,7 @@ export async function getWalletConnectProjectId(): Promise<string> {
 }
 
 /**
- * Get Merchant Wallet Address
+ * Get the default merchant's wallet address (see lib/merchants.ts)
  */
 export async function getMerchantWalletAddress(): Promise<string> {
   // First check environment variable directly from multiple sources
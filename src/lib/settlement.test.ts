@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTransactionStatus, type TransactionStatus } from "./blockchain";
+import {
+  createOrder,
+  getConsumedTransfer,
+  getOrder,
+  getPaymentStatus,
+  transitionStatus,
+} from "./dynamo";
+import { InvalidStatusTransitionError } from "./payment-state";
+import { revertSettlement, settleTransfer, updateConfirmations } from "./settlement";
+import { setStorage } from "./storage";
+import { createMemoryStorage } from "./storage/memory";
+import type { Order } from "./types";
+
+vi.mock("./blockchain", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./blockchain")>()),
+  getTransactionStatus: vi.fn(),
+}));
+
+function createTestOrder(): Order {
+  const now = new Date().toISOString();
+  return {
+    orderId: "order-1",
+    amount: { minorUnits: 500, currency: "USD" },
+    paymentAmount: "5.004217",
+    dustUnits: 4217,
+    stablecoin: "USDC",
+    networkId: "polygon",
+    merchantWalletAddress: "0x1111111111111111111111111111111111111111",
+    status: "pending",
+    scanCursors: { polygon: { startBlock: 100, lastScannedBlock: 200 } },
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now,
+  };
+}
+
+function createTransfer(transactionHash: string, amount: string, blockNumber: number) {
+  return {
+    networkId: "polygon",
+    transactionHash,
+    logIndex: 0,
+    amount,
+    tokenSymbol: "USDC",
+    blockNumber,
+    blockHash: `0xblock${blockNumber}`,
+  };
+}
+
+/** Receipt of a mined transaction */
+function createReceipt(overrides: Partial<TransactionStatus> = {}): TransactionStatus {
+  return {
+    found: true,
+    confirmed: true,
+    status: true,
+    confirmations: 200,
+    requiredConfirmations: 128,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  setStorage(createMemoryStorage());
+});
+
+afterEach(() => {
+  setStorage(null);
+});
+
+describe("settleTransfer", () => {
+  it("keeps an order partially paid until the balance arrives", async () => {
+    let order = await createOrder(createTestOrder());
+
+    const first = await settleTransfer(order, createTransfer("0xaaa", "2", 150));
+    expect(first.paymentStatus.status).toBe("partially_paid");
+    expect(first.order).toMatchObject({
+      amountReceivedUnits: 2_000_000,
+      amountDueUnits: 3_004_217,
+    });
+    order = first.order;
+
+    // The top-up pays the balance
+    const second = await settleTransfer(order, createTransfer("0xbbb", "3.004217", 180));
+    expect(second.paymentStatus).toMatchObject({
+      status: "confirming",
+      amountReceived: "5.004217",
+    });
+    expect(second.order).toMatchObject({ amountReceivedUnits: 5_004_217, amountDueUnits: 0 });
+    expect(second.paymentStatus.transfers).toHaveLength(2);
+  });
+
+  it("counts a transfer the order already received once", async () => {
+    const order = await createOrder(createTestOrder());
+    const transfer = createTransfer("0xaaa", "2", 150);
+    const { order: updated } = await settleTransfer(order, transfer);
+
+    const again = await settleTransfer(updated, transfer);
+
+    expect(again.paymentStatus.amountReceived).toBe("2");
+    expect(again.paymentStatus.transfers).toHaveLength(1);
+  });
+
+  it("confirms a top-up that pays more than the balance as overpaid", async () => {
+    const order = await createOrder(createTestOrder());
+    const { order: updated } = await settleTransfer(order, createTransfer("0xaaa", "2", 150));
+    await settleTransfer(updated, createTransfer("0xbbb", "4", 180));
+
+    vi.mocked(getTransactionStatus).mockResolvedValue(createReceipt());
+    const confirmed = await updateConfirmations((await getPaymentStatus(order.orderId))!);
+
+    expect(confirmed).toMatchObject({ status: "overpaid", amountReceived: "6" });
+  });
+});
+
+describe("updateConfirmations", () => {
+  it("drops a reverted top-up and keeps what the other transfer paid", async () => {
+    const order = await createOrder(createTestOrder());
+    const first = createTransfer("0xaaa", "2", 150);
+    const second = createTransfer("0xbbb", "3.004217", 180);
+    const { order: updated } = await settleTransfer(order, first);
+    const { paymentStatus } = await settleTransfer(updated, second);
+
+    vi.mocked(getTransactionStatus).mockImplementation(async (hash) =>
+      createReceipt(hash === "0xbbb" ? { status: false } : {})
+    );
+    const result = await updateConfirmations(paymentStatus);
+
+    expect(result).toMatchObject({ status: "reorged", amountReceived: "2" });
+    expect(await getOrder(order.orderId)).toMatchObject({
+      amountReceivedUnits: 2_000_000,
+      amountDueUnits: 3_004_217,
+    });
+    expect(await getConsumedTransfer(second)).toBeNull();
+  });
+
+  it("keeps confirming when the other transfers still pay in full", async () => {
+    const order = await createOrder(createTestOrder());
+    const { order: updated } = await settleTransfer(order, createTransfer("0xaaa", "2", 150));
+    const { paymentStatus } = await settleTransfer(updated, createTransfer("0xbbb", "6", 180));
+
+    vi.mocked(getTransactionStatus).mockImplementation(async (hash) =>
+      createReceipt(hash === "0xaaa" ? { status: false } : {})
+    );
+    const result = await updateConfirmations(paymentStatus);
+
+    expect(result).toMatchObject({ status: "confirming", amountReceived: "6" });
+    expect(result.transfers?.map((transfer) => transfer.transactionHash)).toEqual(["0xbbb"]);
+  });
+});
+
+describe("revertSettlement", () => {
+  it("takes a removed transfer off what a partially paid order received", async () => {
+    let order = await createOrder(createTestOrder());
+    const first = createTransfer("0xaaa", "2", 150);
+    const second = createTransfer("0xbbb", "3.004217", 180);
+    order = (await settleTransfer(order, first)).order;
+    const { paymentStatus } = await settleTransfer(order, second);
+    expect(paymentStatus.status).toBe("confirming");
+
+    await revertSettlement(paymentStatus, "Reorged", [second]);
+
+    const reverted = await getPaymentStatus(order.orderId);
+    expect(reverted?.status).toBe("reorged");
+    expect(reverted?.amountReceived).toBe("2");
+    expect(reverted?.transfers?.map((transfer) => transfer.transactionHash)).toEqual(["0xaaa"]);
+    expect(await getOrder(order.orderId)).toMatchObject({
+      status: "reorged",
+      amountReceivedUnits: 2_000_000,
+      amountDueUnits: 3_004_217,
+      scanCursors: { polygon: { startBlock: 100, lastScannedBlock: 179 } },
+    });
+
+    // Only the removed transfer is free to settle again
+    expect(await getConsumedTransfer(second)).toBeNull();
+    expect((await getConsumedTransfer(first))?.orderId).toBe(order.orderId);
+  });
+
+  it("keeps the transfer claimed when the order can no longer be reverted", async () => {
+    const order = await createOrder(createTestOrder());
+    const transfer = createTransfer("0xaaa", "5.004217", 150);
+    await settleTransfer(order, transfer);
+    await transitionStatus(order.orderId, "completed");
+    const { paymentStatus } = await transitionStatus(order.orderId, "refunded");
+
+    await expect(revertSettlement(paymentStatus, "Reorged", [transfer])).rejects.toThrow(
+      InvalidStatusTransitionError
+    );
+
+    expect((await getOrder(order.orderId))?.status).toBe("refunded");
+    expect((await getConsumedTransfer(transfer))?.orderId).toBe(order.orderId);
+  });
+});
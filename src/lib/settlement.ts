@@ -0,0 +1,454 @@
+/**
+ * ===========================================
+ * On-chain Settlement
+ * ===========================================
+ *
+ * Applies what the chain says to an order. Shared by /api/check-status
+ * (client polling) and the background payment watcher (lib/watcher.ts),
+ * so both settle and confirm payments the same way.
+ *
+ * Orders can be paid in several transfers. Each detected transfer is added
+ * to what the order received: while a balance remains the order is
+ * `partially_paid`, once it is paid in full (or more) it moves to
+ * `confirming`. Once every one of its transfers succeeded and reached the
+ * network's required confirmations it becomes `completed`, or `overpaid`
+ * if too much arrived. A partially paid order that expires becomes
+ * `underpaid`.
+ */
+
+import {
+  getOrder,
+  getPaymentStatus,
+  releaseTransfer,
+  transitionStatus,
+  updatePaymentStatus,
+} from "./dynamo";
+import {
+  getRequiredConfirmations,
+  getTransactionStatus,
+  type TransferEvent,
+} from "./blockchain";
+import {
+  addPayment,
+  fromTokenUnits,
+  PAYMENT_AMOUNT_DECIMALS,
+  toTokenUnits,
+} from "./reconciliation";
+import type {
+  Order,
+  PaymentStatus,
+  PaymentStatusRecord,
+  ReceivedTransfer,
+  TransferRef,
+} from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Statuses in which an order expires once past its expiry time */
+export const EXPIRABLE_STATUSES: PaymentStatus[] = ["pending", "partially_paid", "reorged"];
+
+/** How long a reverted order at least stays open for its transfer to be re-mined */
+const REVERT_REOPEN_MS = 15 * 60 * 1000;
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * A transfer to attribute to an order (a scanned TransferEvent, or the
+ * same details from a webhook; Mesh reports no block or sender)
+ */
+export type SettlementTransfer = Pick<
+  TransferEvent,
+  "transactionHash" | "amount" | "tokenSymbol" | "networkId"
+> & {
+  from?: string;
+  blockNumber?: number;
+  logIndex?: number;
+  blockHash?: string;
+};
+
+/**
+ * A transfer Mesh reports for an order
+ */
+export interface MeshTransferReport {
+  meshTransferId: string;
+  transactionHash?: string;
+  networkId?: string;
+  stablecoin?: string;
+  amount?: string;
+  senderAddress?: string;
+  refundAddress?: string;
+}
+
+// ===========================================
+// Settlement
+// ===========================================
+
+/**
+ * Check whether a transfer was already attributed to an order
+ *
+ * A transfer without a log index (Mesh reports) matches any log of its
+ * transaction.
+ */
+export function isReceivedTransfer(
+  record: PaymentStatusRecord | null | undefined,
+  transfer: Pick<SettlementTransfer, "networkId" | "transactionHash" | "logIndex">
+): boolean {
+  const matches = (ref: { networkId?: string; transactionHash?: string; logIndex?: number }) =>
+    ref.networkId === transfer.networkId &&
+    ref.transactionHash?.toLowerCase() === transfer.transactionHash.toLowerCase() &&
+    (ref.logIndex === undefined || transfer.logIndex === undefined || ref.logIndex === transfer.logIndex);
+  return !!record && (matches(record) || (record.transfers || []).some(matches));
+}
+
+/**
+ * Attribute a detected transfer to an order
+ *
+ * The transfer is added to what the order received so far. Once the full
+ * amount (or more) arrived the order confirms (see updateConfirmations);
+ * less leaves it partially paid with the balance due. A transfer the order
+ * already received is not counted twice.
+ *
+ * @param order - The order the transfer pays
+ * @param transfer - The detected transfer
+ * @param details - Extra payment status fields (e.g. Mesh's transfer ID)
+ * @returns The updated order and payment status
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
+ * @throws InvalidStatusTransitionError if the order can no longer settle
+ */
+export async function settleTransfer(
+  order: Order,
+  transfer: SettlementTransfer,
+  details: Partial<Pick<PaymentStatusRecord, "meshTransferId" | "refundAddress">> = {}
+): Promise<{ order: Order; paymentStatus: PaymentStatusRecord }> {
+  const existing = await getPaymentStatus(order.orderId);
+  if (existing && isReceivedTransfer(existing, transfer)) {
+    console.log(`[Settlement] Transfer ${transfer.transactionHash} already received by ${order.orderId}`);
+    return { order, paymentStatus: existing };
+  }
+
+  const { amountReceivedUnits, amountDueUnits, match } = addPayment(order, transfer.amount);
+  const newStatus: PaymentStatus = match === "underpaid" ? "partially_paid" : "confirming";
+
+  const amountReceived = fromTokenUnits(BigInt(amountReceivedUnits), PAYMENT_AMOUNT_DECIMALS);
+  const amountDue = fromTokenUnits(BigInt(amountDueUnits), PAYMENT_AMOUNT_DECIMALS);
+
+  const received: ReceivedTransfer = {
+    networkId: transfer.networkId,
+    transactionHash: transfer.transactionHash,
+    logIndex: transfer.logIndex,
+    amount: transfer.amount,
+    stablecoin: transfer.tokenSymbol,
+    senderAddress: transfer.from,
+    blockNumber: transfer.blockNumber,
+    blockHash: transfer.blockHash,
+    receivedAt: new Date().toISOString(),
+  };
+
+  // Claims the transfer and moves order and payment status together;
+  // nothing changes if another order got there first
+  return transitionStatus(order.orderId, newStatus, {
+    order: { amountReceivedUnits, amountDueUnits },
+    payment: {
+      transactionHash: transfer.transactionHash,
+      logIndex: transfer.logIndex,
+      blockNumber: transfer.blockNumber,
+      blockHash: transfer.blockHash,
+      requiredConfirmations: getRequiredConfirmations(transfer.networkId),
+      senderAddress: transfer.from,
+      networkId: transfer.networkId,
+      stablecoin: transfer.tokenSymbol,
+      amount: parseFloat(amountReceived),
+      amountReceived,
+      expectedAmount: order.paymentAmount,
+      transfers: [...(existing?.transfers || []), received],
+      ...details,
+      errorMessage:
+        newStatus === "partially_paid"
+          ? `Received ${amountReceived} ${transfer.tokenSymbol} of ${order.paymentAmount}, ${amountDue} still due`
+          : match === "overpaid"
+            ? `Received ${amountReceived} ${transfer.tokenSymbol}, expected ${order.paymentAmount}`
+            : undefined,
+    },
+  });
+}
+
+/**
+ * Attribute a transfer Mesh reports as succeeded to an order
+ *
+ * The report is checked like a transfer seen on-chain: its amount is
+ * compared with the amount due, and the order completes only through
+ * `confirming` once the transaction is deep enough. A report without a
+ * transaction hash or amount can't be checked, so the order stays
+ * `processing` until the payment watcher finds the transfer.
+ *
+ * @param order - The order Mesh paid
+ * @param report - What Mesh reported
+ * @returns The updated order and payment status, or null if the report
+ *          couldn't be checked
+ * @throws TransferAlreadyConsumedError if another order owns the transfer
+ * @throws InvalidStatusTransitionError if the order can no longer settle
+ */
+export async function settleMeshTransfer(
+  order: Order,
+  report: MeshTransferReport
+): Promise<{ order: Order; paymentStatus: PaymentStatusRecord } | null> {
+  const details = { meshTransferId: report.meshTransferId, refundAddress: report.refundAddress };
+
+  if (!report.transactionHash || !report.amount) {
+    console.warn(`[Settlement] Mesh transfer ${report.meshTransferId} has no transaction hash or amount, waiting for it on-chain`);
+    if (order.status !== "processing") {
+      await transitionStatus(order.orderId, "processing", { payment: details });
+    }
+    return null;
+  }
+
+  return settleTransfer(
+    order,
+    {
+      transactionHash: report.transactionHash,
+      networkId: report.networkId || order.networkId,
+      tokenSymbol: report.stablecoin || order.stablecoin,
+      amount: report.amount,
+      from: report.senderAddress,
+    },
+    details
+  );
+}
+
+/**
+ * Expire an order that ran out of time
+ *
+ * An unpaid order (including a reorged one whose transfers never came
+ * back) becomes `expired`. An order that kept part of its payment becomes
+ * `underpaid`: what arrived stays attributed to it, for the merchant to
+ * refund or settle with the customer.
+ *
+ * @param order - An order in EXPIRABLE_STATUSES past its expiry time
+ * @returns The updated payment status
+ */
+export async function expireOrder(order: Order): Promise<PaymentStatusRecord> {
+  if (!order.amountReceivedUnits) {
+    return updatePaymentStatus(order.orderId, { status: "expired" });
+  }
+
+  const amountReceived = fromTokenUnits(BigInt(order.amountReceivedUnits ?? 0), PAYMENT_AMOUNT_DECIMALS);
+  console.log(`[Settlement] Order ${order.orderId} expired with ${amountReceived} of ${order.paymentAmount} received`);
+  return updatePaymentStatus(order.orderId, {
+    status: "underpaid",
+    errorMessage: `Expired with ${amountReceived} of ${order.paymentAmount} received`,
+  });
+}
+
+/**
+ * Revert a payment whose settling transfers left the canonical chain, or
+ * whose transaction reverted
+ *
+ * The order and payment status move to `reorged`, then the transfers'
+ * claims are released. Their amounts are taken off what the order
+ * received, and the order's scan cursors are rewound, so a transfer that
+ * is re-mined is picked up again. The order stays open for at least
+ * REVERT_REOPEN_MS; if nothing comes back it expires (or is cancelled)
+ * like a pending order. A confirming payment whose other transfers still
+ * cover the full amount keeps confirming with those.
+ *
+ * @param record - The payment status that was settled
+ * @param reason - Message recorded in the status history
+ * @param refs - The transfers that are gone (default: the latest one)
+ * @returns The updated payment status
+ * @throws InvalidStatusTransitionError if the order can no longer be
+ *         reverted (e.g. it was refunded); the transfers stay claimed
+ */
+export async function revertSettlement(
+  record: PaymentStatusRecord,
+  reason: string,
+  refs?: TransferRef[]
+): Promise<PaymentStatusRecord> {
+  const { orderId } = record;
+  const removed: TransferRef[] =
+    refs ??
+    (record.transactionHash
+      ? [
+          {
+            networkId: record.networkId || "unknown",
+            transactionHash: record.transactionHash,
+            logIndex: record.logIndex,
+          },
+        ]
+      : []);
+
+  const isSameTransfer = (transfer: TransferRef, ref: TransferRef) =>
+    transfer.networkId === ref.networkId &&
+    transfer.transactionHash.toLowerCase() === ref.transactionHash.toLowerCase() &&
+    transfer.logIndex === ref.logIndex;
+  const isRemoved = (transfer: TransferRef) => removed.some((ref) => isSameTransfer(transfer, ref));
+  console.warn(`[Settlement] Reverting order ${orderId}: ${reason}`);
+
+  // Rewind the scan cursors so the reorged ranges are scanned again
+  const order = await getOrder(orderId);
+  const scanCursors = { ...order?.scanCursors };
+  for (const ref of removed) {
+    const blockNumber = record.transfers?.length
+      ? record.transfers.find((transfer) => isSameTransfer(transfer, ref))?.blockNumber
+      : record.blockNumber;
+    const cursor = scanCursors[ref.networkId];
+    if (cursor && blockNumber !== undefined) {
+      scanCursors[ref.networkId] = {
+        ...cursor,
+        lastScannedBlock: Math.min(cursor.lastScannedBlock, blockNumber - 1),
+      };
+    }
+  }
+
+  // What is left of a payment made in several transfers stays received
+  const transfers = (record.transfers || []).filter((transfer) => !isRemoved(transfer));
+  const receivedUnits = transfers.reduce(
+    (total, transfer) => total + toTokenUnits(transfer.amount, PAYMENT_AMOUNT_DECIMALS),
+    BigInt(0)
+  );
+  const expectedUnits = order
+    ? toTokenUnits(order.paymentAmount, PAYMENT_AMOUNT_DECIMALS)
+    : BigInt(0);
+  const dueUnits = expectedUnits > receivedUnits ? expectedUnits - receivedUnits : BigInt(0);
+  const hasPartialPayment = transfers.length > 0;
+  const status: PaymentStatus =
+    record.status === "confirming" && hasPartialPayment && dueUnits === BigInt(0)
+      ? "confirming"
+      : "reorged";
+
+  // Give the re-mined transfer time to be found before the order expires
+  const reopenedUntil = new Date(Date.now() + REVERT_REOPEN_MS).toISOString();
+  const expiresAt =
+    order && order.expiresAt > reopenedUntil ? order.expiresAt : reopenedUntil;
+
+  const { paymentStatus } = await transitionStatus(orderId, status, {
+    order: {
+      scanCursors,
+      expiresAt,
+      amountReceivedUnits: hasPartialPayment ? Number(receivedUnits) : undefined,
+      amountDueUnits: hasPartialPayment ? Number(dueUnits) : undefined,
+    },
+    payment: {
+      errorMessage: reason,
+      confirmations: undefined,
+      transfers,
+      amountReceived: hasPartialPayment
+        ? fromTokenUnits(receivedUnits, PAYMENT_AMOUNT_DECIMALS)
+        : undefined,
+    },
+  });
+
+  // Free the transfers so they can settle this order again if re-mined.
+  // Only once the order moved: a refused transition keeps them claimed
+  for (const ref of removed) {
+    await releaseTransfer(orderId, ref);
+  }
+  return paymentStatus;
+}
+
+// ===========================================
+// Confirmations
+// ===========================================
+
+/**
+ * Every transfer attributed to a payment (records from before multi-part
+ * payments only carry their single transfer's fields)
+ */
+export function getReceivedTransfers(record: PaymentStatusRecord): ReceivedTransfer[] {
+  if (record.transfers?.length) {
+    return record.transfers;
+  }
+  if (!record.transactionHash || !record.networkId) {
+    return [];
+  }
+  return [
+    {
+      networkId: record.networkId,
+      transactionHash: record.transactionHash,
+      logIndex: record.logIndex,
+      amount: record.amountReceived ?? "0",
+      blockNumber: record.blockNumber,
+      blockHash: record.blockHash,
+      receivedAt: record.updatedAt,
+    },
+  ];
+}
+
+/**
+ * Refresh the confirmation depth of every transfer of a payment
+ *
+ * Transfers whose transaction reverted are dropped from the payment like
+ * reorged ones (see revertSettlement); the others keep counting. A
+ * `confirming` order completes once all of its transfers reached the
+ * required depth, or becomes `overpaid` if more than the payment amount
+ * arrived. Other statuses only get their depths updated.
+ *
+ * @param record - Payment status with at least one transfer
+ * @returns The updated payment status (unchanged if there is no transfer)
+ */
+export async function updateConfirmations(
+  record: PaymentStatusRecord
+): Promise<PaymentStatusRecord> {
+  const received = getReceivedTransfers(record);
+  if (received.length === 0) {
+    return record;
+  }
+
+  const checked = await Promise.all(
+    received.map(async (transfer) => ({
+      transfer,
+      txStatus: await getTransactionStatus(transfer.transactionHash, transfer.networkId),
+    }))
+  );
+
+  const transfers: ReceivedTransfer[] = checked.map(({ transfer, txStatus }) => ({
+    ...transfer,
+    // The receipt is authoritative for where the transfer landed
+    blockNumber: txStatus.blockNumber ?? transfer.blockNumber,
+    blockHash: txStatus.blockHash ?? transfer.blockHash,
+    confirmations: txStatus.confirmations,
+  }));
+  const confirmations = Math.min(...checked.map(({ txStatus }) => txStatus.confirmations));
+  const requiredConfirmations = Math.max(
+    ...checked.map(({ txStatus }) => txStatus.requiredConfirmations)
+  );
+  console.log(
+    `[Settlement] ${record.orderId} confirmations: ${confirmations}/${requiredConfirmations} over ${transfers.length} transfer(s)`
+  );
+
+  const reverted = checked
+    .filter(({ txStatus }) => txStatus.found && txStatus.status === false)
+    .map(({ transfer }) => transfer);
+  if (reverted.length > 0) {
+    const hashes = reverted.map((transfer) => transfer.transactionHash).join(", ");
+    return revertSettlement(record, `Transaction ${hashes} reverted`, reverted);
+  }
+
+  let newStatus: PaymentStatus = record.status;
+  let errorMessage = record.errorMessage;
+  if (record.status === "confirming" && checked.every(({ txStatus }) => txStatus.confirmed)) {
+    const overpaid =
+      !!record.amountReceived &&
+      !!record.expectedAmount &&
+      toTokenUnits(record.amountReceived, PAYMENT_AMOUNT_DECIMALS) >
+        toTokenUnits(record.expectedAmount, PAYMENT_AMOUNT_DECIMALS);
+    newStatus = overpaid ? "overpaid" : "completed";
+    if (!overpaid) {
+      errorMessage = undefined;
+    }
+  }
+
+  const latest = transfers[transfers.length - 1];
+  return updatePaymentStatus(record.orderId, {
+    ...(newStatus !== record.status ? { status: newStatus } : {}),
+    blockNumber: latest.blockNumber,
+    blockHash: latest.blockHash,
+    confirmations,
+    requiredConfirmations,
+    ...(record.transfers?.length ? { transfers } : {}),
+    errorMessage,
+  });
+}
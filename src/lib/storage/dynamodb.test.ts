@@ -0,0 +1,236 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDynamoStorage } from "./dynamodb";
+import { InvalidCursorError } from "./records";
+import type { Order } from "../types";
+
+type Item = Record<string, unknown>;
+
+interface ConditionalPut {
+  TableName?: string;
+  Item?: Item;
+  ConditionExpression?: string;
+  ExpressionAttributeValues?: Item;
+}
+
+const config = {
+  region: "us-east-1",
+  ordersTableName: "orders",
+  paymentStatusTableName: "payment-statuses",
+  consumedTransfersTableName: "consumed-transfers",
+  depositAddressClaimsTableName: "deposit-address-claims",
+  paymentAmountClaimsTableName: "payment-amount-claims",
+  webhookEventsTableName: "webhook-events",
+  merchantsTableName: "merchants",
+  apiKeysTableName: "api-keys",
+  refundsTableName: "refunds",
+};
+
+/**
+ * In-memory tables behind DynamoDBDocumentClient.send, keyed by orderId,
+ * evaluating the two conditions the adapter writes with and serving
+ * ordersByMerchant queries (newest first, without filters)
+ */
+function createFakeTables() {
+  const tables = new Map<string, Map<string, Item>>();
+  const table = (name = "") => tables.get(name) ?? tables.set(name, new Map()).get(name)!;
+  const beforeGet: Array<() => Promise<void>> = [];
+
+  const meetsCondition = (put: ConditionalPut) => {
+    const stored = table(put.TableName).get(String(put.Item?.orderId));
+    if (put.ConditionExpression === "attribute_not_exists(#key)") {
+      return !stored;
+    }
+    return (
+      !put.ConditionExpression ||
+      stored?.updatedAt === put.ExpressionAttributeValues?.[":updatedAt"]
+    );
+  };
+
+  const write = (put: ConditionalPut) => {
+    table(put.TableName).set(String(put.Item?.orderId), structuredClone(put.Item!));
+  };
+
+  const conditionFailed = () =>
+    new ConditionalCheckFailedException({
+      message: "The conditional request failed",
+      $metadata: {},
+    });
+
+  const send = async (command: unknown) => {
+    if (command instanceof GetCommand) {
+      const item = table(command.input.TableName).get(String(command.input.Key?.orderId));
+      const read = item && structuredClone(item);
+      await beforeGet.shift()?.();
+      return { Item: read };
+    }
+    if (command instanceof PutCommand) {
+      if (!meetsCondition(command.input)) {
+        throw conditionFailed();
+      }
+      write(command.input);
+      return {};
+    }
+    if (command instanceof QueryCommand) {
+      const { ExpressionAttributeValues: values = {}, ExclusiveStartKey: start } = command.input;
+      const items = Array.from(table(command.input.TableName).values())
+        .filter((item) => item.merchantId === values[":merchantId"])
+        .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+      const from = start ? items.findIndex((item) => item.orderId === start.orderId) + 1 : 0;
+      const page = items.slice(from, from + (command.input.Limit ?? items.length));
+      const last = page[page.length - 1];
+      return {
+        Items: page.map((item) => structuredClone(item)),
+        LastEvaluatedKey:
+          last && from + page.length < items.length
+            ? { orderId: last.orderId, merchantId: last.merchantId, createdAt: last.createdAt }
+            : undefined,
+      };
+    }
+    if (command instanceof TransactWriteCommand) {
+      const puts = (command.input.TransactItems ?? []).map(
+        (entry) => entry.Put as ConditionalPut
+      );
+      if (!puts.every(meetsCondition)) {
+        throw conditionFailed();
+      }
+      puts.forEach(write);
+      return {};
+    }
+    throw new Error(`Unexpected command: ${(command as object).constructor.name}`);
+  };
+  vi.spyOn(DynamoDBDocumentClient.prototype, "send").mockImplementation(send);
+
+  return {
+    /** Run a concurrent write after the next read has been served */
+    interleave(write: () => Promise<void>) {
+      beforeGet.push(write);
+    },
+  };
+}
+
+function createTestOrder(overrides: Partial<Order> = {}): Order {
+  const now = new Date().toISOString();
+  return {
+    orderId: "order-1",
+    merchantId: "default",
+    amount: { minorUnits: 500, currency: "USD" },
+    paymentAmount: "5.004217",
+    dustUnits: 4217,
+    stablecoin: "USDC",
+    networkId: "polygon",
+    merchantWalletAddress: "0x1111111111111111111111111111111111111111",
+    status: "scanning",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now,
+    ...overrides,
+  };
+}
+
+describe("updateOrder", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("does not undo a status change made between its read and its write", async () => {
+    const tables = createFakeTables();
+    const storage = createDynamoStorage(config);
+    const order = await storage.createOrder(createTestOrder());
+
+    // The watcher advances its scan cursor while a transfer settles the order
+    tables.interleave(async () => {
+      vi.advanceTimersByTime(1000);
+      await storage.updateOrderAndPaymentStatus(
+        order.orderId,
+        { status: "confirming" },
+        { status: "confirming" },
+        { order: order.updatedAt, paymentStatus: null }
+      );
+      vi.advanceTimersByTime(1000);
+    });
+    const scanCursors = { polygon: { startBlock: 100, lastScannedBlock: 123 } };
+    const updated = await storage.updateOrder(order.orderId, { scanCursors });
+
+    expect(updated.status).toBe("confirming");
+    expect(await storage.getOrder(order.orderId)).toMatchObject({
+      status: "confirming",
+      scanCursors,
+    });
+  });
+
+  it("does not undo a status change when updating the payment status", async () => {
+    const tables = createFakeTables();
+    const storage = createDynamoStorage(config);
+    const order = await storage.createOrder(createTestOrder());
+    await storage.updatePaymentStatus(order.orderId, { status: "scanning" });
+    const payment = await storage.getPaymentStatus(order.orderId);
+
+    tables.interleave(async () => {
+      vi.advanceTimersByTime(1000);
+      await storage.updateOrderAndPaymentStatus(
+        order.orderId,
+        { status: "confirming" },
+        { status: "confirming" },
+        { order: order.updatedAt, paymentStatus: payment!.updatedAt }
+      );
+      vi.advanceTimersByTime(1000);
+    });
+    await storage.updatePaymentStatus(order.orderId, { confirmations: 3 });
+
+    expect(await storage.getPaymentStatus(order.orderId)).toMatchObject({
+      status: "confirming",
+      confirmations: 3,
+    });
+  });
+});
+
+describe("queryOrders", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("continues a merchant's history only for that merchant", async () => {
+    createFakeTables();
+    const storage = createDynamoStorage(config);
+    for (const [orderId, merchantId] of [
+      ["order-1", "merchant-a"],
+      ["order-2", "merchant-b"],
+      ["order-3", "merchant-a"],
+      ["order-4", "merchant-a"],
+    ]) {
+      vi.advanceTimersByTime(1000);
+      await storage.createOrder(createTestOrder({ orderId, merchantId }));
+    }
+
+    const query = { merchantId: "merchant-a", environment: "mainnet" as const, limit: 2 };
+    const first = await storage.queryOrders(query);
+    expect(first.items.map((order) => order.orderId)).toEqual(["order-4", "order-3"]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await storage.queryOrders({ ...query, lastKey: first.lastKey });
+    expect(second.items.map((order) => order.orderId)).toEqual(["order-1"]);
+
+    // Another merchant can't page through merchant-a's index with the cursor
+    await expect(
+      storage.queryOrders({ ...query, merchantId: "merchant-b", lastKey: first.lastKey })
+    ).rejects.toThrow(InvalidCursorError);
+  });
+});
@@ -0,0 +1,845 @@
+/**
+ * ===========================================
+ * DynamoDB Storage Backend
+ * ===========================================
+ *
+ * Stores orders, payment status, the consumed-transfer index, deposit
+ * address and payment amount claims, the webhook event log, merchants,
+ * their API keys and refunds in the DynamoDB tables created by Amplify
+ * Gen 2 (see amplify/data/resource.ts). Orders and payment status are
+ * keyed by `orderId`, consumed transfers by `transferKey`, deposit
+ * address claims by `address`, payment amount claims by `claimKey`,
+ * webhook events by `eventKey`, merchants by `merchantId`, API keys by
+ * `keyId` and refunds by `refundId`.
+ *
+ * Changes to an order's status write the order and its payment status in
+ * one transaction, guarded by each record's `updatedAt` (optimistic
+ * locking), so the two records never disagree. Other updates of a single
+ * record are guarded the same way and retried on a conflict, so they
+ * never write back a copy from before a status change.
+ *
+ * Order history is read from the `ordersByMerchant` index (merchantId,
+ * createdAt), orders and payment statuses by status from the
+ * `ordersByStatus` (status, createdAt) and `paymentStatusesByStatus`
+ * (status, updatedAt) indexes, transactions are looked up through the
+ * `consumedTransfersByTransactionHash` index and the amounts claimed at
+ * an address through the `paymentAmountClaimsByAddress` index.
+ *
+ * Orders stored before amounts were Money are converted as they are read
+ * (readStoredOrder), and history filters on currency and amount match
+ * their float US dollar amounts too.
+ *
+ * The SSR compute role needs dynamodb:GetItem, PutItem, DeleteItem, Scan,
+ * Query and TransactWriteItems (ConditionCheck/Put) on all tables and
+ * their indexes.
+ */
+
+import {
+  ConditionalCheckFailedException,
+  DynamoDBClient,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import type {
+  ConsumedTransfer,
+  DepositAddressClaim,
+  Merchant,
+  MerchantApiKey,
+  Order,
+  OrderQuery,
+  PaymentAmountClaim,
+  PaymentStatusRecord,
+  Refund,
+  WebhookEvent,
+} from "../types";
+import { getCurrencyDecimals } from "../money";
+import type { StorageAdapter } from "./types";
+import {
+  applyOrderUpdate,
+  assertRecordVersions,
+  ConcurrentUpdateError,
+  decodeCursor,
+  DEFAULT_PAGE_SIZE,
+  encodeCursor,
+  InvalidCursorError,
+  LEGACY_ORDER_CURRENCY,
+  mergePaymentStatus,
+  matchesOrderQuery,
+  paginateOrders,
+  readStoredOrder,
+  type StoredOrder,
+} from "./records";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/**
+ * DynamoDB backend configuration
+ */
+export interface DynamoStorageConfig {
+  region: string;
+  ordersTableName: string;
+  paymentStatusTableName: string;
+  consumedTransfersTableName: string;
+  depositAddressClaimsTableName: string;
+  paymentAmountClaimsTableName: string;
+  webhookEventsTableName: string;
+  merchantsTableName: string;
+  apiKeysTableName: string;
+  refundsTableName: string;
+}
+
+/** Order index: merchantId (partition key), createdAt (sort key) */
+const ORDERS_BY_MERCHANT_INDEX = "ordersByMerchant";
+
+/** Order index: status (partition key), createdAt (sort key) */
+const ORDERS_BY_STATUS_INDEX = "ordersByStatus";
+
+/**
+ * Attempts at a read-merge-write of one record before giving up with
+ * ConcurrentUpdateError
+ */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/** PaymentStatus index: status (partition key), updatedAt (sort key) */
+const PAYMENT_STATUSES_BY_STATUS_INDEX = "paymentStatusesByStatus";
+
+/** ConsumedTransfer index: transactionHash (partition key) */
+const TRANSFERS_BY_HASH_INDEX = "consumedTransfersByTransactionHash";
+
+/** PaymentAmountClaim index: address (partition key) */
+const AMOUNT_CLAIMS_BY_ADDRESS_INDEX = "paymentAmountClaimsByAddress";
+
+// ===========================================
+// Table Helpers
+// ===========================================
+
+/**
+ * Thin wrapper around the document client for single-key tables
+ *
+ * @param client - Document client
+ * @param tableName - Table name
+ * @param keyName - Partition key attribute (default: orderId)
+ */
+function createTableClient(
+  client: DynamoDBDocumentClient,
+  tableName: string,
+  keyName = "orderId"
+) {
+  /**
+   * Condition that the stored item is still the one that was read
+   */
+  const versionCondition = (previous: { updatedAt: string } | null) =>
+    previous
+      ? {
+          ConditionExpression: "#updatedAt = :updatedAt",
+          ExpressionAttributeNames: { "#updatedAt": "updatedAt" } as Record<string, string>,
+          ExpressionAttributeValues: { ":updatedAt": previous.updatedAt } as Record<string, unknown>,
+        }
+      : {
+          ConditionExpression: "attribute_not_exists(#key)",
+          ExpressionAttributeNames: { "#key": keyName } as Record<string, string>,
+        };
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const result = await client.send(
+        new GetCommand({ TableName: tableName, Key: { [keyName]: key } })
+      );
+      return (result.Item as T | undefined) || null;
+    },
+
+    async put<T extends object>(item: T): Promise<T> {
+      await client.send(new PutCommand({ TableName: tableName, Item: item }));
+      return item;
+    },
+
+    /**
+     * Put an item only if no item with the same key exists
+     *
+     * @returns true if the item was written
+     */
+    async putIfAbsent<T extends object>(item: T): Promise<boolean> {
+      try {
+        await client.send(
+          new PutCommand({
+            TableName: tableName,
+            Item: item,
+            ConditionExpression: "attribute_not_exists(#key)",
+            ExpressionAttributeNames: { "#key": keyName },
+          })
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    /**
+     * Build a transactional put that only succeeds if the stored item
+     * is unchanged
+     *
+     * @param item - The item to write
+     * @param previous - The item as it was read (null if it didn't exist)
+     */
+    versionedPut<T extends { updatedAt: string }>(item: T, previous: T | null) {
+      return { Put: { TableName: tableName, Item: item, ...versionCondition(previous) } };
+    },
+
+    /**
+     * Put an item only if the stored item is unchanged since it was read
+     *
+     * @param item - The item to write
+     * @param previous - The item as it was read (null if it didn't exist)
+     * @returns true if the item was written
+     */
+    async putIfUnchanged<T extends { updatedAt: string }>(
+      item: T,
+      previous: T | null
+    ): Promise<boolean> {
+      try {
+        await client.send(
+          new PutCommand({ TableName: tableName, Item: item, ...versionCondition(previous) })
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      await client.send(new DeleteCommand({ TableName: tableName, Key: { [keyName]: key } }));
+    },
+
+    /**
+     * Delete an item only if an attribute has the expected value
+     *
+     * @returns true if the item was deleted
+     */
+    async deleteIf(key: string, attribute: string, value: string): Promise<boolean> {
+      try {
+        await client.send(
+          new DeleteCommand({
+            TableName: tableName,
+            Key: { [keyName]: key },
+            ConditionExpression: "#attr = :value",
+            ExpressionAttributeNames: { "#attr": attribute },
+            ExpressionAttributeValues: { ":value": value },
+          })
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    /**
+     * Scan the whole table, following pagination
+     */
+    async scan<T>(): Promise<T[]> {
+      const items: T[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await client.send(
+          new ScanCommand({ TableName: tableName, ExclusiveStartKey: exclusiveStartKey })
+        );
+        items.push(...((result.Items as T[] | undefined) || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items;
+    },
+
+    /**
+     * All items of a secondary index with the given partition key,
+     * following pagination
+     *
+     * @param from - Optional lower bound (inclusive) on the index's sort key
+     */
+    async queryIndex<T>(
+      indexName: string,
+      attribute: string,
+      value: string,
+      from?: { attribute: string; value: string }
+    ): Promise<T[]> {
+      const items: T[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await client.send(
+          new QueryCommand({
+            TableName: tableName,
+            IndexName: indexName,
+            KeyConditionExpression: from ? "#key = :value AND #sort >= :from" : "#key = :value",
+            ExpressionAttributeNames: {
+              "#key": attribute,
+              ...(from ? { "#sort": from.attribute } : {}),
+            },
+            ExpressionAttributeValues: {
+              ":value": value,
+              ...(from ? { ":from": from.value } : {}),
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+        items.push(...((result.Items as T[] | undefined) || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items;
+    },
+  };
+}
+
+// ===========================================
+// Order Queries
+// ===========================================
+
+/**
+ * Legacy float amount halfway between a minor-unit amount and the next
+ * one down (offset -1) or up (offset 1), e.g. 529 -> 5.285 or 5.295
+ *
+ * A legacy amount reads as at least `minorUnits` from the lower bound up
+ * and as at most `minorUnits` below the upper bound (readStoredOrder
+ * rounds half away from zero).
+ */
+function legacyAmountBound(minorUnits: number, offset: -1 | 1): number {
+  const decimals = getCurrencyDecimals(LEGACY_ORDER_CURRENCY) + 1;
+  return Number(`${minorUnits * 10 + offset * 5}e-${decimals}`);
+}
+
+/**
+ * Build the key condition and filter for an order history query on the
+ * ordersByMerchant index
+ *
+ * The merchant and creation date range are key conditions; the other
+ * filters are applied by DynamoDB after reading each page.
+ */
+function buildOrderQueryExpressions(query: OrderQuery) {
+  const names: Record<string, string> = {
+    "#merchantId": "merchantId",
+    "#createdAt": "createdAt",
+  };
+  const values: Record<string, unknown> = { ":merchantId": query.merchantId };
+
+  let keyCondition = "#merchantId = :merchantId";
+  if (query.createdFrom && query.createdTo) {
+    keyCondition += " AND #createdAt BETWEEN :createdFrom AND :createdTo";
+  } else if (query.createdFrom) {
+    keyCondition += " AND #createdAt >= :createdFrom";
+  } else if (query.createdTo) {
+    keyCondition += " AND #createdAt <= :createdTo";
+  }
+  if (query.createdFrom) values[":createdFrom"] = query.createdFrom;
+  if (query.createdTo) values[":createdTo"] = query.createdTo;
+
+  // Orders from before environments were recorded count as mainnet
+  names["#environment"] = "environment";
+  values[":environment"] = query.environment;
+  const filters = [
+    query.environment === "mainnet"
+      ? "(#environment = :environment OR attribute_not_exists(#environment))"
+      : "#environment = :environment",
+  ];
+
+  if (query.statuses?.length) {
+    names["#status"] = "status";
+    const placeholders = query.statuses.map((status, i) => {
+      values[`:status${i}`] = status;
+      return `:status${i}`;
+    });
+    filters.push(`#status IN (${placeholders.join(", ")})`);
+  }
+  if (query.networkId) {
+    names["#networkId"] = "networkId";
+    values[":networkId"] = query.networkId;
+    filters.push("#networkId = :networkId");
+  }
+  if (query.stablecoin) {
+    names["#stablecoin"] = "stablecoin";
+    values[":stablecoin"] = query.stablecoin;
+    filters.push("#stablecoin = :stablecoin");
+  }
+  if (query.currency || query.minAmount !== undefined || query.maxAmount !== undefined) {
+    names["#amount"] = "amount";
+  }
+  // Legacy orders hold a number in `amount` (never a Money map) and can
+  // only match US dollar queries
+  const matchesLegacy = (query.currency ?? LEGACY_ORDER_CURRENCY) === LEGACY_ORDER_CURRENCY;
+  if (query.currency) {
+    names["#currency"] = "currency";
+    values[":currency"] = query.currency;
+    if (matchesLegacy) {
+      values[":number"] = "N";
+      filters.push("(#amount.#currency = :currency OR attribute_type(#amount, :number))");
+    } else {
+      filters.push("#amount.#currency = :currency");
+    }
+  }
+  if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+    names["#minorUnits"] = "minorUnits";
+  }
+  if (query.minAmount !== undefined) {
+    values[":minAmount"] = query.minAmount;
+    if (matchesLegacy) {
+      values[":minLegacyAmount"] = legacyAmountBound(query.minAmount, -1);
+      filters.push("(#amount.#minorUnits >= :minAmount OR #amount >= :minLegacyAmount)");
+    } else {
+      filters.push("#amount.#minorUnits >= :minAmount");
+    }
+  }
+  if (query.maxAmount !== undefined) {
+    values[":maxAmount"] = query.maxAmount;
+    if (matchesLegacy) {
+      values[":maxLegacyAmount"] = legacyAmountBound(query.maxAmount, 1);
+      filters.push("(#amount.#minorUnits <= :maxAmount OR #amount < :maxLegacyAmount)");
+    } else {
+      filters.push("#amount.#minorUnits <= :maxAmount");
+    }
+  }
+
+  return {
+    KeyConditionExpression: keyCondition,
+    FilterExpression: filters.join(" AND "),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values,
+  };
+}
+
+// ===========================================
+// DynamoDB Backend
+// ===========================================
+
+/**
+ * Create a DynamoDB storage adapter
+ *
+ * @param config - Region and table names
+ */
+export function createDynamoStorage(config: DynamoStorageConfig): StorageAdapter {
+  const client = DynamoDBDocumentClient.from(
+    new DynamoDBClient({ region: config.region }),
+    { marshallOptions: { removeUndefinedValues: true } }
+  );
+
+  const orders = createTableClient(client, config.ordersTableName);
+  const paymentStatuses = createTableClient(client, config.paymentStatusTableName);
+  const consumedTransfers = createTableClient(
+    client,
+    config.consumedTransfersTableName,
+    "transferKey"
+  );
+  const depositAddressClaims = createTableClient(
+    client,
+    config.depositAddressClaimsTableName,
+    "address"
+  );
+  const paymentAmountClaims = createTableClient(
+    client,
+    config.paymentAmountClaimsTableName,
+    "claimKey"
+  );
+  const webhookEvents = createTableClient(client, config.webhookEventsTableName, "eventKey");
+  const merchants = createTableClient(client, config.merchantsTableName, "merchantId");
+  const apiKeys = createTableClient(client, config.apiKeysTableName, "keyId");
+  const refunds = createTableClient(client, config.refundsTableName, "refundId");
+
+  const getOrder = async (orderId: string): Promise<Order | null> => {
+    const stored = await orders.get<StoredOrder>(orderId);
+    return stored && readStoredOrder(stored);
+  };
+
+  const scanOrders = async (): Promise<Order[]> =>
+    (await orders.scan<StoredOrder>()).map(readStoredOrder);
+
+  return {
+    backend: "dynamodb",
+
+    createOrder: (order) => orders.put(order),
+
+    getOrder,
+
+    async updateOrder(orderId, updates) {
+      // Writing back a stale copy would undo a concurrent status change
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const existing = await getOrder(orderId);
+        if (!existing) {
+          throw new Error(`Order not found: ${orderId}`);
+        }
+        const order = applyOrderUpdate(existing, updates);
+        if (await orders.putIfUnchanged(order, existing)) {
+          return order;
+        }
+      }
+      throw new ConcurrentUpdateError(orderId);
+    },
+
+    deleteOrder: (orderId) => orders.delete(orderId),
+
+    async queryOrders(query) {
+      // A transaction pays at most a few orders: load them by key
+      if (query.transactionHash) {
+        const claims = await consumedTransfers.queryIndex<ConsumedTransfer>(
+          TRANSFERS_BY_HASH_INDEX,
+          "transactionHash",
+          query.transactionHash.toLowerCase()
+        );
+        const orderIds = Array.from(new Set(claims.map((claim) => claim.orderId)));
+        const found = await Promise.all(orderIds.map(getOrder));
+        return paginateOrders(
+          found.filter((order): order is Order => !!order && matchesOrderQuery(order, query)),
+          query
+        );
+      }
+
+      // Filters apply after DynamoDB's Limit, so keep reading until the
+      // page is full or the index is exhausted
+      const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+      const expressions = buildOrderQueryExpressions(query);
+      const items: Order[] = [];
+      const cursor = query.lastKey;
+      let exclusiveStartKey = cursor ? decodeCursor(cursor) : undefined;
+      // A cursor only continues the history of the merchant it came from
+      if (
+        cursor &&
+        (typeof exclusiveStartKey?.orderId !== "string" ||
+          exclusiveStartKey.merchantId !== query.merchantId)
+      ) {
+        throw new InvalidCursorError(cursor);
+      }
+
+      do {
+        const result = await client.send(
+          new QueryCommand({
+            TableName: config.ordersTableName,
+            IndexName: ORDERS_BY_MERCHANT_INDEX,
+            ...expressions,
+            ScanIndexForward: false,
+            Limit: limit - items.length,
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+        items.push(...((result.Items as StoredOrder[] | undefined) || []).map(readStoredOrder));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey && items.length < limit);
+
+      return {
+        items,
+        hasMore: !!exclusiveStartKey,
+        lastKey: exclusiveStartKey ? encodeCursor(exclusiveStartKey) : undefined,
+      };
+    },
+
+    async queryOrdersByStatus(statuses, createdSince) {
+      const results = await Promise.all(
+        statuses.map((status) =>
+          orders.queryIndex<StoredOrder>(
+            ORDERS_BY_STATUS_INDEX,
+            "status",
+            status,
+            createdSince ? { attribute: "createdAt", value: createdSince } : undefined
+          )
+        )
+      );
+      return results.flat().map(readStoredOrder);
+    },
+
+    upsertPaymentStatus: (record) => paymentStatuses.put(record),
+
+    getPaymentStatus: (orderId) => paymentStatuses.get<PaymentStatusRecord>(orderId),
+
+    async updatePaymentStatus(orderId, updates) {
+      // Same as updateOrder: only write over the version that was merged
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const existing = await paymentStatuses.get<PaymentStatusRecord>(orderId);
+        const record = mergePaymentStatus(orderId, existing, updates);
+        if (await paymentStatuses.putIfUnchanged(record, existing)) {
+          return record;
+        }
+      }
+      throw new ConcurrentUpdateError(orderId);
+    },
+
+    deletePaymentStatus: (orderId) => paymentStatuses.delete(orderId),
+
+    async queryPaymentStatuses(statuses, updatedSince) {
+      const results = await Promise.all(
+        statuses.map((status) =>
+          paymentStatuses.queryIndex<PaymentStatusRecord>(
+            PAYMENT_STATUSES_BY_STATUS_INDEX,
+            "status",
+            status,
+            updatedSince ? { attribute: "updatedAt", value: updatedSince } : undefined
+          )
+        )
+      );
+      return results.flat();
+    },
+
+    async updateOrderAndPaymentStatus(orderId, orderUpdates, paymentUpdates, expected) {
+      const [existingOrder, existingStatus] = await Promise.all([
+        getOrder(orderId),
+        paymentStatuses.get<PaymentStatusRecord>(orderId),
+      ]);
+      if (!existingOrder) {
+        throw new Error(`Order not found: ${orderId}`);
+      }
+      // The transaction below is conditioned on the versions read here
+      assertRecordVersions(existingOrder, existingStatus, expected);
+
+      const order = applyOrderUpdate(existingOrder, orderUpdates);
+      const paymentStatus = mergePaymentStatus(orderId, existingStatus, paymentUpdates);
+
+      try {
+        await client.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              orders.versionedPut(order, existingOrder),
+              paymentStatuses.versionedPut(paymentStatus, existingStatus),
+            ],
+          })
+        );
+      } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+          throw new ConcurrentUpdateError(orderId);
+        }
+        throw error;
+      }
+
+      return { order, paymentStatus };
+    },
+
+    async claimTransfer(claim) {
+      if (await consumedTransfers.putIfAbsent(claim)) {
+        return claim;
+      }
+      const existing = await consumedTransfers.get<ConsumedTransfer>(claim.transferKey);
+      return existing || claim;
+    },
+
+    getConsumedTransfer: (transferKey) =>
+      consumedTransfers.get<ConsumedTransfer>(transferKey),
+
+    releaseTransfer: (transferKey, orderId) =>
+      consumedTransfers.deleteIf(transferKey, "orderId", orderId),
+
+    async claimDepositAddress(claim) {
+      if (await depositAddressClaims.putIfAbsent(claim)) {
+        return claim;
+      }
+      const existing = await depositAddressClaims.get<DepositAddressClaim>(claim.address);
+      return existing || claim;
+    },
+
+    getDepositAddressClaim: (address) =>
+      depositAddressClaims.get<DepositAddressClaim>(address),
+
+    releaseDepositAddress: (address, orderId) =>
+      depositAddressClaims.deleteIf(address, "orderId", orderId),
+
+    async claimPaymentAmounts(claims) {
+      // Claims the order already holds are written again unchanged
+      try {
+        await client.send(
+          new TransactWriteCommand({
+            TransactItems: claims.map((claim) => ({
+              Put: {
+                TableName: config.paymentAmountClaimsTableName,
+                Item: claim,
+                ConditionExpression: "attribute_not_exists(#key) OR #orderId = :orderId",
+                ExpressionAttributeNames: { "#key": "claimKey", "#orderId": "orderId" },
+                ExpressionAttributeValues: { ":orderId": claim.orderId },
+              },
+            })),
+          })
+        );
+        return true;
+      } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    getPaymentAmountClaimsByAddress: (address) =>
+      paymentAmountClaims.queryIndex<PaymentAmountClaim>(
+        AMOUNT_CLAIMS_BY_ADDRESS_INDEX,
+        "address",
+        address
+      ),
+
+    releasePaymentAmount: (claimKey, orderId) =>
+      paymentAmountClaims.deleteIf(claimKey, "orderId", orderId),
+
+    async recordWebhookEvent(event) {
+      if (await webhookEvents.putIfAbsent(event)) {
+        return event;
+      }
+      const existing = await webhookEvents.get<WebhookEvent>(event.eventKey);
+      return existing || event;
+    },
+
+    getWebhookEvent: (eventKey) => webhookEvents.get<WebhookEvent>(eventKey),
+
+    async updateWebhookEvent(eventKey, updates) {
+      const existing = await webhookEvents.get<WebhookEvent>(eventKey);
+      if (!existing) {
+        throw new Error(`Webhook event not found: ${eventKey}`);
+      }
+      return webhookEvents.put({ ...existing, ...updates, eventKey });
+    },
+
+    putMerchant: (merchant) => merchants.put(merchant),
+
+    getMerchant: (merchantId) => merchants.get<Merchant>(merchantId),
+
+    getAllMerchants: () => merchants.scan<Merchant>(),
+
+    putApiKey: (key) => apiKeys.put(key),
+
+    getApiKey: (keyId) => apiKeys.get<MerchantApiKey>(keyId),
+
+    async getApiKeysByMerchant(merchantId) {
+      const allKeys = await apiKeys.scan<MerchantApiKey>();
+      return allKeys.filter((key) => key.merchantId === merchantId);
+    },
+
+    putRefund: (refund) => refunds.put(refund),
+
+    async addRefund(refund, expectedRefundCount) {
+      const payment = await paymentStatuses.get<PaymentStatusRecord>(refund.orderId);
+      if (!payment || (payment.refundCount ?? 0) !== expectedRefundCount) {
+        throw new ConcurrentUpdateError(refund.orderId);
+      }
+
+      // Counting the refund bumps the payment status's version, so the
+      // next refund (or a concurrent one) is checked against this one
+      const counted = {
+        ...payment,
+        refundCount: expectedRefundCount + 1,
+        updatedAt: new Date().toISOString(),
+      };
+      try {
+        await client.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              paymentStatuses.versionedPut(counted, payment),
+              refunds.versionedPut(refund, null),
+            ],
+          })
+        );
+      } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+          throw new ConcurrentUpdateError(refund.orderId);
+        }
+        throw error;
+      }
+      return refund;
+    },
+
+    getRefund: (refundId) => refunds.get<Refund>(refundId),
+
+    async getRefundsByOrder(orderId) {
+      const allRefunds = await refunds.scan<Refund>();
+      return allRefunds.filter((refund) => refund.orderId === orderId);
+    },
+
+    async scanRefunds(status) {
+      const allRefunds = await refunds.scan<Refund>();
+      return allRefunds.filter((refund) => !status || refund.status === status);
+    },
+
+    getAllOrders: scanOrders,
+
+    getAllPaymentStatuses: () => paymentStatuses.scan<PaymentStatusRecord>(),
+
+    async clearAllData() {
+      const [
+        allOrders,
+        allStatuses,
+        allTransfers,
+        allDepositClaims,
+        allAmountClaims,
+        allEvents,
+        allMerchants,
+        allKeys,
+        allRefunds,
+      ] = await Promise.all([
+        orders.scan<Order>(),
+        paymentStatuses.scan<PaymentStatusRecord>(),
+        consumedTransfers.scan<ConsumedTransfer>(),
+        depositAddressClaims.scan<DepositAddressClaim>(),
+        paymentAmountClaims.scan<PaymentAmountClaim>(),
+        webhookEvents.scan<WebhookEvent>(),
+        merchants.scan<Merchant>(),
+        apiKeys.scan<MerchantApiKey>(),
+        refunds.scan<Refund>(),
+      ]);
+      await Promise.all([
+        ...allOrders.map((order) => orders.delete(order.orderId)),
+        ...allStatuses.map((record) => paymentStatuses.delete(record.orderId)),
+        ...allTransfers.map((transfer) => consumedTransfers.delete(transfer.transferKey)),
+        ...allDepositClaims.map((claim) => depositAddressClaims.delete(claim.address)),
+        ...allAmountClaims.map((claim) => paymentAmountClaims.delete(claim.claimKey)),
+        ...allEvents.map((event) => webhookEvents.delete(event.eventKey)),
+        ...allMerchants.map((merchant) => merchants.delete(merchant.merchantId)),
+        ...allKeys.map((key) => apiKeys.delete(key.keyId)),
+        ...allRefunds.map((refund) => refunds.delete(refund.refundId)),
+      ]);
+    },
+
+    async getStoreStats() {
+      const [
+        allOrders,
+        allStatuses,
+        allTransfers,
+        allDepositClaims,
+        allAmountClaims,
+        allEvents,
+        allMerchants,
+        allKeys,
+        allRefunds,
+      ] = await Promise.all([
+        orders.scan<Order>(),
+        paymentStatuses.scan<PaymentStatusRecord>(),
+        consumedTransfers.scan<ConsumedTransfer>(),
+        depositAddressClaims.scan<DepositAddressClaim>(),
+        paymentAmountClaims.scan<PaymentAmountClaim>(),
+        webhookEvents.scan<WebhookEvent>(),
+        merchants.scan<Merchant>(),
+        apiKeys.scan<MerchantApiKey>(),
+        refunds.scan<Refund>(),
+      ]);
+      return {
+        orders: allOrders.length,
+        paymentStatuses: allStatuses.length,
+        consumedTransfers: allTransfers.length,
+        depositAddressClaims: allDepositClaims.length,
+        paymentAmountClaims: allAmountClaims.length,
+        webhookEvents: allEvents.length,
+        merchants: allMerchants.length,
+        apiKeys: allKeys.length,
+        refunds: allRefunds.length,
+      };
+    },
+  };
+}
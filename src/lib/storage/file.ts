@@ -0,0 +1,110 @@
+/**
+ * ===========================================
+ * File Storage Backend (Local Development)
+ * ===========================================
+ *
+ * Persists orders and payment status to a single JSON file so that
+ * in-flight orders survive dev-server restarts and can be shared with
+ * other local processes. Not intended for production use.
+ *
+ * The file is re-read on every operation and rewritten atomically
+ * (write to temp file, then rename) after every mutation.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { StorageAdapter } from "./types";
+import {
+  createEmptyTables,
+  createTableStorage,
+  type StorageTables,
+} from "./memory";
+import { readStoredOrder } from "./records";
+
+// ===========================================
+// Serialization
+// ===========================================
+
+/**
+ * On-disk representation: one object per table, keyed like the Map
+ */
+type FileSnapshot = Record<string, Record<string, unknown>>;
+
+/**
+ * Iterate the tables as generic Maps (used for (de)serialization)
+ */
+function tableEntries(tables: StorageTables): [string, Map<string, unknown>][] {
+  return Object.entries(tables) as [string, Map<string, unknown>][];
+}
+
+/**
+ * Load tables from disk (empty tables if the file does not exist yet)
+ */
+async function loadTables(filePath: string): Promise<StorageTables> {
+  const tables = createEmptyTables();
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return tables;
+    }
+    throw error;
+  }
+
+  const snapshot = JSON.parse(raw) as FileSnapshot;
+  for (const [name, table] of tableEntries(tables)) {
+    for (const [key, value] of Object.entries(snapshot[name] || {})) {
+      table.set(key, value);
+    }
+  }
+  // Orders written before amounts were Money
+  for (const [orderId, order] of tables.orders) {
+    tables.orders.set(orderId, readStoredOrder(order));
+  }
+  return tables;
+}
+
+/**
+ * Write tables to disk atomically
+ */
+async function saveTables(filePath: string, tables: StorageTables): Promise<void> {
+  const snapshot: FileSnapshot = {};
+  for (const [name, table] of tableEntries(tables)) {
+    snapshot[name] = Object.fromEntries(table);
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(snapshot, null, 2), "utf-8");
+  await fs.rename(tempPath, filePath);
+}
+
+// ===========================================
+// File Backend
+// ===========================================
+
+/**
+ * Create a JSON-file storage adapter
+ *
+ * @param filePath - Path of the JSON file to read and write
+ */
+export function createFileStorage(filePath: string): StorageAdapter {
+  // Serialize operations within this process to avoid lost updates
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return createTableStorage("file", (write, operation) => {
+    const run = queue.then(async () => {
+      const tables = await loadTables(filePath);
+      const result = operation(tables);
+      if (write) {
+        await saveTables(filePath, tables);
+      }
+      return result;
+    });
+    // Keep the queue alive even if this operation fails
+    queue = run.catch(() => undefined);
+    return run;
+  });
+}
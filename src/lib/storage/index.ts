@@ -0,0 +1,139 @@
+/**
+ * ===========================================
+ * Storage Backend Selection
+ * ===========================================
+ *
+ * Picks the storage backend from configuration:
+ *
+ * - STORAGE_BACKEND=memory    In-memory Maps (default when nothing is configured)
+ * - STORAGE_BACKEND=file      JSON file at STORAGE_FILE_PATH (default: .data/storage.json)
+ * - STORAGE_BACKEND=dynamodb  DYNAMODB_ORDERS_TABLE / DYNAMODB_PAYMENT_STATUS_TABLE /
+ *                             DYNAMODB_CONSUMED_TRANSFERS_TABLE /
+ *                             DYNAMODB_DEPOSIT_ADDRESS_CLAIMS_TABLE /
+ *                             DYNAMODB_PAYMENT_AMOUNT_CLAIMS_TABLE / DYNAMODB_WEBHOOK_EVENTS_TABLE /
+ *                             DYNAMODB_MERCHANTS_TABLE / DYNAMODB_API_KEYS_TABLE /
+ *                             DYNAMODB_REFUNDS_TABLE
+ *
+ * If STORAGE_BACKEND is not set, DynamoDB is used when every table name
+ * above is configured, otherwise the in-memory backend.
+ */
+
+import path from "path";
+import type { StorageAdapter, StorageBackend } from "./types";
+import { createMemoryStorage } from "./memory";
+import { createFileStorage } from "./file";
+import { createDynamoStorage, type DynamoStorageConfig } from "./dynamodb";
+
+export type { StorageAdapter, StorageBackend, StoreStats } from "./types";
+export { ConcurrentUpdateError, InvalidCursorError } from "./records";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+const DEFAULT_STORAGE_FILE_PATH = ".data/storage.json";
+
+/**
+ * Environment variable holding each DynamoDB table name
+ */
+const DYNAMODB_TABLE_VARIABLES: Record<Exclude<keyof DynamoStorageConfig, "region">, string> = {
+  ordersTableName: "DYNAMODB_ORDERS_TABLE",
+  paymentStatusTableName: "DYNAMODB_PAYMENT_STATUS_TABLE",
+  consumedTransfersTableName: "DYNAMODB_CONSUMED_TRANSFERS_TABLE",
+  depositAddressClaimsTableName: "DYNAMODB_DEPOSIT_ADDRESS_CLAIMS_TABLE",
+  paymentAmountClaimsTableName: "DYNAMODB_PAYMENT_AMOUNT_CLAIMS_TABLE",
+  webhookEventsTableName: "DYNAMODB_WEBHOOK_EVENTS_TABLE",
+  merchantsTableName: "DYNAMODB_MERCHANTS_TABLE",
+  apiKeysTableName: "DYNAMODB_API_KEYS_TABLE",
+  refundsTableName: "DYNAMODB_REFUNDS_TABLE",
+};
+
+/**
+ * Table name variables that are not set
+ */
+function getMissingTableVariables(): string[] {
+  return Object.values(DYNAMODB_TABLE_VARIABLES).filter((variable) => !process.env[variable]);
+}
+
+/**
+ * Resolve which backend to use from environment variables
+ */
+export function resolveStorageBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND?.toLowerCase();
+
+  if (configured === "memory" || configured === "file" || configured === "dynamodb") {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`[Storage] Unknown STORAGE_BACKEND "${configured}", auto-detecting`);
+  }
+
+  const missing = getMissingTableVariables();
+  if (missing.length === 0) {
+    return "dynamodb";
+  }
+  if (missing.length < Object.keys(DYNAMODB_TABLE_VARIABLES).length) {
+    console.warn(`[Storage] DynamoDB tables partly configured (missing ${missing.join(", ")}), using memory`);
+  }
+  return "memory";
+}
+
+/**
+ * Instantiate the adapter for a backend
+ */
+function createStorage(backend: StorageBackend): StorageAdapter {
+  switch (backend) {
+    case "file": {
+      const filePath = path.resolve(
+        process.env.STORAGE_FILE_PATH || DEFAULT_STORAGE_FILE_PATH
+      );
+      console.log(`[Storage] Using file backend: ${filePath}`);
+      return createFileStorage(filePath);
+    }
+
+    case "dynamodb": {
+      const missing = getMissingTableVariables();
+      if (missing.length > 0) {
+        throw new Error(
+          `${missing.join(", ")} must be set for the dynamodb storage backend`
+        );
+      }
+      const tableNames = Object.fromEntries(
+        Object.entries(DYNAMODB_TABLE_VARIABLES).map(([key, variable]) => [key, process.env[variable]])
+      ) as Omit<DynamoStorageConfig, "region">;
+      console.log(`[Storage] Using DynamoDB backend: ${Object.values(tableNames).join(", ")}`);
+      return createDynamoStorage({
+        region: process.env.AWS_REGION || "us-east-1",
+        ...tableNames,
+      });
+    }
+
+    default:
+      console.log("[Storage] Using in-memory backend (data is lost on restart)");
+      return createMemoryStorage();
+  }
+}
+
+// ===========================================
+// Adapter Access
+// ===========================================
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Get the configured storage adapter (created on first use)
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createStorage(resolveStorageBackend());
+  }
+  return storage;
+}
+
+/**
+ * Replace the storage adapter (for tests and scripts)
+ */
+export function setStorage(adapter: StorageAdapter | null): void {
+  storage = adapter;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./memory";
+import { ConcurrentUpdateError } from "./records";
+import type { Order } from "../types";
+
+function createTestOrder(): Order {
+  const now = new Date().toISOString();
+  return {
+    orderId: "order-1",
+    amount: { minorUnits: 500, currency: "USD" },
+    paymentAmount: "5.004217",
+    dustUnits: 4217,
+    stablecoin: "USDC",
+    networkId: "polygon",
+    merchantWalletAddress: "0x1111111111111111111111111111111111111111",
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+    expiresAt: now,
+  };
+}
+
+describe("updateOrderAndPaymentStatus", () => {
+  it("writes when both records are at the expected versions", async () => {
+    const storage = createMemoryStorage();
+    const order = await storage.createOrder(createTestOrder());
+
+    const result = await storage.updateOrderAndPaymentStatus(
+      order.orderId,
+      { status: "expired" },
+      { status: "expired" },
+      { order: order.updatedAt, paymentStatus: null }
+    );
+
+    expect(result.order.status).toBe("expired");
+    expect(result.paymentStatus.status).toBe("expired");
+  });
+
+  it("refuses the write when a record changed since it was read", async () => {
+    const storage = createMemoryStorage();
+    const order = await storage.createOrder(createTestOrder());
+    const versions = { order: order.updatedAt, paymentStatus: null };
+
+    // Another writer gets there first
+    const payment = await storage.upsertPaymentStatus({
+      orderId: order.orderId,
+      status: "confirming",
+      updatedAt: new Date(Date.now() + 1000).toISOString(),
+    });
+
+    await expect(
+      storage.updateOrderAndPaymentStatus(
+        order.orderId,
+        { status: "expired" },
+        { status: "expired" },
+        versions
+      )
+    ).rejects.toThrow(ConcurrentUpdateError);
+    expect(await storage.getPaymentStatus(order.orderId)).toEqual(payment);
+    expect((await storage.getOrder(order.orderId))?.status).toBe("pending");
+  });
+});
+
+describe("claimDepositAddress", () => {
+  const address = "0x2222222222222222222222222222222222222222";
+
+  function createClaim(orderId: string) {
+    return { address, merchantId: "default", orderId, claimedAt: new Date().toISOString() };
+  }
+
+  it("gives an address to one order until that order releases it", async () => {
+    const storage = createMemoryStorage();
+    const [first, second] = await Promise.all([
+      storage.claimDepositAddress(createClaim("order-1")),
+      storage.claimDepositAddress(createClaim("order-2")),
+    ]);
+    expect(first.orderId).toBe("order-1");
+    expect(second.orderId).toBe("order-1");
+
+    // Only the holder can release it
+    expect(await storage.releaseDepositAddress(address, "order-2")).toBe(false);
+    expect(await storage.releaseDepositAddress(address, "order-1")).toBe(true);
+    expect((await storage.claimDepositAddress(createClaim("order-2"))).orderId).toBe("order-2");
+  });
+});
+
+describe("claimPaymentAmounts", () => {
+  function createClaim(orderId: string, address: string) {
+    return {
+      claimKey: `${address}:5.004217`,
+      address,
+      paymentAmount: "5.004217",
+      merchantId: "default",
+      orderId,
+      claimedAt: new Date().toISOString(),
+    };
+  }
+
+  it("claims an amount at every address or at none", async () => {
+    const storage = createMemoryStorage();
+    expect(await storage.claimPaymentAmounts([createClaim("order-1", "0xaaa")])).toBe(true);
+
+    // The amount is held at one of the addresses
+    const claims = [createClaim("order-2", "0xbbb"), createClaim("order-2", "0xaaa")];
+    expect(await storage.claimPaymentAmounts(claims)).toBe(false);
+    expect(await storage.getPaymentAmountClaimsByAddress("0xbbb")).toEqual([]);
+
+    // Claiming again for the holder is a no-op
+    expect(await storage.claimPaymentAmounts([createClaim("order-1", "0xaaa")])).toBe(true);
+    expect(await storage.releasePaymentAmount("0xaaa:5.004217", "order-2")).toBe(false);
+    expect(await storage.releasePaymentAmount("0xaaa:5.004217", "order-1")).toBe(true);
+    expect(await storage.claimPaymentAmounts(claims)).toBe(true);
+  });
+});
@@ -0,0 +1,410 @@
+/**
+ * ===========================================
+ * In-Memory Storage Backend
+ * ===========================================
+ *
+ * Keeps orders, payment status, transfer claims, deposit address and
+ * payment amount claims, webhook events, merchants, API keys and refunds
+ * in Maps. Suitable for demos and
+ * single-instance development; data is lost on every cold start.
+ *
+ * The table logic is written against a `TableAccess` function so the
+ * file backend can reuse it by loading/saving the same tables from disk.
+ */
+
+import type {
+  ConsumedTransfer,
+  DepositAddressClaim,
+  Merchant,
+  MerchantApiKey,
+  Order,
+  PaymentAmountClaim,
+  PaymentStatusRecord,
+  Refund,
+  WebhookEvent,
+} from "../types";
+import type { StorageAdapter, StorageBackend } from "./types";
+import {
+  applyOrderUpdate,
+  assertRecordVersions,
+  ConcurrentUpdateError,
+  mergePaymentStatus,
+  matchesOrderQuery,
+  paginateOrders,
+} from "./records";
+
+// ===========================================
+// Tables
+// ===========================================
+
+/**
+ * The set of tables held by table-based backends
+ */
+export interface StorageTables {
+  /** Key: orderId, Value: Order */
+  orders: Map<string, Order>;
+  /** Key: orderId, Value: PaymentStatusRecord */
+  paymentStatuses: Map<string, PaymentStatusRecord>;
+  /** Key: transferKey, Value: ConsumedTransfer */
+  consumedTransfers: Map<string, ConsumedTransfer>;
+  /** Key: address (lowercase), Value: DepositAddressClaim */
+  depositAddressClaims: Map<string, DepositAddressClaim>;
+  /** Key: claimKey, Value: PaymentAmountClaim */
+  paymentAmountClaims: Map<string, PaymentAmountClaim>;
+  /** Key: eventKey, Value: WebhookEvent */
+  webhookEvents: Map<string, WebhookEvent>;
+  /** Key: merchantId, Value: Merchant */
+  merchants: Map<string, Merchant>;
+  /** Key: keyId, Value: MerchantApiKey */
+  apiKeys: Map<string, MerchantApiKey>;
+  /** Key: refundId, Value: Refund */
+  refunds: Map<string, Refund>;
+}
+
+/**
+ * Runs an operation against the tables
+ *
+ * @param write - Whether the operation mutates the tables
+ * @param operation - Function receiving the tables
+ */
+export type TableAccess = <T>(
+  write: boolean,
+  operation: (tables: StorageTables) => T
+) => Promise<T>;
+
+/**
+ * Create an empty set of tables
+ */
+export function createEmptyTables(): StorageTables {
+  return {
+    orders: new Map(),
+    paymentStatuses: new Map(),
+    consumedTransfers: new Map(),
+    depositAddressClaims: new Map(),
+    paymentAmountClaims: new Map(),
+    webhookEvents: new Map(),
+    merchants: new Map(),
+    apiKeys: new Map(),
+    refunds: new Map(),
+  };
+}
+
+// ===========================================
+// Table-backed Adapter
+// ===========================================
+
+/**
+ * Build a storage adapter on top of Map-based tables
+ *
+ * @param backend - Backend identifier reported by the adapter
+ * @param access - Function giving (possibly persisted) access to the tables
+ */
+export function createTableStorage(
+  backend: StorageBackend,
+  access: TableAccess
+): StorageAdapter {
+  return {
+    backend,
+
+    createOrder: (order) =>
+      access(true, ({ orders }) => {
+        orders.set(order.orderId, order);
+        return order;
+      }),
+
+    getOrder: (orderId) =>
+      access(false, ({ orders }) => orders.get(orderId) || null),
+
+    updateOrder: (orderId, updates) =>
+      access(true, ({ orders }) => {
+        const existing = orders.get(orderId);
+        if (!existing) {
+          throw new Error(`Order not found: ${orderId}`);
+        }
+        const updated = applyOrderUpdate(existing, updates);
+        orders.set(orderId, updated);
+        return updated;
+      }),
+
+    deleteOrder: (orderId) =>
+      access(true, ({ orders }) => {
+        orders.delete(orderId);
+      }),
+
+    queryOrders: (query) =>
+      access(false, ({ orders, consumedTransfers }) => {
+        let candidates = Array.from(orders.values());
+        if (query.transactionHash) {
+          const hash = query.transactionHash.toLowerCase();
+          const orderIds = new Set(
+            Array.from(consumedTransfers.values())
+              .filter((claim) => claim.transactionHash === hash)
+              .map((claim) => claim.orderId)
+          );
+          candidates = candidates.filter((order) => orderIds.has(order.orderId));
+        }
+        return paginateOrders(
+          candidates.filter((order) => matchesOrderQuery(order, query)),
+          query
+        );
+      }),
+
+    queryOrdersByStatus: (statuses, createdSince) =>
+      access(false, ({ orders }) =>
+        Array.from(orders.values()).filter(
+          (order) =>
+            statuses.includes(order.status) &&
+            (!createdSince || order.createdAt >= createdSince)
+        )
+      ),
+
+    upsertPaymentStatus: (record) =>
+      access(true, ({ paymentStatuses }) => {
+        paymentStatuses.set(record.orderId, record);
+        return record;
+      }),
+
+    getPaymentStatus: (orderId) =>
+      access(false, ({ paymentStatuses }) => paymentStatuses.get(orderId) || null),
+
+    updatePaymentStatus: (orderId, updates) =>
+      access(true, ({ paymentStatuses }) => {
+        const updated = mergePaymentStatus(
+          orderId,
+          paymentStatuses.get(orderId) || null,
+          updates
+        );
+        paymentStatuses.set(orderId, updated);
+        return updated;
+      }),
+
+    deletePaymentStatus: (orderId) =>
+      access(true, ({ paymentStatuses }) => {
+        paymentStatuses.delete(orderId);
+      }),
+
+    queryPaymentStatuses: (statuses, updatedSince) =>
+      access(false, ({ paymentStatuses }) =>
+        Array.from(paymentStatuses.values()).filter(
+          (record) =>
+            statuses.includes(record.status) &&
+            (!updatedSince || record.updatedAt >= updatedSince)
+        )
+      ),
+
+    updateOrderAndPaymentStatus: (orderId, orderUpdates, paymentUpdates, expected) =>
+      access(true, ({ orders, paymentStatuses }) => {
+        const existing = orders.get(orderId);
+        if (!existing) {
+          throw new Error(`Order not found: ${orderId}`);
+        }
+        const existingStatus = paymentStatuses.get(orderId) || null;
+        assertRecordVersions(existing, existingStatus, expected);
+        const order = applyOrderUpdate(existing, orderUpdates);
+        const paymentStatus = mergePaymentStatus(orderId, existingStatus, paymentUpdates);
+        orders.set(orderId, order);
+        paymentStatuses.set(orderId, paymentStatus);
+        return { order, paymentStatus };
+      }),
+
+    claimTransfer: (claim) =>
+      access(true, ({ consumedTransfers }) => {
+        const existing = consumedTransfers.get(claim.transferKey);
+        if (existing) {
+          return existing;
+        }
+        consumedTransfers.set(claim.transferKey, claim);
+        return claim;
+      }),
+
+    getConsumedTransfer: (transferKey) =>
+      access(false, ({ consumedTransfers }) => consumedTransfers.get(transferKey) || null),
+
+    releaseTransfer: (transferKey, orderId) =>
+      access(true, ({ consumedTransfers }) => {
+        if (consumedTransfers.get(transferKey)?.orderId !== orderId) {
+          return false;
+        }
+        return consumedTransfers.delete(transferKey);
+      }),
+
+    claimDepositAddress: (claim) =>
+      access(true, ({ depositAddressClaims }) => {
+        const existing = depositAddressClaims.get(claim.address);
+        if (existing) {
+          return existing;
+        }
+        depositAddressClaims.set(claim.address, claim);
+        return claim;
+      }),
+
+    getDepositAddressClaim: (address) =>
+      access(false, ({ depositAddressClaims }) => depositAddressClaims.get(address) || null),
+
+    releaseDepositAddress: (address, orderId) =>
+      access(true, ({ depositAddressClaims }) => {
+        if (depositAddressClaims.get(address)?.orderId !== orderId) {
+          return false;
+        }
+        return depositAddressClaims.delete(address);
+      }),
+
+    claimPaymentAmounts: (claims) =>
+      access(true, ({ paymentAmountClaims }) => {
+        const held = claims.some((claim) => {
+          const existing = paymentAmountClaims.get(claim.claimKey);
+          return existing && existing.orderId !== claim.orderId;
+        });
+        if (held) {
+          return false;
+        }
+        for (const claim of claims) {
+          if (!paymentAmountClaims.has(claim.claimKey)) {
+            paymentAmountClaims.set(claim.claimKey, claim);
+          }
+        }
+        return true;
+      }),
+
+    getPaymentAmountClaimsByAddress: (address) =>
+      access(false, ({ paymentAmountClaims }) =>
+        Array.from(paymentAmountClaims.values()).filter((claim) => claim.address === address)
+      ),
+
+    releasePaymentAmount: (claimKey, orderId) =>
+      access(true, ({ paymentAmountClaims }) => {
+        if (paymentAmountClaims.get(claimKey)?.orderId !== orderId) {
+          return false;
+        }
+        return paymentAmountClaims.delete(claimKey);
+      }),
+
+    recordWebhookEvent: (event) =>
+      access(true, ({ webhookEvents }) => {
+        const existing = webhookEvents.get(event.eventKey);
+        if (existing) {
+          return existing;
+        }
+        webhookEvents.set(event.eventKey, event);
+        return event;
+      }),
+
+    getWebhookEvent: (eventKey) =>
+      access(false, ({ webhookEvents }) => webhookEvents.get(eventKey) || null),
+
+    updateWebhookEvent: (eventKey, updates) =>
+      access(true, ({ webhookEvents }) => {
+        const existing = webhookEvents.get(eventKey);
+        if (!existing) {
+          throw new Error(`Webhook event not found: ${eventKey}`);
+        }
+        const updated = { ...existing, ...updates, eventKey };
+        webhookEvents.set(eventKey, updated);
+        return updated;
+      }),
+
+    putMerchant: (merchant) =>
+      access(true, ({ merchants }) => {
+        merchants.set(merchant.merchantId, merchant);
+        return merchant;
+      }),
+
+    getMerchant: (merchantId) =>
+      access(false, ({ merchants }) => merchants.get(merchantId) || null),
+
+    getAllMerchants: () =>
+      access(false, ({ merchants }) => Array.from(merchants.values())),
+
+    putApiKey: (key) =>
+      access(true, ({ apiKeys }) => {
+        apiKeys.set(key.keyId, key);
+        return key;
+      }),
+
+    getApiKey: (keyId) =>
+      access(false, ({ apiKeys }) => apiKeys.get(keyId) || null),
+
+    getApiKeysByMerchant: (merchantId) =>
+      access(false, ({ apiKeys }) =>
+        Array.from(apiKeys.values()).filter((key) => key.merchantId === merchantId)
+      ),
+
+    putRefund: (refund) =>
+      access(true, ({ refunds }) => {
+        refunds.set(refund.refundId, refund);
+        return refund;
+      }),
+
+    addRefund: (refund, expectedRefundCount) =>
+      access(true, ({ paymentStatuses, refunds }) => {
+        const payment = paymentStatuses.get(refund.orderId);
+        if (!payment || (payment.refundCount ?? 0) !== expectedRefundCount) {
+          throw new ConcurrentUpdateError(refund.orderId);
+        }
+        paymentStatuses.set(refund.orderId, {
+          ...payment,
+          refundCount: expectedRefundCount + 1,
+          updatedAt: new Date().toISOString(),
+        });
+        refunds.set(refund.refundId, refund);
+        return refund;
+      }),
+
+    getRefund: (refundId) =>
+      access(false, ({ refunds }) => refunds.get(refundId) || null),
+
+    getRefundsByOrder: (orderId) =>
+      access(false, ({ refunds }) =>
+        Array.from(refunds.values()).filter((refund) => refund.orderId === orderId)
+      ),
+
+    scanRefunds: (status) =>
+      access(false, ({ refunds }) =>
+        Array.from(refunds.values()).filter((refund) => !status || refund.status === status)
+      ),
+
+    getAllOrders: () =>
+      access(false, ({ orders }) => Array.from(orders.values())),
+
+    getAllPaymentStatuses: () =>
+      access(false, ({ paymentStatuses }) => Array.from(paymentStatuses.values())),
+
+    clearAllData: () =>
+      access(true, (tables) => {
+        tables.orders.clear();
+        tables.paymentStatuses.clear();
+        tables.consumedTransfers.clear();
+        tables.depositAddressClaims.clear();
+        tables.paymentAmountClaims.clear();
+        tables.webhookEvents.clear();
+        tables.merchants.clear();
+        tables.apiKeys.clear();
+        tables.refunds.clear();
+      }),
+
+    getStoreStats: () =>
+      access(false, (tables) => ({
+        orders: tables.orders.size,
+        paymentStatuses: tables.paymentStatuses.size,
+        consumedTransfers: tables.consumedTransfers.size,
+        depositAddressClaims: tables.depositAddressClaims.size,
+        paymentAmountClaims: tables.paymentAmountClaims.size,
+        webhookEvents: tables.webhookEvents.size,
+        merchants: tables.merchants.size,
+        apiKeys: tables.apiKeys.size,
+        refunds: tables.refunds.size,
+      })),
+  };
+}
+
+// ===========================================
+// Memory Backend
+// ===========================================
+
+/**
+ * Create an in-memory storage adapter
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const tables = createEmptyTables();
+  return createTableStorage("memory", async (_write, operation) => operation(tables));
+}
@@ -0,0 +1,263 @@
+/**
+ * ===========================================
+ * Record Helpers
+ * ===========================================
+ *
+ * Pure functions that compute the next version of a record.
+ * Shared by all storage backends so that merge semantics
+ * (status history, timestamps) are identical everywhere.
+ */
+
+import type {
+  Money,
+  Order,
+  OrderItem,
+  OrderQuery,
+  PaginatedResponse,
+  PaymentStatusRecord,
+  StatusHistoryEntry,
+} from "../types";
+import { fromLegacyAmount } from "../money";
+import type { RecordVersions } from "./types";
+
+/**
+ * Thrown when an order or its payment status changed between reading
+ * and writing them
+ */
+export class ConcurrentUpdateError extends Error {
+  constructor(public readonly orderId: string) {
+    super(`Order ${orderId} was modified concurrently, retry the update`);
+    this.name = "ConcurrentUpdateError";
+  }
+}
+
+/**
+ * Check that an order and its payment status are still at the versions
+ * an update was computed from
+ *
+ * @param order - The stored order
+ * @param paymentStatus - The stored payment status, or null
+ * @param expected - The versions that were read (no check if undefined)
+ * @throws ConcurrentUpdateError if either record changed
+ */
+export function assertRecordVersions(
+  order: Order,
+  paymentStatus: PaymentStatusRecord | null,
+  expected: RecordVersions | undefined
+): void {
+  if (
+    expected &&
+    (order.updatedAt !== expected.order ||
+      (paymentStatus?.updatedAt ?? null) !== expected.paymentStatus)
+  ) {
+    throw new ConcurrentUpdateError(order.orderId);
+  }
+}
+
+// ===========================================
+// Stored Orders
+// ===========================================
+
+/** Currency of every order stored before amounts were Money */
+export const LEGACY_ORDER_CURRENCY = "USD";
+
+/**
+ * An order as stored, which may predate Money amounts: `amount` and item
+ * prices were then floats of major units in a top-level `currency`
+ */
+export type StoredOrder = Omit<Order, "amount" | "items"> & {
+  amount: Money | number;
+  currency?: string;
+  items?: (Omit<OrderItem, "price"> & { price: Money | number })[];
+};
+
+/**
+ * Read a stored order, converting legacy float amounts to Money
+ *
+ * Backends apply this to every order they read, so the rest of the app
+ * only sees Money. A converted order is written back in the new shape the
+ * next time it is updated.
+ *
+ * @param stored - The order as stored
+ */
+export function readStoredOrder(stored: StoredOrder): Order {
+  if (
+    typeof stored.amount !== "number" &&
+    !stored.items?.some((item) => typeof item.price === "number")
+  ) {
+    return stored as Order;
+  }
+
+  const { currency = LEGACY_ORDER_CURRENCY, amount, items, ...order } = stored;
+  return {
+    ...order,
+    amount: fromLegacyAmount(amount, currency),
+    ...(items && {
+      items: items.map((item) => ({ ...item, price: fromLegacyAmount(item.price, currency) })),
+    }),
+  };
+}
+
+/**
+ * Apply field updates to an existing order
+ *
+ * @param existing - The stored order
+ * @param updates - Fields to merge (orderId cannot be changed)
+ * @returns The updated order with a fresh updatedAt timestamp
+ */
+export function applyOrderUpdate(existing: Order, updates: Partial<Order>): Order {
+  return {
+    ...existing,
+    ...updates,
+    orderId: existing.orderId,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Merge updates into a payment status record
+ *
+ * Appends a status history entry whenever the status changes. An
+ * explicit `statusHistory` in the updates replaces the stored one.
+ *
+ * @param orderId - The order ID the record belongs to
+ * @param existing - The stored record, or null if none exists yet
+ * @param updates - Fields to merge
+ * @returns The merged record
+ */
+export function mergePaymentStatus(
+  orderId: string,
+  existing: PaymentStatusRecord | null,
+  updates: Partial<PaymentStatusRecord>
+): PaymentStatusRecord {
+  // Build status history entry if status is being updated
+  let statusHistory: StatusHistoryEntry[] =
+    updates.statusHistory || existing?.statusHistory || [];
+  if (updates.status && updates.status !== existing?.status) {
+    statusHistory = [
+      ...statusHistory,
+      {
+        status: updates.status,
+        timestamp: new Date().toISOString(),
+        message: updates.errorMessage,
+      },
+    ];
+  }
+
+  return {
+    orderId,
+    status: existing?.status || "pending",
+    ...existing,
+    ...updates,
+    updatedAt: new Date().toISOString(),
+    statusHistory,
+  };
+}
+
+// ===========================================
+// Order Queries
+// ===========================================
+
+/** Page size when the query doesn't set one */
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Thrown when a pagination cursor can't be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor(public readonly cursor: string) {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+/**
+ * Encode a backend position as an opaque pagination cursor
+ */
+export function encodeCursor(position: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ *
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function decodeCursor(cursor: string): Record<string, unknown> {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (position && typeof position === "object" && !Array.isArray(position)) {
+      return position;
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError(cursor);
+}
+
+/**
+ * Check whether an order passes a query's filters
+ *
+ * The transaction hash is not checked here; backends resolve it through
+ * the consumed-transfer index first.
+ *
+ * @param order - The order to test
+ * @param query - The filters
+ */
+export function matchesOrderQuery(order: Order, query: OrderQuery): boolean {
+  return (
+    order.merchantId === query.merchantId &&
+    (order.environment ?? "mainnet") === query.environment &&
+    (!query.statuses?.length || query.statuses.includes(order.status)) &&
+    (!query.createdFrom || order.createdAt >= query.createdFrom) &&
+    (!query.createdTo || order.createdAt <= query.createdTo) &&
+    (!query.networkId || order.networkId === query.networkId) &&
+    (!query.stablecoin || order.stablecoin === query.stablecoin) &&
+    (!query.currency || order.amount.currency === query.currency) &&
+    (query.minAmount === undefined || order.amount.minorUnits >= query.minAmount) &&
+    (query.maxAmount === undefined || order.amount.minorUnits <= query.maxAmount)
+  );
+}
+
+/**
+ * Sort orders newest first and cut out the page after the query's cursor
+ *
+ * For backends that hold the candidate orders in memory. The cursor is
+ * the (createdAt, orderId) of the last order on the previous page.
+ *
+ * @param orders - Orders that pass the query's filters
+ * @param query - Page size and cursor
+ * @throws InvalidCursorError if the cursor is malformed
+ */
+export function paginateOrders(orders: Order[], query: OrderQuery): PaginatedResponse<Order> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const sorted = [...orders].sort(
+    (a, b) =>
+      b.createdAt.localeCompare(a.createdAt) || b.orderId.localeCompare(a.orderId)
+  );
+
+  let start = 0;
+  if (query.lastKey) {
+    const { createdAt, orderId } = decodeCursor(query.lastKey);
+    if (typeof createdAt !== "string" || typeof orderId !== "string") {
+      throw new InvalidCursorError(query.lastKey);
+    }
+    const index = sorted.findIndex(
+      (order) =>
+        order.createdAt < createdAt ||
+        (order.createdAt === createdAt && order.orderId < orderId)
+    );
+    start = index === -1 ? sorted.length : index;
+  }
+
+  const items = sorted.slice(start, start + limit);
+  const hasMore = start + limit < sorted.length;
+  const last = items[items.length - 1];
+  return {
+    items,
+    hasMore,
+    lastKey: hasMore && last
+      ? encodeCursor({ createdAt: last.createdAt, orderId: last.orderId })
+      : undefined,
+  };
+}
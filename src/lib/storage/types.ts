@@ -0,0 +1,228 @@
+/**
+ * ===========================================
+ * Storage Adapter Types
+ * ===========================================
+ *
+ * Contract shared by every storage backend. The functions mirror the
+ * public API of `lib/dynamo.ts`, which picks an adapter at runtime and
+ * delegates to it, so API routes never depend on a concrete backend.
+ */
+
+import type {
+  ConsumedTransfer,
+  DepositAddressClaim,
+  Merchant,
+  MerchantApiKey,
+  Order,
+  OrderQuery,
+  PaginatedResponse,
+  PaymentAmountClaim,
+  PaymentStatus,
+  PaymentStatusRecord,
+  Refund,
+  RefundStatus,
+  WebhookEvent,
+} from "../types";
+
+/**
+ * Available storage backends
+ *
+ * - memory: module-level Maps (lost on cold start, single instance only)
+ * - file: JSON file on local disk (local development, survives restarts)
+ * - dynamodb: the Order / PaymentStatus tables defined in amplify/data
+ */
+export type StorageBackend = "memory" | "file" | "dynamodb";
+
+/**
+ * Counts returned by getStoreStats
+ */
+export interface StoreStats {
+  orders: number;
+  paymentStatuses: number;
+  consumedTransfers: number;
+  depositAddressClaims: number;
+  paymentAmountClaims: number;
+  webhookEvents: number;
+  merchants: number;
+  apiKeys: number;
+  refunds: number;
+}
+
+/**
+ * The versions (`updatedAt`) of an order and its payment status that an
+ * update was computed from
+ */
+export interface RecordVersions {
+  order: string;
+  /** null if the order had no payment status yet */
+  paymentStatus: string | null;
+}
+
+/**
+ * Operations every storage backend must implement
+ */
+export interface StorageAdapter {
+  /** Backend identifier (for logging and debug endpoints) */
+  readonly backend: StorageBackend;
+
+  // ----- Orders -----
+  createOrder(order: Order): Promise<Order>;
+  getOrder(orderId: string): Promise<Order | null>;
+  /**
+   * Merge fields into an existing order without overwriting concurrent
+   * changes. Throws if the order does not exist, or ConcurrentUpdateError
+   * if it keeps changing while being merged.
+   */
+  updateOrder(orderId: string, updates: Partial<Order>): Promise<Order>;
+  deleteOrder(orderId: string): Promise<void>;
+  /**
+   * One page of a merchant's orders, newest first
+   *
+   * @throws InvalidCursorError if query.lastKey is not a cursor this
+   *         backend returned
+   */
+  queryOrders(query: OrderQuery): Promise<PaginatedResponse<Order>>;
+  /**
+   * Orders in any of the given statuses, optionally only those created at
+   * or after a time (ISO timestamp)
+   */
+  queryOrdersByStatus(statuses: PaymentStatus[], createdSince?: string): Promise<Order[]>;
+
+  // ----- Payment Status -----
+  upsertPaymentStatus(record: PaymentStatusRecord): Promise<PaymentStatusRecord>;
+  getPaymentStatus(orderId: string): Promise<PaymentStatusRecord | null>;
+  updatePaymentStatus(
+    orderId: string,
+    updates: Partial<PaymentStatusRecord>
+  ): Promise<PaymentStatusRecord>;
+  deletePaymentStatus(orderId: string): Promise<void>;
+  /**
+   * Payment statuses in any of the given statuses, optionally only those
+   * updated at or after a time (ISO timestamp)
+   */
+  queryPaymentStatuses(
+    statuses: PaymentStatus[],
+    updatedSince?: string
+  ): Promise<PaymentStatusRecord[]>;
+
+  // ----- Order + Payment Status -----
+  /**
+   * Merge updates into an order and its payment status in one write
+   *
+   * Must be atomic: either both records change or neither does. Throws
+   * if the order does not exist; the payment status is created if needed.
+   *
+   * @param expected - If given, the write only happens while both records
+   *        are still at these versions
+   * @throws ConcurrentUpdateError if a record changed in the meantime
+   */
+  updateOrderAndPaymentStatus(
+    orderId: string,
+    orderUpdates: Partial<Order>,
+    paymentUpdates: Partial<PaymentStatusRecord>,
+    expected?: RecordVersions
+  ): Promise<{ order: Order; paymentStatus: PaymentStatusRecord }>;
+
+  // ----- Consumed Transfers -----
+  /**
+   * Claim a transfer for an order if nobody has claimed it yet
+   *
+   * Must be atomic: of two concurrent claims for the same transferKey,
+   * exactly one wins.
+   *
+   * @returns The stored claim (the caller's, or the existing one if the
+   *          transfer was already claimed)
+   */
+  claimTransfer(claim: ConsumedTransfer): Promise<ConsumedTransfer>;
+  getConsumedTransfer(transferKey: string): Promise<ConsumedTransfer | null>;
+  /**
+   * Remove a claim, but only if it belongs to the given order
+   *
+   * @returns true if the claim was removed
+   */
+  releaseTransfer(transferKey: string, orderId: string): Promise<boolean>;
+
+  // ----- Deposit Address Claims -----
+  /**
+   * Claim a deposit address for an order if no order holds it
+   *
+   * Must be atomic, like claimTransfer.
+   *
+   * @returns The stored claim (the caller's, or the existing one if the
+   *          address is held)
+   */
+  claimDepositAddress(claim: DepositAddressClaim): Promise<DepositAddressClaim>;
+  getDepositAddressClaim(address: string): Promise<DepositAddressClaim | null>;
+  /**
+   * Remove a claim, but only if it belongs to the given order
+   *
+   * @returns true if the claim was removed
+   */
+  releaseDepositAddress(address: string, orderId: string): Promise<boolean>;
+
+  // ----- Payment Amount Claims -----
+  /**
+   * Claim payment amounts for an order if no other order holds them
+   *
+   * Must be atomic: either every claim is stored or none is. Claims the
+   * order already holds count as stored.
+   *
+   * @returns true if the order holds every claim
+   */
+  claimPaymentAmounts(claims: PaymentAmountClaim[]): Promise<boolean>;
+  /** Every claim at a receiving address (lowercase) */
+  getPaymentAmountClaimsByAddress(address: string): Promise<PaymentAmountClaim[]>;
+  /**
+   * Remove a claim, but only if it belongs to the given order
+   *
+   * @returns true if the claim was removed
+   */
+  releasePaymentAmount(claimKey: string, orderId: string): Promise<boolean>;
+
+  // ----- Webhook Events -----
+  /**
+   * Store a webhook event if no event with the same key exists
+   *
+   * Must be atomic, like claimTransfer.
+   *
+   * @returns The caller's event object if it was stored, otherwise the
+   *          existing event
+   */
+  recordWebhookEvent(event: WebhookEvent): Promise<WebhookEvent>;
+  getWebhookEvent(eventKey: string): Promise<WebhookEvent | null>;
+  /** Merge fields into an existing event. Throws if the event does not exist. */
+  updateWebhookEvent(eventKey: string, updates: Partial<WebhookEvent>): Promise<WebhookEvent>;
+
+  // ----- Merchants -----
+  /** Create or replace a merchant */
+  putMerchant(merchant: Merchant): Promise<Merchant>;
+  getMerchant(merchantId: string): Promise<Merchant | null>;
+  getAllMerchants(): Promise<Merchant[]>;
+
+  // ----- API Keys -----
+  /** Create or replace an API key */
+  putApiKey(key: MerchantApiKey): Promise<MerchantApiKey>;
+  getApiKey(keyId: string): Promise<MerchantApiKey | null>;
+  getApiKeysByMerchant(merchantId: string): Promise<MerchantApiKey[]>;
+
+  // ----- Refunds -----
+  /** Create or replace a refund */
+  putRefund(refund: Refund): Promise<Refund>;
+  /**
+   * Create a refund and count it on the order's payment status
+   *
+   * @param expectedRefundCount - The payment status's refundCount the
+   *        refund amount was checked against
+   * @throws ConcurrentUpdateError if another refund was added meanwhile
+   */
+  addRefund(refund: Refund, expectedRefundCount: number): Promise<Refund>;
+  getRefund(refundId: string): Promise<Refund | null>;
+  getRefundsByOrder(orderId: string): Promise<Refund[]>;
+  scanRefunds(status?: RefundStatus): Promise<Refund[]>;
+
+  // ----- Maintenance -----
+  getAllOrders(): Promise<Order[]>;
+  getAllPaymentStatuses(): Promise<PaymentStatusRecord[]>;
+  clearAllData(): Promise<void>;
+  getStoreStats(): Promise<StoreStats>;
+}
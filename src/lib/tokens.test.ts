@@ -0,0 +1,84 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { isChecksumAddress } from "./address";
+
+/**
+ * Decimals of every registry contract, from each token's deployment (a
+ * wrong entry misreads every amount paid in that token)
+ */
+const EXPECTED_DECIMALS = {
+  mainnet: {
+    base: { USDC: 6, DAI: 18 },
+    polygon: { USDC: 6, USDT: 6, DAI: 18, FRAX: 18, TUSD: 18, EURS: 2 },
+    arbitrum: { USDC: 6, USDT: 6, DAI: 18, FRAX: 18, LUSD: 18 },
+    optimism: { USDC: 6, USDT: 6, DAI: 18, FRAX: 18, LUSD: 18, sUSD: 18 },
+    avalanche: { USDC: 6, USDT: 6, DAI: 18, TUSD: 18 },
+    bsc: { USDC: 18, USDT: 18, DAI: 18, BUSD: 18, TUSD: 18, USDD: 18 },
+    ethereum: {
+      USDC: 6, USDT: 6, DAI: 18, FRAX: 18, TUSD: 18, USDP: 18,
+      GUSD: 2, LUSD: 18, sUSD: 18, PYUSD: 6, EURS: 2, EURT: 6,
+    },
+  },
+  testnet: {
+    base: { USDC: 6 },
+    polygon: { USDC: 6 },
+    arbitrum: { USDC: 6 },
+    optimism: { USDC: 6 },
+    avalanche: { USDC: 6 },
+    bsc: {},
+    ethereum: { USDC: 6 },
+  },
+} satisfies Record<string, Record<string, Record<string, number>>>;
+
+/**
+ * Load the token registry of one chain environment (chosen at import time
+ * by NEXT_PUBLIC_TESTNET_MODE)
+ */
+async function loadRegistry(environment: keyof typeof EXPECTED_DECIMALS) {
+  vi.resetModules();
+  vi.stubEnv("NEXT_PUBLIC_TESTNET_MODE", environment === "testnet" ? "true" : "false");
+  const [chains, tokens] = await Promise.all([import("./chains"), import("./tokens")]);
+  return { ...chains, ...tokens };
+}
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+describe.each(["mainnet", "testnet"] as const)("%s registry", async (environment) => {
+  const registry = await loadRegistry(environment);
+  const expected: Record<string, Record<string, number>> = EXPECTED_DECIMALS[environment];
+  const entries = registry.NETWORK_KEYS.flatMap((networkId) =>
+    registry.getNetworkTokens(networkId).map((token) => ({ ...token, label: `${networkId} ${token.symbol}` }))
+  );
+
+  it("lists exactly the expected tokens", () => {
+    expect(
+      Object.fromEntries(
+        registry.NETWORK_KEYS.map((networkId) => [
+          networkId,
+          Object.fromEntries(
+            registry.getNetworkTokens(networkId).map((token) => [token.symbol, token.decimals])
+          ),
+        ])
+      )
+    ).toEqual(expected);
+  });
+
+  describe.each(entries)("$label", (token) => {
+    it("has an EIP-55 checksummed address", () => {
+      expect(isChecksumAddress(token.address)).toBe(true);
+    });
+
+    it("has the deployment's decimals", () => {
+      expect(token.decimals).toBe(expected[token.networkId][token.symbol]);
+    });
+
+    it("is found by its address in any case", () => {
+      expect(registry.getTokenByAddress(token.networkId, token.address.toLowerCase())).toEqual(
+        registry.getToken(token.networkId, token.symbol)
+      );
+      expect(registry.getTokenByAddress(token.networkId, token.address.toUpperCase().replace("0X", "0x")))
+        .toMatchObject({ symbol: token.symbol, decimals: token.decimals });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * ===========================================
+ * Stablecoin Token Lookups
+ * ===========================================
+ *
+ * Lookups over the stablecoin contracts in the chain registry
+ * (lib/chains.ts), with the decimals of each specific contract. Decimals
+ * differ per deployment, not just per symbol (USDC and USDT are 6 decimals
+ * on most chains but 18 on BSC), so amounts must always be converted with
+ * the entry for the exact (network, contract) pair.
+ *
+ * Used for QR amount encoding (lib/walletconnect.ts) and for parsing
+ * Transfer logs (lib/blockchain.ts).
+ */
+
+import { CHAINS, getChain, type NetworkKey, type StablecoinKey } from "./chains";
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * One stablecoin contract on one network
+ */
+export interface TokenInfo {
+  networkId: NetworkKey;
+  symbol: string;
+  /** Contract address */
+  address: string;
+  /** Decimals of this contract (ERC20 `decimals()`) */
+  decimals: number;
+}
+
+// ===========================================
+// Address Index
+// ===========================================
+
+/** Every registry token, keyed by `network:lowercase address` */
+const TOKENS_BY_ADDRESS = new Map<string, TokenInfo>(
+  Object.values(CHAINS).flatMap((chain) =>
+    Object.entries(chain.tokens).map(([symbol, token]): [string, TokenInfo] => [
+      `${chain.id}:${token.address.toLowerCase()}`,
+      { networkId: chain.id, symbol, ...token },
+    ])
+  )
+);
+
+// ===========================================
+// Lookups
+// ===========================================
+
+/**
+ * Get a stablecoin contract by network and symbol
+ *
+ * @returns The token, or null if the symbol isn't deployed on the network
+ */
+export function getToken(networkId: string, symbol: string): TokenInfo | null {
+  const chain = getChain(networkId);
+  const token = chain?.tokens[symbol as StablecoinKey];
+  return chain && token ? { networkId: chain.id, symbol, ...token } : null;
+}
+
+/**
+ * Identify a stablecoin contract by its address
+ *
+ * @param networkId - Network the contract is on
+ * @param address - Contract address (any case)
+ * @returns The token, or null if the contract isn't a known stablecoin
+ */
+export function getTokenByAddress(networkId: string, address: string): TokenInfo | null {
+  return TOKENS_BY_ADDRESS.get(`${networkId}:${address.toLowerCase()}`) || null;
+}
+
+/**
+ * All stablecoin contracts on a network
+ */
+export function getNetworkTokens(networkId: string): TokenInfo[] {
+  return Object.keys(getChain(networkId)?.tokens || {}).map(
+    (symbol) => getToken(networkId, symbol)!
+  );
+}
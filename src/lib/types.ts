@@ -7,6 +7,8 @@
  * All API responses, database models, and domain types are defined here.
  */
 
+import type { ChainEnvironment } from "./chains";
+
 // ===========================================
 // Payment Status Types
 // ===========================================
@@ -19,7 +21,14 @@ export type PaymentStatus =
   | 'scanning'     // Customer has scanned QR
   | 'authorizing'  // Customer is authorizing in wallet
   | 'processing'   // Payment is being processed
+  | 'confirming'   // Transfer seen on-chain, waiting for confirmations
+  | 'reorged'      // Settling transfer dropped by a chain reorganization
   | 'completed'    // Payment successful
+  | 'partially_paid' // Part of the order amount received, awaiting the rest
+  | 'underpaid'    // Order expired with less than the order amount received
+  | 'overpaid'     // Transfer received for more than the order amount
+  | 'partially_refunded' // Part of the payment was sent back to the customer
+  | 'refunded'     // The whole payment was sent back to the customer
   | 'failed'       // Payment failed
   | 'expired'      // Payment request expired
   | 'cancelled';   // Payment cancelled by merchant/customer
@@ -60,6 +69,50 @@ export type StablecoinSymbol =
   | 'PYUSD'  // PayPal USD
   | 'any';   // Accept any stablecoin
 
+// ===========================================
+// Money
+// ===========================================
+
+/**
+ * A fiat amount as integer minor units (see lib/money.ts)
+ */
+export interface Money {
+  /** Amount in the currency's minor unit, e.g. cents (integer) */
+  minorUnits: number;
+  
+  /** ISO 4217 currency code, e.g. "USD" */
+  currency: string;
+}
+
+/**
+ * Exchange rate locked on an order at creation (see lib/fx)
+ * 
+ * The payment amount is derived from `amount` once and never requoted,
+ * so the customer pays what the QR showed for the order's lifetime.
+ */
+export interface FxQuote {
+  /** Currency the order is priced in */
+  fromCurrency: string;
+  
+  /** Currency the payment stablecoin is pegged to */
+  toCurrency: string;
+  
+  /** Units of toCurrency per unit of fromCurrency (decimal string) */
+  rate: string;
+  
+  /** Where the rate came from, e.g. "frankfurter", "stub" or "par" */
+  source: string;
+  
+  /** ISO timestamp (or date) the provider published the rate for */
+  rateTimestamp: string;
+  
+  /** ISO timestamp when the quote was locked */
+  quotedAt: string;
+  
+  /** Order amount converted to toCurrency */
+  amount: Money;
+}
+
 // ===========================================
 // Order Types
 // ===========================================
@@ -71,18 +124,51 @@ export interface Order {
   /** Unique order identifier (UUID) */
   orderId: string;
   
-  /** Payment amount in USD (fiat) */
-  amount: number;
+  /**
+   * Merchant that owns the order. Orders without one predate
+   * multi-merchant support and belong to the default merchant.
+   */
+  merchantId?: string;
   
-  /** Currency code (always USD for fiat amount) */
-  currency: string;
+  /** Fiat amount of the order */
+  amount: Money;
+  
+  /** Exchange rate from `amount` to the stablecoin's currency */
+  fxQuote?: FxQuote;
+  
+  /**
+   * Exact amount the customer must send, in stablecoin units
+   * (fiat amount plus a unique sub-cent suffix, e.g. "5.004217")
+   */
+  paymentAmount: string;
+  
+  /**
+   * Sub-cent suffix in 10^-6 units that makes paymentAmount unique (0 for
+   * deposit-address orders in tokens without sub-cent digits)
+   */
+  dustUnits: number;
   
   /** Stablecoin used for payment */
   stablecoin: StablecoinSymbol;
   
-  /** Merchant wallet address to receive funds */
+  /**
+   * Merchant wallet address to receive funds on the order's network
+   * (for auto-detect orders, the merchant's default address)
+   */
   merchantWalletAddress: string;
   
+  /**
+   * Receiving address per candidate network (key: network ID). Orders
+   * without one are paid to merchantWalletAddress on every network.
+   */
+  receivingAddresses?: Record<string, string>;
+  
+  /**
+   * Pool address reserved for this order while it is open (see
+   * Merchant.depositAddresses). Only this order is paid to it.
+   */
+  depositAddress?: string;
+  
   /** Current payment status */
   status: PaymentStatus;
   
@@ -103,6 +189,90 @@ export interface Order {
   
   /** Blockchain network ID for the payment */
   networkId: NetworkId;
+  
+  /**
+   * Whether the order was created against mainnets or testnets.
+   * Orders without one predate testnet mode and are mainnet orders.
+   */
+  environment?: ChainEnvironment;
+  
+  /**
+   * Block scan position per candidate network (key: network ID)
+   * Recorded at order creation and advanced by each blockchain poll
+   */
+  scanCursors?: Record<string, ScanCursor>;
+  
+  /** ISO timestamp when the order was cancelled */
+  cancelledAt?: string;
+  
+  /** Why the order was cancelled */
+  cancellationReason?: string;
+  
+  /**
+   * Total received so far, in minor units of paymentAmount (10^-6
+   * stablecoin units, see PAYMENT_AMOUNT_DECIMALS in lib/reconciliation.ts).
+   * Unset until the first transfer is attributed to the order.
+   */
+  amountReceivedUnits?: number;
+  
+  /**
+   * Balance still to be paid, in the same minor units. Transfers are
+   * matched against this amount once the order is partially paid.
+   */
+  amountDueUnits?: number;
+}
+
+/**
+ * Position of the blockchain scan for one network
+ */
+export interface ScanCursor {
+  /** Chain head when the order was created (first block scanned) */
+  startBlock: number;
+  
+  /** Last block that has been fully scanned */
+  lastScannedBlock: number;
+}
+
+/**
+ * Filters for a merchant's order history (GET /api/orders)
+ * 
+ * Results are sorted newest first; `lastKey` continues after the previous
+ * page. All filters are optional and combined with AND.
+ */
+export interface OrderQuery extends PaginationParams {
+  /** Merchant whose orders are listed */
+  merchantId: string;
+  
+  /** Only orders of this chain environment (legacy orders count as mainnet) */
+  environment: ChainEnvironment;
+  
+  /** Orders in any of these statuses */
+  statuses?: PaymentStatus[];
+  
+  /** Created at or after this time (ISO 8601) */
+  createdFrom?: string;
+  
+  /** Created at or before this time (ISO 8601) */
+  createdTo?: string;
+  
+  networkId?: NetworkId;
+  
+  stablecoin?: StablecoinSymbol;
+  
+  /** Currency the order is priced in (ISO 4217) */
+  currency?: string;
+  
+  /** Smallest order amount, in minor units of `currency` */
+  minAmount?: number;
+  
+  /** Largest order amount, in minor units of `currency` */
+  maxAmount?: number;
+  
+  /**
+   * Orders a transaction paid or refunded (looked up in the
+   * consumed-transfer index)
+   */
+  transactionHash?: string;
 }
 
 /**
@@ -111,7 +281,8 @@ export interface Order {
 export interface OrderItem {
   name: string;
   quantity: number;
-  price: number;
+  /** Unit price */
+  price: Money;
 }
 
 // ===========================================
@@ -128,18 +299,60 @@ export interface PaymentStatusRecord {
   /** Current payment status */
   status: PaymentStatus;
   
-  /** Blockchain transaction hash (if available) */
+  /**
+   * Blockchain transaction hash (if available). For orders paid in
+   * several transfers, the latest one.
+   */
   transactionHash?: string;
   
   /** Block number where transaction was confirmed */
   blockNumber?: number;
   
+  /** Hash of that block, re-checked against the canonical chain for reorgs */
+  blockHash?: string;
+  
+  /** Index of the Transfer log within the block (if known) */
+  logIndex?: number;
+  
+  /** Blocks on top of (and including) the transaction's block */
+  confirmations?: number;
+  
+  /** Confirmations the network's policy requires before completion */
+  requiredConfirmations?: number;
+  
+  /**
+   * Set when a transfer arrived for an order that can no longer accept it
+   * (e.g. cancelled); the funds must be reviewed and refunded manually
+   */
+  refundReview?: boolean;
+  
   /** Wallet address that sent the payment */
   senderAddress?: string;
   
-  /** Amount received (in stablecoin) */
+  /**
+   * Address refunds must go to instead of senderAddress (Mesh reports one
+   * for exchange payments, whose sending hot wallet can't take deposits)
+   */
+  refundAddress?: string;
+  
+  /** Total of completed refunds (in stablecoin) */
+  amountRefunded?: string;
+  
+  /**
+   * Refunds requested so far. Each new refund is written only while this
+   * is unchanged, so concurrent requests can't both spend the same funds.
+   */
+  refundCount?: number;
+  
+  /** Amount received (in stablecoin), summed over all transfers */
   amountReceived?: string;
   
+  /** Every transfer attributed to the order, oldest first */
+  transfers?: ReceivedTransfer[];
+  
+  /** Amount that was expected (in stablecoin), set when a transfer is matched */
+  expectedAmount?: string;
+  
   /** Network ID where payment was received */
   networkId?: string;
   
@@ -168,6 +381,147 @@ export interface PaymentStatusRecord {
   statusHistory?: StatusHistoryEntry[];
 }
 
+/**
+ * Identifies a single on-chain token transfer
+ */
+export interface TransferRef {
+  networkId: string;
+  transactionHash: string;
+  /** Log index of the Transfer event; omitted when the source doesn't provide it */
+  logIndex?: number;
+}
+
+/**
+ * One of the transfers that paid (part of) an order
+ */
+export interface ReceivedTransfer extends TransferRef {
+  /** Amount in stablecoin, e.g. "2.5" */
+  amount: string;
+  
+  stablecoin?: string;
+  senderAddress?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  
+  /** Confirmation depth when last checked */
+  confirmations?: number;
+  
+  /** ISO timestamp when the transfer was attributed to the order */
+  receivedAt: string;
+}
+
+/**
+ * Record in the consumed-transfer index
+ * 
+ * Each transfer can settle at most one order. The first order to claim a
+ * transfer owns it; later claims by other orders are rejected.
+ */
+export interface ConsumedTransfer extends TransferRef {
+  /** Key: `${networkId}:${transactionHash}:${logIndex ?? "*"}` (lowercase) */
+  transferKey: string;
+  
+  /** Order the transfer was attributed to */
+  orderId: string;
+  
+  /** ISO timestamp when the transfer was claimed */
+  consumedAt: string;
+}
+
+/**
+ * Reservation of a deposit pool address (see Merchant.depositAddresses)
+ * 
+ * An address is held by at most one order: it is claimed when the order
+ * is created and released when the order is no longer open.
+ */
+export interface DepositAddressClaim {
+  /** Key: the pool address (lowercase) */
+  address: string;
+  
+  /** Merchant whose pool the address belongs to */
+  merchantId: string;
+  
+  /** Order holding the address */
+  orderId: string;
+  
+  /** ISO timestamp when the address was claimed */
+  claimedAt: string;
+}
+
+/**
+ * Reservation of a payment amount at a receiving address
+ *
+ * Transfers are matched to orders by address and amount, so an open
+ * order claims its paymentAmount at every address it can be paid to.
+ * The claims are taken when the order is created and released when the
+ * order is no longer open, like deposit address claims.
+ */
+export interface PaymentAmountClaim {
+  /** Key: `${address}:${paymentAmount}` */
+  claimKey: string;
+
+  /** Receiving address (lowercase) */
+  address: string;
+
+  /** The claimed payment amount, e.g. "5.004217" */
+  paymentAmount: string;
+
+  /** Merchant the order belongs to */
+  merchantId: string;
+
+  /** Order holding the amount */
+  orderId: string;
+
+  /** ISO timestamp when the amount was claimed */
+  claimedAt: string;
+}
+
+/**
+ * Providers that deliver webhooks
+ */
+export type WebhookSource = "mesh" | "alchemy";
+
+/**
+ * Processing state of a webhook event
+ * 
+ * - received: stored, processing in progress
+ * - processed: applied; later deliveries are ignored
+ * - failed: processing threw; a redelivery is processed again
+ */
+export type WebhookEventStatus = "received" | "processed" | "failed";
+
+/**
+ * Record in the webhook event log
+ * 
+ * One record per provider event ID. Providers retry deliveries with the
+ * same ID, so the record is what makes webhook processing idempotent.
+ */
+export interface WebhookEvent {
+  /** Key: `${source}:${eventId}` */
+  eventKey: string;
+  
+  source: WebhookSource;
+  
+  /** Provider event ID (Mesh `EventId`, Alchemy `id`) */
+  eventId: string;
+  
+  status: WebhookEventStatus;
+  
+  /** Raw request body, kept for audit */
+  payload: string;
+  
+  /** Number of deliveries received for this event */
+  deliveries: number;
+  
+  /** ISO timestamp of the first delivery */
+  receivedAt: string;
+  
+  /** ISO timestamp when processing finished */
+  processedAt?: string;
+  
+  /** Error message if processing failed */
+  error?: string;
+}
+
 /**
  * Entry in the status history array
  */
@@ -175,19 +529,192 @@ export interface StatusHistoryEntry {
   status: PaymentStatus;
   timestamp: string;
   message?: string;
+  
+  /** True if the transition to `status` was refused (see lib/payment-state.ts) */
+  rejected?: boolean;
+}
+
+// ===========================================
+// Refund Types
+// ===========================================
+
+/**
+ * Lifecycle of a refund (see lib/refunds.ts)
+ * 
+ * - pending: requested; waiting for the merchant's transfer on-chain
+ * - completed: the refund transfer was found on-chain
+ * - expired: no transfer was found in time; the amount can be refunded again
+ */
+export type RefundStatus = "pending" | "completed" | "expired";
+
+/**
+ * Refund of (part of) an order's payment
+ */
+export interface Refund {
+  /** Unique refund identifier (UUID) */
+  refundId: string;
+  
+  /** Order whose payment is refunded */
+  orderId: string;
+  
+  status: RefundStatus;
+  
+  /** Amount to send back (in stablecoin), e.g. "2.5" */
+  amount: string;
+  
+  /** Stablecoin the payment was made in (and the refund is sent in) */
+  stablecoin: string;
+  
+  /** Network the payment was made on (and the refund is sent on) */
+  networkId: string;
+  
+  /** Merchant address that received the payment and sends the refund */
+  fromAddress: string;
+  
+  /** Customer address the refund is sent to */
+  toAddress: string;
+  
+  /** EIP-681 transfer request for the merchant to sign in their wallet */
+  paymentUrl: string;
+  
+  /** Why the order is refunded */
+  reason?: string;
+  
+  /**
+   * Block scan position on the refund's network, starting at the chain
+   * head when the refund was requested
+   */
+  scanCursor?: ScanCursor;
+  
+  /** Refund transaction, once found on-chain */
+  transactionHash?: string;
+  logIndex?: number;
+  blockNumber?: number;
+  
+  /** ISO timestamp when the refund was requested */
+  createdAt: string;
+  
+  /** ISO timestamp when the refund was last updated */
+  updatedAt: string;
+  
+  /** ISO timestamp when the refund transfer was found */
+  completedAt?: string;
+  
+  /** ISO timestamp when the refund expired without a transfer */
+  expiredAt?: string;
+}
+
+// ===========================================
+// Merchant Types
+// ===========================================
+
+/**
+ * Defaults applied to a merchant's orders when the request doesn't
+ * specify them
+ */
+export interface MerchantDefaults {
+  networkId?: NetworkId;
+  stablecoin?: StablecoinSymbol;
+  /** Currency the POS prices orders in (ISO 4217) */
+  currency?: string;
+}
+
+/**
+ * A store accepting payments
+ */
+export interface Merchant {
+  /** Unique merchant identifier (UUID, or "default" for the env merchant) */
+  merchantId: string;
+  
+  /** Display name shown in the POS */
+  name: string;
+  
+  /**
+   * Wallet addresses that receive the merchant's payments. New orders
+   * pay the first one; the others are still watched, so orders created
+   * before an address rotation keep settling.
+   */
+  walletAddresses: string[];
+  
+  /**
+   * Settlement address per network (key: network ID), e.g. a Safe on
+   * Ethereum and an EOA on Base. Networks without one use the first
+   * wallet address.
+   */
+  networkAddresses?: Record<string, string>;
+  
+  /**
+   * Pool of deposit addresses. When set, each order is paid to a pool
+   * address no other open order uses, so a transfer's receiving address
+   * identifies its order. Pool addresses are used on every network, so
+   * they must be able to receive on all of them (e.g. EOAs).
+   */
+  depositAddresses?: string[];
+  
+  defaults?: MerchantDefaults;
+  
+  /** ISO timestamp when the merchant was created */
+  createdAt: string;
+  
+  /** ISO timestamp when the merchant was last updated */
+  updatedAt: string;
+}
+
+/**
+ * API key that authenticates as a merchant
+ * 
+ * Keys have the form `spk_<keyId>_<secret>`; only a SHA-256 hash of
+ * the secret is stored.
+ */
+export interface MerchantApiKey {
+  /** Public part of the key, used to look it up */
+  keyId: string;
+  
+  /** Merchant the key authenticates as */
+  merchantId: string;
+  
+  /** Label, e.g. "Front counter iPad" */
+  name: string;
+  
+  /** SHA-256 hash of the secret (hex) */
+  secretHash: string;
+  
+  /** ISO timestamp when the key was issued */
+  createdAt: string;
+  
+  /** ISO timestamp when the key was revoked (revoked keys never authenticate) */
+  revokedAt?: string;
 }
 
 // ===========================================
 // API Request/Response Types
 // ===========================================
 
+/**
+ * Request to sign in to the POS
+ * POST /api/session
+ */
+export interface CreateSessionRequest {
+  /** Merchant API key */
+  apiKey: string;
+}
+
+/**
+ * Response from the session endpoint
+ */
+export interface SessionResponse {
+  success: boolean;
+  merchant?: Merchant;
+  error?: string;
+}
+
 /**
  * Request to create a new order
  * POST /api/create-order
  */
 export interface CreateOrderRequest {
-  /** Payment amount in USD */
-  amount: number;
+  /** Payment amount (a plain number is read as a USD decimal amount) */
+  amount: Money | number;
   
   /** Optional order description */
   description?: string;
@@ -195,10 +722,10 @@ export interface CreateOrderRequest {
   /** Optional order items */
   items?: OrderItem[];
   
-  /** Stablecoin to use (defaults to USDC) */
+  /** Stablecoin to use (defaults to the merchant's default, then USDC) */
   stablecoin?: StablecoinSymbol;
   
-  /** Network to use (defaults to Ethereum) */
+  /** Network to use (defaults to the merchant's default, then Base) */
   networkId?: NetworkId;
 }
 
@@ -218,6 +745,9 @@ export interface CreateOrderResponse {
 export interface GenerateQRRequest {
   /** Order ID to generate QR for */
   orderId: string;
+  
+  /** Also mint a Mesh Link token for paying from an exchange */
+  includeMeshLink?: boolean;
 }
 
 /**
@@ -241,6 +771,12 @@ export interface GenerateQRResponse {
   /** Expiration time for the QR */
   expiresAt?: string;
   
+  /**
+   * Amount the QR asks for: the order's paymentAmount, or the remaining
+   * balance of a partially paid order
+   */
+  amountDue?: string;
+  
   /** Whether auto-detect mode is enabled */
   isAutoDetect?: boolean;
   
@@ -297,6 +833,27 @@ export interface TransferPreview {
   total?: string;
 }
 
+/**
+ * Request to cancel an order
+ * POST /api/cancel-order
+ */
+export interface CancelOrderRequest {
+  /** Order ID to cancel */
+  orderId: string;
+  
+  /** Why the order is being cancelled */
+  reason?: string;
+}
+
+/**
+ * Response from cancel order endpoint
+ */
+export interface CancelOrderResponse {
+  success: boolean;
+  order?: Order;
+  error?: string;
+}
+
 /**
  * Request to check payment status
  * GET /api/check-status?orderId=xxx
@@ -316,6 +873,65 @@ export interface CheckStatusResponse {
   error?: string;
 }
 
+/**
+ * Response from the order history endpoint
+ * GET /api/orders
+ */
+export interface OrderListResponse extends Partial<PaginatedResponse<Order>> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Request to refund an order
+ * POST /api/orders/:id/refunds
+ */
+export interface CreateRefundRequest {
+  /** Amount to refund in stablecoin (default: everything not yet refunded) */
+  amount?: string;
+  
+  /** Why the order is refunded */
+  reason?: string;
+}
+
+/**
+ * Response from the create refund endpoint
+ */
+export interface RefundResponse {
+  success: boolean;
+  refund?: Refund;
+  
+  /** QR code of the refund's EIP-681 transfer request */
+  qrCodeDataUrl?: string;
+  
+  error?: string;
+}
+
+/**
+ * Response from the list refunds endpoint
+ * GET /api/orders/:id/refunds
+ */
+export interface RefundListResponse {
+  success: boolean;
+  refunds?: Refund[];
+  
+  /** The order's payment status after checking pending refunds */
+  paymentDetails?: PaymentStatusRecord;
+  
+  error?: string;
+}
+
+/**
+ * Status update streamed by GET /api/orders/:id/events (SSE event "status")
+ */
+export interface OrderStatusEvent {
+  orderId: string;
+  status: PaymentStatus;
+  paymentDetails?: PaymentStatusRecord;
+  /** ISO timestamp when the event was emitted */
+  timestamp: string;
+}
+
 // ===========================================
 // WalletConnect Types
 // ===========================================
@@ -442,6 +1058,8 @@ export interface AppConfig {
     region: string;
     ordersTableName: string;
     paymentStatusTableName: string;
+    consumedTransfersTableName: string;
+    webhookEventsTableName: string;
     secretsName: string;
   };
   mesh: {
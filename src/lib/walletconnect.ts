@@ -20,6 +20,20 @@ import type {
   StablecoinSymbol,
 } from "./types";
 import { getSecrets } from "./secrets";
+import {
+  getAmountDue,
+  getOrderReceivingAddress,
+  getPayableTokens,
+  toTokenUnits,
+} from "./reconciliation";
+import { getToken } from "./tokens";
+import {
+  CHAINS,
+  NETWORK_KEYS,
+  STABLECOINS,
+  type NetworkKey,
+  type StablecoinKey,
+} from "./chains";
 
 // ===========================================
 // Configuration
@@ -35,6 +49,19 @@ const DEFAULT_METADATA = {
   icons: ["https://avatars.githubusercontent.com/u/37784886"],
 };
 
+/**
+ * Options for payment and refund QR codes
+ */
+const QR_CODE_OPTIONS: QRCode.QRCodeToDataURLOptions = {
+  width: 400,
+  margin: 2,
+  color: {
+    dark: "#000000",
+    light: "#FFFFFF",
+  },
+  errorCorrectionLevel: "M",
+};
+
 // Cache for project ID
 let cachedProjectId: string | null = null;
 
@@ -63,176 +90,50 @@ async function getProjectId(): Promise<string> {
 }
 
 // ===========================================
-// Token Contract Addresses
+// Networks and Stablecoins
 // ===========================================
 
 /**
- * Supported networks configuration
+ * Supported networks configuration (see lib/chains.ts)
  */
-export const SUPPORTED_NETWORKS = {
-  ethereum: {
-    id: "ethereum",
-    name: "Ethereum",
-    chainId: 1,
-    explorer: "https://etherscan.io",
-    icon: "⟠",
-  },
-  polygon: {
-    id: "polygon",
-    name: "Polygon",
-    chainId: 137,
-    explorer: "https://polygonscan.com",
-    icon: "⬡",
-  },
-  arbitrum: {
-    id: "arbitrum",
-    name: "Arbitrum",
-    chainId: 42161,
-    explorer: "https://arbiscan.io",
-    icon: "🔵",
-  },
-  optimism: {
-    id: "optimism",
-    name: "Optimism",
-    chainId: 10,
-    explorer: "https://optimistic.etherscan.io",
-    icon: "🔴",
-  },
-  base: {
-    id: "base",
-    name: "Base",
-    chainId: 8453,
-    explorer: "https://basescan.org",
-    icon: "🔷",
-  },
-  avalanche: {
-    id: "avalanche",
-    name: "Avalanche",
-    chainId: 43114,
-    explorer: "https://snowtrace.io",
-    icon: "🔺",
-  },
-  bsc: {
-    id: "bsc",
-    name: "BNB Chain",
-    chainId: 56,
-    explorer: "https://bscscan.com",
-    icon: "💛",
-  },
-} as const;
+export const SUPPORTED_NETWORKS = CHAINS;
 
-export type NetworkKey = keyof typeof SUPPORTED_NETWORKS;
+export type { NetworkKey, StablecoinKey };
 
 /**
- * Supported stablecoins with their configurations
+ * Supported stablecoins with their display details
+ * 
+ * Contract addresses and decimals differ per network; see lib/tokens.ts.
  */
-export const SUPPORTED_STABLECOINS = {
-  USDC: { symbol: "USDC", name: "USD Coin", decimals: 6, icon: "💵" },
-  USDT: { symbol: "USDT", name: "Tether USD", decimals: 6, icon: "💲" },
-  DAI: { symbol: "DAI", name: "Dai", decimals: 18, icon: "◈" },
-  BUSD: { symbol: "BUSD", name: "Binance USD", decimals: 18, icon: "🟡" },
-  FRAX: { symbol: "FRAX", name: "Frax", decimals: 18, icon: "🔷" },
-  TUSD: { symbol: "TUSD", name: "TrueUSD", decimals: 18, icon: "🔵" },
-  USDP: { symbol: "USDP", name: "Pax Dollar", decimals: 18, icon: "🅿️" },
-  GUSD: { symbol: "GUSD", name: "Gemini Dollar", decimals: 2, icon: "🟩" },
-  LUSD: { symbol: "LUSD", name: "Liquity USD", decimals: 18, icon: "🟢" },
-  sUSD: { symbol: "sUSD", name: "Synthetix USD", decimals: 18, icon: "🟣" },
-  PYUSD: { symbol: "PYUSD", name: "PayPal USD", decimals: 6, icon: "🅿️" },
-  EURS: { symbol: "EURS", name: "STASIS Euro", decimals: 2, icon: "€" },
-  EURT: { symbol: "EURT", name: "Tether Euro", decimals: 6, icon: "€" },
-  USDD: { symbol: "USDD", name: "USDD", decimals: 18, icon: "🔶" },
-} as const;
-
-export type StablecoinKey = keyof typeof SUPPORTED_STABLECOINS;
-
-/**
- * Comprehensive token contract addresses by network and stablecoin
- */
-export const TOKEN_CONTRACTS: Record<NetworkKey, Partial<Record<string, string>>> = {
-  ethereum: {
-    USDC: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-    USDT: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
-    DAI: "0x6B175474E89094C44Da98b954EescdeCB5BC8F2",
-    FRAX: "0x853d955aCEf822Db058eb8505911ED77F175b99e",
-    TUSD: "0x0000000000085d4780B73119b644AE5ecd22b376",
-    USDP: "0x8E870D67F660D95d5be530380D0eC0bd388289E1",
-    GUSD: "0x056Fd409E1d7A124BD7017459dFEa2F387b6d5Cd",
-    LUSD: "0x5f98805A4E8be255a32880FDeC7F6728C6568bA0",
-    sUSD: "0x57Ab1ec28D129707052df4dF418D58a2D46d5f51",
-    PYUSD: "0x6c3ea9036406852006290770BEdFcAbA0e23A0e8",
-    EURS: "0xdB25f211AB05b1c97D595516F45D7628d50CF763",
-    EURT: "0xC581b735A1688071A1746c968e0798D642EDE491",
-  },
-  polygon: {
-    USDC: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", // Native USDC
-    USDT: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
-    DAI: "0x8f3Cf7ad23Cd3CaDbD9735AFf958023239c6A063",
-    FRAX: "0x45c32fA6DF82ead1e2EF74d17b76547EDdFaFF89",
-    TUSD: "0x2e1AD108fF1D8C782fcBbB89AAd783aC49586756",
-    EURS: "0xE111178A87A3BFf0c8d18DECBa5798827539Ae99",
-  },
-  arbitrum: {
-    USDC: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", // Native USDC
-    USDT: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
-    DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
-    FRAX: "0x17FC002b466eEc40DaE837Fc4bE5c67993ddBd6F",
-    LUSD: "0x93b346b6BC2548dA6A1E7d98E9a421B42541425b",
-  },
-  optimism: {
-    USDC: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", // Native USDC
-    USDT: "0x94b008aA00579c1307B0EF2c499aD98a8ce58e58",
-    DAI: "0xDA10009cBd5D07dd0CeCc66161FC93D7c9000da1",
-    FRAX: "0x2E3D870790dC77A83DD1d18184Acc7439A53f475",
-    LUSD: "0xc40F949F8a4e094D1b49a23ea9241D289B7b2819",
-    sUSD: "0x8c6f28f2F1A3C87F0f938b96d27520d9751ec8d9",
-  },
-  base: {
-    USDC: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // Native USDC
-    DAI: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
-  },
-  avalanche: {
-    USDC: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", // Native USDC
-    USDT: "0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7",
-    DAI: "0xd586E7F844cEa2F87f50152665BCbc2C279D8d70",
-    TUSD: "0x1C20E891Bab6b1727d14Da358FAe2984Ed9B59EB",
-  },
-  bsc: {
-    USDC: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d",
-    USDT: "0x55d398326f99059fF775485246999027B3197955",
-    DAI: "0x1AF3F329e8BE154074D8769D1FFa4eE058B1DBc3",
-    BUSD: "0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56",
-    TUSD: "0x14016E85a25aeb13065688cAFB43044C2ef86784",
-    USDD: "0xd17479997F34dd9156Deef8F95A52D81D265be9c",
-  },
-};
+export const SUPPORTED_STABLECOINS = STABLECOINS;
 
 /**
  * Legacy USDC contracts mapping (for backward compatibility)
+ * 
+ * Keyed by network ID, and by Mesh network UUID for verified networks.
  */
-export const USDC_CONTRACTS: Record<string, string> = {
-  "e3c7fdd8-b1fc-4e51-85ae-bb276e075611": TOKEN_CONTRACTS.ethereum.USDC!,
-  "7436e9d0-ba42-4d2b-b4c0-8e4e606b2c12": TOKEN_CONTRACTS.polygon.USDC!,
-  "arbitrum": TOKEN_CONTRACTS.arbitrum.USDC!,
-  "optimism": TOKEN_CONTRACTS.optimism.USDC!,
-  "base": TOKEN_CONTRACTS.base.USDC!,
-  "ethereum": TOKEN_CONTRACTS.ethereum.USDC!,
-  "polygon": TOKEN_CONTRACTS.polygon.USDC!,
-};
+export const USDC_CONTRACTS: Record<string, string> = Object.fromEntries(
+  Object.values(CHAINS).flatMap((chain) => {
+    const usdc = chain.tokens.USDC;
+    if (!usdc) return [];
+    return chain.meshNetworkId
+      ? [[chain.meshNetworkId, usdc.address], [chain.id, usdc.address]]
+      : [[chain.id, usdc.address]];
+  })
+);
 
 /**
  * Chain IDs for supported networks
+ * 
+ * Keyed by network ID, and by Mesh network UUID for verified networks.
  */
-export const CHAIN_IDS: Record<string, number> = {
-  "e3c7fdd8-b1fc-4e51-85ae-bb276e075611": 1, // Ethereum Mainnet
-  "7436e9d0-ba42-4d2b-b4c0-8e4e606b2c12": 137, // Polygon
-  "arbitrum": 42161,
-  "optimism": 10,
-  "base": 8453,
-  "avalanche": 43114,
-  "bsc": 56,
-  "ethereum": 1,
-  "polygon": 137,
-};
+export const CHAIN_IDS: Record<string, number> = Object.fromEntries(
+  Object.values(CHAINS).flatMap((chain) =>
+    chain.meshNetworkId
+      ? [[chain.meshNetworkId, chain.chainId], [chain.id, chain.chainId]]
+      : [[chain.id, chain.chainId]]
+  )
+);
 
 // ===========================================
 // QR Code Generation
@@ -247,16 +148,20 @@ export const CHAIN_IDS: Record<string, number> = {
  * For auto-detect mode, generates a universal payment request that accepts
  * the most common stablecoins across multiple networks.
  * 
+ * The QR pays the order's receiving address on the QR's network (see
+ * lib/reconciliation.ts). It asks for the amount due: the full payment
+ * amount, or the remaining balance once the order is partially paid, so
+ * the same call produces the follow-up QR for a top-up.
+ * 
  * @param order - The order details
- * @param merchantAddress - Merchant's wallet address
  * @returns Object containing QR code data URL and payment URL
  */
 export async function generatePaymentQR(
-  order: Order,
-  merchantAddress: string
+  order: Order
 ): Promise<{
   qrCodeDataUrl: string;
   paymentUrl: string;
+  amountDue: string;
   expiresAt: string;
   isAutoDetect: boolean;
   supportedOptions?: { network: string; stablecoin: string; chainId: number }[];
@@ -289,27 +194,26 @@ export async function generatePaymentQR(
   const network = SUPPORTED_NETWORKS[networkId] || SUPPORTED_NETWORKS.base;
   const chainId = network.chainId;
   
-  // Get token contract address
-  const tokenContracts = TOKEN_CONTRACTS[networkId] || TOKEN_CONTRACTS.base;
-  let tokenContract = tokenContracts[stablecoin];
+  // Get token contract
+  let token = getToken(network.id, stablecoin);
   
   // Fallback to USDC if selected stablecoin not available on this network
-  if (!tokenContract) {
-    tokenContract = tokenContracts["USDC"];
+  if (!token) {
+    token = getToken(network.id, "USDC");
     stablecoin = "USDC";
     console.log(`[WalletConnect] ${order.stablecoin} not available on ${network.name}, using USDC`);
   }
   
-  if (!tokenContract) {
+  if (!token) {
     throw new Error(`No stablecoins available on ${network.name}`);
   }
-  
-  // Get token decimals
-  const tokenConfig = SUPPORTED_STABLECOINS[stablecoin as StablecoinKey];
-  const decimals = tokenConfig?.decimals || 6;
 
-  // Convert amount to token units based on decimals
-  const tokenAmount = BigInt(Math.floor(order.amount * Math.pow(10, decimals))).toString();
+  const merchantAddress = getOrderReceivingAddress(order, network.id);
+
+  // Convert the exact amount due (including its unique sub-cent suffix)
+  // to token units of this contract, so reconciliation can match it exactly
+  const amountDue = getAmountDue(order);
+  const tokenAmount = toTokenUnits(amountDue, token.decimals).toString();
 
   // Build ERC20 transfer data
   const transferData = buildERC20TransferData(merchantAddress, tokenAmount);
@@ -317,7 +221,7 @@ export async function generatePaymentQR(
   // Create WalletConnect Pay URL (EIP-681 compatible)
   const paymentUrl = buildPaymentUrl({
     chainId,
-    contractAddress: tokenContract,
+    contractAddress: token.address,
     merchantAddress,
     amount: tokenAmount,
     orderId: order.orderId,
@@ -327,21 +231,13 @@ export async function generatePaymentQR(
   console.log(`[WalletConnect] Generated payment URL for ${stablecoin} on ${network.name}: ${paymentUrl}`);
   
   // Build list of supported options for auto-detect mode
-  const supportedOptions = isAutoDetect ? buildSupportedOptions(merchantAddress, order.amount) : undefined;
+  const supportedOptions = isAutoDetect ? buildSupportedOptions(order) : undefined;
   if (supportedOptions) {
     console.log(`[WalletConnect] Auto-detect mode: ${supportedOptions.length} payment options available`);
   }
 
   // Generate QR code
-  const qrCodeDataUrl = await QRCode.toDataURL(paymentUrl, {
-    width: 400,
-    margin: 2,
-    color: {
-      dark: "#000000",
-      light: "#FFFFFF",
-    },
-    errorCorrectionLevel: "M",
-  });
+  const qrCodeDataUrl = await QRCode.toDataURL(paymentUrl, QR_CODE_OPTIONS);
 
   // Set expiration (15 minutes from now)
   const expiresAt = new Date(Date.now() + 15 * 60 * 1000).toISOString();
@@ -349,6 +245,7 @@ export async function generatePaymentQR(
   return {
     qrCodeDataUrl,
     paymentUrl,
+    amountDue,
     expiresAt,
     isAutoDetect,
     supportedOptions,
@@ -357,36 +254,71 @@ export async function generatePaymentQR(
 
 /**
  * Build a list of all supported payment options for auto-detect mode
+ * 
+ * Tokens too coarse for the order's exact amount are left out (see
+ * getPayableTokens in lib/reconciliation.ts).
  */
 function buildSupportedOptions(
-  merchantAddress: string,
-  amount: number
+  order: Order
 ): { network: string; stablecoin: string; chainId: number }[] {
   const options: { network: string; stablecoin: string; chainId: number }[] = [];
   
   // Priority order for networks (by fees and speed)
-  const networkPriority: NetworkKey[] = ["base", "polygon", "arbitrum", "optimism", "avalanche", "bsc", "ethereum"];
-  
-  for (const networkId of networkPriority) {
+  for (const networkId of NETWORK_KEYS) {
     const network = SUPPORTED_NETWORKS[networkId];
-    const contracts = TOKEN_CONTRACTS[networkId];
-    
-    if (!network || !contracts) continue;
+    if (!network) continue;
     
-    for (const [stablecoin, contract] of Object.entries(contracts)) {
-      if (contract) {
-        options.push({
-          network: network.name,
-          stablecoin,
-          chainId: network.chainId,
-        });
-      }
+    for (const token of getPayableTokens(order, networkId)) {
+      options.push({
+        network: network.name,
+        stablecoin: token.symbol,
+        chainId: network.chainId,
+      });
     }
   }
   
   return options;
 }
 
+// ===========================================
+// Transfer Requests
+// ===========================================
+
+/**
+ * Generate an EIP-681 request to send a stablecoin amount to an address
+ * 
+ * Used for refunds (lib/refunds.ts): the merchant scans the QR code with
+ * the wallet that holds the funds and signs the transfer.
+ * 
+ * @param params - Network, stablecoin, recipient and amount (e.g. "2.5")
+ * @returns Object containing the transfer URL and its QR code data URL
+ */
+export async function generateTransferRequest(params: {
+  networkId: string;
+  stablecoin: string;
+  toAddress: string;
+  amount: string;
+}): Promise<{ paymentUrl: string; qrCodeDataUrl: string }> {
+  const { networkId, stablecoin, toAddress, amount } = params;
+
+  const network = SUPPORTED_NETWORKS[networkId as NetworkKey];
+  const token = getToken(networkId, stablecoin);
+  if (!network || !token) {
+    throw new Error(`${stablecoin} is not supported on ${networkId}`);
+  }
+
+  const paymentUrl = buildTransferUrl({
+    chainId: network.chainId,
+    contractAddress: token.address,
+    recipient: toAddress,
+    amount: toTokenUnits(amount, token.decimals).toString(),
+  });
+  const qrCodeDataUrl = await QRCode.toDataURL(paymentUrl, QR_CODE_OPTIONS);
+
+  console.log(`[WalletConnect] Generated transfer URL for ${amount} ${stablecoin} on ${network.name}: ${paymentUrl}`);
+  return { paymentUrl, qrCodeDataUrl };
+}
+
 // ===========================================
 // Payment URL Building
 // ===========================================
@@ -419,9 +351,12 @@ function buildPaymentUrl(params: PaymentUrlParams): string {
     projectId,
   } = params;
 
-  // EIP-681 format for ERC20 transfer
-  // ethereum:<contract_address>@<chain_id>/transfer?address=<recipient>&uint256=<amount>
-  const eip681Url = `ethereum:${contractAddress}@${chainId}/transfer?address=${merchantAddress}&uint256=${amount}`;
+  const eip681Url = buildTransferUrl({
+    chainId,
+    contractAddress,
+    recipient: merchantAddress,
+    amount,
+  });
 
   // Wrap with WalletConnect universal link for broader compatibility
   // This allows the URL to work with the WalletConnect modal as well
@@ -434,6 +369,22 @@ function buildPaymentUrl(params: PaymentUrlParams): string {
   return eip681Url;
 }
 
+/**
+ * Build an EIP-681 URL for an ERC20 transfer
+ * 
+ * @param params - Chain, token contract, recipient and amount in token units
+ * @returns ethereum:<contract_address>@<chain_id>/transfer?address=<recipient>&uint256=<amount>
+ */
+function buildTransferUrl(params: {
+  chainId: number;
+  contractAddress: string;
+  recipient: string;
+  amount: string;
+}): string {
+  const { chainId, contractAddress, recipient, amount } = params;
+  return `ethereum:${contractAddress}@${chainId}/transfer?address=${recipient}&uint256=${amount}`;
+}
+
 /**
  * Build ERC20 transfer function data
  * 
@@ -0,0 +1,494 @@
+/**
+ * ===========================================
+ * Background Payment Watcher
+ * ===========================================
+ *
+ * Settles on-chain payments without waiting for the POS to poll
+ * /api/check-status. Each cycle:
+ *
+ * 1. Expires pending (partially paid, reorged) orders that ran out of time
+ * 2. Refreshes confirmation depth of `confirming` payments
+ * 3. Scans every open order's networks for incoming transfers
+ * 4. Scans for the transfers of pending refunds (lib/refunds.ts)
+ * 5. Re-verifies recently settled payments against the canonical chain
+ *    and reverts reorged ones (lib/reorg.ts)
+ *
+ * Orders and payments are loaded by status (see getOrdersByStatus), so a
+ * cycle only reads the records it works on, never the whole store.
+ *
+ * Orders paid to the same address on the same network share one scan
+ * (an order's address can differ per network, see lib/reconciliation.ts):
+ * eth_getLogs runs once from the oldest order's cursor, and each
+ * transfer is matched against the orders whose cursor covers its block.
+ * Results are written through lib/dynamo.ts, so claims, the payment state
+ * machine and status events apply exactly as they do for client polls.
+ *
+ * Run it in-process with startWatcher(), or as its own Node process with
+ * `npm run watcher` (scripts/payment-watcher.ts). A separate process needs
+ * shared storage (file or dynamodb backend).
+ */
+
+import {
+  getOrdersByStatus,
+  getPaymentStatus,
+  getPaymentStatusesByStatus,
+  isTransferConsumed,
+  scanRefunds,
+  TransferAlreadyConsumedError,
+  updateOrder,
+} from "./dynamo";
+import {
+  advanceScanCursors,
+  getScanFromBlocks,
+  getScanNetworks,
+  scanTransfers,
+  type ScannedRange,
+  type TransferEvent,
+} from "./blockchain";
+import { flagLatePayment, LATE_PAYMENT_WINDOW_MS } from "./cancellation";
+import { InvalidStatusTransitionError } from "./payment-state";
+import { getOrderReceivingAddress, matchTransferToOrders } from "./reconciliation";
+import { checkRecentSettlements } from "./reorg";
+import { checkRefund } from "./refunds";
+import {
+  EXPIRABLE_STATUSES,
+  expireOrder,
+  settleTransfer,
+  updateConfirmations,
+} from "./settlement";
+import type { Order, PaymentStatus } from "./types";
+
+// ===========================================
+// Configuration
+// ===========================================
+
+/** Default delay between the end of one cycle and the start of the next */
+export const DEFAULT_WATCHER_INTERVAL_MS = 10000;
+
+/** Statuses in which an order is scanned for its payment */
+const SCANNABLE_STATUSES: PaymentStatus[] = [
+  "pending",
+  "scanning",
+  // Mesh transfers that succeeded without a verifiable report
+  "processing",
+  "reorged",
+  "partially_paid",
+];
+
+// ===========================================
+// Types
+// ===========================================
+
+/**
+ * Summary returned by runWatcherCycle
+ */
+export interface WatcherCycleSummary {
+  /** Orders that were scanned */
+  orders: number;
+  /** eth_getLogs scans made (one per receiving address and network) */
+  scans: number;
+  /** Orders a transfer was attributed to (once per transfer) */
+  matched: string[];
+  /** Orders flagged for a payment received after cancellation */
+  latePayments: string[];
+  /** Orders whose confirmation status changed */
+  confirmed: string[];
+  /** Refunds whose transfer was found */
+  refunds: string[];
+  /** Orders whose settling transfer left the canonical chain */
+  reorged: string[];
+  expired: string[];
+  errors: string[];
+}
+
+/**
+ * Open orders paid to one address on one network
+ */
+interface ScanGroup {
+  receivingAddress: string;
+  networkId: string;
+  /** Orders with the first block each one accepts transfers from */
+  orders: Array<{ order: Order; fromBlock?: number; latePayment: boolean }>;
+}
+
+/**
+ * Handle returned by startWatcher
+ */
+export interface WatcherHandle {
+  /** Stop scheduling cycles (a running cycle finishes first) */
+  stop: () => void;
+}
+
+// ===========================================
+// Order Selection
+// ===========================================
+
+/**
+ * Load the orders to scan for an incoming transfer
+ *
+ * Cancelled orders are scanned until a late payment is flagged, for
+ * LATE_PAYMENT_WINDOW_MS after they were created.
+ */
+async function loadScannableOrders(): Promise<Order[]> {
+  const lateSince = new Date(Date.now() - LATE_PAYMENT_WINDOW_MS).toISOString();
+  const [open, cancelled] = await Promise.all([
+    getOrdersByStatus(SCANNABLE_STATUSES),
+    getOrdersByStatus(["cancelled"], lateSince),
+  ]);
+
+  const awaitingLatePayment: Order[] = [];
+  for (const order of cancelled) {
+    if (!order.cancelledAt) continue;
+    const payment = await getPaymentStatus(order.orderId);
+    if (!payment?.refundReview) {
+      awaitingLatePayment.push(order);
+    }
+  }
+
+  return [...open, ...awaitingLatePayment];
+}
+
+/**
+ * Group scannable orders by network and receiving address
+ */
+function buildScanGroups(orders: Order[]): ScanGroup[] {
+  const groups = new Map<string, ScanGroup>();
+
+  for (const order of orders) {
+    const fromBlocks = getScanFromBlocks(order.scanCursors);
+
+    for (const networkId of getScanNetworks(order.networkId)) {
+      const receivingAddress = getOrderReceivingAddress(order, networkId).toLowerCase();
+      const key = `${networkId}:${receivingAddress}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { receivingAddress, networkId, orders: [] };
+        groups.set(key, group);
+      }
+      group.orders.push({
+        order,
+        fromBlock: fromBlocks[networkId],
+        latePayment: order.status === "cancelled",
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * First block to scan for a group: the oldest cursor among its orders
+ *
+ * Orders without a cursor on the network (their RPC was down at
+ * creation) accept any transfer in the scanned window.
+ */
+function getGroupFromBlock(group: ScanGroup): number | undefined {
+  const fromBlocks = group.orders
+    .map((entry) => entry.fromBlock)
+    .filter((block): block is number => block !== undefined);
+  return fromBlocks.length > 0 ? Math.min(...fromBlocks) : undefined;
+}
+
+// ===========================================
+// Cycle Steps
+// ===========================================
+
+/**
+ * Expire pending, partially paid and reorged orders past their expiry time
+ */
+async function expireOrders(summary: WatcherCycleSummary): Promise<void> {
+  const now = new Date();
+  for (const order of await getOrdersByStatus(EXPIRABLE_STATUSES)) {
+    if (new Date(order.expiresAt) >= now) continue;
+
+    try {
+      const updated = await expireOrder(order);
+      order.status = updated.status;
+      summary.expired.push(order.orderId);
+    } catch (error) {
+      console.warn(`[Watcher] Could not expire order ${order.orderId}:`, error);
+      summary.errors.push(order.orderId);
+    }
+  }
+}
+
+/**
+ * Refresh confirmation depth of every transfer of a confirming payment
+ */
+async function confirmPayments(summary: WatcherCycleSummary): Promise<void> {
+  for (const record of await getPaymentStatusesByStatus(["confirming"])) {
+    try {
+      const updated = await updateConfirmations(record);
+      if (updated.status !== record.status) {
+        console.log(`[Watcher] Order ${record.orderId}: ${record.status} -> ${updated.status}`);
+        summary.confirmed.push(record.orderId);
+      }
+    } catch (error) {
+      console.warn(`[Watcher] Could not check confirmations for ${record.orderId}:`, error);
+      summary.errors.push(record.orderId);
+    }
+  }
+}
+
+/**
+ * Look for the transfer of every pending refund
+ */
+async function checkRefunds(summary: WatcherCycleSummary): Promise<void> {
+  for (const refund of await scanRefunds("pending")) {
+    try {
+      const checked = await checkRefund(refund);
+      if (checked.status === "completed") {
+        summary.refunds.push(refund.refundId);
+      }
+    } catch (error) {
+      console.warn(`[Watcher] Could not check refund ${refund.refundId}:`, error);
+      summary.errors.push(refund.orderId);
+    }
+  }
+}
+
+/**
+ * Re-verify recently settled payments and revert reorged ones
+ */
+async function checkReorgs(summary: WatcherCycleSummary): Promise<void> {
+  try {
+    const result = await checkRecentSettlements();
+    summary.reorged.push(...result.reorged);
+    summary.errors.push(...result.errors);
+  } catch (error) {
+    console.warn("[Watcher] Could not re-verify recent settlements:", error);
+  }
+}
+
+/**
+ * Attribute one transfer to an order in the group, if any fits
+ *
+ * A partially paid order stays a candidate for the group's later
+ * transfers, matched against its new balance.
+ *
+ * @param settled - Orders already paid in full this cycle (skipped, updated here)
+ */
+async function applyTransfer(
+  group: ScanGroup,
+  transfer: TransferEvent,
+  settled: Set<string>,
+  summary: WatcherCycleSummary
+): Promise<void> {
+  // Only orders that existed when the transfer was mined can claim it
+  const candidates = group.orders.filter(
+    (entry) =>
+      !settled.has(entry.order.orderId) &&
+      (entry.fromBlock === undefined || entry.fromBlock <= transfer.blockNumber)
+  );
+  const receivedUnits = BigInt(transfer.rawAmount);
+
+  const open = candidates.filter((entry) => !entry.latePayment).map((entry) => entry.order);
+  const late = candidates.filter((entry) => entry.latePayment).map((entry) => entry.order);
+
+  // Payable orders first; a cancelled order only gets what no open one takes
+  const result =
+    matchTransferToOrders(open, receivedUnits, transfer.decimals) ??
+    matchTransferToOrders(late, receivedUnits, transfer.decimals);
+  if (!result) {
+    return;
+  }
+
+  // A transfer that already settled another order can't pay this one
+  if (await isTransferConsumed(transfer, result.order.orderId)) {
+    console.log(`[Watcher] Skipping consumed transfer: ${transfer.transactionHash}`);
+    return;
+  }
+
+  const { order, match } = result;
+
+  try {
+    if (order.status === "cancelled") {
+      // Paid after cancellation: keep it cancelled, flag for refund
+      await flagLatePayment(order, {
+        networkId: transfer.networkId,
+        transactionHash: transfer.transactionHash,
+        logIndex: transfer.logIndex,
+        blockNumber: transfer.blockNumber,
+        blockHash: transfer.blockHash,
+        senderAddress: transfer.from,
+        stablecoin: transfer.tokenSymbol,
+        amountReceived: transfer.amount,
+      });
+      summary.latePayments.push(order.orderId);
+    } else {
+      console.log(
+        `[Watcher] ${transfer.amount} ${transfer.tokenSymbol} on ${transfer.networkId} -> order ${order.orderId} (${match})`
+      );
+      const { order: updated } = await settleTransfer(order, transfer);
+      summary.matched.push(order.orderId);
+
+      // Every group holding this order sees the new balance
+      Object.assign(order, updated);
+      if (updated.status === "partially_paid") {
+        return;
+      }
+    }
+    settled.add(order.orderId);
+  } catch (error) {
+    if (
+      error instanceof TransferAlreadyConsumedError ||
+      error instanceof InvalidStatusTransitionError
+    ) {
+      console.warn(`[Watcher] ${error.message}, leaving order ${order.orderId} open`);
+    } else {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Scan one receiving address on one network and settle what was found
+ *
+ * @returns Blocks covered, for advancing the orders' cursors
+ */
+async function scanGroup(
+  group: ScanGroup,
+  settled: Set<string>,
+  summary: WatcherCycleSummary
+): Promise<ScannedRange | undefined> {
+  const result = await scanTransfers(
+    group.receivingAddress,
+    group.networkId,
+    getGroupFromBlock(group)
+  );
+  summary.scans++;
+
+  if (result.error) {
+    console.warn(`[Watcher] Scan of ${group.networkId} for ${group.receivingAddress} failed: ${result.error}`);
+    return undefined;
+  }
+
+  // Oldest first, so each order gets the first transfer that pays it
+  for (const transfer of result.transfers) {
+    await applyTransfer(group, transfer, settled, summary);
+  }
+
+  return result.scanned;
+}
+
+// ===========================================
+// Watcher
+// ===========================================
+
+/**
+ * Run one watcher cycle over all open orders
+ *
+ * Errors for individual orders or networks are logged and reported in
+ * the summary; the cycle carries on with the rest.
+ */
+export async function runWatcherCycle(): Promise<WatcherCycleSummary> {
+  const summary: WatcherCycleSummary = {
+    orders: 0,
+    scans: 0,
+    matched: [],
+    latePayments: [],
+    confirmed: [],
+    refunds: [],
+    reorged: [],
+    expired: [],
+    errors: [],
+  };
+
+  await expireOrders(summary);
+  await confirmPayments(summary);
+
+  // Loaded after expiry, so expired orders are no longer scanned
+  const orders = await loadScannableOrders();
+  const groups = buildScanGroups(orders);
+  summary.orders = new Set(
+    groups.flatMap((group) => group.orders.map((entry) => entry.order.orderId))
+  ).size;
+  console.log(`[Watcher] Scanning ${summary.orders} open orders in ${groups.length} groups`);
+
+  const settled = new Set<string>();
+  const scannedByOrder = new Map<string, Record<string, ScannedRange>>();
+
+  for (const group of groups) {
+    try {
+      const scanned = await scanGroup(group, settled, summary);
+      if (!scanned) continue;
+
+      // Every order whose window the scan reached moves its cursor forward
+      for (const { order, fromBlock } of group.orders) {
+        if (fromBlock !== undefined && fromBlock > scanned.toBlock) continue;
+        const ranges = scannedByOrder.get(order.orderId) || {};
+        ranges[group.networkId] = scanned;
+        scannedByOrder.set(order.orderId, ranges);
+      }
+    } catch (error) {
+      console.error(`[Watcher] Error scanning ${group.networkId} for ${group.receivingAddress}:`, error);
+      summary.errors.push(...group.orders.map((entry) => entry.order.orderId));
+    }
+  }
+
+  // Persist scan progress so neither the watcher nor check-status
+  // rescans the same blocks
+  const ordersById = new Map(orders.map((order) => [order.orderId, order]));
+  for (const [orderId, ranges] of scannedByOrder) {
+    const order = ordersById.get(orderId);
+    if (!order) continue;
+    try {
+      await updateOrder(orderId, {
+        scanCursors: advanceScanCursors(order.scanCursors, ranges),
+      });
+    } catch (error) {
+      console.warn(`[Watcher] Could not save scan cursors for ${orderId}:`, error);
+    }
+  }
+
+  await checkRefunds(summary);
+  await checkReorgs(summary);
+
+  return summary;
+}
+
+/**
+ * Run watcher cycles on a schedule
+ *
+ * Cycles never overlap: the next one is scheduled when the previous one
+ * finishes.
+ *
+ * @param intervalMs - Delay between cycles
+ * @returns Handle to stop the watcher
+ */
+export function startWatcher(intervalMs: number = DEFAULT_WATCHER_INTERVAL_MS): WatcherHandle {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      const summary = await runWatcherCycle();
+      if (
+        summary.matched.length ||
+        summary.latePayments.length ||
+        summary.confirmed.length ||
+        summary.refunds.length ||
+        summary.reorged.length ||
+        summary.expired.length
+      ) {
+        console.log("[Watcher] Cycle complete:", summary);
+      }
+    } catch (error) {
+      console.error("[Watcher] Cycle failed:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs);
+    }
+  };
+
+  console.log(`[Watcher] Started (every ${intervalMs}ms)`);
+  void tick();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      console.log("[Watcher] Stopped");
+    },
+  };
+}